@@ -9,17 +9,20 @@ const createTestRequest = (url: string, method: string = 'GET'): NextRequest =>
 
 
 const mockListMonthlyTabs = vi.fn();
-const mockGetSheetData = vi.fn();
-const mockCleanMechanicalPlanData = vi.fn();
+const mockGetMonthlySnapshotRows = vi.fn();
 
 vi.mock('@/lib/googleSheets', () => ({
   GoogleSheetsService: vi.fn().mockImplementation(() => ({
     listMonthlyTabs: mockListMonthlyTabs,
-    getSheetData: mockGetSheetData,
-    cleanMechanicalPlanData: mockCleanMechanicalPlanData,
   }))
 }));
 
+vi.mock('@/services/sheets-repository', () => ({
+  sheetsRepository: {
+    getMonthlySnapshotRows: (...args: unknown[]) => mockGetMonthlySnapshotRows(...args),
+  }
+}));
+
 // Import the route handler AFTER mocking dependencies
 import { GET } from '@/app/api/monthly/[yearMonth]/route';
 
@@ -27,7 +30,6 @@ describe('/api/monthly/[yearMonth]', () => {
   beforeEach(() => {
     // Reset all mocks before each test
     vi.clearAllMocks();
-    mockCleanMechanicalPlanData.mockImplementation((data) => data);
   });
 
   afterEach(() => {
@@ -46,7 +48,7 @@ describe('/api/monthly/[yearMonth]', () => {
     
     // Verify no service methods were called with invalid params
     expect(mockListMonthlyTabs).toHaveBeenCalled();
-    expect(mockGetSheetData).not.toHaveBeenCalled();
+    expect(mockGetMonthlySnapshotRows).not.toHaveBeenCalled();
   });
 
   it('returns snapshot with summary for a valid month', async () => {
@@ -59,7 +61,7 @@ describe('/api/monthly/[yearMonth]', () => {
       index: 0
     }]);
     
-    mockGetSheetData.mockResolvedValueOnce([
+    mockGetMonthlySnapshotRows.mockResolvedValueOnce([
       { ID: '1', CurrentProgressPct: 50, ManpowerTotal: 10, Status: 'On Track' }
     ]);
     
@@ -74,7 +76,7 @@ describe('/api/monthly/[yearMonth]', () => {
     
     // Verify service methods were called with correct parameters
     expect(mockListMonthlyTabs).toHaveBeenCalledTimes(1);
-    expect(mockGetSheetData).toHaveBeenCalledTimes(1);
+    expect(mockGetMonthlySnapshotRows).toHaveBeenCalledTimes(1);
     
     const body = await res.json();
     
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { compareToBaseline } from '@/services/baseline-variance';
+import type { EnhancedMechanicalPlanRow } from '@/types';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+const current = (id: string, area: string, activity: string, location: string, start: string, finish: string): EnhancedMechanicalPlanRow => ({
+  id,
+  areaBuilding: area,
+  locationRoomLevel: location,
+  mechanicalActivitySystem: activity,
+  originalDurationDays: null,
+  currentProgressPercentage: 0,
+  keyPredecessorActivity: null,
+  predecessorFinishDateString: null,
+  predecessorFinishTimestamp: null,
+  calculatedStartDateString: start,
+  calculatedStartTimestamp: day(start),
+  calculatedFinishDateString: finish,
+  calculatedFinishTimestamp: day(finish),
+  remarksJustification: null,
+  actualStatus: 'Not Started',
+});
+
+describe('compareToBaseline', () => {
+  const baseline = [
+    { AreaOrBuilding: 'Control Building', MechanicalActivity: 'HVAC Ducting', SpecificLocation: 'Ground Floor', CalculatedStartDate: '2025-07-01', CalculatedFinishDate: '2025-07-10' },
+    { AreaOrBuilding: 'Control Building', MechanicalActivity: 'HVAC Ducting', SpecificLocation: 'First Floor', CalculatedStartDate: '2025-07-11', CalculatedFinishDate: '2025-07-20' },
+    { AreaOrBuilding: 'GIS Building', MechanicalActivity: 'Firefighting', SpecificLocation: 'Ground Floor', CalculatedStartDate: '2025-07-01', CalculatedFinishDate: '2025-07-15' },
+  ];
+  const plan = [
+    current('1', 'control building', 'HVAC  Ducting', 'First Floor', '2025-07-14', '2025-07-25'),
+    current('2', 'Control Building', 'HVAC Ducting', 'Ground Floor', '2025-07-01', '2025-07-10'),
+    current('3', 'GIS Building', 'Firefighting', 'Ground Floor', '2025-06-28', '2025-07-12'),
+    current('4', 'GIS Building', 'Fire Alarm', 'Ground Floor', '2025-07-01', '2025-07-05'),
+  ];
+  const result = compareToBaseline('2025-07', plan, baseline);
+
+  it('matches repeated activities by location and reports slippage in days', () => {
+    expect(result.byActivityId.get('1')).toMatchObject({ baselineStart: '2025-07-11', baselineFinish: '2025-07-20', startSlipDays: 3, finishSlipDays: 5, slipped: true });
+    expect(result.byActivityId.get('2')).toMatchObject({ finishSlipDays: 0, slipped: false });
+    expect(result.byActivityId.get('3')).toMatchObject({ finishSlipDays: -3, slipped: false });
+  });
+
+  it('flags activities added since the baseline', () => {
+    expect(result.byActivityId.get('4')).toMatchObject({ inBaseline: false, baselineFinish: null, slipped: false });
+    expect(result.addedCount).toBe(1);
+  });
+
+  it('summarizes slipped activities', () => {
+    expect(result.slippedCount).toBe(1);
+    expect(result.maxFinishSlipDays).toBe(5);
+  });
+
+  it('takes each activity from the latest snapshot day of the baseline tab', () => {
+    const daily = [
+      { SnapshotDate: '2025-07-28', AreaOrBuilding: 'GIS Building', MechanicalActivity: 'Firefighting', CalculatedStartDate: '2025-07-03', CalculatedFinishDate: '2025-07-18' },
+      { SnapshotDate: '2025-07-01', AreaOrBuilding: 'GIS Building', MechanicalActivity: 'Firefighting', CalculatedStartDate: '2025-07-01', CalculatedFinishDate: '2025-07-15' },
+    ];
+    const variance = compareToBaseline('2025-07', [plan[2]], daily).byActivityId.get('3');
+    expect(variance).toMatchObject({ baselineStart: '2025-07-03', baselineFinish: '2025-07-18', finishSlipDays: -6 });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { calculateWeeklyVelocity, forecastCompletion, forecastProjectCompletion } from '@/services/completion-forecast';
+import type { HistoricalProgressRow, MechanicalPlanRow } from '@/services/google-sheets';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+const snapshot = (iso: string, areaBuilding: string, activity: string, progress: number): HistoricalProgressRow => ({
+  snapshotDateString: iso,
+  snapshotTimestamp: day(iso),
+  areaBuilding,
+  mechanicalActivitySystem: activity,
+  originalDurationDays: 10,
+  currentProgressPercentage: progress,
+});
+
+const planRow = (areaBuilding: string, activity: string, progress: number) => ({
+  areaBuilding,
+  mechanicalActivitySystem: activity,
+  originalDurationDays: 10,
+  currentProgressPercentage: progress,
+}) as Pick<MechanicalPlanRow, 'areaBuilding' | 'mechanicalActivitySystem' | 'originalDurationDays' | 'currentProgressPercentage'>;
+
+describe('completion forecast', () => {
+  it('computes weekly velocity like the executive summary card', () => {
+    const points = [
+      { timestamp: day('2025-03-01'), progress: 10 },
+      { timestamp: day('2025-03-08'), progress: 20 },
+      { timestamp: day('2025-03-15'), progress: 24 },
+    ];
+    // Latest (15th) vs the last snapshot at least 7 days before "today" (8th)
+    expect(calculateWeeklyVelocity(points, day('2025-03-15'))).toBe(4);
+    expect(calculateWeeklyVelocity(points.slice(0, 1), day('2025-03-15'))).toBeNull();
+  });
+
+  it('projects optimistic, likely and pessimistic dates from the observed rates', () => {
+    const points = [
+      { timestamp: day('2025-03-01'), progress: 10 },
+      { timestamp: day('2025-03-08'), progress: 20 },
+      { timestamp: day('2025-03-15'), progress: 30 },
+      { timestamp: day('2025-03-22'), progress: 35 },
+      { timestamp: day('2025-03-29'), progress: 40 },
+    ];
+    const result = forecastCompletion('x', 'X', 'building', points, 40, day('2025-03-29'));
+    expect(result.status).toBe('forecast');
+    // Recent velocity 5%/week → 60% left = 12 weeks
+    expect(result.weeklyVelocity).toBe(5);
+    expect(result.likelyDate).toBe('2025-06-21');
+    expect(result.optimisticVelocity).toBe(10);
+    expect(result.optimisticDate).toBe('2025-05-10');
+    expect(result.pessimisticVelocity).toBe(5);
+    expect(result.pessimisticDate! >= result.likelyDate!).toBe(true);
+  });
+
+  it('flags stalled and finished groups instead of inventing dates', () => {
+    const flat = [
+      { timestamp: day('2025-03-01'), progress: 50 },
+      { timestamp: day('2025-03-15'), progress: 50 },
+    ];
+    expect(forecastCompletion('x', 'X', 'system', flat, 50, day('2025-03-15'))).toMatchObject({ status: 'stalled', likelyDate: null });
+    expect(forecastCompletion('x', 'X', 'system', flat, 100, day('2025-03-15')).status).toBe('completed');
+    expect(forecastCompletion('x', 'X', 'system', [], 20, day('2025-03-15')).status).toBe('insufficient-data');
+  });
+
+  it('reports the project, each building and each system', () => {
+    const history = [
+      snapshot('2025-03-01', 'Control Building', 'HVAC Ducting', 0),
+      snapshot('2025-03-01', 'Control Building', 'Fire Alarm Devices', 20),
+      snapshot('2025-03-08', 'Control Building', 'HVAC Ducting', 10),
+      snapshot('2025-03-08', 'Control Building', 'Fire Alarm Devices', 30),
+    ];
+    const plan = [planRow('Control Building', 'HVAC Ducting', 20), planRow('Control Building', 'Fire Alarm Devices', 40)];
+    const report = forecastProjectCompletion(plan, history, day('2025-03-15'));
+
+    expect(report.asOf).toBe('2025-03-15');
+    expect(report.project.currentProgress).toBe(30);
+    expect(report.project.weeklyVelocity).toBe(10);
+    expect(report.buildings.map(b => b.label)).toEqual(['Control Building']);
+    expect(report.systems.map(s => s.key)).toEqual(['system:HVAC', 'system:FA']);
+    expect(report.systems[0].likelyDate).toBe('2025-05-10');
+  });
+});
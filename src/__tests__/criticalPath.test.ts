@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCriticalPath, splitPredecessors, type CriticalPathInput } from '@/services/critical-path';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+const row = (id: string, building: string, activity: string, start: string | null, duration: number, predecessor: string | null = null, predecessorFinish: string | null = null): CriticalPathInput => ({
+  id,
+  areaBuilding: building,
+  locationRoomLevel: 'Ground Floor',
+  mechanicalActivitySystem: activity,
+  originalDurationDays: duration,
+  keyPredecessorActivity: predecessor,
+  predecessorFinishTimestamp: predecessorFinish ? day(predecessorFinish) : null,
+  calculatedStartTimestamp: start ? day(start) : null,
+  calculatedFinishTimestamp: null,
+});
+
+describe('splitPredecessors', () => {
+  it('splits on separators but keeps "&" inside activity names', () => {
+    expect(splitPredecessors('Cable pulling, Intercom & IP telephone / FA Devices')).toEqual(['Cable pulling', 'Intercom & IP telephone', 'FA Devices']);
+    expect(splitPredecessors('-')).toEqual([]);
+  });
+});
+
+describe('analyzeCriticalPath', () => {
+  const plan = [
+    row('a', 'Control Building', 'Security System ( RGS Conduit Installation )', '2025-07-01', 10),
+    row('b', 'Control Building', 'Security System ( Cable pulling )', null, 10, 'security system (RGS conduit installation)'),
+    row('c', 'Control Building', 'Security System ( Camera Installation)', null, 5, 'Security System ( Cable pulling )'),
+    row('d', 'Control Building', 'DDC Panel Terminations', '2025-07-01', 5),
+    row('e', 'GIS Building', 'Firefighting', null, 15, 'GIS Hall cable Trays', '2025-07-10'),
+  ];
+  const result = analyzeCriticalPath(plan);
+  const byId = new Map(result.activities.map(a => [a.id, a]));
+
+  it('resolves free-text predecessors and runs the forward pass', () => {
+    expect(byId.get('b')!.predecessorIds).toEqual(['a']);
+    expect(byId.get('b')!.earlyStart).toBe('2025-07-11');
+    expect(byId.get('c')!.earlyFinish).toBe('2025-07-26');
+    expect(result.projectStart).toBe('2025-07-01');
+    expect(result.projectFinish).toBe('2025-07-26');
+  });
+
+  it('treats unmatched predecessors as external constraints', () => {
+    const e = byId.get('e')!;
+    expect(e.unresolvedPredecessors).toEqual(['GIS Hall cable Trays']);
+    expect(e.earlyStart).toBe('2025-07-10');
+  });
+
+  it('computes total float and the critical path', () => {
+    expect(result.criticalPath).toEqual(['a', 'b', 'c']);
+    expect(byId.get('d')!.totalFloatDays).toBe(20);
+    expect(byId.get('e')!.totalFloatDays).toBe(1);
+  });
+
+  it('flags activities that drive their building finish', () => {
+    const gis = byId.get('e')!;
+    expect(gis.isCritical).toBe(false);
+    expect(gis.drivesBuildingFinish).toBe(true);
+    expect(byId.get('d')!.drivesBuildingFinish).toBe(false);
+    expect(result.buildings.find(b => b.building === 'GIS Building')!.drivingActivityIds).toEqual(['e']);
+  });
+
+  it('reports predecessor loops instead of hanging', () => {
+    const looped = analyzeCriticalPath([
+      row('x', 'B1', 'Duct Installation', '2025-01-01', 3, 'Duct Insulation'),
+      row('y', 'B1', 'Duct Insulation', '2025-01-01', 3, 'Duct Installation'),
+    ]);
+    expect(looped.cycles).toHaveLength(1);
+    expect(looped.cycles[0].sort()).toEqual(['x', 'y']);
+    expect(looped.activities.every(a => a.inCycle)).toBe(true);
+  });
+
+  it('keeps the links of activities downstream of a loop', () => {
+    const result = analyzeCriticalPath([
+      row('x', 'B1', 'Duct Installation', '2025-01-01', 3, 'Duct Insulation'),
+      row('y', 'B1', 'Duct Insulation', '2025-01-01', 3, 'Duct Installation'),
+      row('z', 'B1', 'Air Balancing', '2025-01-01', 2, 'Duct Insulation'),
+    ]);
+    const z = result.activities.find(a => a.id === 'z')!;
+    expect(result.cycles).toEqual([expect.arrayContaining(['x', 'y'])]);
+    expect(z).toMatchObject({ inCycle: false, predecessorIds: ['y'], earlyStart: '2025-01-04', isCritical: true });
+  });
+});
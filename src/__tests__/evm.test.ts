@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildSCurve, calculateEvm, plannedPercentAt } from '@/services/evm';
+import type { HistoricalProgressRow } from '@/services/google-sheets';
+import type { EnhancedMechanicalPlanRow } from '@/types';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+const activity = (id: number, area: string, system: string, start: string, finish: string, duration: number, progress: number): EnhancedMechanicalPlanRow => ({
+  id,
+  areaBuilding: area,
+  locationRoomLevel: null,
+  mechanicalActivitySystem: system,
+  originalDurationDays: duration,
+  currentProgressPercentage: progress,
+  keyPredecessorActivity: null,
+  predecessorFinishDateString: null,
+  predecessorFinishTimestamp: null,
+  calculatedStartDateString: start,
+  calculatedStartTimestamp: day(start),
+  calculatedFinishDateString: finish,
+  calculatedFinishTimestamp: day(finish),
+  remarksJustification: null,
+  actualStatus: 'Ongoing',
+});
+
+describe('evm', () => {
+  const plan = [
+    activity(1, 'Control Building', 'HVAC Ducting', '2025-01-01', '2025-01-11', 10, 50), // planned 100% on 01-21
+    activity(2, 'GIS Building', 'FF Piping', '2025-01-11', '2025-01-31', 30, 20),       // planned 50% on 01-21
+    { ...activity(3, 'GIS Building', 'FA Devices', '2025-01-01', '2025-01-02', 5, 0), calculatedStartTimestamp: null },
+  ];
+  const status = day('2025-01-21');
+
+  it('interpolates planned progress between calculated start and finish', () => {
+    expect(plannedPercentAt(plan[1], day('2025-01-10'))).toBe(0);
+    expect(plannedPercentAt(plan[1], day('2025-01-21'))).toBe(50);
+    expect(plannedPercentAt(plan[1], day('2025-02-01'))).toBe(100);
+  });
+
+  it('computes duration-weighted PV, EV, SV and SPI, skipping unscheduled activities', () => {
+    const { overall } = calculateEvm(plan, [], status);
+    // BAC 40; PV = 10 + 15 = 25; EV = 5 + 6 = 11
+    expect(overall.bac).toBe(40);
+    expect(overall.plannedValue).toBe(25);
+    expect(overall.earnedValue).toBe(11);
+    expect(overall.scheduleVariance).toBe(-14);
+    expect(overall.spi).toBe(0.44);
+    expect(overall.activityCount).toBe(2);
+  });
+
+  it('breaks metrics down by building and system, worst SPI first', () => {
+    const report = calculateEvm(plan, [], status);
+    expect(report.byBuilding.map(b => [b.label, b.spi])).toEqual([['GIS Building', 0.4], ['Control Building', 0.5]]);
+    expect(report.bySystem.map(s => s.key)).toEqual(['FF', 'HVAC']);
+    expect(report.activities).toHaveLength(2);
+  });
+
+  it('builds a weekly S-curve with earned points from history snapshots', () => {
+    const history: HistoricalProgressRow[] = [
+      { snapshotDateString: '2025-01-08', snapshotTimestamp: day('2025-01-08'), areaBuilding: 'control building', mechanicalActivitySystem: 'HVAC Ducting', currentProgressPercentage: 40 },
+    ];
+    const curve = buildSCurve(plan, history, status);
+    expect(curve[0].date).toBe('2025-01-01');
+    expect(curve[curve.length - 1].plannedPct).toBe(100);
+    expect(curve.map(p => p.date)).toContain('2025-01-08');
+
+    const snapshot = curve.find(p => p.date === '2025-01-08')!;
+    expect(snapshot.earnedPct).toBe(10); // 10 × 40% of BAC 40
+    expect(snapshot.spi).not.toBeNull();
+    expect(curve.find(p => p.date === '2025-01-15')!.earnedPct).toBeNull();
+    expect(curve.find(p => p.date === '2025-01-21')!.spi).toBe(0.44);
+  });
+
+  it('averages repeated rows per snapshot day and carries forward activities missing from a snapshot', () => {
+    const row = (date: string, system: string, area: string, progress: number): HistoricalProgressRow =>
+      ({ snapshotDateString: date, snapshotTimestamp: day(date), areaBuilding: area, mechanicalActivitySystem: system, currentProgressPercentage: progress });
+    const history = [
+      row('2025-01-08', 'HVAC Ducting', 'Control Building', 40),
+      row('2025-01-08', 'HVAC Ducting', 'Control Building', 60),
+      row('2025-01-08', 'FF Piping', 'GIS Building', 10),
+      row('2025-01-12', 'HVAC Ducting', 'Control Building', 80),
+    ];
+    const curve = buildSCurve(plan, history, status);
+    expect(curve.find(p => p.date === '2025-01-08')!.earnedPct).toBe(20);   // (10 × 50% + 30 × 10%) / 40
+    expect(curve.find(p => p.date === '2025-01-12')!.earnedPct).toBe(27.5); // FF Piping keeps its 10%
+  });
+});
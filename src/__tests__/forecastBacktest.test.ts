@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backtestForecasts, backtestSeries, recommendMethod } from '@/services/forecast-backtest';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const series = (values: number[]) => values.map((v, i) => ({ dateString: `2025-01-${String(i + 1).padStart(2, '0')}`, totalManpower: v }));
+
+describe('forecast backtest', () => {
+  it('scores a straight line perfectly with linear regression', () => {
+    const metrics = backtestSeries([10, 12, 14, 16, 18, 20, 22, 24], 'linear', { minTrainSize: 3 });
+    expect(metrics.samples).toBe(5);
+    expect(metrics.mae).toBe(0);
+    expect(metrics.mape).toBe(0);
+    expect(metrics.bias).toBe(0);
+  });
+
+  it('only uses history before each origin (h-step ahead)', () => {
+    // Flat then a jump: a 2-step forecast made before the jump can't know about it
+    const metrics = backtestSeries([10, 10, 10, 10, 20], 'linear', { minTrainSize: 3, horizon: 2 });
+    expect(metrics.samples).toBe(1);
+    expect(metrics.mae).toBe(10);
+    expect(metrics.bias).toBe(-10);
+  });
+
+  it('leaves zero actuals out of MAPE', () => {
+    const metrics = backtestSeries([5, 5, 5, 0, 5], 'linear', { minTrainSize: 3 });
+    expect(metrics.samples).toBe(2);
+    expect(metrics.mape).not.toBeNull();
+  });
+
+  it('starts each method at its minimum history instead of failing on shorter prefixes', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const weekly = Array.from({ length: 16 }, (_, i) => 10 + (i % 7));
+    expect(backtestSeries(weekly, 'holt-winters', { minTrainSize: 3, seasonLength: 7 }).samples).toBe(2);
+    expect(backtestSeries(weekly, 'sma', { minTrainSize: 3, window: 5 }).samples).toBe(11);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('recommends the lowest MAE among methods scored on every origin', () => {
+    expect(recommendMethod([
+      { method: 'sma', mae: 3, mape: 10, bias: 0, samples: 10 },
+      { method: 'linear', mae: 2, mape: 8, bias: 1, samples: 10 },
+      { method: 'holt-winters', mae: 1, mape: 2, bias: 0, samples: 4 },
+    ])).toBe('linear');
+    expect(recommendMethod([{ method: 'sma', mae: null, mape: null, bias: null, samples: 0 }])).toBeNull();
+  });
+
+  it('reports every method for each requested discipline', () => {
+    const report = backtestForecasts(series([10, 12, 14, 16, 18, 20, 22, 24, 26, 28]), { disciplines: ['total'], window: 3 });
+    expect(report.minTrainSize).toBe(3);
+    expect(report.disciplines).toHaveLength(1);
+    const total = report.disciplines[0];
+    expect(total.points).toBe(10);
+    expect(total.origins).toBe(7);
+    expect(total.methods.map(m => m.method)).toEqual(['sma', 'ema', 'linear', 'holt', 'holt-winters']);
+    expect(total.methods.find(m => m.method === 'holt-winters')!.samples).toBe(0);
+    // SMA and linear both follow a straight line exactly; the first of the tied methods wins
+    expect(total.recommended).toBe('sma');
+    expect(total.methods.find(m => m.method === 'linear')!.mae).toBe(0);
+  });
+
+  it('scores every method on the same origins once the history covers Holt-Winters', () => {
+    const weekly = Array.from({ length: 21 }, (_, i) => [10, 14, 18, 22, 20, 8, 6][i % 7]);
+    const report = backtestForecasts(series(weekly), { disciplines: ['total'], window: 3 });
+    const total = report.disciplines[0];
+    expect(total.origins).toBe(7);
+    expect(total.methods.map(m => m.samples)).toEqual([7, 7, 7, 7, 7]);
+    expect(total.recommended).toBe('holt-winters');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculatePredictionIntervals, forecastHolt, forecastHoltWinters, forecastLinear, forecastManpower } from '@/services/forecasting';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const series = (values: number[]) => values.map((v, i) => ({ dateString: `2025-01-${String(i + 1).padStart(2, '0')}`, totalManpower: v }));
+
+describe('forecast methods', () => {
+  it('extends a straight line with linear regression', () => {
+    const result = forecastLinear([10, 12, 14, 16, 18], 3)!;
+    expect(result.forecast.map(v => Math.round(v * 100) / 100)).toEqual([20, 22, 24]);
+    expect(result.residuals.every(r => Math.abs(r) < 1e-9)).toBe(true);
+    // Spread grows the further we extrapolate
+    expect(result.spread[2]).toBeGreaterThan(result.spread[0]);
+  });
+
+  it('follows a trend with Holt', () => {
+    const result = forecastHolt([10, 12, 14, 16, 18, 20], 2)!;
+    expect(result.forecast[0]).toBeCloseTo(22, 5);
+    expect(result.forecast[1]).toBeCloseTo(24, 5);
+  });
+
+  it('repeats the seasonal pattern with Holt-Winters', () => {
+    const week = [20, 22, 24, 22, 20, 10, 8];
+    const result = forecastHoltWinters([...week, ...week, ...week], 7, 7)!;
+    result.forecast.forEach((value, i) => expect(value).toBeCloseTo(week[i], 0));
+  });
+
+  it('refuses Holt-Winters without two full seasons', () => {
+    expect(forecastHoltWinters([1, 2, 3, 4, 5], 2, 7)).toBeNull();
+  });
+});
+
+describe('calculatePredictionIntervals', () => {
+  it('widens with the spread factor and never goes below zero', () => {
+    const intervals = calculatePredictionIntervals([3, 3], [2, -2, 2, -2], [1, 2]);
+    expect(intervals[0].lower).toBe(0);
+    expect(intervals[1].upper - 3).toBeCloseTo(2 * (intervals[0].upper - 3), 5);
+  });
+});
+
+describe('forecastManpower', () => {
+  const data = series([40, 42, 41, 45, 47, 46, 50, 52, 51, 55, 57, 56, 60, 62]);
+
+  it.each(['sma', 'ema', 'linear', 'holt', 'holt-winters'] as const)('returns intervals for %s', (method) => {
+    const result = forecastManpower(data, { method, window: 3, horizon: 4, discipline: 'total', seasonLength: 3 });
+    expect(result).not.toBeNull();
+    expect(result!.forecast).toHaveLength(4);
+    expect(result!.intervals).toHaveLength(4);
+    result!.intervals!.forEach((interval, i) => {
+      expect(interval.lower).toBeLessThanOrEqual(result!.forecast[i]);
+      expect(interval.upper).toBeGreaterThanOrEqual(result!.forecast[i]);
+    });
+  });
+
+  it('uses a narrower band at 80% than at 95%', () => {
+    const wide = forecastManpower(series([40, 44, 41, 47, 45, 50]), { method: 'holt', window: 3, horizon: 1 })!;
+    const narrow = forecastManpower(series([40, 44, 41, 47, 45, 50]), { method: 'holt', window: 3, horizon: 1, intervalLevel: 0.8 })!;
+    expect(narrow.intervals![0].upper - narrow.intervals![0].lower).toBeLessThan(wide.intervals![0].upper - wide.intervals![0].lower);
+    expect(narrow.intervalLevel).toBe(0.8);
+  });
+});
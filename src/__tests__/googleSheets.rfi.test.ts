@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRfiLogData } from '@/services/google-sheets';
+
+const RFI_CSV = `LOG SHEET FOR MATERIAL INSPECTION REQUEST FOR MECHANICAL WORKS AT CONSTRUCTION OF MOWAIH PV 380/110 KV BSP,,,,,,
+S. No.,Description,Inspection Req. No.,Discipline,Material Received,Inspection Date,Prepared By
+1,,,,,,
+7,INSTALLATION OF CONDUIT & CABLING IN 380 KV GROUND FLOOR & LCC PANELS,RFI-07 ( REV-01 ),FIRE ALARM WORK,,,INAM ULLAH ( ALMAJAL )
+13,SMOKE TEST CUSTOMER BUILDING -1,RFI-13,HVAC Works,2-7-2025,2-7-2025,"JAVEED IMAM
+ (M/s MSCL)"
+21,FIRE FIGHTING WORKS -110 KV BUILDING,RFI-021,FIRE FIGHTING,26-07-2025,,"INAM ULLAH
+( ALMAJAL )"
+,,,,,,
+LOG SHEET FOR MATERIAL INSPECTION REQUEST FOR MECHANICAL WORKS AT CONSTRUCTION OF MOWAIH PV 380/110 KV BSP,,,,( EXPANSION PE-301),,
+S. No.,Description,Inspection Request No.,Discipline,Material Received,Inspection Date,Prepared By
+1,SMOKE TEST 110KV BUILDING FOR INDOOR DUCTS,RFI-001,HVAC WORKS,10-8-2025,10-8-2025,"JAVEED IMAM
+( MARINE )"`;
+
+describe('getRfiLogData', () => {
+  it('skips the banner, keeps multi-line cells together and splits revision suffixes', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve(RFI_CSV) });
+
+    const rows = await getRfiLogData();
+
+    expect(rows.map(r => r.baseRfiNumber)).toEqual(['RFI-07', 'RFI-13', 'RFI-021', 'RFI-001']);
+
+    const rev = rows[0];
+    expect(rev.rfiNumber).toBe('RFI-07 ( REV-01 )');
+    expect(rev.revision).toBe(1);
+    expect(rev.disciplineCategory).toBe('FA');
+    expect(rev.building).toBe('380kV Building');
+    expect(rev.status).toBe('Submitted');
+
+    const smokeTest = rows[1];
+    expect(smokeTest.preparedBy).toBe('JAVEED IMAM (M/s MSCL)');
+    expect(smokeTest.preparedByCompany).toBe('M/s MSCL');
+    expect(smokeTest.inspectionTimestamp).toBe(new Date(2025, 6, 2).getTime());
+    expect(smokeTest.status).toBe('Inspected');
+    expect(smokeTest.building).toBe('Customer Building');
+
+    expect(rows[2].status).toBe('Awaiting Inspection');
+    expect(rows[2].disciplineCategory).toBe('FF');
+
+    expect(rows[3].section).toBe('EXPANSION PE-301');
+    expect(rows[0].section).toBeNull();
+  });
+});
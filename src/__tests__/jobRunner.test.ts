@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseCron, nextCronRun, JobRunner, JobAlreadyRunningError, UnknownJobError, type JobRun, type JobRunLog } from '@/lib/jobs';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const at = (iso: string) => new Date(iso);
+
+class MemoryRunLog implements JobRunLog {
+  runs: JobRun[] = [];
+  async list(limit?: number) { return limit === undefined ? this.runs : this.runs.slice(0, limit); }
+  async add(run: JobRun) { this.runs.unshift(run); }
+}
+
+describe('cron', () => {
+  it('finds the next matching minute', () => {
+    expect(nextCronRun('0 6 * * *', at('2025-03-01T05:59:30'))).toEqual(at('2025-03-01T06:00:00'));
+    expect(nextCronRun('0 6 * * *', at('2025-03-01T06:00:00'))).toEqual(at('2025-03-02T06:00:00'));
+    expect(nextCronRun('*/15 8-9 * * *', at('2025-03-01T09:50:00'))).toEqual(at('2025-03-02T08:00:00'));
+    // 2025-03-01 is a Saturday; 1-5 = Monday..Friday
+    expect(nextCronRun('30 7 * * 1-5', at('2025-03-01T12:00:00'))).toEqual(at('2025-03-03T07:30:00'));
+    expect(nextCronRun('@monthly', at('2025-03-15T00:00:00'))).toEqual(at('2025-04-01T00:00:00'));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 10th or any Sunday, whichever comes first
+    expect(nextCronRun('0 0 10 * 0', at('2025-03-01T12:00:00'))).toEqual(at('2025-03-02T00:00:00'));
+  });
+
+  it('rejects malformed expressions and returns null when nothing can match', () => {
+    expect(() => parseCron('0 6 * *')).toThrow(/5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/minute/);
+    expect(() => parseCron('0 6 * * mon')).toThrow(/day-of-week/);
+    expect(nextCronRun('0 0 31 2 *', at('2025-01-01T00:00:00'))).toBeNull();
+  });
+});
+
+describe('JobRunner', () => {
+  it('logs successful and failed runs with duration and notifications produced', async () => {
+    let now = at('2025-03-01T06:00:00').getTime();
+    const log = new MemoryRunLog();
+    const runner = new JobRunner([
+      { id: 'risk', label: 'Risk', schedule: '0 6 * * *', run: async () => { now += 1500; return 3; } },
+      { id: 'forecast', label: 'Forecast', schedule: null, run: async () => { throw new Error('sheet offline'); } },
+    ], log, () => now);
+
+    expect(await runner.runJob('risk', 'manual')).toMatchObject({ job: 'risk', trigger: 'manual', status: 'success', durationMs: 1500, notificationsProduced: 3 });
+    expect(await runner.runJob('forecast', 'manual')).toMatchObject({ status: 'failed', notificationsProduced: 0, error: 'sheet offline' });
+    await expect(runner.runJob('materials', 'manual')).rejects.toBeInstanceOf(UnknownJobError);
+
+    const status = await runner.getStatus();
+    expect(status.runs.map(r => r.job)).toEqual(['forecast', 'risk']);
+    expect(status.jobs.find(j => j.job === 'risk')).toMatchObject({ lastRun: { notificationsProduced: 3 }, nextRunAt: at('2025-03-02T06:00:00').getTime() });
+    expect(status.jobs.find(j => j.job === 'forecast')?.nextRunAt).toBeNull();
+  });
+
+  it('refuses to start a job that is still running', async () => {
+    let finish!: () => void;
+    const runner = new JobRunner([
+      { id: 'risk', label: 'Risk', schedule: null, run: () => new Promise<number>(resolve => { finish = () => resolve(0); }) },
+    ], new MemoryRunLog());
+
+    const first = runner.runJob('risk', 'manual');
+    await expect(runner.runJob('risk', 'manual')).rejects.toBeInstanceOf(JobAlreadyRunningError);
+    finish();
+    await first;
+  });
+
+  it('runs only the jobs whose slot has passed since their last run', async () => {
+    let now = at('2025-03-01T07:10:00').getTime();
+    const ran: string[] = [];
+    const job = (id: string, schedule: string) => ({ id, label: id, schedule, run: async () => { ran.push(id); return 0; } });
+    const runner = new JobRunner([job('risk', '0 6 * * *'), job('forecast', '0 7 * * *')], new MemoryRunLog(), () => now);
+
+    // Never run before: both are due on the first trigger
+    await runner.runDue();
+    expect(ran).toEqual(['risk', 'forecast']);
+
+    now = at('2025-03-01T23:00:00').getTime();
+    expect(await runner.runDue()).toEqual([]);
+
+    now = at('2025-03-02T06:05:00').getTime();
+    const runs = await runner.runDue();
+    expect(runs.map(r => [r.job, r.trigger])).toEqual([['risk', 'http']]);
+  });
+});
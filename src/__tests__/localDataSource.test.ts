@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalDirectoryDataSource, sheetTitleFromExportFileName } from '@/lib/data-source';
+import { GoogleSheetsService } from '@/lib/googleSheets';
+import { getManpowerSheetData, setSheetCsvSource, SHEET_NAMES } from '@/services/google-sheets';
+
+const PREFIX = '250410-Buildings Fire & HVAC Systems Tracking Sheet - ';
+
+describe('sheetTitleFromExportFileName', () => {
+  it('maps export file names to tab titles', () => {
+    expect(sheetTitleFromExportFileName(`${PREFIX}Manpower (1).csv`)).toBe('Manpower');
+    expect(sheetTitleFromExportFileName(`${PREFIX}RFI'S (1).csv`)).toBe("RFI'S");
+    expect(sheetTitleFromExportFileName(`${PREFIX}2025-09.csv`)).toBe('2025-09');
+    expect(sheetTitleFromExportFileName(`${PREFIX}Material Inspection Request (1).csv`)).toBe(SHEET_NAMES.MIR_LOG);
+    expect(sheetTitleFromExportFileName('notes.txt')).toBeNull();
+  });
+});
+
+describe('LocalDirectoryDataSource', () => {
+  let dir: string;
+  let source: LocalDirectoryDataSource;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sheets-'));
+    await fs.writeFile(path.join(dir, `${PREFIX}Manpower (1).csv`),
+      'Date,HVAC Manpower,Firefighting Manpower,Fire Alarm Manpower,Security Subcontractor,Total Manpower\n2024-10-01,2,1,2,0,5\n2024-11-01,4,2,4,0,10\n');
+    await fs.writeFile(path.join(dir, `${PREFIX}2025-08 (1).csv`), 'SnapshotDate,Current Progress %\n2025-08-01,0٫5\n');
+    await fs.writeFile(path.join(dir, `${PREFIX}2025-09.csv`), 'SnapshotDate,Current Progress %\n2025-09-01,"0٫6"\n');
+    source = new LocalDirectoryDataSource(dir);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setSheetCsvSource(null);
+  });
+
+  it('lists tabs and reads values with the header row first', async () => {
+    expect((await source.listSheets()).map(s => s.title)).toEqual(['2025-08', '2025-09', 'Manpower']);
+    expect(await source.getValues('2025-09')).toEqual([['SnapshotDate', 'Current Progress %'], ['2025-09-01', '0٫6']]);
+    await expect(source.getCsv('Missing')).rejects.toThrow(/not found/);
+  });
+
+  it('backs GoogleSheetsService without Google credentials', async () => {
+    const svc = new GoogleSheetsService(source);
+    const tabs = await svc.listMonthlyTabs();
+    expect(tabs.map(t => t.yearMonth)).toEqual(['2025-08', '2025-09']);
+    const rows = await svc.getSheetData('manpower');
+    expect(rows[1]['Total Manpower']).toBe('10');
+  });
+
+  it('backs the CSV readers once registered', async () => {
+    setSheetCsvSource(source);
+    const rows = await getManpowerSheetData(SHEET_NAMES.MANPOWER);
+    expect(rows).toHaveLength(2);
+    expect(rows[1].hvacManpower).toBe(4);
+    expect(rows[1].totalManpower).toBe(10);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculateManpowerDemand, DEFAULT_CREW_PER_ACTIVITY } from '@/services/manpower-demand';
+import type { ManpowerSheetRow } from '@/services/google-sheets';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+const activity = (name: string, start: string, finish: string, duration: number, progress: number) => ({
+  mechanicalActivitySystem: name,
+  originalDurationDays: duration,
+  currentProgressPercentage: progress,
+  calculatedStartTimestamp: day(start),
+  calculatedFinishTimestamp: day(finish),
+});
+
+const manpower = (from: string, days: number, hvac: number): ManpowerSheetRow[] =>
+  Array.from({ length: days }, (_, i) => {
+    const ts = day(from) + i * 24 * 60 * 60 * 1000;
+    return { dateString: new Date(ts).toISOString().slice(0, 10), timestamp: ts, hvacManpower: hvac, firefightingManpower: null, fireAlarmManpower: null, securityManpower: null, totalManpower: hvac };
+  });
+
+describe('manpower demand', () => {
+  it('spreads remaining work over the rest of the window and calibrates crew from history', () => {
+    // One HVAC activity running through the history (5 workers on it) with 14 of 28 duration-days left over 14 days
+    const plan = [activity('HVAC Ducting', '2025-02-15', '2025-03-15', 28, 50)];
+    const report = calculateManpowerDemand(plan, manpower('2025-02-15', 14, 5), { asOf: day('2025-03-01'), horizonWeeks: 3 });
+
+    expect(report.asOf).toBe('2025-03-01');
+    const hvac = report.disciplines.find(d => d.discipline === 'hvac')!;
+    expect(hvac.calibrated).toBe(true);
+    expect(hvac.crewPerActivity).toBe(5);
+    expect(hvac.remainingWorkDays).toBe(14);
+    // 14 remaining over 14 days = one activity-equivalent → 5 workers; nothing after the finish
+    expect(hvac.weeks.map(w => w.demand)).toEqual([5, 5, 0]);
+    expect(hvac.weeks[0].supply).toBeCloseTo(5, 0);
+    expect(hvac.peakShortage).toBeLessThan(1);
+  });
+
+  it('spreads overdue work over the horizon and reports the shortfall', () => {
+    const plan = [
+      activity('HVAC Ducting', '2025-02-01', '2025-02-20', 20, 50),   // Overdue: 10 duration-days over both weeks
+      activity('HVAC Piping', '2025-02-15', '2025-03-15', 28, 50),
+    ];
+    const report = calculateManpowerDemand(plan, manpower('2025-02-15', 14, 5), { asOf: day('2025-03-01'), horizonWeeks: 2 });
+    const hvac = report.disciplines[0];
+    expect(hvac.weeks[0].demand).toBe(hvac.weeks[1].demand);
+    expect(hvac.weeks[0].demand).toBeCloseTo((1 + 10 / 14) * hvac.crewPerActivity, 0);
+    expect(hvac.peakShortageWeek).toBe('2025-03-01');
+    expect(hvac.peakShortage).toBeGreaterThan(0);
+    expect(hvac.weeks[0].gap).toBeLessThan(0);
+  });
+
+  it('calibrates on the latest history when the Manpower sheet stops before asOf', () => {
+    const plan = [activity('HVAC Ducting', '2025-02-01', '2025-04-30', 60, 20)];
+    const report = calculateManpowerDemand(plan, manpower('2025-02-01', 14, 6), { asOf: day('2025-04-01'), horizonWeeks: 2 });
+    const hvac = report.disciplines[0];
+    expect(hvac).toMatchObject({ calibrated: true, crewPerActivity: 6 });
+    expect(hvac.weeks.map(w => w.weekStart)).toEqual(['2025-04-01', '2025-04-08']);
+    expect(hvac.weeks[0].supply).toBeCloseTo(6, 0);
+  });
+
+  it('falls back to the default crew and skips unmapped or finished work', () => {
+    const plan = [
+      activity('Fire Alarm Devices', '2025-03-01', '2025-03-08', 7, 0),
+      activity('Plumbing', '2025-03-01', '2025-03-08', 7, 0),
+      activity('HVAC Ducting', '2025-02-01', '2025-02-20', 20, 100),
+    ];
+    const report = calculateManpowerDemand(plan, [], { asOf: day('2025-03-01'), horizonWeeks: 1 });
+    expect(report.unassignedActivities).toBe(1);
+    expect(report.disciplines.map(d => d.discipline)).toEqual(['firealarm']);
+    expect(report.disciplines[0]).toMatchObject({ calibrated: false, crewPerActivity: DEFAULT_CREW_PER_ACTIVITY });
+    expect(report.disciplines[0].weeks[0]).toMatchObject({ demand: DEFAULT_CREW_PER_ACTIVITY, supply: null, gap: null });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { FORECAST_DISCIPLINES, getRowTotalManpower, resolveManpowerDiscipline } from '@/lib/manpower-disciplines';
+import { forecastManpower } from '@/services/forecasting';
+
+const rows = [4, 5, 6, 7, 8].map((security, i) => ({
+  dateString: `2025-09-0${i + 1}`,
+  hvacManpower: 10,
+  firefightingManpower: 4,
+  fireAlarmManpower: 2,
+  securityManpower: security,
+  totalManpower: null,
+}));
+
+describe('manpower disciplines', () => {
+  it('accepts ids, aliases and labels for discipline=', () => {
+    expect(FORECAST_DISCIPLINES).toEqual(['hvac', 'firefighting', 'firealarm', 'security', 'total']);
+    expect(resolveManpowerDiscipline('FA')).toBe('firealarm');
+    expect(resolveManpowerDiscipline('Security Subcontractor')).toBe('security');
+    expect(resolveManpowerDiscipline('total')).toBe('total');
+    expect(resolveManpowerDiscipline('plumbing')).toBeNull();
+  });
+
+  it('sums every configured discipline when the Total column is empty', () => {
+    expect(getRowTotalManpower(rows[0])).toBe(20);
+    expect(getRowTotalManpower({ ...rows[0], totalManpower: 30 })).toBe(30);
+  });
+
+  it('forecasts the security subcontractor series', () => {
+    const result = forecastManpower(rows, { method: 'sma', window: 3, horizon: 2, discipline: 'security' });
+    expect(result?.historical).toEqual([4, 5, 6, 7, 8]);
+    expect(result?.forecast).toEqual([9, 10]);
+    expect(result?.trend).toBe('increasing');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { classifyDeliveryStatus, findBuildings, findMaterialIssues } from '@/services/material-delays';
+import type { MaterialStatusRow, MechanicalPlanRow } from '@/services/google-sheets';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+const AS_OF = day('2025-03-01');
+
+const material = (system: string, item: string, location: string, status: string, planned: string | null, actual: string | null = null): MaterialStatusRow => ({
+  system, itemDescription: item, buildingLocation: location, approvalStage: 'B', deliveryStatus: status, quantity: null,
+  plannedDeliveryDateString: planned, plannedTimestamp: planned ? day(planned) : null,
+  actualDeliveryDateString: actual, actualTimestamp: actual ? day(actual) : null,
+  remarks: null, documentLink: null,
+});
+
+const activity = (building: string, name: string, start: string, progress: number) =>
+  ({ areaBuilding: building, mechanicalActivitySystem: name, calculatedStartTimestamp: day(start), currentProgressPercentage: progress } as MechanicalPlanRow);
+
+describe('material delays', () => {
+  it('classifies delivery statuses the way the Material tab does', () => {
+    expect(classifyDeliveryStatus('Not Delivered')).toBe('pending');
+    expect(classifyDeliveryStatus('Partial ( all posts have been delivered)')).toBe('partial');
+    expect(classifyDeliveryStatus('مرفوض')).toBe('rejected');
+    expect(classifyDeliveryStatus('Delivered')).toBe('delivered');
+    expect(findBuildings('380kV Building, 110kV Building, Control Building & Customer Building')).toHaveLength(4);
+  });
+
+  it('flags overdue, rejected and partial items and skips delivered or on-time ones', () => {
+    const issues = findMaterialIssues([
+      material('HVAC', 'Ducting Material', '110kV Building', 'Not Delivered', '2025-02-10'),
+      material('FA', 'Smoke Detectors', 'Control Building', 'Rejected', '2025-04-01'),
+      material('Security', 'CCTV Posts', '110kV Building', 'Partial', '2025-02-20', '2025-02-22'),
+      material('HVAC', 'Dampers', '380kV Building', 'Delivered', '2025-02-01'),
+      material('HVAC', 'Grilles', '380kV Building', 'Not Delivered', '2025-03-15'),
+      material('FF', 'Pipes', '380kV Building', 'Not Delivered', '2025-02-01', '2025-02-03'),
+    ], [], AS_OF);
+
+    expect(issues.map(i => [i.material.itemDescription, i.kind, i.daysLate])).toEqual([
+      ['Ducting Material', 'overdue', 19],
+      ['Smoke Detectors', 'rejected', null],
+      ['CCTV Posts', 'partial', 9],
+    ]);
+  });
+
+  it('links unfinished plan activities of the same system and building, soonest first', () => {
+    const plan = [
+      activity('PE-263 110 kV GIS Building', 'HVAC System', '2025-03-20', 0),
+      activity('PE-263 110 kV GIS Building', 'HVAC Ducting', '2025-03-05', 10),
+      activity('PE-263 380 KV GIS Building', 'HVAC System', '2025-03-05', 0),
+      activity('PE-263 110 kV GIS Building', 'Fire Alarm ( conduiting+cabling )', '2025-03-05', 0),
+      activity('PE-263 110 kV GIS Building', 'HVAC Testing', '2025-01-05', 100),
+    ];
+    const [issue] = findMaterialIssues([material('HVAC', 'Ducting Material', '110kV Building', 'Not Delivered', '2025-02-10')], plan, AS_OF);
+
+    expect(issue.discipline).toBe('hvac');
+    expect(issue.affectedActivities.map(a => [a.mechanicalActivitySystem, a.daysToStart])).toEqual([['HVAC Ducting', 4], ['HVAC System', 19]]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { MaterialStatusRow, MIRRow } from '@/services/google-sheets';
+import { linkMirsToMaterials, calculateInspectionLagByDiscipline, findDeliveredWithoutMir } from '@/services/material-inspection';
+
+function material(system: string, itemDescription: string, buildingLocation: string, deliveryStatus: string): MaterialStatusRow {
+  return {
+    system, itemDescription, buildingLocation, deliveryStatus,
+    approvalStage: 'B', quantity: '1',
+    plannedDeliveryDateString: null, plannedTimestamp: null,
+    actualDeliveryDateString: null, actualTimestamp: null,
+    remarks: null, documentLink: null,
+  };
+}
+
+function mir(mirNumber: string, description: string, disciplineCategory: MIRRow['disciplineCategory'], received: string | null, inspected: string | null): MIRRow {
+  const receivedTs = received ? new Date(received).getTime() : null;
+  const inspectedTs = inspected ? new Date(inspected).getTime() : null;
+  return {
+    serialNo: null, description, mirNumber, baseMirNumber: mirNumber, revision: null,
+    discipline: null, disciplineCategory,
+    materialReceivedDateString: received, materialReceivedTimestamp: receivedTs,
+    inspectionDateString: inspected, inspectionTimestamp: inspectedTs,
+    preparedBy: null, preparedByCompany: null, building: null, section: null,
+    status: inspectedTs !== null ? 'Inspected' : receivedTs !== null ? 'Awaiting Inspection' : 'Submitted',
+  };
+}
+
+describe('material inspection analytics', () => {
+  const materials = [
+    material('HVAC', 'Ducting Material', '110kV Building', 'Delivered'),
+    material('HVAC', 'Ducting Material', '380kV Building', 'Delivered'),
+    material('HVAC', 'MSFD', '380kV Building, 110kV Building', 'Delivered'),
+    material('FA', 'CABLES', 'ALL SITE AREAS', 'Not Delivered'),
+    material('FF', 'HOSE CABINETS', 'OUTSIDE BUILDING AREA', 'Partial'),
+  ];
+  const mirs = [
+    mir('MIR-M-002', '110KV Ground Floor Ducting', 'HVAC', '2024-12-17', '2024-12-28'),
+    mir('MIR-M-021', '380kV Roof Ducting', 'HVAC', '2025-04-13', '2025-04-24'),
+    mir('MIR-M-014', 'Motorized Smoke Fire Damper', 'HVAC', '2025-03-09', null),
+    mir('MIR-M-010', 'Fire alarm cables', 'FA', '2025-02-11', '2025-03-16'),
+  ];
+
+  it('links MIRs by description, abbreviation and building', () => {
+    const links = linkMirsToMaterials(materials, mirs);
+    expect(links[0].mirs.map(m => m.mirNumber)).toEqual(['MIR-M-002']);
+    expect(links[1].mirs.map(m => m.mirNumber)).toEqual(['MIR-M-021']);
+    expect(links[2].mirs.map(m => m.mirNumber)).toEqual(['MIR-M-014']);
+    expect(links[3].mirs.map(m => m.mirNumber)).toEqual(['MIR-M-010']);
+  });
+
+  it('lists on-site materials with no MIR, ignoring "Not Delivered"', () => {
+    const links = linkMirsToMaterials(materials, mirs.slice(0, 2));
+    expect(findDeliveredWithoutMir(links).map(m => m.itemDescription)).toEqual(['MSFD', 'HOSE CABINETS']);
+  });
+
+  it('averages the received-to-inspected lag per discipline', () => {
+    const lags = calculateInspectionLagByDiscipline(mirs);
+    expect(lags).toEqual([
+      { discipline: 'FA', inspectedCount: 1, awaitingCount: 0, averageLagDays: 33, maxLagDays: 33 },
+      { discipline: 'HVAC', inspectedCount: 2, awaitingCount: 1, averageLagDays: 11, maxLagDays: 11 },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { diffMonthlySnapshots, getActivityStatus } from '@/services/monthly-diff';
+import { summarizeMonthlySnapshot } from '@/services/monthly-summary';
+import type { MechanicalPlanRow } from '@/types/monthly';
+
+const august: MechanicalPlanRow[] = [
+  { AreaOrBuilding: 'Control Building', MechanicalActivity: 'HVAC Ducting', CurrentProgressPct: 0, ManpowerHVAC: 4, ManpowerFF: 2, ManpowerFA: 1, ManpowerTotal: 7 },
+  { AreaOrBuilding: 'Control Building', MechanicalActivity: 'FF Piping', CurrentProgressPct: 60 },
+  { AreaOrBuilding: 'GIS Building', MechanicalActivity: 'Fire Alarm Devices', CurrentProgressPct: 20 },
+];
+
+// Real monthly tabs: several snapshot days per activity, each row repeating that day's site headcount
+const dailySite = (SnapshotDate: string, total: number, progress: number): MechanicalPlanRow[] =>
+  ['HVAC Ducting', 'FF Piping', 'Fire Alarm Devices'].map(activity => ({
+    SnapshotDate,
+    AreaOrBuilding: 'Control Building',
+    MechanicalActivity: activity,
+    CurrentProgressPct: progress,
+    ManpowerHVAC: total - 5,
+    ManpowerFF: 5,
+    ManpowerTotal: total,
+  }));
+const multiDay: MechanicalPlanRow[] = [
+  ...dailySite('2025-09-03', 25, 50),
+  ...dailySite('2025-09-01', 20, 10),
+  ...dailySite('2025-09-02', 22, 30),
+];
+
+const september: MechanicalPlanRow[] = [
+  { AreaOrBuilding: 'control building ', MechanicalActivity: 'HVAC  Ducting', CurrentProgressPct: 35, ManpowerHVAC: 6, ManpowerFF: 2, ManpowerFA: 0, ManpowerTotal: 8 },
+  { AreaOrBuilding: 'Control Building', MechanicalActivity: 'FF Piping', CurrentProgressPct: 100 },
+  { AreaOrBuilding: 'Security Building', MechanicalActivity: 'Split Units', CurrentProgressPct: 10 },
+];
+
+describe('diffMonthlySnapshots', () => {
+  it('classifies progress into not started / ongoing / completed', () => {
+    expect(getActivityStatus(null)).toBe('not_started');
+    expect(getActivityStatus(0)).toBe('not_started');
+    expect(getActivityStatus(45)).toBe('ongoing');
+    expect(getActivityStatus(100)).toBe('completed');
+  });
+
+  it('matches activities by area and activity and reports deltas and status changes', () => {
+    const diff = diffMonthlySnapshots('2025-08', august, '2025-09', september);
+
+    expect(diff.activities).toHaveLength(2);
+    const ducting = diff.activities.find(a => a.mechanicalActivity === 'HVAC  Ducting');
+    expect(ducting).toMatchObject({ progressDelta: 35, fromStatus: 'not_started', toStatus: 'ongoing', statusChanged: true });
+    const piping = diff.activities.find(a => a.mechanicalActivity === 'FF Piping');
+    expect(piping).toMatchObject({ progressDelta: 40, fromStatus: 'ongoing', toStatus: 'completed' });
+
+    expect(diff.added.map(a => a.mechanicalActivity)).toEqual(['Split Units']);
+    expect(diff.removed.map(a => a.mechanicalActivity)).toEqual(['Fire Alarm Devices']);
+    expect(diff.summary).toEqual({ matched: 2, statusChanges: 2, added: 1, removed: 1, avgProgressDelta: 37.5 });
+  });
+
+  it('reports manpower change per discipline', () => {
+    const diff = diffMonthlySnapshots('2025-08', august, '2025-09', september);
+    expect(diff.manpower.hvac).toEqual({ from: 4, to: 6, delta: 2 });
+    expect(diff.manpower.fireAlarm).toEqual({ from: 1, to: 0, delta: -1 });
+    expect(diff.manpower.total).toEqual({ from: 7, to: 8, delta: 1 });
+  });
+
+  it('compares each activity at its latest snapshot date in the month', () => {
+    const diff = diffMonthlySnapshots('2025-08', august, '2025-09', multiDay);
+
+    expect(diff.activities.map(a => [a.mechanicalActivity, a.toProgressPct])).toEqual([
+      ['FF Piping', 50],
+      ['HVAC Ducting', 50],
+    ]);
+    expect(diff.added.map(a => a.mechanicalActivity)).toEqual(['Fire Alarm Devices']);
+    expect(diff.manpower.total).toEqual({ from: 7, to: 22.3, delta: 15.3 });
+  });
+});
+
+describe('summarizeMonthlySnapshot', () => {
+  it('breaks manpower out per discipline and progress per building', () => {
+    const summary = summarizeMonthlySnapshot(september);
+    expect(summary.manpowerByDiscipline).toEqual({ hvac: 6, firefighting: 2, fireAlarm: 0, security: null, total: 8 });
+    expect(summary.progressByBuilding).toEqual([
+      { areaOrBuilding: 'control building', rows: 2, avgProgressPct: 67.5, manpowerTotal: 8 },
+      { areaOrBuilding: 'Security Building', rows: 1, avgProgressPct: 10, manpowerTotal: null },
+    ]);
+  });
+
+  it('counts each snapshot day once and averages the headcount over the month', () => {
+    const summary = summarizeMonthlySnapshot(multiDay);
+    expect(summary.totalRows).toBe(9);
+    expect(summary.manpowerByDiscipline).toEqual({ hvac: 17.3, firefighting: 5, fireAlarm: null, security: null, total: 22.3 });
+    expect(summary.progressByBuilding?.[0].manpowerTotal).toBe(22.3);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildMonthlySeries } from '@/services/monthly-series';
+
+describe('buildMonthlySeries', () => {
+  const series = buildMonthlySeries([
+    {
+      month: '2025-09',
+      rows: [
+        { SnapshotDate: '2025-09-30', AreaOrBuilding: 'Control Building', MechanicalActivity: 'HVAC Ducting', CurrentProgressPct: 60 },
+        { SnapshotDate: '2025-09-30', AreaOrBuilding: 'GIS Building', MechanicalActivity: 'FF Piping', CurrentProgressPct: 20 },
+      ],
+    },
+    {
+      month: '2025-07',
+      rows: [
+        { SnapshotDate: '2025-07-31', AreaOrBuilding: 'Control Building', MechanicalActivity: 'HVAC Ducting', CurrentProgressPct: 20 },
+      ],
+    },
+    {
+      month: '2025-08',
+      rows: [
+        // No SnapshotDate: dated to the first of the tab's month
+        { AreaOrBuilding: 'control building', MechanicalActivity: 'FA Devices', CurrentProgressPct: 10 },
+      ],
+    },
+  ]);
+
+  it('builds a shared ascending timeline from every snapshot date', () => {
+    expect(series.months).toEqual(['2025-07', '2025-08', '2025-09']);
+    expect(series.dates).toEqual(['2025-07-31', '2025-08-01', '2025-09-30']);
+  });
+
+  it('interpolates between observations and leaves dates before the first one empty', () => {
+    const ducting = series.activities.find(a => a.mechanicalActivity === 'HVAC Ducting')!;
+    expect(ducting.points.map(p => p.progressPct)).toEqual([20, 20.7, 60]);
+    expect(ducting.points.map(p => p.interpolated)).toEqual([false, true, false]);
+
+    const piping = series.activities.find(a => a.mechanicalActivity === 'FF Piping')!;
+    expect(piping.points.map(p => p.progressPct)).toEqual([null, null, 60 / 3]);
+  });
+
+  it('carries the last value forward and averages activities per building', () => {
+    const devices = series.activities.find(a => a.mechanicalActivity === 'FA Devices')!;
+    expect(devices.points[2]).toEqual({ date: '2025-09-30', progressPct: 10, interpolated: true });
+
+    const control = series.buildings.find(b => b.label === 'Control Building')!;
+    expect(control.points.map(p => p.progressPct)).toEqual([20, 15.4, 35]);
+    expect(series.overall.map(p => p.progressPct)).toEqual([20, 15.4, 30]);
+  });
+});
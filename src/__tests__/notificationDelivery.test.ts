@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import net from 'net';
+import http from 'http';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileNotificationStore, setNotificationStore, sendMail, type DeliveryLog, type DeliveryRecord, type ProactiveNotification } from '@/lib/notifications';
+import { parseRouting, renderDigest, sendWebhook, sendEmailDigest, DEFAULT_ROUTING, type DeliveryConfig } from '@/services/notification-delivery';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+// setupTests replaces fetch before every test; the webhook tests talk to a real local receiver
+const realFetch = globalThis.fetch;
+
+const NOW = new Date('2025-03-02T07:00:00').getTime();
+const HOUR = 60 * 60 * 1000;
+
+const notification = (id: string, severity: ProactiveNotification['severity'], hoursAgo: number): ProactiveNotification => ({
+  id,
+  type: 'workforce_shortage',
+  severity,
+  title: `Title ${id}`,
+  message: `Message ${id}`,
+  recommendations: ['Add crew'],
+  data: { source: id },
+  timestamp: NOW - hoursAgo * HOUR,
+  acknowledged: false,
+});
+
+class MemoryDeliveryLog implements DeliveryLog {
+  records: DeliveryRecord[] = [];
+  async list() { return this.records; }
+  async add(record: DeliveryRecord) { this.records.unshift(record); }
+}
+
+// Accepts one message per connection, like MailHog/Mailpit
+function startSmtpCatcher(received: string[]): Promise<net.Server> {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 catcher ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        received.push(buffer.slice(0, end));
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') socket.write('250-catcher\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+        else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const portOf = (server: net.Server | http.Server) => (server.address() as net.AddressInfo).port;
+
+const config = (overrides: Partial<DeliveryConfig> = {}): DeliveryConfig => ({
+  routing: DEFAULT_ROUTING,
+  smtp: null,
+  email: null,
+  webhookUrl: null,
+  retry: { attempts: 3, delayMs: 0 },
+  ...overrides,
+});
+
+const decodeBodies = (raw: string) =>
+  Array.from(raw.matchAll(/base64\r\n\r\n([A-Za-z0-9+/=\r\n]+)/g)).map(m => Buffer.from(m[1].replace(/\r\n/g, ''), 'base64').toString('utf-8'));
+
+describe('routing', () => {
+  it('keeps defaults for severities not mentioned and rejects unknown names', () => {
+    expect(parseRouting('low:webhook; critical:')).toEqual({ ...DEFAULT_ROUTING, low: ['webhook'], critical: [] });
+    expect(() => parseRouting('urgent:email')).toThrow(/severity/);
+    expect(() => parseRouting('high:sms')).toThrow(/channel/);
+  });
+});
+
+describe('email digest', () => {
+  const received: string[] = [];
+  let smtp: net.Server;
+  let dir: string;
+
+  beforeAll(async () => {
+    smtp = await startSmtpCatcher(received);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'delivery-'));
+  });
+
+  afterAll(async () => {
+    setNotificationStore(null);
+    await new Promise(resolve => smtp.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('renders new notifications first, in the requested language', () => {
+    const digest = renderDigest([notification('old', 'critical', 48), notification('new', 'high', 2)], 'en', NOW);
+    expect(digest.subject).toBe('Project dashboard digest 2025-03-02: 1 critical, 1 high');
+    expect(digest.text.indexOf('Title new')).toBeLessThan(digest.text.indexOf('Title old'));
+    expect(renderDigest([notification('a', 'critical', 1)], 'ar', NOW).html).toContain('dir="rtl"');
+  });
+
+  it('sends through SMTP with an encoded Arabic subject', async () => {
+    await sendMail({ host: '127.0.0.1', port: portOf(smtp), secure: false, user: 'u', pass: 'p' },
+      { from: 'Dashboard <dash@example.com>', to: ['pm@example.com'], subject: 'ملخص', text: 'نص' });
+    expect(received[0]).toContain(`Subject: =?UTF-8?B?${Buffer.from('ملخص').toString('base64')}?=`);
+    expect(decodeBodies(received[0])).toEqual(['نص']);
+  });
+
+  it('emails only the open notifications routed to email and logs the delivery', async () => {
+    const file = path.join(dir, 'notifications.json');
+    const store = new FileNotificationStore(file);
+    await store.add([notification('crit', 'critical', 1), notification('low', 'low', 1), { ...notification('done', 'high', 1), acknowledged: true }]);
+    setNotificationStore(store);
+    const log = new MemoryDeliveryLog();
+
+    const record = await sendEmailDigest(NOW, config({
+      smtp: { host: '127.0.0.1', port: portOf(smtp), secure: false },
+      email: { from: 'dash@example.com', to: ['pm@example.com'], locale: 'en' },
+    }), log);
+
+    expect(record).toMatchObject({ channel: 'email', status: 'sent', attempts: 1, notificationIds: ['crit'] });
+    expect(log.records).toHaveLength(1);
+    expect(decodeBodies(received[received.length - 1])[0]).toContain('Title crit');
+  });
+});
+
+describe('webhook', () => {
+  let server: http.Server;
+  let failuresLeft = 0;
+  const bodies: any[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          res.writeHead(503).end();
+          return;
+        }
+        bodies.push(JSON.parse(body));
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  });
+
+  beforeEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('retries until the receiver accepts and posts only routed severities', async () => {
+    failuresLeft = 2;
+    const log = new MemoryDeliveryLog();
+    const record = await sendWebhook([notification('crit', 'critical', 0), notification('med', 'medium', 0)],
+      config({ webhookUrl: `http://127.0.0.1:${portOf(server)}/hook` }), log);
+
+    expect(record).toMatchObject({ channel: 'webhook', status: 'sent', attempts: 3, notificationIds: ['crit'] });
+    expect(bodies[0]).toMatchObject({ type: 'proactive_notifications', notifications: [{ id: 'crit' }] });
+  });
+
+  it('logs a failed delivery after the last attempt and skips when nothing is routed', async () => {
+    failuresLeft = 5;
+    const log = new MemoryDeliveryLog();
+    const url = `http://127.0.0.1:${portOf(server)}/hook`;
+
+    expect(await sendWebhook([notification('med', 'medium', 0)], config({ webhookUrl: url }), log)).toBeNull();
+    const record = await sendWebhook([notification('crit', 'critical', 0)], config({ webhookUrl: url, retry: { attempts: 2, delayMs: 0 } }), log);
+    expect(record).toMatchObject({ status: 'failed', attempts: 2, error: 'Webhook responded 503' });
+    expect(log.records).toEqual([record]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { FileNotificationStore, setNotificationStore, isNotificationActive, type ProactiveNotification } from '@/lib/notifications';
+import { GET } from '@/app/api/notifications/route';
+import { PATCH } from '@/app/api/notifications/[notificationId]/route';
+
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+const notification = (id: string, overrides: Partial<ProactiveNotification> = {}): ProactiveNotification => ({
+  id,
+  type: 'critical_risk',
+  severity: 'high',
+  title: id,
+  message: '',
+  recommendations: [],
+  data: { source: id },
+  timestamp: 0,
+  acknowledged: false,
+  ...overrides,
+});
+
+const patch = (id: string, body: unknown) =>
+  PATCH(new NextRequest(new URL(`/api/notifications/${id}`, 'http://localhost'), { method: 'PATCH', body: JSON.stringify(body) }), { params: { notificationId: id } });
+
+describe('FileNotificationStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'notifications-'));
+    file = path.join(dir, 'nested', 'notifications.json');
+  });
+
+  afterEach(async () => {
+    setNotificationStore(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists across instances, newest first and capped', async () => {
+    await new FileNotificationStore(file, 2).add([notification('a')]);
+    await new FileNotificationStore(file, 2).add([notification('b'), notification('c')]);
+
+    expect((await new FileNotificationStore(file).list()).map(n => n.id)).toEqual(['b', 'c']);
+  });
+
+  it('serializes concurrent updates and prunes expired entries', async () => {
+    const store = new FileNotificationStore(file);
+    await store.add([notification('a'), notification('b', { expiresAt: 1000 })]);
+
+    const [acked, missing] = await Promise.all([
+      store.update('a', { acknowledged: true }),
+      store.update('zzz', { acknowledged: true }),
+      store.update('a', { snoozedUntil: 5000 }),
+    ]);
+    expect(acked?.acknowledged).toBe(true);
+    expect(missing).toBeNull();
+    expect((await store.list())[0]).toMatchObject({ acknowledged: true, snoozedUntil: 5000 });
+    expect(await store.prune(2000)).toBe(1);
+  });
+
+  it('lets writers that do not share a queue write the same file at once', async () => {
+    await Promise.all(['a', 'b', 'c'].map(id => new FileNotificationStore(file).add([notification(id)])));
+    expect((await new FileNotificationStore(file).list()).length).toBeGreaterThan(0);
+    expect((await fs.readdir(path.dirname(file))).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('shares one store between separately bundled modules', async () => {
+    vi.stubEnv('NOTIFICATIONS_FILE', file);
+    vi.resetModules();
+    const first = await import('@/lib/notifications');
+    vi.resetModules();
+    const second = await import('@/lib/notifications');
+    expect(second.getNotificationStore()).toBe(first.getNotificationStore());
+    vi.unstubAllEnvs();
+  });
+
+  it('treats a missing or corrupt file as empty', async () => {
+    const store = new FileNotificationStore(file);
+    expect(await store.list()).toEqual([]);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{ not json');
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('hides snoozed notifications until the snooze ends', () => {
+    expect(isNotificationActive(notification('a', { snoozedUntil: 5000 }), 4000)).toBe(false);
+    expect(isNotificationActive(notification('a', { snoozedUntil: 5000 }), 5000)).toBe(true);
+  });
+
+  it('lists, snoozes, acknowledges and expires through the routes', async () => {
+    setNotificationStore(new FileNotificationStore(file));
+    await new FileNotificationStore(file).add([notification('a', { severity: 'critical' }), notification('b'), notification('c')]);
+
+    expect((await patch('a', { action: 'snooze', minutes: 60 })).status).toBe(200);
+    expect((await patch('b', { action: 'acknowledge' })).status).toBe(200);
+    expect((await patch('c', { action: 'expire' })).status).toBe(200);
+    expect((await patch('c', { action: 'snooze', minutes: 0 })).status).toBe(400);
+    expect((await patch('c', { action: 'delete' })).status).toBe(400);
+    expect((await patch('missing', { action: 'acknowledge' })).status).toBe(404);
+
+    const active = await (await GET(new NextRequest(new URL('/api/notifications', 'http://localhost')))).json();
+    expect(active.notifications).toEqual([]);
+    expect(active.summary.total).toBe(0);
+
+    const all = await (await GET(new NextRequest(new URL('/api/notifications?include=all', 'http://localhost')))).json();
+    expect(all.notifications.map((n: ProactiveNotification) => n.id)).toEqual(['a', 'b', 'c']);
+    expect(all.notifications[1].acknowledgedAt).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryRiskStore, setRiskAuditLog, setRiskStore } from '@/lib/risks';
+import { POST as add } from '@/app/api/risks/add/route';
+import { POST as checkDuplicates } from '@/app/api/risks/duplicates/route';
+import { findDuplicateRisks, mergeRiskPatch, riskTokens } from '@/services/risk-duplicates';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import type { RiskDraft } from '@/lib/risks';
+
+const risk = (riskId: string, fields: Partial<RiskRegisterItem>) => ({ riskId, status: 'Open', ...fields } as RiskRegisterItem);
+
+const REGISTER = [
+  risk('MR-001', {
+    riskDescription: 'Delay in chiller delivery due to customs clearance at the port',
+    likelyCauses: 'Customs inspection backlog',
+    systemFocus: 'HVAC',
+    mitigationStrategiesActions: 'Follow up with the clearing agent',
+  }),
+  risk('MR-002', {
+    riskDescription: 'تأخير توريد مضخات الحريق بسبب الجمارك',
+    likelyCauses: 'إجراءات التخليص الجمركي',
+    systemFocus: 'Fire Fighting',
+  }),
+  risk('MR-003', { riskDescription: 'Water leakage from AC drain lines into the electrical room', systemFocus: 'HVAC' }),
+  risk('MR-004', { riskDescription: 'Chillers delivery delayed by customs at port', status: 'Closed' }),
+];
+
+describe('findDuplicateRisks', () => {
+  it('folds Arabic spelling variants, articles and English suffixes into the same tokens', () => {
+    expect(riskTokens('Chillers delivered')).toEqual(['chiller', 'deliver']);
+    expect(riskTokens('والمضخات في الْمبنى')).toEqual(['مضخات', 'مبني']);
+  });
+
+  it('matches reworded English and Arabic risks, open ones only, best first', () => {
+    const english = findDuplicateRisks({ riskDescription: 'Chillers delivery delayed by customs at the port', systemFocus: 'HVAC' }, REGISTER);
+    expect(english.map(m => m.risk.riskId)).toEqual(['MR-001']);
+    expect(english[0].fields.systemFocus).toBe(1);
+
+    const arabic = findDuplicateRisks({ riskDescription: 'تاخر توريد المضخات الحريق بسبب الجمارك', likelyCauses: 'التخليص الجمركي' }, REGISTER);
+    expect(arabic.map(m => m.risk.riskId)).toEqual(['MR-002']);
+    expect(arabic[0].score).toBeGreaterThan(0.7);
+  });
+
+  it('ignores risks that only share a system or a word', () => {
+    expect(findDuplicateRisks({ riskDescription: 'Crane operations stopped by sandstorms', systemFocus: 'HVAC' }, REGISTER)).toEqual([]);
+    expect(findDuplicateRisks({ riskDescription: 'Delay in cable tray delivery', systemFocus: 'Electrical' }, REGISTER)).toEqual([]);
+  });
+});
+
+describe('mergeRiskPatch', () => {
+  it('appends new mitigation and fills missing owner and due date only', () => {
+    const existing = REGISTER[0];
+    expect(mergeRiskPatch(existing, { mitigationStrategiesActions: 'Air-freight the first two units', actionOwner: 'Eng. Sara', dueDateString: '2025-07-01' })).toEqual({
+      mitigationStrategiesActions: 'Follow up with the clearing agent\nAir-freight the first two units',
+      actionOwner: 'Eng. Sara',
+      dueDateString: '2025-07-01',
+    });
+    expect(mergeRiskPatch({ ...existing, actionOwner: 'Eng. Khaled', dueDateString: '2025-06-15' }, {
+      mitigationStrategiesActions: 'follow up with the clearing agent.', actionOwner: 'Eng. Sara', dueDateString: '2025-07-01',
+    })).toEqual({});
+    const gemini = { mitigationStrategiesActions: ['Air-freight the first two units', 'Weekly customs call'] } as unknown as RiskDraft;
+    expect(mergeRiskPatch(existing, gemini).mitigationStrategiesActions)
+      .toBe('Follow up with the clearing agent\nAir-freight the first two units; Weekly customs call');
+  });
+});
+
+describe('duplicate checks on the add flow', () => {
+  let store: MemoryRiskStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new MemoryRiskStore(REGISTER);
+    setRiskStore(store);
+    setRiskAuditLog({ list: async () => [], add: async () => {} });
+  });
+
+  afterEach(() => {
+    setRiskStore(null);
+    setRiskAuditLog(null);
+  });
+
+  const post = (handler: (request: NextRequest) => Promise<Response>, url: string, body: unknown) =>
+    handler(new NextRequest(url, { method: 'POST', body: JSON.stringify(body) }));
+
+  it('lists likely duplicates before confirmation', async () => {
+    const response = await post(checkDuplicates, 'http://localhost/api/risks/duplicates', { riskDescription: 'Chiller delivery delay, customs at port' });
+    expect((await response.json()).duplicates.map((d: { risk: RiskRegisterItem }) => d.risk.riskId)).toEqual(['MR-001']);
+    expect((await post(checkDuplicates, 'http://localhost/api/risks/duplicates', {})).status).toBe(400);
+  });
+
+  it('refuses a likely duplicate unless allowDuplicate is set', async () => {
+    const draft = { riskDescription: 'Chiller delivery delay, customs at port', systemFocus: 'HVAC' };
+    const refused = await post(add, 'http://localhost/api/risks/add', draft);
+    expect(refused.status).toBe(409);
+    expect((await refused.json()).duplicates[0].risk.riskId).toBe('MR-001');
+    expect(await store.list()).toHaveLength(4);
+
+    const added = await post(add, 'http://localhost/api/risks/add?allowDuplicate=true', draft);
+    expect(added.status).toBe(200);
+    expect((await added.json()).riskId).toBe('MR-005');
+  });
+
+  it('accepts Gemini drafts with array fields', async () => {
+    const duplicate = { riskDescription: 'Chiller delivery delay, customs at port', likelyCauses: ['customs', 'clearance backlog'], systemFocus: ['HVAC'] };
+    const refused = await post(add, 'http://localhost/api/risks/add', duplicate);
+    expect(refused.status).toBe(409);
+    expect((await refused.json()).duplicates[0].risk.riskId).toBe('MR-001');
+
+    const fresh = { riskDescription: 'Scaffolding shortage in the GIS building', likelyCauses: ['customs', 'vendor'] };
+    const added = await post(add, 'http://localhost/api/risks/add', fresh);
+    expect(added.status).toBe(200);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryRiskStore, setRiskAuditLog, setRiskStore, type RiskAuditEntry, type RiskAuditLog } from '@/lib/risks';
+import { PATCH, DELETE } from '@/app/api/risks/[riskId]/route';
+import { POST } from '@/app/api/risks/add/route';
+import { GET } from '@/app/api/risks/history/route';
+import { buildRiskBurndown } from '@/services/risk-history';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+const risk = (riskId: string, riskLevelScore: string, status: string = 'Open') =>
+  ({ riskId, riskDescription: riskId, riskLevelScore, status, residualRiskLevel: 'Low' } as RiskRegisterItem);
+
+class ArrayAuditLog implements RiskAuditLog {
+  entries: RiskAuditEntry[] = [];
+  async list(riskId?: string) { return this.entries.filter(e => !riskId || e.riskId === riskId); }
+  async add(entry: RiskAuditEntry) { this.entries.unshift(entry); }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 5, 30, 12).getTime();
+
+describe('risk audit trail', () => {
+  let log: ArrayAuditLog;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    log = new ArrayAuditLog();
+    setRiskAuditLog(log);
+    setRiskStore(new MemoryRiskStore([risk('MR-001', 'High'), risk('MR-002', 'Medium')]));
+  });
+
+  afterEach(() => {
+    setRiskStore(null);
+    setRiskAuditLog(null);
+  });
+
+  it('records who changed what on create, update and close', async () => {
+    const headers = { 'x-risk-editor': encodeURIComponent('م. خالد') };
+    await POST(new NextRequest('http://localhost/api/risks/add', { method: 'POST', headers, body: JSON.stringify({ riskDescription: 'New', riskLevelScore: 'Critical' }) }));
+    await PATCH(new NextRequest('http://localhost/api/risks/MR-001', { method: 'PATCH', headers, body: JSON.stringify({ status: 'In Progress', actionOwner: 'Eng. Sara' }) }), { params: { riskId: 'MR-001' } });
+    await DELETE(new NextRequest('http://localhost/api/risks/MR-002', { method: 'DELETE' }), { params: { riskId: 'MR-002' } });
+    // Closing twice changes nothing, so nothing is recorded
+    await DELETE(new NextRequest('http://localhost/api/risks/MR-002', { method: 'DELETE' }), { params: { riskId: 'MR-002' } });
+
+    expect(log.entries.map(e => [e.riskId, e.action, e.actor])).toEqual([
+      ['MR-002', 'close', 'Dashboard'],
+      ['MR-001', 'update', 'م. خالد'],
+      ['MR-003', 'create', 'م. خالد'],
+    ]);
+    expect(log.entries[1].changes).toEqual([
+      { field: 'status', from: 'Open', to: 'In Progress' },
+      { field: 'actionOwner', from: null, to: 'Eng. Sara' },
+    ]);
+    expect(log.entries[2].changes).toContainEqual({ field: 'riskLevelScore', from: null, to: 'Critical' });
+
+    const res = await GET(new NextRequest('http://localhost/api/risks/history?riskId=MR-001'));
+    expect((await res.json()).entries).toHaveLength(1);
+  });
+
+  it('rebuilds open risks by level by undoing later changes', () => {
+    const entries: RiskAuditEntry[] = [
+      { id: '1', riskId: 'MR-003', action: 'create', actor: 'a', timestamp: NOW - 20 * DAY, changes: [{ field: 'riskLevelScore', from: null, to: 'Critical' }] },
+      { id: '2', riskId: 'MR-001', action: 'update', actor: 'a', timestamp: NOW - 10 * DAY, changes: [{ field: 'riskLevelScore', from: 'Critical', to: 'High' }] },
+      { id: '3', riskId: 'MR-002', action: 'close', actor: 'a', timestamp: NOW - 2 * DAY, changes: [{ field: 'status', from: 'Open', to: 'Closed' }] },
+    ];
+    const points = buildRiskBurndown([risk('MR-001', 'High'), risk('MR-002', 'Medium', 'Closed'), risk('MR-003', 'Critical')], entries, NOW, 4);
+
+    expect(points.map(p => p.open)).toEqual([2, 3, 3, 2]);
+    expect(points[0].levels).toMatchObject({ Critical: 1, Medium: 1, High: 0 });
+    expect(points[2].levels).toMatchObject({ Critical: 1, High: 1, Medium: 1 });
+    expect(points[3]).toMatchObject({ date: '2025-06-30', open: 2 });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildRiskMatrix, parseLikelihood, parseRiskBand, parseSeverity, placeRisk } from '@/services/risk-matrix';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+const risk = (riskId: string, likelihood: string | null, severity: string | null, residual: string | null = null) =>
+  ({ riskId, likelihood, severityImpactLevel: severity, residualRiskLevel: residual } as RiskRegisterItem);
+
+describe('risk matrix', () => {
+  it('reads the likelihood and severity wording used in the register', () => {
+    expect(parseLikelihood('Medium to High')).toBe(4);
+    expect(parseLikelihood('Very Low')).toBe(1);
+    expect(parseLikelihood('Moderate')).toBe(3);
+    expect(parseLikelihood('5')).toBe(5);
+    expect(parseLikelihood('')).toBeNull();
+    expect(parseSeverity('Major')).toBe(4);
+    expect(parseSeverity('Critical')).toBe(5);
+    expect(parseRiskBand('Medium-High')).toBe('Medium-High');
+  });
+
+  it('keeps the severity and lowers the likelihood to match the residual level', () => {
+    const item = risk('R-1', 'High', 'High', 'Medium');
+    expect(placeRisk(item, 'inherent')).toEqual({ likelihood: 4, severity: 4 });
+    expect(placeRisk(item, 'residual')).toEqual({ likelihood: 2, severity: 4 });
+    // No residual level: stays where it is
+    expect(placeRisk(risk('R-2', 'Low', 'Medium'), 'residual')).toEqual({ likelihood: 2, severity: 3 });
+  });
+
+  it('counts risks per cell and reports the ones it cannot place', () => {
+    const matrix = buildRiskMatrix([
+      risk('R-1', 'Medium', 'High'),
+      risk('R-2', 'Medium', 'High'),
+      risk('R-3', 'Very Low', 'Critical'),
+      risk('R-4', null, 'High'),
+    ], 'inherent');
+    expect(matrix.rows).toHaveLength(5);
+    expect(matrix.rows[0][0]).toMatchObject({ likelihood: 5, severity: 1 });
+    const cell = matrix.rows[5 - 3][4 - 1];
+    expect(cell.risks.map(r => r.riskId)).toEqual(['R-1', 'R-2']);
+    expect(cell.band).toBe('Medium-High');
+    expect(matrix.rows[4][4].risks.map(r => r.riskId)).toEqual(['R-3']);
+    expect(matrix.unplaced.map(r => r.riskId)).toEqual(['R-4']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { DirectoryFeedSource, parseFeed } from '@/lib/feeds';
+import { FileRiskDraftQueue, setRiskDraftQueue } from '@/lib/risks';
+import { GET } from '@/app/api/risks/drafts/route';
+import { PATCH } from '@/app/api/risks/drafts/[draftId]/route';
+import { matchScanKeywords, scanForRisks } from '@/services/risk-scanner';
+import { RiskDraftingConfigError, type AnalyzedRisk } from '@/services/risk-drafting';
+
+const RSS = `<?xml version="1.0"?><rss><channel><title>Local news</title>
+  <item><title>Water station shutdown</title><link>https://news.example/water</link>
+    <description><![CDATA[<p>Works at <b>لمحطة الْمويه</b> will cut supply &amp; delay testing.</p>]]></description>
+    <pubDate>Mon, 02 Jun 2025 08:00:00 GMT</pubDate></item>
+  <item><title>Football results</title><link>https://news.example/sport</link><description>Nothing relevant</description></item>
+</channel></rss>`;
+
+const ATOM = `<feed xmlns="http://www.w3.org/2005/Atom"><title>Supplier</title>
+  <entry><id>urn:supplier:1</id><title>Chiller shipment held at port</title><link href="https://supplier.example/chillers"/>
+    <updated>2025-06-03T10:00:00Z</updated><summary>Customs inspection backlog</summary></entry>
+</feed>`;
+
+const analyzed = (description: string): AnalyzedRisk => ({
+  riskDescription: description.split('\n')[1],
+  systemFocus: 'Plumbing',
+  likelyCauses: '',
+  potentialImpactConsequence: '',
+  likelihood: 'Medium',
+  severityImpactLevel: 'High',
+  riskLevelScore: 'High',
+  riskCategory: 'External',
+  mitigationStrategiesActions: '',
+});
+
+const NOW = new Date(2025, 5, 10, 9).getTime();
+
+describe('matchScanKeywords', () => {
+  it('matches Arabic across diacritics and prefixes, English on whole words', () => {
+    const keywords = ['محطة المويه', 'chiller', 'port'];
+    expect(matchScanKeywords({ title: 'تعطل لمحطة الْمويه', summary: '' }, keywords)).toEqual(['محطة المويه']);
+    expect(matchScanKeywords({ title: 'CHILLER delivery', summary: 'Delayed at the Port.' }, keywords)).toEqual(['chiller', 'port']);
+    expect(matchScanKeywords({ title: 'Chillers and transport', summary: '' }, keywords)).toEqual([]);
+  });
+});
+
+describe('parseFeed', () => {
+  it('reads RSS items and Atom entries as plain text', () => {
+    const [water] = parseFeed(RSS, 'rss');
+    expect(water).toMatchObject({ title: 'Water station shutdown', url: 'https://news.example/water', publishedAt: Date.UTC(2025, 5, 2, 8) });
+    expect(water.summary).toBe('Works at لمحطة الْمويه will cut supply & delay testing.');
+    expect(parseFeed(ATOM, 'atom')[0]).toMatchObject({ id: 'urn:supplier:1', url: 'https://supplier.example/chillers', summary: 'Customs inspection backlog' });
+  });
+});
+
+describe('scanForRisks', () => {
+  let dir: string;
+  let queue: FileRiskDraftQueue;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'risk-scan-'));
+    await fs.mkdir(path.join(dir, 'feeds'));
+    await fs.writeFile(path.join(dir, 'feeds', 'news.rss'), RSS);
+    await fs.writeFile(path.join(dir, 'feeds', 'supplier.atom'), ATOM);
+    await fs.writeFile(path.join(dir, 'feeds', 'site-report.txt'), 'Weekly site report\nCrane inspection passed.');
+    queue = new FileRiskDraftQueue(path.join(dir, 'drafts.json'));
+  });
+
+  afterEach(async () => {
+    setRiskDraftQueue(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const sources = () => [new DirectoryFeedSource(path.join(dir, 'feeds'))];
+
+  it('drafts matching items once, newest first, and defers the rest past maxDrafts', async () => {
+    const analyze = vi.fn(async (description: string) => analyzed(description));
+    const keywords = ['محطة المويه', 'Chiller', 'crane'];
+
+    const first = await scanForRisks({ sources: sources(), keywords, queue, analyze, maxDrafts: 2, now: NOW });
+    expect(first).toMatchObject({ items: 4, matched: 3, deferred: 1, errors: [] });
+    // The text file's mtime is "now", so it comes before the June feed items
+    expect(first.queued.map(d => d.title)).toEqual(['Weekly site report', 'Chiller shipment held at port']);
+    expect(first.queued[1]).toMatchObject({
+      status: 'pending',
+      matchedKeywords: ['Chiller'],
+      risk: { riskLevelScore: 'High', status: 'Open', sourceUrl: 'https://supplier.example/chillers', detectionDateString: '2025-06-10' },
+    });
+
+    const second = await scanForRisks({ sources: sources(), keywords, queue, analyze, knownSources: [], now: NOW });
+    expect(second.queued.map(d => d.risk.sourceUrl)).toEqual(['https://news.example/water']);
+    expect(analyze).toHaveBeenCalledTimes(3);
+    expect(await scanForRisks({ sources: sources(), keywords, queue, analyze, now: NOW })).toMatchObject({ matched: 0, queued: [] });
+  });
+
+  it('skips sources already in the register and stops drafting without an API key', async () => {
+    const analyze = vi.fn(async () => { throw new RiskDraftingConfigError('GEMINI_API_KEY is not configured'); });
+    const result = await scanForRisks({
+      sources: sources(), keywords: ['chiller', 'محطة المويه'], queue, analyze, knownSources: ['https://supplier.example/chillers'], now: NOW,
+    });
+
+    expect(result.matched).toBe(1);
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(result.errors).toEqual(['Water station shutdown: GEMINI_API_KEY is not configured']);
+    expect(await queue.list()).toEqual([]);
+  });
+
+  it('lists pending drafts and records accept/dismiss decisions', async () => {
+    setRiskDraftQueue(queue);
+    const { queued } = await scanForRisks({ sources: sources(), keywords: ['chiller', 'محطة المويه'], queue, analyze: async d => analyzed(d), now: NOW });
+    const [chiller, water] = queued;
+    const patch = (id: string, body: unknown) =>
+      PATCH(new NextRequest(`http://localhost/api/risks/drafts/${id}`, { method: 'PATCH', headers: { 'x-risk-editor': 'Sara' }, body: JSON.stringify(body) }), { params: { draftId: id } });
+
+    expect((await patch(chiller.id, { action: 'accept' })).status).toBe(400);
+    expect((await patch('missing', { action: 'dismiss' })).status).toBe(404);
+    const accepted = await patch(chiller.id, { action: 'accept', riskId: 'MR-031' });
+    expect((await accepted.json()).draft).toMatchObject({ status: 'accepted', riskId: 'MR-031', decidedBy: 'Sara' });
+    expect((await patch(chiller.id, { action: 'dismiss' })).status).toBe(409);
+    await patch(water.id, { action: 'dismiss' });
+
+    const pending = await GET(new NextRequest('http://localhost/api/risks/drafts'));
+    expect((await pending.json()).drafts).toEqual([]);
+    const all = await (await GET(new NextRequest('http://localhost/api/risks/drafts?status=all'))).json();
+    expect(all.drafts.map((d: { status: string }) => d.status).sort()).toEqual(['accepted', 'dismissed']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { MemoryRiskStore, nextRiskId, setRiskAuditLog, setRiskStore } from '@/lib/risks';
+import { PATCH, DELETE } from '@/app/api/risks/[riskId]/route';
+import { POST } from '@/app/api/risks/add/route';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+const risk = (riskId: string, overrides: Partial<RiskRegisterItem> = {}): RiskRegisterItem => ({
+  riskId, riskDescription: `${riskId} description`, systemFocus: 'HVAC', likelyCauses: null, potentialImpactConsequence: null,
+  likelihood: 'Medium', severityImpactLevel: 'High', riskLevelScore: 'Medium-High', riskCategory: 'Operational',
+  mitigationStrategiesActions: 'Redundant units', actionOwner: 'Eng. Khaled Sabae', dueDateString: null, dueDateTimestamp: null,
+  status: 'Open', residualRiskLevel: 'Low', lastUpdatedString: '2025-05-08', lastUpdatedTimestamp: null,
+  ...overrides,
+});
+
+const request = (riskId: string, method: string, body?: unknown) =>
+  new NextRequest(new URL(`/api/risks/${riskId}`, 'http://localhost'), { method, body: body === undefined ? undefined : JSON.stringify(body) });
+
+describe('risk register writes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Keep the audit trail out of the working directory (riskHistory.test.ts covers it)
+    setRiskAuditLog({ list: async () => [], add: async () => {} });
+  });
+
+  afterEach(() => {
+    setRiskStore(null);
+    setRiskAuditLog(null);
+  });
+
+  it('numbers new risks after the highest MR id', () => {
+    expect(nextRiskId(['MR-001', 'MR-012', 'AUTO-99', null])).toBe('MR-013');
+    expect(nextRiskId([])).toBe('MR-001');
+  });
+
+  it('updates only the given columns and refreshes Last Updated', async () => {
+    const store = new MemoryRiskStore([risk('MR-001'), risk('MR-002')]);
+    setRiskStore(store);
+
+    const res = await PATCH(request('MR-002', 'PATCH', { actionOwner: ' Eng. Sara ', dueDateString: '2025-07-01' }), { params: { riskId: 'MR-002' } });
+    expect(res.status).toBe(200);
+    const { risk: updated } = await res.json();
+    expect(updated).toMatchObject({ riskId: 'MR-002', actionOwner: 'Eng. Sara', dueDateString: '2025-07-01', status: 'Open', residualRiskLevel: 'Low' });
+    expect(updated.dueDateTimestamp).toBe(new Date(2025, 6, 1).getTime());
+    expect(updated.lastUpdatedString).not.toBe('2025-05-08');
+    expect((await store.list())[0].actionOwner).toBe('Eng. Khaled Sabae');
+  });
+
+  it('rejects fields that are not editable, bad dates and unknown ids', async () => {
+    setRiskStore(new MemoryRiskStore([risk('MR-001')]));
+    const patch = (body: unknown, id = 'MR-001') => PATCH(request(id, 'PATCH', body), { params: { riskId: id } });
+
+    expect((await patch({ riskDescription: 'rewritten' })).status).toBe(400);
+    expect((await patch({ dueDateString: '01/07/2025' })).status).toBe(400);
+    expect((await patch({ status: '' })).status).toBe(400);
+    expect((await patch({})).status).toBe(400);
+    expect((await patch({ status: 'In Progress' }, 'MR-404')).status).toBe(404);
+  });
+
+  it('soft-closes on DELETE and keeps the row', async () => {
+    const store = new MemoryRiskStore([risk('MR-001')]);
+    setRiskStore(store);
+
+    const res = await DELETE(request('MR-001', 'DELETE'), { params: { riskId: 'MR-001' } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).risk.status).toBe('Closed');
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('appends confirmed risks through the same store', async () => {
+    const store = new MemoryRiskStore([risk('MR-007')]);
+    setRiskStore(store);
+
+    const res = await POST(new NextRequest(new URL('/api/risks/add', 'http://localhost'), {
+      method: 'POST',
+      body: JSON.stringify({ riskDescription: 'Chiller delivery slips', residualRiskLevel: null, riskLevelScore: 'High' }),
+    }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).riskId).toBe('MR-008');
+    expect((await store.list())[1]).toMatchObject({ riskId: 'MR-008', status: 'Open', residualRiskLevel: 'High', actionOwner: 'TBD' });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { simulateSchedule } from '@/services/schedule-simulator';
+import { getActivityDiscipline } from '@/lib/manpower-disciplines';
+import type { EnhancedMechanicalPlanRow, GanttTaskData } from '@/types';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+const iso = (ts: number | null) => (ts === null ? null : new Date(ts).toLocaleDateString('en-CA'));
+
+const planRow = (id: string, building: string, activity: string, start: string, finish: string, predecessor: string | null = null): EnhancedMechanicalPlanRow => ({
+  id,
+  areaBuilding: building,
+  locationRoomLevel: 'Ground Floor',
+  mechanicalActivitySystem: activity,
+  originalDurationDays: null,
+  currentProgressPercentage: 0,
+  keyPredecessorActivity: predecessor,
+  predecessorFinishDateString: null,
+  predecessorFinishTimestamp: null,
+  calculatedStartDateString: start,
+  calculatedStartTimestamp: day(start),
+  calculatedFinishDateString: finish,
+  calculatedFinishTimestamp: day(finish),
+  remarksJustification: null,
+  actualStatus: 'Not Started',
+});
+
+const toTask = (row: EnhancedMechanicalPlanRow): GanttTaskData => ({
+  id: String(row.id),
+  name: `${row.areaBuilding} - ${row.mechanicalActivitySystem}`,
+  start: new Date(row.calculatedStartTimestamp!),
+  end: new Date(row.calculatedFinishTimestamp!),
+  progress: row.currentProgressPercentage ?? 0,
+  type: 'task',
+});
+
+describe('simulateSchedule', () => {
+  const plan = [
+    planRow('a', 'Control Building', 'HVAC Ducting', '2025-07-01', '2025-07-11'),
+    planRow('b', 'Control Building', 'HVAC Insulation', '2025-07-14', '2025-07-24', 'HVAC Ducting'),
+    planRow('c', 'GIS Building', 'Fire Alarm Devices', '2025-07-01', '2025-07-21'),
+  ];
+  const tasks = plan.map(toTask);
+  const manpower = [10, 10, 10, 10].map((n, i) => ({ dateString: `2025-06-0${i + 1}`, totalManpower: 20, hvacManpower: n, fireAlarmManpower: n }));
+
+  it('matches the baseline when there are no changes', () => {
+    const result = simulateSchedule(tasks, plan, manpower, []);
+    expect(result.shiftDays).toBe(0);
+    expect(iso(result.simulatedFinish)).toBe('2025-07-24');
+    expect(result.activities.every(a => a.shiftDays === 0)).toBe(true);
+  });
+
+  it('pushes successors only past their slack', () => {
+    const result = simulateSchedule(tasks, plan, manpower, [{ type: 'delay', activityId: 'a', days: 5 }]);
+    const byId = new Map(result.activities.map(a => [a.id, a]));
+    expect(byId.get('a')!.shiftDays).toBe(5);
+    expect(byId.get('b')!.shiftDays).toBe(2); // 3 days of slack between 07-11 and 07-14
+    expect(result.buildings.find(b => b.building === 'Control Building')!.shiftDays).toBe(2);
+    expect(result.buildings.find(b => b.building === 'GIS Building')!.shiftDays).toBe(0);
+    expect(iso(result.simulatedFinish)).toBe('2025-07-26');
+  });
+
+  it('applies duration changes', () => {
+    const result = simulateSchedule(tasks, plan, manpower, [{ type: 'duration', activityId: 'c', durationDays: 30 }]);
+    expect(iso(result.simulatedFinish)).toBe('2025-07-31');
+    expect(result.shiftDays).toBe(7);
+  });
+
+  it('scales remaining work by crew changes against the manpower forecast', () => {
+    const result = simulateSchedule(tasks, plan, manpower, [{ type: 'crew', discipline: 'firealarm', delta: 10 }]);
+    expect(result.crew[0]).toMatchObject({ discipline: 'firealarm', baselineCrew: 10, simulatedCrew: 20, durationFactor: 0.5 });
+    expect(result.activities.find(a => a.id === 'c')!.shiftDays).toBe(-10);
+    expect(result.activities.find(a => a.id === 'a')!.shiftDays).toBe(0);
+  });
+
+  it('warns when a change targets an unscheduled activity', () => {
+    const result = simulateSchedule(tasks, plan, manpower, [{ type: 'delay', activityId: 'missing', days: 3 }]);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('getActivityDiscipline', () => {
+  it('maps plan activity names to manpower disciplines', () => {
+    expect(getActivityDiscipline('Security System ( Cable pulling )')).toBe('security');
+    expect(getActivityDiscipline('Fire Alarm ( conduiting+cabling )')).toBe('firealarm');
+    expect(getActivityDiscipline('Firefighting')).toBe('firefighting');
+    expect(getActivityDiscipline('DDC PANEL TERMATIONS')).toBeNull();
+  });
+});
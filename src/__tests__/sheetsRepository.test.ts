@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalDirectoryDataSource } from '@/lib/data-source';
+import { resolveHeaderField } from '@/lib/sheets/header-aliases';
+import { setSheetCsvSource } from '@/services/google-sheets';
+import { SheetsRepository } from '@/services/sheets-repository';
+
+describe('resolveHeaderField', () => {
+  it('maps raw headers (English and Arabic) to typed fields', () => {
+    expect(resolveHeaderField('Current Progress %', 'mechanicalPlan')).toBe('mechanicalPlan.currentProgressPercentage');
+    expect(resolveHeaderField('نسبة التقدم', 'mechanicalPlan')).toBe('mechanicalPlan.currentProgressPercentage');
+    expect(resolveHeaderField(' Total Manpower ', 'manpower')).toBe('manpower.totalManpower');
+    expect(resolveHeaderField('Risk Level / Score')).toBe('riskRegister.riskLevelScore');
+    expect(resolveHeaderField('Unrelated column')).toBeNull();
+  });
+});
+
+describe('SheetsRepository', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'repo-'));
+    await fs.writeFile(path.join(dir, 'Manpower.csv'),
+      'Date,HVAC Manpower,Firefighting Manpower,Fire Alarm Manpower,Security Subcontractor,Total Manpower\n2024-10-01,2,1,2,3,5\n');
+    await fs.writeFile(path.join(dir, 'Mechanical Plan.csv'),
+      'Area/Building,Mechanical Activity (System),Current Progress %\nControl Building,HVAC Ducting,40%\n');
+    await fs.writeFile(path.join(dir, 'RiskRegister.csv'),
+      'Risk ID,Risk Description,Risk Level / Score,Action Owner\nR-01,Late chiller delivery,High,Procurement\n');
+    await fs.writeFile(path.join(dir, '2025-09.csv'),
+      'SnapshotDate,Area/Building,Mechanical Activity (System),Current Progress %,Total Manpower\n2025-09-01,Control Building,HVAC Ducting,55,12\n');
+    await fs.writeFile(path.join(dir, '2025-10.csv'),
+      'SnapshotDate,Area/Building,Mechanical Activity (System),Current Progress %,HVAC Manpower,Security Subcontractor,Total Manpower,Calculated Mech. Finish Date\n' +
+      '2025-10-01,GIS Building,FF Piping,0٫6,٤,2,6,11/30/2025\n');
+    // Header rows as exported from the real sheet
+    const JULY_HEADER = 'DataSource,Area/Building,Location (Room/Level),Mechanical Activity (System),Original Duration (Days),Current Progress %,Key Predecessor Activity,Predecessor Finish Date,Calculated Mech. Start Date,Calculated Mech. Finish Date,Remarks / Justification,HVAC Manpower,Firefighting Manpower,Fire Alarm Manpower,Security Subcontractor,Total Manpower';
+    await fs.writeFile(path.join(dir, '2025-07.csv'), [
+      JULY_HEADER,
+      '2025/07/01,PE-263 380 KV GIS Building,Ground Floor,Firefighting,15,0٫6,GIS Hall cable Trays,2025/06/08,2025/06/09,2025/06/24,on going,17,9,10,0,36',
+      '2025/07/31,PE-263 Control Building Ground Floor,Security System ( RGS Conduit Installation ),0,0٫7,,,2025/07/13,2025/07/06,Ongoing,,19,9,10,9,47',
+    ].join('\n'));
+    await fs.writeFile(path.join(dir, '2025-08.csv'), [
+      JULY_HEADER,
+      '2025/08/02,Mechanical Plan,"PE-263 380 KV GIS\nTUNNEL TUNNEL",Fire Alarm ( conduiting+cabling ),15,0٫8,,,,,,19,9,10,10,48',
+    ].join('\n'));
+    await fs.writeFile(path.join(dir, '2025-11.csv'), [
+      'SnapshotDate,DataSource,Area/Building & Location (Room/Level),Mechanical Activity (System),Original Duration (Days),Current Progress %,Key Predecessor Activity,Predecessor Finish Date,Calculated Mech. Start Date,Calculated Mech. Finish Date,Remarks / Justification,HVAC Manpower,Firefighting Manpower,Fire Alarm Manpower,Security Subcontractor,Total Manpower',
+      '2025-11-01,Mechanical Plan,PE-263 Customer Building 1 ( cylinder Room ) Cylinder Room,Firefighting,15,85%,,,,,,21,12,11,11,55',
+      '2025-11-01,Mechanical Plan,PE-301 CUSTOMER BUILDING #2 Ground,HVAC,10,98%,,,,,,21,12,11,11,55',
+    ].join('\n'));
+    setSheetCsvSource(new LocalDirectoryDataSource(dir));
+  });
+
+  afterAll(async () => {
+    setSheetCsvSource(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns typed project data with the same field names as the tab readers', async () => {
+    const data = await new SheetsRepository().getProjectData();
+    expect(data.manpower[0]).toMatchObject({ hvacManpower: 2, securityManpower: 3, totalManpower: 5 });
+    expect(data.mechanicalPlan[0]).toMatchObject({ areaBuilding: 'Control Building', currentProgressPercentage: 40 });
+    expect(data.riskRegister[0]).toMatchObject({ riskId: 'R-01', riskLevelScore: 'High', actionOwner: 'Procurement' });
+  });
+
+  it('maps monthly snapshot tabs to the monthly API row shape', async () => {
+    const rows = await new SheetsRepository().getMonthlySnapshotRows('2025-09');
+    expect(rows).toEqual([{
+      SnapshotDate: '2025-09-01',
+      DataSource: undefined,
+      Projects: undefined,
+      BuildingName: undefined,
+      FloorRoom: undefined,
+      SpecificLocation: undefined,
+      AreaOrBuilding: 'Control Building',
+      MechanicalActivity: 'HVAC Ducting',
+      OriginalDuration: null,
+      CurrentProgressPct: 55,
+      HVACPct: null,
+      FirefightingPct: null,
+      FireAlarmPct: null,
+      KeyPredecessorActivity: undefined,
+      PredecessorFinishDate: null,
+      CalculatedStartDate: null,
+      CalculatedFinishDate: null,
+      ManpowerTotal: 12,
+      ManpowerHVAC: null,
+      ManpowerFF: null,
+      ManpowerFA: null,
+      ManpowerSecurity: null,
+      HVACRemarks: undefined,
+      FireRemarks: undefined,
+      Remarks: undefined,
+    }]);
+  });
+
+  it('parses Arabic decimals as fractions of 100% and reads the security subcontractor column', async () => {
+    const [row] = await new SheetsRepository().getMonthlySnapshotRows('2025-10');
+    expect(row).toMatchObject({
+      CurrentProgressPct: 60,
+      ManpowerHVAC: 4,
+      ManpowerSecurity: 2,
+      ManpowerTotal: 6,
+      CalculatedFinishDate: '2025-11-30',
+    });
+  });
+
+  it('reads the real monthly layouts: date in DataSource, combined area/location column and shifted rows', async () => {
+    const repo = new SheetsRepository();
+    const july = await repo.getMonthlySnapshotRows('2025-07');
+    expect(july.map(r => [r.SnapshotDate, r.AreaOrBuilding, r.SpecificLocation, r.MechanicalActivity, r.CurrentProgressPct, r.ManpowerTotal])).toEqual([
+      ['2025-07-01', 'PE-263 380 KV GIS Building', 'Ground Floor', 'Firefighting', 60, 36],
+      ['2025-07-31', 'PE-263 Control Building', 'Ground Floor', 'Security System ( RGS Conduit Installation )', 70, 47],
+    ]);
+    expect(july[1]).toMatchObject({ DataSource: undefined, OriginalDuration: 0, CalculatedFinishDate: '2025-07-06', Remarks: 'Ongoing' });
+
+    const [august] = await repo.getMonthlySnapshotRows('2025-08');
+    expect(august).toMatchObject({ SnapshotDate: '2025-08-02', DataSource: 'Mechanical Plan', AreaOrBuilding: 'PE-263 380 KV GIS\nTUNNEL', SpecificLocation: 'TUNNEL', CurrentProgressPct: 80 });
+
+    const november = await repo.getMonthlySnapshotRows('2025-11');
+    expect(november.map(r => [r.DataSource, r.AreaOrBuilding, r.SpecificLocation])).toEqual([
+      ['Mechanical Plan', 'PE-263 Customer Building 1 ( cylinder Room )', 'Cylinder Room'],
+      ['Mechanical Plan', 'PE-301 CUSTOMER BUILDING #2', 'Ground'],
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { getTranslations } from 'next-intl/server';
 import { Card } from '@/components/ui/card';
+import type { MechanicalPlanRow } from '@/services/google-sheets';
 
 async function fetchProjectData() {
   try {
@@ -56,44 +57,47 @@ export default async function DetailsPage() {
                   {t('status')}
                 </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  {t('assignedTo')}
+                  {t('building')}
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {projectData.mechanicalPlan?.map((item: any, index: number) => (
-                <tr key={index} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {item['Task Name'] || `مهمة ${index + 1}`}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    <div className="flex items-center">
-                      <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
-                        <div 
-                          className="bg-blue-600 h-2 rounded-full"
-                          style={{ width: `${item['Progress %'] || 0}%` }}
-                        />
+              {projectData.mechanicalPlan?.map((item: MechanicalPlanRow, index: number) => {
+                const progress = item.currentProgressPercentage ?? 0;
+                return (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.mechanicalActivitySystem || `مهمة ${index + 1}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="flex items-center">
+                        <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
+                          <div 
+                            className="bg-blue-600 h-2 rounded-full"
+                            style={{ width: `${progress}%` }}
+                          />
+                        </div>
+                        <span>{progress}%</span>
                       </div>
-                      <span>{item['Progress %'] || 0}%</span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                      (item['Progress %'] || 0) >= 100 
-                        ? 'bg-green-100 text-green-800' 
-                        : (item['Progress %'] || 0) >= 50 
-                        ? 'bg-yellow-100 text-yellow-800'
-                        : 'bg-red-100 text-red-800'
-                    }`}>
-                      {(item['Progress %'] || 0) >= 100 ? 'مكتمل' : 
-                       (item['Progress %'] || 0) >= 50 ? 'قيد التنفيذ' : 'لم يبدأ'}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {item['Assigned To'] || 'غير محدد'}
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        progress >= 100 
+                          ? 'bg-green-100 text-green-800' 
+                          : progress >= 50 
+                          ? 'bg-yellow-100 text-yellow-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        {progress >= 100 ? 'مكتمل' : 
+                         progress >= 50 ? 'قيد التنفيذ' : 'لم يبدأ'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.areaBuilding || 'غير محدد'}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -1,5 +1,7 @@
 import { getTranslations } from 'next-intl/server';
 import { Card } from '@/components/ui/card';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import { getRiskLevelBand, type RiskLevelBand } from '@/services/risk-analytics';
 
 async function fetchProjectData() {
   try {
@@ -37,11 +39,13 @@ export default async function RisksPage() {
     );
   }
 
-  const getRiskLevel = (score: number) => {
-    if (score >= 15) return { level: 'عالي', color: 'bg-red-100 text-red-800' };
-    if (score >= 8) return { level: 'متوسط', color: 'bg-yellow-100 text-yellow-800' };
-    return { level: 'منخفض', color: 'bg-green-100 text-green-800' };
+  const RISK_LEVEL_STYLES: Record<RiskLevelBand, { level: string; color: string }> = {
+    high: { level: 'عالي', color: 'bg-red-100 text-red-800' },
+    medium: { level: 'متوسط', color: 'bg-yellow-100 text-yellow-800' },
+    low: { level: 'منخفض', color: 'bg-green-100 text-green-800' },
   };
+  const riskRegister: RiskRegisterItem[] = projectData.riskRegister ?? [];
+  const countByBand = (band: RiskLevelBand) => riskRegister.filter(r => getRiskLevelBand(r) === band).length;
 
   return (
     <div className="space-y-6">
@@ -73,23 +77,23 @@ export default async function RisksPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {projectData.riskRegister?.map((risk: any, index: number) => {
-                const riskLevel = getRiskLevel(risk['Risk Score'] || 0);
+              {riskRegister.map((risk, index) => {
+                const riskLevel = RISK_LEVEL_STYLES[getRiskLevelBand(risk)];
                 return (
                   <tr key={index} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                      {risk['Risk ID'] || `MR${index + 1}`}
+                      {risk.riskId || `MR${index + 1}`}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-500 max-w-xs">
-                      <div className="truncate" title={risk['Description']}>
-                        {risk['Description'] || 'لا يوجد وصف'}
+                      <div className="truncate" title={risk.riskDescription ?? undefined}>
+                        {risk.riskDescription || 'لا يوجد وصف'}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {risk['Probability'] || 0}
+                      {risk.likelihood || '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {risk['Impact'] || 0}
+                      {risk.severityImpactLevel || '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${riskLevel.color}`}>
@@ -97,7 +101,7 @@ export default async function RisksPage() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      {risk['Owner'] || 'غير محدد'}
+                      {risk.actionOwner || 'غير محدد'}
                     </td>
                   </tr>
                 );
@@ -112,7 +116,7 @@ export default async function RisksPage() {
         <Card title="المخاطر العالية" className="border-red-200">
           <div className="text-center">
             <div className="text-3xl font-bold text-red-600">
-              {projectData.riskRegister?.filter((r: any) => (r['Risk Score'] || 0) >= 15).length || 0}
+              {countByBand('high')}
             </div>
             <p className="text-sm text-gray-500 mt-1">مخاطرة عالية</p>
           </div>
@@ -121,10 +125,7 @@ export default async function RisksPage() {
         <Card title="المخاطر المتوسطة" className="border-yellow-200">
           <div className="text-center">
             <div className="text-3xl font-bold text-yellow-600">
-              {projectData.riskRegister?.filter((r: any) => {
-                const score = r['Risk Score'] || 0;
-                return score >= 8 && score < 15;
-              }).length || 0}
+              {countByBand('medium')}
             </div>
             <p className="text-sm text-gray-500 mt-1">مخاطرة متوسطة</p>
           </div>
@@ -133,7 +134,7 @@ export default async function RisksPage() {
         <Card title="المخاطر المنخفضة" className="border-green-200">
           <div className="text-center">
             <div className="text-3xl font-bold text-green-600">
-              {projectData.riskRegister?.filter((r: any) => (r['Risk Score'] || 0) < 8).length || 0}
+              {countByBand('low')}
             </div>
             <p className="text-sm text-gray-500 mt-1">مخاطرة منخفضة</p>
           </div>
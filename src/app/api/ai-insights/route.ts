@@ -1,15 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GeminiService } from '@/lib/gemini';
-import { withTimeout, AI_INSIGHTS_TIMEOUT_MS, isTimeoutError } from '@/lib/http/timeout';
+import { GeminiService, type ProjectData } from '@/lib/gemini';
+import { withTimeout, AI_INSIGHTS_TIMEOUT_MS, SHEETS_TIMEOUT_MS, isTimeoutError } from '@/lib/http/timeout';
+import { sheetsRepository } from '@/services/sheets-repository';
 
 export const maxDuration = 30;
 
-interface ProjectData {
-  manpower?: Record<string, any>[];
-  mechanicalPlan?: Record<string, any>[];
-  riskRegister?: Record<string, any>[];
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   
@@ -30,13 +25,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { projectData } = body as { projectData: ProjectData };
+    const { projectData: payload } = body as { projectData: ProjectData };
+
+    // The completion forecast needs the progress history, which /api/project-data doesn't carry.
+    // Without it the forecast just reports "insufficient data", so a failed fetch isn't fatal.
+    const progressHistory = payload.progressHistory ?? await withTimeout(
+      sheetsRepository.getHistoricalProgress(), SHEETS_TIMEOUT_MS, 'getHistoricalProgress'
+    ).catch((error: unknown) => {
+      console.warn('Progress history unavailable for completion forecast:', error);
+      return [];
+    });
+    const projectData: ProjectData = { ...payload, progressHistory };
     
     // Log the request (without sensitive data)
     console.log('Generating AI insights for project data with structure:', {
       manpowerCount: projectData.manpower?.length || 0,
       mechanicalPlanCount: projectData.mechanicalPlan?.length || 0,
       riskRegisterCount: projectData.riskRegister?.length || 0,
+      progressHistoryCount: progressHistory.length,
     });
 
     const geminiService = new GeminiService();
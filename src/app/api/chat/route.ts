@@ -2,16 +2,12 @@ import { type NextRequest, NextResponse } from 'next/server';
 import NodeCache from 'node-cache'; // مكتبة للتخزين المؤقت
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
 import {
-    SHEET_NAMES,
-    getProgressSheetData,
-    getManpowerSheetData,
-    getMaterialStatusData,
-    getMechanicalPlanData,
     type ProgressSheetRow,
     type ManpowerSheetRow,
     type MaterialStatusRow,
     type MechanicalPlanRow,
 } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { AIMessage, HumanMessage, BaseMessage } from "@langchain/core/messages";
 import { ChatPromptTemplate, MessagesPlaceholder } from "@langchain/core/prompts";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
@@ -92,10 +88,10 @@ async function fetchSheetData(): Promise<FetchSheetDataReturnType> {
 
     console.log('[DEBUG] جلب البيانات من Google Sheets...');
     const results = await Promise.allSettled([
-        getProgressSheetData(SHEET_NAMES.PROGRESS),
-        getManpowerSheetData(SHEET_NAMES.MANPOWER),
-        getMaterialStatusData(SHEET_NAMES.MATERIAL),
-        getMechanicalPlanData(SHEET_NAMES.PLAN),
+        sheetsRepository.getProgress(),
+        sheetsRepository.getManpower(),
+        sheetsRepository.getMaterialStatus(),
+        sheetsRepository.getMechanicalPlan(),
     ]);
 
     // TypeScript should correctly infer the tuple type here if getProgressSheetData etc. have specific Promise return types.
@@ -148,7 +144,7 @@ export async function POST(req: NextRequest) {
                     history: history
                 });
                 const replyText = formatResultForChat(exec, locale);
-                if (exec.data && parsed.command === 'forecast') {
+                if (exec.data && (parsed.command === 'forecast' || parsed.command === 'backtest')) {
                     return NextResponse.json({ reply: replyText, data: exec.data.data, type: exec.data.type, discipline: exec.data.discipline });
                 } else {
                     return NextResponse.json({ reply: replyText });
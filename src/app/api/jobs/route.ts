@@ -0,0 +1,20 @@
+// src/app/api/jobs/route.ts
+import { NextResponse } from 'next/server';
+import { getAnalysisJobRunner } from '@/services/analysis-jobs';
+import type { JobsResponse } from '@/lib/jobs';
+
+// GET /api/jobs — schedules, last/next run per analysis and the recent run log
+export async function GET(): Promise<NextResponse<JobsResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  try {
+    return withDuration(NextResponse.json(await getAnalysisJobRunner().getStatus()));
+  } catch (error) {
+    console.error('Error in /api/jobs:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/jobs/run/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisJobRunner } from '@/services/analysis-jobs';
+import { UnknownJobError, JobAlreadyRunningError, type JobRun } from '@/lib/jobs';
+
+// POST /api/jobs/run?job=<id>
+// With a job: run it now (manual trigger). Without: run every job whose scheduled time has passed since its last
+// run, which is what a hosted cron should call every few minutes. When JOBS_TRIGGER_TOKEN is set the request must
+// carry "Authorization: Bearer <token>".
+export async function POST(request: NextRequest): Promise<NextResponse<{ runs: JobRun[] } | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const token = process.env.JOBS_TRIGGER_TOKEN;
+  if (token && request.headers.get('authorization') !== `Bearer ${token}`) {
+    return withDuration(NextResponse.json({ error: 'Unauthorized' }, { status: 401 }));
+  }
+
+  const job = new URL(request.url).searchParams.get('job')?.trim();
+
+  try {
+    const runner = getAnalysisJobRunner();
+    const runs = job ? [await runner.runJob(job, 'manual')] : await runner.runDue('http');
+    return withDuration(NextResponse.json({ runs }));
+  } catch (error) {
+    if (error instanceof UnknownJobError) {
+      return withDuration(NextResponse.json({ error: error.message }, { status: 404 }));
+    }
+    if (error instanceof JobAlreadyRunningError) {
+      return withDuration(NextResponse.json({ error: error.message }, { status: 409 }));
+    }
+    console.error('Error in /api/jobs/run:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,45 @@
+// src/app/api/mechanical-plan/critical-path/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { analyzeCriticalPath, type CriticalPathResult } from '@/services/critical-path';
+import { withTimeout, isTimeoutError, SHEETS_TIMEOUT_MS } from '@/lib/http/timeout';
+
+// GET /api/mechanical-plan/critical-path?building=<name>&criticalOnly=true
+export async function GET(request: NextRequest): Promise<NextResponse<CriticalPathResult | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const url = new URL(request.url);
+  const building = url.searchParams.get('building')?.trim().toLowerCase() || null;
+  const criticalOnly = url.searchParams.get('criticalOnly') === 'true';
+
+  try {
+    const plan = await withTimeout(sheetsRepository.getMechanicalPlan(), SHEETS_TIMEOUT_MS, 'GET /api/mechanical-plan/critical-path');
+    // The whole plan is analysed so cross-building links still count; the filters only trim the response
+    const result = analyzeCriticalPath(plan);
+
+    if (building && !result.activities.some(a => a.areaBuilding?.trim().toLowerCase() === building)) {
+      return withDuration(NextResponse.json({ error: `No activities found for building "${building}"` }, { status: 404 }));
+    }
+
+    const activities = result.activities.filter(a =>
+      (!building || a.areaBuilding?.trim().toLowerCase() === building) &&
+      (!criticalOnly || a.isCritical || a.drivesBuildingFinish));
+
+    return withDuration(NextResponse.json({
+      ...result,
+      activities,
+      buildings: building ? result.buildings.filter(b => b.building.toLowerCase() === building) : result.buildings,
+    }));
+  } catch (error) {
+    if (isTimeoutError(error)) {
+      console.error('Timeout in /api/mechanical-plan/critical-path:', error);
+      return withDuration(NextResponse.json({ error: 'Request timed out' }, { status: 504 }));
+    }
+    console.error('Error in /api/mechanical-plan/critical-path:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -1,6 +1,8 @@
 // src/app/api/monthly/[yearMonth]/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleSheetsService } from '@/lib/googleSheets';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { summarizeMonthlySnapshot } from '@/services/monthly-summary';
 import { withTimeout, TimeoutError, isTimeoutError, SHEETS_TIMEOUT_MS } from '@/lib/http/timeout';
 import type { MonthlySnapshotsResponse, YearMonth, MechanicalPlanRow, MonthlySnapshot } from '@/types/monthly';
 
@@ -30,36 +32,13 @@ export async function GET(request: NextRequest, { params }: { params: Params }):
         throw new Error(`Month ${yearMonth} not found`);
       }
 
-      // Fetch and clean data
-      const rawData = await service.getSheetData(tab.sheetTitle);
-      const cleanedData = service.cleanMechanicalPlanData(rawData) as MechanicalPlanRow[];
-
-      // Compute summary
-      const totalRows = cleanedData.length;
-      let totalProgress = 0;
-      let validProgressCount = 0;
-      let totalManpower = 0;
-      let validManpowerCount = 0;
-      for (const row of cleanedData) {
-        if (row['CurrentProgressPct'] !== null && row['CurrentProgressPct'] !== undefined) {
-          totalProgress += row['CurrentProgressPct']!;
-          validProgressCount++;
-        }
-        if (row.ManpowerTotal !== null && row.ManpowerTotal !== undefined) {
-          totalManpower += row.ManpowerTotal!;
-          validManpowerCount++;
-        }
-      }
-      const avgProgressPct = validProgressCount > 0 ? totalProgress / validProgressCount : null;
+      // Typed rows via the shared repository (same header aliases as every other tab)
+      const cleanedData: MechanicalPlanRow[] = await sheetsRepository.getMonthlySnapshotRows(tab.sheetTitle);
 
       const snapshot: MonthlySnapshot = {
         month: yearMonth,
         rows: cleanedData,
-        summary: {
-          totalRows,
-          avgProgressPct,
-          totalManpower: validManpowerCount > 0 ? totalManpower : null,
-        },
+        summary: summarizeMonthlySnapshot(cleanedData),
       };
 
       return { month: yearMonth, snapshot };
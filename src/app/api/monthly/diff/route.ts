@@ -0,0 +1,58 @@
+// src/app/api/monthly/diff/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleSheetsService } from '@/lib/googleSheets';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { diffMonthlySnapshots } from '@/services/monthly-diff';
+import { withTimeout, isTimeoutError, SHEETS_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { MonthlyDiffResponse, YearMonth } from '@/types/monthly';
+
+export async function GET(request: NextRequest): Promise<NextResponse<MonthlyDiffResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const url = new URL(request.url);
+  const from = url.searchParams.get('from') as YearMonth | null;
+  const to = url.searchParams.get('to') as YearMonth | null;
+
+  // Validate params
+  if (!from || !/^\d{4}-\d{2}$/.test(from)) {
+    return withDuration(NextResponse.json({ error: 'Invalid from: must be YYYY-MM' }, { status: 400 }));
+  }
+  if (!to || !/^\d{4}-\d{2}$/.test(to)) {
+    return withDuration(NextResponse.json({ error: 'Invalid to: must be YYYY-MM' }, { status: 400 }));
+  }
+  if (from === to) {
+    return withDuration(NextResponse.json({ error: 'from and to must be different months' }, { status: 400 }));
+  }
+
+  try {
+    const result = await withTimeout(async (): Promise<MonthlyDiffResponse | null> => {
+      const service = new GoogleSheetsService();
+      const monthlyTabs = await service.listMonthlyTabs();
+      const fromTab = monthlyTabs.find(t => t.yearMonth === from);
+      const toTab = monthlyTabs.find(t => t.yearMonth === to);
+      if (!fromTab || !toTab) return null;
+
+      const [fromRows, toRows] = await Promise.all([
+        sheetsRepository.getMonthlySnapshotRows(fromTab.sheetTitle),
+        sheetsRepository.getMonthlySnapshotRows(toTab.sheetTitle),
+      ]);
+      return diffMonthlySnapshots(from, fromRows, to, toRows);
+    }, SHEETS_TIMEOUT_MS, `GET /api/monthly/diff?from=${from}&to=${to}`);
+
+    if (!result) {
+      return withDuration(NextResponse.json({ error: 'Month not found' }, { status: 404 }));
+    }
+    return withDuration(NextResponse.json(result));
+  } catch (error) {
+    if (isTimeoutError(error)) {
+      console.error('Timeout in /api/monthly/diff:', error);
+      return withDuration(NextResponse.json({ error: 'Request timed out' }, { status: 504 }));
+    }
+    console.error('Error in /api/monthly/diff:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/monthly/series/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleSheetsService } from '@/lib/googleSheets';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { buildMonthlySeries } from '@/services/monthly-series';
+import { withTimeout, isTimeoutError, SHEETS_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { MonthlySeriesResponse, YearMonth } from '@/types/monthly';
+
+export async function GET(request: NextRequest): Promise<NextResponse<MonthlySeriesResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const url = new URL(request.url);
+  const from = url.searchParams.get('from') as YearMonth | null;
+  const to = url.searchParams.get('to') as YearMonth | null;
+
+  // Validate optional range params
+  if (from && !/^\d{4}-\d{2}$/.test(from)) {
+    return withDuration(NextResponse.json({ error: 'Invalid from: must be YYYY-MM' }, { status: 400 }));
+  }
+  if (to && !/^\d{4}-\d{2}$/.test(to)) {
+    return withDuration(NextResponse.json({ error: 'Invalid to: must be YYYY-MM' }, { status: 400 }));
+  }
+  if (from && to && from > to) {
+    return withDuration(NextResponse.json({ error: 'from must not be after to' }, { status: 400 }));
+  }
+
+  try {
+    const result = await withTimeout(async (): Promise<MonthlySeriesResponse> => {
+      const service = new GoogleSheetsService();
+      const monthlyTabs = (await service.listMonthlyTabs())
+        .filter(t => (!from || t.yearMonth >= from) && (!to || t.yearMonth <= to));
+
+      const snapshots = await Promise.all(monthlyTabs.map(async tab => ({
+        month: tab.yearMonth,
+        rows: await sheetsRepository.getMonthlySnapshotRows(tab.sheetTitle),
+      })));
+      return buildMonthlySeries(snapshots);
+    }, SHEETS_TIMEOUT_MS, `GET /api/monthly/series?from=${from ?? ''}&to=${to ?? ''}`);
+
+    return withDuration(NextResponse.json(result));
+  } catch (error) {
+    if (isTimeoutError(error)) {
+      console.error('Timeout in /api/monthly/series:', error);
+      return withDuration(NextResponse.json({ error: 'Request timed out' }, { status: 504 }));
+    }
+    console.error('Error in /api/monthly/series:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,59 @@
+// src/app/api/notifications/[notificationId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationStore, type NotificationPatch, type NotificationAction, type ProactiveNotification } from '@/lib/notifications';
+
+interface Params {
+  notificationId: string;
+}
+
+// One week: longer than that should be an acknowledgement instead
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+
+// PATCH /api/notifications/:id
+// Body: { action: NotificationAction, minutes?: number } (minutes 1..10080, snooze only)
+export async function PATCH(request: NextRequest, { params }: { params: Params }): Promise<NextResponse<{ notification: ProactiveNotification } | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return withDuration(NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }));
+  }
+
+  const now = Date.now();
+  let patch: NotificationPatch;
+  switch (body?.action as NotificationAction) {
+    case 'acknowledge':
+      patch = { acknowledged: true, acknowledgedAt: now };
+      break;
+    case 'snooze': {
+      const minutes = Number(body.minutes);
+      if (!Number.isFinite(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+        return withDuration(NextResponse.json({ error: `Invalid minutes: must be between 1 and ${MAX_SNOOZE_MINUTES}` }, { status: 400 }));
+      }
+      patch = { snoozedUntil: now + Math.round(minutes) * 60 * 1000 };
+      break;
+    }
+    case 'expire':
+      patch = { expiresAt: now };
+      break;
+    default:
+      return withDuration(NextResponse.json({ error: 'Invalid action: must be acknowledge, snooze or expire' }, { status: 400 }));
+  }
+
+  try {
+    const notification = await getNotificationStore().update(params.notificationId, patch);
+    if (!notification) {
+      return withDuration(NextResponse.json({ error: 'Notification not found' }, { status: 404 }));
+    }
+    return withDuration(NextResponse.json({ notification }));
+  } catch (error) {
+    console.error(`Error in /api/notifications/${params.notificationId}:`, error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
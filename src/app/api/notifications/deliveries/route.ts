@@ -0,0 +1,25 @@
+// src/app/api/notifications/deliveries/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeliveryLog, type DeliveriesResponse } from '@/lib/notifications';
+
+// GET /api/notifications/deliveries?limit=50 — email/webhook delivery attempts, newest first
+export async function GET(request: NextRequest): Promise<NextResponse<DeliveriesResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const limitParam = new URL(request.url).searchParams.get('limit');
+  const limit = limitParam === null ? 50 : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+    return withDuration(NextResponse.json({ error: 'Invalid limit: must be an integer between 1 and 200' }, { status: 400 }));
+  }
+
+  try {
+    return withDuration(NextResponse.json({ deliveries: await getDeliveryLog().list(limit) }));
+  } catch (error) {
+    console.error('Error in /api/notifications/deliveries:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,28 @@
+// src/app/api/notifications/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationStore, isNotificationActive, summarizeNotifications, type NotificationsResponse } from '@/lib/notifications';
+
+// GET /api/notifications?include=all
+// Active notifications by default; include=all also returns acknowledged, snoozed and expired ones.
+export async function GET(request: NextRequest): Promise<NextResponse<NotificationsResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const includeAll = new URL(request.url).searchParams.get('include') === 'all';
+
+  try {
+    const now = Date.now();
+    const stored = await getNotificationStore().list();
+    const active = stored.filter(n => isNotificationActive(n, now));
+    return withDuration(NextResponse.json({
+      notifications: includeAll ? stored : active,
+      summary: summarizeNotifications(active),
+    }));
+  } catch (error) {
+    console.error('Error in /api/notifications:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
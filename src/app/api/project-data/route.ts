@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleSheetsService } from '@/lib/googleSheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { withTimeout, API_PROJECT_DATA_TIMEOUT_MS, TimeoutError, isTimeoutError } from '@/lib/http/timeout';
 
 export const maxDuration = 20;
 
 export async function GET(request: NextRequest) {
   try {
-    const sheetsService = new GoogleSheetsService();
-    const projectData = await withTimeout(sheetsService.getProjectData(), API_PROJECT_DATA_TIMEOUT_MS, 'project-data API');
+    const projectData = await withTimeout(sheetsRepository.getProjectData(), API_PROJECT_DATA_TIMEOUT_MS, 'project-data API');
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,75 @@
+// src/app/api/risks/[riskId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { isValid, parseISO } from 'date-fns';
+import { CLOSED_RISK_STATUS, EDITABLE_RISK_FIELDS, getRiskEditor, getRiskStore, recordRiskChange, RiskStoreConfigError, type EditableRiskField, type RiskPatch, type RiskResponse } from '@/lib/risks';
+
+interface Params {
+  riskId: string;
+}
+
+type RiskRouteResponse = NextResponse<RiskResponse | { error: string }>;
+
+// Only the editable columns, as trimmed strings (empty clears the cell); returns an error message otherwise
+function parsePatch(body: unknown): RiskPatch | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Body must be an object of fields to update';
+  const patch: RiskPatch = {};
+  for (const [field, value] of Object.entries(body)) {
+    if (!EDITABLE_RISK_FIELDS.includes(field as EditableRiskField)) {
+      return `Field "${field}" cannot be edited (allowed: ${EDITABLE_RISK_FIELDS.join(', ')})`;
+    }
+    if (value !== null && typeof value !== 'string') return `Invalid ${field}: must be a string or null`;
+    patch[field as EditableRiskField] = value?.trim() || null;
+  }
+  if (Object.keys(patch).length === 0) return 'Nothing to update';
+  if ('status' in patch && !patch.status) return 'Invalid status: cannot be empty';
+  if (patch.dueDateString && (!/^\d{4}-\d{2}-\d{2}$/.test(patch.dueDateString) || !isValid(parseISO(patch.dueDateString)))) {
+    return 'Invalid dueDateString: expected YYYY-MM-DD';
+  }
+  return patch;
+}
+
+function withDuration<T>(response: NextResponse<T>, startTime: number): NextResponse<T> {
+  response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+  return response;
+}
+
+async function applyUpdate(request: NextRequest, riskId: string, patch: RiskPatch, startTime: number): Promise<RiskRouteResponse> {
+  try {
+    const result = await getRiskStore().update(riskId, patch);
+    if (!result) {
+      return withDuration(NextResponse.json({ error: `Risk ${riskId} not found` }, { status: 404 }), startTime);
+    }
+    const closed = result.risk.status === CLOSED_RISK_STATUS && result.previous.status !== CLOSED_RISK_STATUS;
+    await recordRiskChange(closed ? 'close' : 'update', getRiskEditor(request), result.previous, result.risk);
+    return withDuration(NextResponse.json({ risk: result.risk }), startTime);
+  } catch (error) {
+    console.error(`Error in /api/risks/${riskId}:`, error);
+    const message = error instanceof RiskStoreConfigError ? error.message : 'Failed to update the risk register';
+    return withDuration(NextResponse.json({ error: message }, { status: 500 }), startTime);
+  }
+}
+
+// PATCH /api/risks/:riskId
+// Body: any of { status, actionOwner, dueDateString (YYYY-MM-DD), residualRiskLevel, mitigationStrategiesActions }.
+// Last Updated is always set to today. The x-risk-editor header names who made the change for the audit trail.
+export async function PATCH(request: NextRequest, { params }: { params: Params }): Promise<RiskRouteResponse> {
+  const startTime = Date.now();
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return withDuration(NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }), startTime);
+  }
+
+  const patch = parsePatch(body);
+  if (typeof patch === 'string') {
+    return withDuration(NextResponse.json({ error: patch }, { status: 400 }), startTime);
+  }
+  return applyUpdate(request, params.riskId, patch, startTime);
+}
+
+// DELETE /api/risks/:riskId
+// Soft close: the row stays in the sheet with status "Closed"
+export async function DELETE(request: NextRequest, { params }: { params: Params }): Promise<RiskRouteResponse> {
+  return applyUpdate(request, params.riskId, { status: CLOSED_RISK_STATUS }, Date.now());
+}
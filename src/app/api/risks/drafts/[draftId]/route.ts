@@ -0,0 +1,56 @@
+// src/app/api/risks/drafts/[draftId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getRiskDraftQueue, getRiskEditor, type ScannedDraftPatch, type ScannedRiskDraft } from '@/lib/risks';
+
+interface Params {
+  draftId: string;
+}
+
+// PATCH /api/risks/drafts/:id
+// Body: { action: 'accept', riskId } after the draft was added through POST /api/risks/add, or { action: 'dismiss' }
+export async function PATCH(request: NextRequest, { params }: { params: Params }): Promise<NextResponse<{ draft: ScannedRiskDraft } | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return withDuration(NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }));
+  }
+
+  const decision = { decidedAt: Date.now(), decidedBy: getRiskEditor(request) };
+  let patch: ScannedDraftPatch;
+  switch (body?.action) {
+    case 'accept':
+      if (typeof body.riskId !== 'string' || !body.riskId.trim()) {
+        return withDuration(NextResponse.json({ error: 'riskId is required to accept a draft' }, { status: 400 }));
+      }
+      patch = { status: 'accepted', riskId: body.riskId.trim(), ...decision };
+      break;
+    case 'dismiss':
+      patch = { status: 'dismissed', ...decision };
+      break;
+    default:
+      return withDuration(NextResponse.json({ error: 'Invalid action: must be accept or dismiss' }, { status: 400 }));
+  }
+
+  try {
+    const queue = getRiskDraftQueue();
+    const current = (await queue.list()).find(d => d.id === params.draftId);
+    if (!current) {
+      return withDuration(NextResponse.json({ error: 'Draft not found' }, { status: 404 }));
+    }
+    if (current.status !== 'pending') {
+      return withDuration(NextResponse.json({ error: `Draft already ${current.status}` }, { status: 409 }));
+    }
+    const draft = await queue.update(params.draftId, patch);
+    return withDuration(NextResponse.json({ draft: draft! }));
+  } catch (error) {
+    console.error(`Error in /api/risks/drafts/${params.draftId}:`, error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
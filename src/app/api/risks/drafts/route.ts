@@ -0,0 +1,25 @@
+// src/app/api/risks/drafts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getRiskDraftQueue, type RiskDraftsResponse } from '@/lib/risks';
+
+// GET /api/risks/drafts?status=pending|all
+// Scanner drafts, newest first; pending only unless status=all
+export async function GET(request: NextRequest): Promise<NextResponse<RiskDraftsResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const status = request.nextUrl.searchParams.get('status') ?? 'pending';
+  if (status !== 'pending' && status !== 'all') {
+    return withDuration(NextResponse.json({ error: 'Invalid status: must be pending or all' }, { status: 400 }));
+  }
+  try {
+    const drafts = await getRiskDraftQueue().list();
+    return withDuration(NextResponse.json({ drafts: status === 'all' ? drafts : drafts.filter(d => d.status === 'pending') }));
+  } catch (error) {
+    console.error('Error in /api/risks/drafts:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/risks/duplicates/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getRiskStore, RiskStoreConfigError, type RiskDraft, type RiskDuplicatesResponse } from '@/lib/risks';
+import { findDuplicateRisks } from '@/services/risk-duplicates';
+
+// POST /api/risks/duplicates
+// Body: the risk about to be sent to POST /api/risks/add. Returns the open risks it likely duplicates, best first.
+export async function POST(request: NextRequest): Promise<NextResponse<RiskDuplicatesResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  let draft: RiskDraft;
+  try {
+    draft = await request.json();
+  } catch {
+    return withDuration(NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 }));
+  }
+  if (!draft || typeof draft !== 'object' || typeof draft.riskDescription !== 'string' || !draft.riskDescription.trim()) {
+    return withDuration(NextResponse.json({ error: 'riskDescription is required' }, { status: 400 }));
+  }
+
+  try {
+    return withDuration(NextResponse.json({ duplicates: findDuplicateRisks(draft, await getRiskStore().list()) }));
+  } catch (error) {
+    console.error('Error in /api/risks/duplicates:', error);
+    const message = error instanceof RiskStoreConfigError ? error.message : 'Failed to read the risk register';
+    return withDuration(NextResponse.json({ error: message }, { status: 500 }));
+  }
+}
@@ -0,0 +1,22 @@
+// src/app/api/risks/history/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getRiskAuditLog, type RiskHistoryResponse } from '@/lib/risks';
+
+// GET /api/risks/history?riskId=MR-002
+// Audit trail of changes made through the dashboard, newest first; without riskId, the whole register's
+export async function GET(request: NextRequest): Promise<NextResponse<RiskHistoryResponse | { error: string }>> {
+  const startTime = Date.now();
+  const withDuration = <T,>(response: NextResponse<T>): NextResponse<T> => {
+    response.headers.set('x-duration-ms', (Date.now() - startTime).toString());
+    return response;
+  };
+
+  const riskId = request.nextUrl.searchParams.get('riskId')?.trim() || undefined;
+  try {
+    const entries = await getRiskAuditLog().list(riskId);
+    return withDuration(NextResponse.json({ entries }));
+  } catch (error) {
+    console.error('Error in /api/risks/history:', error);
+    return withDuration(NextResponse.json({ error: 'Internal server error' }, { status: 500 }));
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/api/sheets/csv/route.ts
+// Serves one tab of the local CSV export to the browser hooks when NEXT_PUBLIC_DATA_SOURCE=local.
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerDataSource, isSheetNotFoundError } from '@/lib/data-source';
+
+export async function GET(request: NextRequest) {
+  const sheet = request.nextUrl.searchParams.get('sheet');
+  if (!sheet) {
+    return NextResponse.json({ error: 'Missing required query parameter: sheet' }, { status: 400 });
+  }
+
+  const source = getServerDataSource();
+  if (!source) {
+    return NextResponse.json({ error: 'Local data source is not enabled' }, { status: 404 });
+  }
+
+  try {
+    const csv = await source.getCsv(sheet);
+    return new NextResponse(csv, {
+      status: 200,
+      headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    if (isSheetNotFoundError(error)) {
+      return NextResponse.json({ error: `Sheet not found: ${sheet}` }, { status: 404 });
+    }
+    console.error(`Error in /api/sheets/csv for "${sheet}":`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
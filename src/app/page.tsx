@@ -2,6 +2,7 @@
 "use client";
 
 import { ModeToggle } from "@/components/theme-toggle";
+import { AnalysisScheduleIndicator } from "@/components/AnalysisScheduleIndicator";
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 // هنحتفظ بالـ type imports عشان باقي الـ logic اللي في الصفحة
 import {
@@ -9,6 +10,7 @@ import {
     type MaterialStatusRow,
     type MechanicalPlanRow,
     type HistoricalProgressRow,
+    type RFIRow,
     // type RiskRegisterItem, // لو هتحتاج الـ type هنا، لكن الـ hook هيجيبه
 } from "../services/google-sheets"; // المسار ده ممكن يكون @/services/google-sheets لو عامل alias
 import { getAiSummary } from '../services/ai-service'; // نفس الكلام للمسار
@@ -18,6 +20,7 @@ import { ProgressTab } from "@/components/progress-tab";
 import { ManpowerTab } from "@/components/manpower-tab";
 import { MaterialTab } from "@/components/material-tab";
 import { MechanicalPlanTab } from "@/components/mechanical-plan-tab";
+import { RfiTab } from "@/components/rfi-tab";
 // --- الإضافة الجديدة ---
 import RiskManagementTab from "@/components/RiskManagementTab"; // <<<--- استيراد كومبوننت المخاطر
 
@@ -29,13 +32,15 @@ import { Calendar } from "@/components/ui/calendar";
 import { Calendar as CalendarIcon } from "lucide-react";
 import { DailyReportSummary } from '@/components/daily-report-summary';
 import { useToast } from '@/hooks/use-toast'; // المسار ده ممكن يكون @/components/ui/use-toast لو بتستخدم shadcn hooks
-import { format, startOfYear, isValid, startOfDay, subDays, parseISO } from 'date-fns';
+import { format, startOfYear, isValid, startOfDay, parseISO } from 'date-fns';
 import { DateRange } from "react-day-picker";
 import * as XLSX from 'xlsx';
 import { cn } from '@/lib/utils';
 // --- Autonomous Insights Imports ---
 import ProactiveNotifications from '@/components/ProactiveNotifications';
-import { initializeAutonomousAnalysis } from '@/services/autonomous-insights';
+import { calculateEvm } from '@/services/evm';
+import { calculateWeeklyVelocity } from '@/services/completion-forecast';
+import { calculateManpowerDemand } from '@/services/manpower-demand';
 import type {
     ManpowerSortState, MaterialSortState, MechanicalPlanSortState,
     ManpowerSortColumn, MaterialSortColumn, MechanicalPlanSortColumn,
@@ -49,6 +54,11 @@ import { useManpowerData } from '@/hooks/useManpowerData';
 import { useMaterialData } from '@/hooks/useMaterialData';
 import { useMechanicalPlanData } from '@/hooks/useMechanicalPlanData';
 import { useHistoricalData } from '@/hooks/useHistoricalData';
+import { useRfiData } from '@/hooks/useRfiData';
+import { useMirData } from '@/hooks/useMirData';
+import { useMonthlySeries } from '@/hooks/useMonthlySeries';
+import { useAnalysisJobs } from '@/hooks/useAnalysisJobs';
+import { MANPOWER_DISCIPLINES, getRowTotalManpower } from '@/lib/manpower-disciplines';
 // لا نحتاج استيراد useRiskData هنا، لأنه سيستخدم داخل RiskManagementTab
 
 
@@ -79,6 +89,10 @@ export default function Home() {
     const { materialData, materialLoading, materialError } = useMaterialData();
     const { mechanicalPlanData, mechanicalPlanLoading, mechanicalPlanError } = useMechanicalPlanData();
     const { historicalData, historicalLoading, historicalError } = useHistoricalData();
+    const { rfiData, rfiLoading, rfiError } = useRfiData();
+    const { mirData, mirLoading } = useMirData();
+    const { monthlySeries, monthlySeriesLoading } = useMonthlySeries();
+    const { analysisJobs } = useAnalysisJobs();
     // بيانات المخاطر سيتم جلبها داخل RiskManagementTab بواسطة useRiskData hook
 
     // --- Debug Log 1: البيانات الأصلية من الهوك ---
@@ -222,7 +236,7 @@ export default function Home() {
             if (!a) return 1 * factor; if (!b) return -1 * factor;
             const key = column as keyof ManpowerSheetRow | 'totalManpower';
             let valA: string | number | null | undefined; let valB: string | number | null | undefined;
-            if (key === 'totalManpower') { const parseOrDefault = (v: any) => (typeof v === 'number' ? v : 0); valA = (a.totalManpower ?? (parseOrDefault(a.hvacManpower) + parseOrDefault(a.firefightingManpower) + parseOrDefault(a.fireAlarmManpower))); valB = (b.totalManpower ?? (parseOrDefault(b.hvacManpower) + parseOrDefault(b.firefightingManpower) + parseOrDefault(b.fireAlarmManpower)));
+            if (key === 'totalManpower') { valA = getRowTotalManpower(a); valB = getRowTotalManpower(b);
             } else { valA = a[key as keyof ManpowerSheetRow]; valB = b[key as keyof ManpowerSheetRow]; }
             if (valA === null || valA === undefined) return 1 * factor; if (valB === null || valB === undefined) return -1 * factor;
             if (typeof valA === 'number' && typeof valB === 'number') { if (isNaN(valA)) return 1 * factor; if (isNaN(valB)) return -1 * factor; return (valA - valB) * factor; }
@@ -416,16 +430,11 @@ export default function Home() {
         if (historicalLoading || !Array.isArray(historicalData) || historicalData.length < 2) { return null; }
         const uniqueTimestamps = Array.from(new Set(historicalData.map(r => r?.snapshotTimestamp))).filter((ts): ts is number => ts !== null && !isNaN(ts) && isFinite(ts)).sort((a, b) => a - b);
         if (uniqueTimestamps.length < 2) return null;
-        const today = startOfDay(new Date()).getTime(); const sevenDaysAgo = startOfDay(subDays(new Date(), 7)).getTime();
-        const latestValidTimestamp = uniqueTimestamps.filter(ts => ts <= today).pop(); const pastValidTimestamp = uniqueTimestamps.filter(ts => ts <= sevenDaysAgo).pop();
-        if (!latestValidTimestamp || !pastValidTimestamp || latestValidTimestamp <= pastValidTimestamp) return null;
-        const latestOverallMetrics = calculateSnapshotMetrics(latestValidTimestamp, historicalData); const pastOverallMetrics = calculateSnapshotMetrics(pastValidTimestamp, historicalData);
-        const latestProg = latestOverallMetrics.overallAvgProgress; const pastProg = pastOverallMetrics.overallAvgProgress;
-        if (latestProg === null || pastProg === null) return null;
-        const daysDiff = Math.round((latestValidTimestamp - pastValidTimestamp) / (1000 * 60 * 60 * 24));
-        if (daysDiff <= 0) return null;
-        const changePerDay = (latestProg - pastProg) / daysDiff;
-        return Math.round((changePerDay * 7) * 10) / 10;
+        // Shared with the completion forecast so the card and the projected dates use the same rate
+        const points = uniqueTimestamps
+            .map(ts => ({ timestamp: ts, progress: calculateSnapshotMetrics(ts, historicalData).overallAvgProgress }))
+            .filter((p): p is { timestamp: number; progress: number } => p.progress !== null);
+        return calculateWeeklyVelocity(points);
     }, [historicalData, historicalLoading, calculateSnapshotMetrics]);
 
     const progressTrends = useMemo((): ProgressTrends | null => {
@@ -485,6 +494,18 @@ export default function Home() {
         return filteredMechanicalPlanData.filter(row => { if (!row) return false; const isCompleted = row.actualStatus === 'Completed'; const finishTs = row.calculatedFinishTimestamp; return !isCompleted && typeof finishTs === 'number' && finishTs < todayTimestamp; }).length;
     }, [filteredMechanicalPlanData, mechanicalPlanLoading, todayTimestamp]);
 
+    // Earned value على نفس فلتر المشروع/المبنى، والـ S-curve بياخد الـ earned من الـ snapshots التاريخية
+    const evmReport = useMemo(() => {
+        if (mechanicalPlanLoading || !Array.isArray(filteredMechanicalPlanData) || filteredMechanicalPlanData.length === 0) return null;
+        return calculateEvm(filteredMechanicalPlanData, Array.isArray(historicalData) ? historicalData : [], todayTimestamp);
+    }, [filteredMechanicalPlanData, mechanicalPlanLoading, historicalData, todayTimestamp]);
+
+    // الطلب على العمالة من الشغل المتبقي في الخطة كلها (الـ manpower مش متقسم على مباني) مقابل الـ forecast
+    const manpowerDemand = useMemo(() => {
+        if (mechanicalPlanLoading || manpowerLoading || !Array.isArray(enhancedMechanicalPlanData) || !Array.isArray(manpowerData)) return null;
+        return calculateManpowerDemand(enhancedMechanicalPlanData, manpowerData, { asOf: todayTimestamp });
+    }, [enhancedMechanicalPlanData, mechanicalPlanLoading, manpowerData, manpowerLoading, todayTimestamp]);
+
     const materialRiskCountValue = useMemo(() => {
         if (!Array.isArray(materialData)) return 0;
         const today = startOfDay(new Date()).getTime(); const deliveredKeywords = ['delivered', 'on site', 'installed', 'مكتمل التسليم'];
@@ -578,14 +599,17 @@ export default function Home() {
             else if (tableId === 'mechanical-plan-table') { sourceData = sortedMechanicalPlanData; exportFileName = 'Mechanical_Plan_Integrated_Data'; }
             else if (tableId === 'manpower-table') { sourceData = sortedManpowerData; exportFileName = 'Manpower_Data'; }
             else if (tableId === 'material-table') { sourceData = sortedMaterialData; exportFileName = 'Material_Status_Data'; }
+            else if (tableId === 'rfi-table') { sourceData = Array.isArray(dataToExport) ? dataToExport : []; exportFileName = 'RFI_Log'; }
             else { /* console.warn("Unknown tableId for export, using provided dataToExport:", tableId); */ sourceData = Array.isArray(dataToExport) ? dataToExport : []; exportFileName = `Export_${tableId || 'Unknown'}`; }
             if (!Array.isArray(sourceData) || sourceData.length === 0) { toast({ variant: "default", title: "Export Empty", description: `No data available to export for ${exportFileName}.` }); return; }
             if (tableId === 'progress-table' || tableId === 'mechanical-plan-table') {
                 finalData = (sourceData as EnhancedMechanicalPlanRow[]).map((row) => ({ 'Area/Building': row?.areaBuilding ?? '', 'Location (Room/Level)': row?.locationRoomLevel ?? '', 'Mechanical Activity (System)': row?.mechanicalActivitySystem ?? '', 'Original Duration (Days)': row?.originalDurationDays ?? '', 'Current Progress %': typeof row?.currentProgressPercentage === 'number' ? row.currentProgressPercentage : '', 'Key Predecessor Activity': row?.keyPredecessorActivity ?? '', 'Predecessor Finish Date': formatPlanDateForExport(row?.predecessorFinishTimestamp ?? null, row?.predecessorFinishDateString ?? null), 'Calculated Mech. Start Date': formatPlanDateForExport(row?.calculatedStartTimestamp ?? null, row?.calculatedStartDateString ?? null), 'Calculated Mech. Finish Date': formatPlanDateForExport(row?.calculatedFinishTimestamp ?? null, row?.calculatedFinishDateString ?? null), 'Actual Status': row?.actualStatus ?? 'N/A', 'Remarks / Justification': row?.remarksJustification ?? '', }));
             } else if (tableId === 'manpower-table') {
-                finalData = (sourceData as ManpowerSheetRow[]).map((row) => { const hvac = row?.hvacManpower ?? 0; const ff = row?.firefightingManpower ?? 0; const fa = row?.fireAlarmManpower ?? 0; return { 'Date': row?.timestamp ? format(new Date(row.timestamp), 'yyyy-MM-dd') : '', 'HVAC': hvac, 'Firefighting': ff, 'Fire Alarm': fa, 'Total': row?.totalManpower ?? (hvac + ff + fa), }; });
+                finalData = (sourceData as ManpowerSheetRow[]).map((row) => ({ 'Date': row?.timestamp ? format(new Date(row.timestamp), 'yyyy-MM-dd') : '', ...Object.fromEntries(MANPOWER_DISCIPLINES.map(d => [d.label, row?.[d.field] ?? 0])), 'Total': getRowTotalManpower(row), }));
             } else if (tableId === 'material-table') {
                 finalData = (sourceData as MaterialStatusRow[]).map((row) => ({ 'System': row?.system ?? '', 'Item Description': row?.itemDescription ?? '', 'Location': row?.buildingLocation ?? '', 'Approval': row?.approvalStage ?? '', 'Delivery Status': row?.deliveryStatus ?? '', 'Quantity': row?.quantity ?? '', 'Planned Date': formatPlanDateForExport(row?.plannedTimestamp ?? null, row?.plannedDeliveryDateString ?? null), 'Actual Date': formatPlanDateForExport(row?.actualTimestamp ?? null, row?.actualDeliveryDateString ?? null), 'Remarks': row?.remarks ?? '', 'Document Link': row?.documentLink ?? '', }));
+            } else if (tableId === 'rfi-table') {
+                finalData = (sourceData as RFIRow[]).map((row) => ({ 'S. No.': row?.serialNo ?? '', 'Section': row?.section ?? '', 'RFI No.': row?.baseRfiNumber ?? '', 'Revision': row?.revision ?? '', 'Description': row?.description ?? '', 'Discipline': row?.discipline ?? '', 'Discipline Category': row?.disciplineCategory ?? '', 'Building': row?.building ?? '', 'Material Received': formatPlanDateForExport(row?.materialReceivedTimestamp ?? null, row?.materialReceivedDateString ?? null), 'Inspection Date': formatPlanDateForExport(row?.inspectionTimestamp ?? null, row?.inspectionDateString ?? null), 'Status': row?.status ?? '', 'Prepared By': row?.preparedBy ?? '', }));
             } else { finalData = sourceData; }
             const worksheet = XLSX.utils.json_to_sheet(finalData); const workbook = XLSX.utils.book_new(); XLSX.utils.book_append_sheet(workbook, worksheet, "Sheet1"); const fullFileName = `${exportFileName}_${format(new Date(), 'yyyyMMdd_HHmmss')}.xlsx`; XLSX.writeFile(workbook, fullFileName); toast({ title: "Export Successful", description: `${fullFileName} downloaded.` });
         } catch (error) { console.error("Export Error:", error); toast({ variant: "destructive", title: "Export Failed", description: `Could not export data to Excel. ${error instanceof Error ? error.message : String(error)}` }); }
@@ -597,6 +621,7 @@ export default function Home() {
             <header className="text-center mb-6 relative">
                 <h1 className="text-2xl sm:text-3xl font-semibold text-primary">Mechanical Systems - Project Dashboard</h1>
                 <p className="text-center text-muted-foreground mt-1">Mowaih PV 380/110 kV BSP</p>
+                <div className="mt-1"> <AnalysisScheduleIndicator status={analysisJobs} /> </div>
                 <div className="absolute top-0 right-0 mt-1 mr-1"> <ModeToggle /> </div>
             </header>
 
@@ -604,11 +629,12 @@ export default function Home() {
                 {/* --- تعديل الـ TabsList لـ grid-cols-6 --- */}
                 <Tabs defaultValue="executiveSummary" className="w-full h-full flex flex-col">
                     <div className="flex justify-center mb-4">
-                        <TabsList className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-2 w-full max-w-5xl bg-muted p-1 rounded-lg h-auto"> {/* <-- تم تعديل md:grid-cols-5 إلى md:grid-cols-6 وزيادة max-w-4xl إلى max-w-5xl */}
+                        <TabsList className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-7 gap-2 w-full max-w-6xl bg-muted p-1 rounded-lg h-auto"> {/* <-- تم تعديل md:grid-cols-5 إلى md:grid-cols-6 وزيادة max-w-4xl إلى max-w-5xl */}
                             <TabsTrigger value="executiveSummary" className={cn()}> Executive Summary </TabsTrigger>
                             <TabsTrigger value="progress" className={cn()}> Progress </TabsTrigger>
                             <TabsTrigger value="manpower" className={cn()}> Manpower </TabsTrigger>
                             <TabsTrigger value="material" className={cn()}> Material Status </TabsTrigger>
+                            <TabsTrigger value="rfi" className={cn()}> RFI Log </TabsTrigger>
                             <TabsTrigger value="mechanicalPlan" className={cn()}> Mechanical Plan </TabsTrigger>
                             {/* --- الإضافة الجديدة --- */}
                             <TabsTrigger value="riskManagement" className={cn()}> Risk Management </TabsTrigger> {/* <<<--- التاب الجديد */}
@@ -616,7 +642,7 @@ export default function Home() {
                     </div>
 
                     <TabsContent value="executiveSummary" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
-                        <ExecutiveSummaryTab loading={overallLoading} historicalComparisons={historicalComparisons} weeklyVelocity={weeklyVelocity} delayedActivitiesCount={delayedActivitiesCount} materialRiskCount={materialRiskCountValue} progressTrends={progressTrends} />
+                        <ExecutiveSummaryTab loading={overallLoading} historicalComparisons={historicalComparisons} weeklyVelocity={weeklyVelocity} delayedActivitiesCount={delayedActivitiesCount} materialRiskCount={materialRiskCountValue} progressTrends={progressTrends} evm={evmReport} />
                         <div className='mt-6 w-full'>
                             <div className="flex flex-wrap justify-center items-center gap-4 mb-4 px-2">
                                 <p className="text-sm font-medium text-muted-foreground whitespace-nowrap">Select Report Date:</p>
@@ -632,15 +658,19 @@ export default function Home() {
                     </TabsContent>
 
                     <TabsContent value="progress" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
-                        <ProgressTab loading={mechanicalPlanLoading || historicalLoading} error={mechanicalPlanError || historicalError} filters={{ projectFilter: selectedProject, buildingFilter: selectedBuilding, projects: uniqueProjects, buildings: buildingsForFilter }} onProjectFilterChange={setSelectedProject} onBuildingFilterChange={setSelectedBuilding} currentAverages={currentProgressAverages} historicalComparisons={historicalComparisons} progressTrends={progressTrends} aggregatedBuildingProgress={aggregatedBuildingProgress} />
+                        <ProgressTab loading={mechanicalPlanLoading || historicalLoading} error={mechanicalPlanError || historicalError} filters={{ projectFilter: selectedProject, buildingFilter: selectedBuilding, projects: uniqueProjects, buildings: buildingsForFilter }} onProjectFilterChange={setSelectedProject} onBuildingFilterChange={setSelectedBuilding} currentAverages={currentProgressAverages} historicalComparisons={historicalComparisons} progressTrends={progressTrends} aggregatedBuildingProgress={aggregatedBuildingProgress} monthlySeries={monthlySeries} monthlySeriesLoading={monthlySeriesLoading} />
                     </TabsContent>
 
                     <TabsContent value="manpower" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
-                        <ManpowerTab data={sortedManpowerData} loading={manpowerLoading} error={manpowerError} dateRange={dateRange} setDateRange={setDateRange} sortState={manpowerSortState} onSort={handleManpowerSort} onExport={exportToExcel} />
+                        <ManpowerTab data={sortedManpowerData} loading={manpowerLoading} error={manpowerError} dateRange={dateRange} setDateRange={setDateRange} sortState={manpowerSortState} onSort={handleManpowerSort} onExport={exportToExcel} demand={manpowerDemand} />
                     </TabsContent>
 
                     <TabsContent value="material" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
-                        <MaterialTab data={sortedMaterialData} loading={materialLoading} error={materialError} filters={{ systemFilter: selectedSystem, statusFilter: selectedDeliveryStatus, locationFilter: selectedBuildingLocation, approvalFilter: selectedApprovalStage, systems: uniqueSystems, statuses: uniqueDeliveryStatuses, locations: uniqueBuildingLocations, approvals: uniqueApprovalStages }} sortState={materialSortState} onSystemFilterChange={handleMaterialSystemFilterChange} onStatusFilterChange={handleMaterialStatusFilterChange} onLocationFilterChange={handleMaterialLocationFilterChange} onApprovalFilterChange={handleMaterialApprovalFilterChange} onSort={handleMaterialSort} onExport={exportToExcel} />
+                        <MaterialTab data={sortedMaterialData} loading={materialLoading} error={materialError} filters={{ systemFilter: selectedSystem, statusFilter: selectedDeliveryStatus, locationFilter: selectedBuildingLocation, approvalFilter: selectedApprovalStage, systems: uniqueSystems, statuses: uniqueDeliveryStatuses, locations: uniqueBuildingLocations, approvals: uniqueApprovalStages }} sortState={materialSortState} onSystemFilterChange={handleMaterialSystemFilterChange} onStatusFilterChange={handleMaterialStatusFilterChange} onLocationFilterChange={handleMaterialLocationFilterChange} onApprovalFilterChange={handleMaterialApprovalFilterChange} onSort={handleMaterialSort} onExport={exportToExcel} mirData={mirData} mirLoading={mirLoading} />
+                    </TabsContent>
+
+                    <TabsContent value="rfi" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
+                        <RfiTab data={rfiData} loading={rfiLoading} error={rfiError} onExport={exportToExcel} />
                     </TabsContent>
 
                     <TabsContent value="mechanicalPlan" className="flex-grow mt-0 outline-none ring-0 focus:outline-none focus:ring-0">
@@ -649,7 +679,7 @@ export default function Home() {
                                 {mechanicalPlanLoading ? <Icons.spinner className="h-8 w-8 animate-spin text-primary" /> : <p className="text-destructive">Error loading plan data.</p>}
                             </div>
                         ) : (
-                            <MechanicalPlanTab data={sortedMechanicalPlanData} loading={mechanicalPlanLoading} error={mechanicalPlanError} sortState={mechanicalPlanSortState} summaryData={mechanicalPlanSummaryData} statusCounts={actualMechanicalPlanStatusCounts} onSort={handleMechanicalPlanSort} onExport={exportToExcel} todayTimestamp={todayTimestamp} />
+                            <MechanicalPlanTab data={sortedMechanicalPlanData} fullPlan={enhancedMechanicalPlanData} loading={mechanicalPlanLoading} error={mechanicalPlanError} sortState={mechanicalPlanSortState} summaryData={mechanicalPlanSummaryData} statusCounts={actualMechanicalPlanStatusCounts} onSort={handleMechanicalPlanSort} onExport={exportToExcel} todayTimestamp={todayTimestamp} ganttTasks={ganttTasks} manpowerData={Array.isArray(manpowerData) ? manpowerData : []} />
                         )}
                     </TabsContent>
 
@@ -14,6 +14,22 @@ interface AIInsightCardProps {
   className?: string;
 }
 
+function formatCompletionDate(value: string): string {
+  try {
+    return new Date(value).toLocaleDateString(
+      'ar-SA',
+      { 
+        day: 'numeric', 
+        month: 'long', 
+        year: 'numeric',
+        calendar: 'gregory'
+      }
+    );
+  } catch (e) {
+    return value;
+  }
+}
+
 export function AIInsightCard({ projectData, className = '' }: AIInsightCardProps) {
   const t = useTranslations('overview');
   
@@ -33,21 +49,18 @@ export function AIInsightCard({ projectData, className = '' }: AIInsightCardProp
   // Format the predicted date if available
   const formattedDate = useMemo(() => {
     if (!insights?.predictedCompletionDate) return t('notSpecified');
-    
-    try {
-      return new Date(insights.predictedCompletionDate).toLocaleDateString(
-        'ar-SA',
-        { 
-          day: 'numeric', 
-          month: 'long', 
-          year: 'numeric',
-          calendar: 'gregory'
-        }
-      );
-    } catch (e) {
-      return insights.predictedCompletionDate;
-    }
+    return formatCompletionDate(insights.predictedCompletionDate);
   }, [insights?.predictedCompletionDate, t]);
+
+  // Optimistic / pessimistic dates from the same velocity-based forecast
+  const completionRange = useMemo(() => {
+    const project = insights?.completionForecast?.project;
+    if (!project || project.status !== 'forecast' || !project.optimisticDate) return null;
+    return t('completionRange', {
+      optimistic: formatCompletionDate(project.optimisticDate),
+      pessimistic: project.pessimisticDate ? formatCompletionDate(project.pessimisticDate) : t('notSpecified'),
+    });
+  }, [insights?.completionForecast, t]);
   
   // Loading state - show skeleton
   if (isLoading && isInitialLoading) {
@@ -90,6 +103,11 @@ export function AIInsightCard({ projectData, className = '' }: AIInsightCardProp
               <p className="text-sm font-medium text-green-600">
                 {formattedDate}
               </p>
+              {completionRange && (
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {completionRange}
+                </p>
+              )}
             </div>
           </div>
         </div>
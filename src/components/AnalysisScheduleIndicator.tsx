@@ -0,0 +1,52 @@
+"use client";
+
+// "Last run / next run" of the scheduled autonomous analyses, shown in the dashboard header
+import React from 'react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { Clock, AlertTriangle } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { JobsResponse } from '@/lib/jobs/types';
+
+interface AnalysisScheduleIndicatorProps {
+    status: JobsResponse | null;
+}
+
+export function AnalysisScheduleIndicator({ status }: AnalysisScheduleIndicatorProps) {
+    if (!status || status.jobs.length === 0) return null;
+
+    const lastRun = status.jobs
+        .map(job => job.lastRun)
+        .filter((run): run is NonNullable<typeof run> => run !== null)
+        .sort((a, b) => b.startedAt - a.startedAt)[0];
+    const nextRunAt = status.jobs
+        .map(job => job.nextRunAt)
+        .filter((at): at is number => at !== null)
+        .sort((a, b) => a - b)[0];
+    const failed = status.jobs.some(job => job.lastRun?.status === 'failed');
+
+    return (
+        <TooltipProvider>
+            <Tooltip>
+                <TooltipTrigger asChild>
+                    <div className={`inline-flex items-center gap-1.5 text-xs ${failed ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {failed ? <AlertTriangle className="h-3.5 w-3.5" /> : <Clock className="h-3.5 w-3.5" />}
+                        <span>
+                            Analysis: {lastRun ? `last run ${formatDistanceToNow(lastRun.startedAt, { addSuffix: true })}` : 'not run yet'}
+                            {nextRunAt ? ` · next ${format(nextRunAt, 'dd MMM HH:mm')}` : ''}
+                        </span>
+                    </div>
+                </TooltipTrigger>
+                <TooltipContent className="text-xs">
+                    {status.jobs.map(job => (
+                        <div key={job.job}>
+                            {job.label}: {job.schedule ?? 'manual only'}
+                            {job.lastRun && ` — ${job.lastRun.status}, ${job.lastRun.notificationsProduced} new, ${(job.lastRun.durationMs / 1000).toFixed(1)}s`}
+                            {job.running && ' (running)'}
+                        </div>
+                    ))}
+                    {!status.schedulerActive && <div className="mt-1 opacity-80">Scheduled by an external cron via /api/jobs/run</div>}
+                </TooltipContent>
+            </Tooltip>
+        </TooltipProvider>
+    );
+}
@@ -0,0 +1,94 @@
+// src/components/ForecastBacktestPanel.tsx
+// Rolling-origin backtest results (MAE / MAPE / bias per method) shown under the forecast chart
+
+import React from 'react';
+import type { DisciplineBacktest } from '@/services/forecast-backtest';
+import { getDisciplineLabel } from '@/lib/manpower-disciplines';
+
+interface ForecastBacktestPanelProps {
+  disciplines: DisciplineBacktest[];
+  horizon?: number;
+  currentMethod?: string; // Method used by the forecast above, if any
+  locale?: 'en' | 'ar';
+}
+
+const formatValue = (value: number | null, suffix = ''): string =>
+  value === null ? '—' : `${value}${suffix}`;
+
+const formatBias = (value: number | null): string =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value}`;
+
+const ForecastBacktestPanel: React.FC<ForecastBacktestPanelProps> = ({
+  disciplines,
+  horizon = 1,
+  currentMethod,
+  locale = 'en'
+}) => {
+  if (disciplines.length === 0) return null;
+
+  return (
+    <div className="w-full mt-3 p-3 bg-gray-50 rounded-lg text-xs">
+      <div className="flex items-baseline justify-between mb-2">
+        <h4 className="text-sm font-semibold">
+          {locale === 'ar' ? 'دقة التوقع (اختبار رجعي)' : 'Forecast accuracy (backtest)'}
+        </h4>
+        <span className="text-gray-600">
+          {locale === 'ar' ? `أفق ${horizon}` : `${horizon}-step ahead`}
+        </span>
+      </div>
+
+      {disciplines.map(d => (
+        <div key={d.discipline} className="mb-2 last:mb-0">
+          {disciplines.length > 1 && (
+            <div className="font-medium mb-1">{getDisciplineLabel(d.discipline, locale)}</div>
+          )}
+          {d.recommended === null ? (
+            <p className="text-gray-600">
+              {locale === 'ar'
+                ? `بيانات غير كافية للاختبار (${d.points} نقطة)`
+                : `Not enough history to backtest (${d.points} points)`}
+            </p>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="text-gray-600">
+                  <th className="text-start font-normal">{locale === 'ar' ? 'الطريقة' : 'Method'}</th>
+                  <th className="text-end font-normal">MAE</th>
+                  <th className="text-end font-normal">MAPE</th>
+                  <th className="text-end font-normal">{locale === 'ar' ? 'الانحياز' : 'Bias'}</th>
+                  <th className="text-end font-normal">{locale === 'ar' ? 'اختبارات' : 'Tests'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {d.methods.map(m => (
+                  <tr
+                    key={m.method}
+                    className={m.method === d.recommended ? 'font-semibold text-green-700' : m.samples === 0 ? 'text-gray-400' : undefined}
+                  >
+                    <td>
+                      {m.method.toUpperCase()}
+                      {m.method === d.recommended && (locale === 'ar' ? ' ★ الأفضل' : ' ★ best')}
+                      {m.method === currentMethod && m.method !== d.recommended && (locale === 'ar' ? ' (الحالية)' : ' (current)')}
+                    </td>
+                    <td className="text-end">{formatValue(m.mae)}</td>
+                    <td className="text-end">{formatValue(m.mape, '%')}</td>
+                    <td className="text-end">{formatBias(m.bias)}</td>
+                    <td className="text-end">{m.samples}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+
+      <p className="mt-2 text-gray-500">
+        {locale === 'ar'
+          ? 'كل طريقة تُدرَّب على البيانات حتى كل تاريخ وتُقارن بالقيمة الفعلية التالية. الانحياز الموجب = توقع أعلى من الفعلي.'
+          : 'Each method is refitted on the history up to every date and compared with the actual that followed. Positive bias = over-forecasting.'}
+      </p>
+    </div>
+  );
+};
+
+export default ForecastBacktestPanel;
@@ -3,7 +3,8 @@
 
 import React from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -13,6 +14,7 @@ import {
   ResponsiveContainer,
   ReferenceLine
 } from 'recharts';
+import { getDisciplineLabel, resolveManpowerDiscipline } from '@/lib/manpower-disciplines';
 
 interface ForecastData {
   historical: number[];
@@ -22,6 +24,9 @@ interface ForecastData {
   horizon: number;
   trend: 'increasing' | 'decreasing' | 'stable';
   confidence: number;
+  intervals?: { lower: number; upper: number }[];
+  intervalLevel?: number;
+  seasonLength?: number;
 }
 
 interface ForecastChartProps {
@@ -34,6 +39,7 @@ interface ChartDataPoint {
   period: string;
   historical: number | null;
   forecast: number | null;
+  interval: [number, number] | null; // Prediction band [lower, upper]
   type: 'historical' | 'forecast';
 }
 
@@ -51,6 +57,8 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
       period: `H${index + 1}`,
       historical: value,
       forecast: null,
+      // The band starts at the last actual value so it fans out from the transition point
+      interval: data.intervals?.length && index === data.historical.length - 1 ? [value, value] : null,
       type: 'historical'
     });
   });
@@ -61,6 +69,7 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
       period: `F${index + 1}`,
       historical: null,
       forecast: value,
+      interval: data.intervals?.[index] ? [data.intervals[index].lower, data.intervals[index].upper] : null,
       type: 'forecast'
     });
   });
@@ -68,9 +77,15 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
   const trendColor = data.trend === 'increasing' ? '#10b981' :
                      data.trend === 'decreasing' ? '#ef4444' : '#6b7280';
 
+  const intervalPct = Math.round((data.intervalLevel ?? 0.95) * 100);
+  const intervalName = locale === 'ar' ? `نطاق التوقع ${intervalPct}%` : `${intervalPct}% Prediction Interval`;
+
+  const resolvedDiscipline = resolveManpowerDiscipline(discipline);
+  const disciplineLabel = resolvedDiscipline ? getDisciplineLabel(resolvedDiscipline, locale) : discipline.toUpperCase();
+
   const title = locale === 'ar'
-    ? `توقع ${discipline.toUpperCase()} (${data.method.toUpperCase()})`
-    : `${discipline.toUpperCase()} Forecast (${data.method.toUpperCase()})`;
+    ? `توقع ${disciplineLabel} (${data.method.toUpperCase()})`
+    : `${disciplineLabel} Forecast (${data.method.toUpperCase()})`;
 
   return (
     <div className="w-full bg-white rounded-lg shadow-md p-6">
@@ -89,7 +104,7 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
             <span className="text-gray-600">
               {locale === 'ar' ? 'النافذة:' : 'Window:'}
             </span>
-            <span className="font-medium ml-1">{data.window}</span>
+            <span className="font-medium ml-1">{data.seasonLength ? `${data.window} / ${locale === 'ar' ? 'موسم' : 'season'} ${data.seasonLength}` : data.window}</span>
           </div>
           <div>
             <span className="text-gray-600">
@@ -126,7 +141,7 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
       </div>
 
       <ResponsiveContainer width="100%" height={300}>
-        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
           <CartesianGrid strokeDasharray="3 3" />
           <XAxis
             dataKey="period"
@@ -142,10 +157,14 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
           />
           <Tooltip
             formatter={(value: any, name: string) => [
-              value ? value.toFixed(1) : 'N/A',
+              Array.isArray(value)
+                ? `${value[0].toFixed(1)} – ${value[1].toFixed(1)}`
+                : value ? value.toFixed(1) : 'N/A',
               name === 'historical'
                 ? (locale === 'ar' ? 'تاريخي' : 'Historical')
-                : (locale === 'ar' ? 'متوقع' : 'Forecast')
+                : name === 'interval'
+                  ? intervalName
+                  : (locale === 'ar' ? 'متوقع' : 'Forecast')
             ]}
             labelFormatter={(label) =>
               label.startsWith('H')
@@ -157,7 +176,9 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
             formatter={(value) =>
               value === 'historical'
                 ? (locale === 'ar' ? 'البيانات التاريخية' : 'Historical Data')
-                : (locale === 'ar' ? 'البيانات المتوقعة' : 'Forecast Data')
+                : value === 'interval'
+                  ? intervalName
+                  : (locale === 'ar' ? 'البيانات المتوقعة' : 'Forecast Data')
             }
           />
           <ReferenceLine
@@ -169,6 +190,17 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
               position: 'top'
             }}
           />
+          {data.intervals && data.intervals.length > 0 && (
+            <Area
+              type="monotone"
+              dataKey="interval"
+              stroke="none"
+              fill="#10b981"
+              fillOpacity={0.15}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          )}
           <Line
             type="monotone"
             dataKey="historical"
@@ -186,15 +218,19 @@ const ForecastChart: React.FC<ForecastChartProps> = ({
             dot={{ fill: '#10b981', strokeWidth: 2, r: 4 }}
             connectNulls={false}
           />
-        </LineChart>
+        </ComposedChart>
       </ResponsiveContainer>
 
       <div className="mt-4 text-sm text-gray-600">
         <p>
           {locale === 'ar'
-            ? `الرسم البياني يظهر البيانات التاريخية (أزرق) والتوقعات (أخضر متقطع) لـ ${discipline.toUpperCase()} باستخدام ${data.method.toUpperCase()}.`
-            : `Chart shows historical data (blue) and forecasts (green dashed) for ${discipline.toUpperCase()} using ${data.method.toUpperCase()}.`
+            ? `الرسم البياني يظهر البيانات التاريخية (أزرق) والتوقعات (أخضر متقطع) لـ ${disciplineLabel} باستخدام ${data.method.toUpperCase()}.`
+            : `Chart shows historical data (blue) and forecasts (green dashed) for ${disciplineLabel} using ${data.method.toUpperCase()}.`
           }
+          {data.intervals && data.intervals.length > 0 && (locale === 'ar'
+            ? ` المنطقة المظللة هي نطاق التوقع ${intervalPct}%.`
+            : ` The shaded band is the ${intervalPct}% prediction interval.`
+          )}
         </p>
       </div>
     </div>
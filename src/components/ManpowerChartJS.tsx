@@ -17,6 +17,7 @@ import {
 } from 'chart.js';
 import { format, isValid } from 'date-fns';
 import { useChartColors } from '@/hooks/use-chart-colors'; // Make sure this path is correct
+import { MANPOWER_DISCIPLINES, type ChartColorKey } from '@/lib/manpower-disciplines';
 
 ChartJS.register(
   CategoryScale,
@@ -40,7 +41,7 @@ const formatDateDisplay = (timestamp: number | null): string => {
 };
 
 export function ManpowerChartJS({ data }: ManpowerChartJSProps) {
-  const { chart1, chart2, chart3, axis, grid, tooltipBg, tooltipText, background } = useChartColors();
+  const { chart1, chart2, chart3, chart4, chart5, axis, grid, tooltipBg, tooltipText, background } = useChartColors();
 
   const chartData = useMemo(() => {
     if (!data || data.length === 0) {
@@ -67,40 +68,20 @@ export function ManpowerChartJS({ data }: ManpowerChartJSProps) {
       return gradient;
     }
 
-    const datasets: ChartDataset<'line', (number | null)[]>[] = [
-      {
-        label: 'FA',
-        data: sortedData.map(r => r.fireAlarmManpower ?? null),
-        borderColor: chart3, // Use formatted hsl color
-        backgroundColor: (context: ScriptableContext<'line'>) => createGradient(context, chart3),
-        fill: true,
-        tension: 0.3,
-        pointRadius: 0,
-        order: 1
-      },
-      {
-        label: 'FF',
-        data: sortedData.map(r => r.firefightingManpower ?? null),
-        borderColor: chart2, // Use formatted hsl color
-        backgroundColor: (context: ScriptableContext<'line'>) => createGradient(context, chart2),
-        fill: true,
-        tension: 0.3,
-        pointRadius: 0,
-        order: 2
-      },
-      {
-        label: 'HVAC',
-        data: sortedData.map(r => r.hvacManpower ?? null),
-        borderColor: chart1, // Use formatted hsl color
-        backgroundColor: (context: ScriptableContext<'line'>) => createGradient(context, chart1),
-        fill: true,
-        tension: 0.3,
-        pointRadius: 0,
-        order: 3
-      },
-    ];
+    // One stacked series per configured discipline; the first discipline is drawn at the bottom of the stack
+    const colors: Record<ChartColorKey, string> = { chart1, chart2, chart3, chart4, chart5 };
+    const datasets: ChartDataset<'line', (number | null)[]>[] = [...MANPOWER_DISCIPLINES].reverse().map((d, index) => ({
+      label: d.shortLabel,
+      data: sortedData.map(r => r[d.field] ?? null),
+      borderColor: colors[d.chartColor], // Use formatted hsl color
+      backgroundColor: (context: ScriptableContext<'line'>) => createGradient(context, colors[d.chartColor]),
+      fill: true,
+      tension: 0.3,
+      pointRadius: 0,
+      order: index + 1
+    }));
     return { labels, datasets };
-  }, [data, chart1, chart2, chart3, background]);
+  }, [data, chart1, chart2, chart3, chart4, chart5, background]);
 
   const options = useMemo((): ChartOptions<'line'> => ({
     responsive: true,
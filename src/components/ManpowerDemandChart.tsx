@@ -0,0 +1,81 @@
+"use client";
+
+// Weekly crew needed by the remaining Mechanical Plan work vs the forecast headcount (see services/manpower-demand.ts)
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, ComposedChart, Bar, Cell, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from 'date-fns';
+import type { ManpowerDemandReport } from '@/services/manpower-demand';
+
+interface ManpowerDemandChartProps {
+    report: ManpowerDemandReport | null;
+}
+
+export function ManpowerDemandChart({ report }: ManpowerDemandChartProps) {
+    const disciplines = useMemo(() => report?.disciplines ?? [], [report]);
+    // Default to the discipline with the worst shortfall
+    const worst = useMemo(() => [...disciplines].sort((a, b) => b.peakShortage - a.peakShortage)[0]?.discipline ?? '', [disciplines]);
+    const [selected, setSelected] = useState<string>('');
+    const current = disciplines.find(d => d.discipline === (selected || worst));
+
+    const chartData = useMemo(() => (current?.weeks ?? []).map(week => ({
+        week: format(parseISO(week.weekStart), 'dd MMM'),
+        demand: week.demand,
+        supply: week.supply,
+        gap: week.gap,
+    })), [current]);
+
+    return (
+        <Card className="h-[320px] flex flex-col">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <div>
+                    <CardTitle className="text-base font-semibold">Demand vs Forecast Supply</CardTitle>
+                    <CardDescription className="text-xs">
+                        {current
+                            ? `Remaining work ${current.remainingWorkDays} duration-days over ${current.activities} activities · ${current.crewPerActivity} workers/activity${current.calibrated ? '' : ' (assumed)'}`
+                            : 'Crew needed per week to hold the calculated finish dates'}
+                    </CardDescription>
+                </div>
+                {disciplines.length > 0 && (
+                    <Select value={selected || worst} onValueChange={setSelected}>
+                        <SelectTrigger className="h-8 w-[160px] text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {disciplines.map(d => (
+                                <SelectItem key={d.discipline} value={d.discipline} className="text-xs">
+                                    {d.label}{d.peakShortage > 0 ? ` (−${d.peakShortage})` : ''}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+            </CardHeader>
+            <CardContent className="flex-grow pt-2">
+                {!current ? (
+                    <div className="h-full flex items-center justify-center text-sm text-muted-foreground">No remaining scheduled work mapped to a manpower discipline.</div>
+                ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.4} />
+                            <XAxis dataKey="week" tick={{ fontSize: 10 }} />
+                            <YAxis tick={{ fontSize: 10 }} />
+                            <RechartsTooltip
+                                formatter={(value, name) => [typeof value === 'number' ? value.toFixed(1) : '-', name]}
+                                contentStyle={{ fontSize: 12 }}
+                            />
+                            <Legend wrapperStyle={{ fontSize: 11 }} />
+                            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                            <Bar dataKey="gap" name="Surplus / Shortage" barSize={18}>
+                                {chartData.map((entry, index) => (
+                                    <Cell key={index} fill={(entry.gap ?? 0) < 0 ? 'hsl(var(--destructive))' : 'hsl(var(--chart-2))'} />
+                                ))}
+                            </Bar>
+                            <Line type="monotone" dataKey="demand" name="Demand" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2 }} />
+                            <Line type="monotone" dataKey="supply" name="Forecast supply" stroke="hsl(var(--muted-foreground))" strokeWidth={2} strokeDasharray="4 2" dot={false} connectNulls />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
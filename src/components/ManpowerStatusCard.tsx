@@ -1,6 +1,6 @@
 'use client';
 
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { Card } from '@/components/ui/card';
 import { Users, UserCheck, RefreshCw } from 'lucide-react';
 import { useManpowerData } from '@/hooks/useDataFetcher';
@@ -8,6 +8,8 @@ import { DataErrorState } from '@/components/ui/ErrorState';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
 import { Button } from '@/components/ui/button';
 import { ManpowerData } from '@/types/dashboard';
+import type { ManpowerSheetRow } from '@/services/google-sheets';
+import { MANPOWER_DISCIPLINES } from '@/lib/manpower-disciplines';
 
 interface ManpowerStats {
   totalPlanned: number;
@@ -17,6 +19,7 @@ interface ManpowerStats {
 
 export function ManpowerStatusCard() {
   const t = useTranslations('overview');
+  const locale = useLocale();
   const { 
     data, 
     isLoading, 
@@ -35,11 +38,11 @@ export function ManpowerStatusCard() {
     
     // Handle both array and object response formats
     if (Array.isArray(manpowerData) && manpowerData.length > 0) {
-      // Array format: sum up all entries
-      const totalPlanned = manpowerData.reduce((sum, item) => 
-        sum + (Number(item['Total Planned']) || 0), 0);
-      const totalActual = manpowerData.reduce((sum, item) => 
-        sum + (Number(item['Total Actual']) || 0), 0);
+      // Array format: typed Manpower rows (one per date). The sheet has no planned column,
+      // so the latest head-count is compared against the peak reached so far.
+      const totals = (manpowerData as ManpowerSheetRow[]).map(item => Number(item.totalManpower) || 0);
+      const totalPlanned = Math.max(...totals);
+      const totalActual = totals[totals.length - 1];
       const utilization = totalPlanned > 0 ? 
         Math.round((totalActual / totalPlanned) * 100) : 0;
       
@@ -62,6 +65,13 @@ export function ManpowerStatusCard() {
 
   // Calculate stats from data
   const { totalPlanned, totalActual, utilization } = calculateManpowerStats(data);
+
+  // Latest head-count per configured discipline (only available for the typed row format)
+  const latestRow = Array.isArray(data) && data.length > 0 ? (data as ManpowerSheetRow[])[data.length - 1] : null;
+  const disciplineBreakdown = latestRow
+    ? MANPOWER_DISCIPLINES.map(d => ({ id: d.id, label: locale === 'ar' ? d.labelAr : d.shortLabel, value: latestRow[d.field] }))
+        .filter(d => typeof d.value === 'number')
+    : [];
   
   // Loading state - show skeleton
   if (isLoading && isInitialLoading) {
@@ -153,6 +163,17 @@ export function ManpowerStatusCard() {
         </div>
       </div>
 
+      {/* Per-discipline breakdown */}
+      {disciplineBreakdown.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {disciplineBreakdown.map(d => (
+            <span key={d.id} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+              {d.label}: <span className="font-semibold">{d.value}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Progress Bar */}
       <div className="mt-4">
         <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
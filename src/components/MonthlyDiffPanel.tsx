@@ -0,0 +1,163 @@
+"use client";
+
+import React from 'react';
+import { useMonthlyDiff } from '@/context/DataContext';
+import type { ActivityStatus, ManpowerDiscipline, YearMonth } from '@/types/monthly';
+
+interface MonthlyDiffPanelProps {
+  from?: YearMonth;
+  to?: YearMonth;
+}
+
+const STATUS_LABELS: Record<ActivityStatus, string> = {
+  not_started: 'Not started',
+  ongoing: 'Ongoing',
+  completed: 'Completed',
+};
+
+const STATUS_COLORS: Record<ActivityStatus, string> = {
+  not_started: 'bg-gray-100 text-gray-700',
+  ongoing: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+const DISCIPLINE_LABELS: Record<ManpowerDiscipline, string> = {
+  hvac: 'HVAC',
+  firefighting: 'Firefighting',
+  fireAlarm: 'Fire Alarm',
+  security: 'Security',
+  total: 'Total',
+};
+
+function formatDelta(value: number | null, suffix = ''): string {
+  if (value === null) return '-';
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}${suffix}`;
+}
+
+function deltaColor(value: number | null): string {
+  if (value === null || value === 0) return 'text-gray-500';
+  return value > 0 ? 'text-green-600' : 'text-red-600';
+}
+
+function StatusBadge({ status }: { status: ActivityStatus }) {
+  return <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_COLORS[status]}`}>{STATUS_LABELS[status]}</span>;
+}
+
+// Month-over-month changes between two snapshot tabs, rendered under the monthly summary cards
+export function MonthlyDiffPanel({ from, to }: MonthlyDiffPanelProps) {
+  const { data, isLoading, error } = useMonthlyDiff(from, to);
+
+  if (!from || !to) {
+    return <div className="text-sm text-gray-500">Select two different months to compare.</div>;
+  }
+  if (isLoading) {
+    return <div className="text-gray-500">Comparing {from} → {to}…</div>;
+  }
+  if (error) {
+    return <div className="text-red-600">Failed to load month-over-month changes.</div>;
+  }
+  if (!data) return null;
+
+  const changed = data.activities.filter(a => a.statusChanged || (a.progressDelta !== null && a.progressDelta !== 0));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">Matched Activities</div>
+          <div className="text-lg font-medium">{data.summary.matched}</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">Avg Progress Δ</div>
+          <div className={`text-lg font-medium ${deltaColor(data.summary.avgProgressDelta)}`}>{formatDelta(data.summary.avgProgressDelta, ' pts')}</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">Status Changes</div>
+          <div className="text-lg font-medium">{data.summary.statusChanges}</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">Added</div>
+          <div className="text-lg font-medium text-green-600">{data.summary.added}</div>
+        </div>
+        <div className="rounded-lg border p-3">
+          <div className="text-xs text-gray-500">Removed</div>
+          <div className="text-lg font-medium text-red-600">{data.summary.removed}</div>
+        </div>
+      </div>
+
+      <div className="rounded-lg border p-3">
+        <div className="text-sm font-medium mb-2">Manpower Change</div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+          {(Object.keys(DISCIPLINE_LABELS) as ManpowerDiscipline[]).map(discipline => {
+            const change = data.manpower[discipline];
+            return (
+              <div key={discipline}>
+                <div className="text-xs text-gray-500">{DISCIPLINE_LABELS[discipline]}</div>
+                <div>
+                  {change.from ?? '-'} → {change.to ?? '-'}{' '}
+                  <span className={deltaColor(change.delta)}>({formatDelta(change.delta)})</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b">
+              <th className="py-2 pr-3">Area / Building</th>
+              <th className="py-2 pr-3">Mechanical Activity</th>
+              <th className="py-2 pr-3">{from}</th>
+              <th className="py-2 pr-3">{to}</th>
+              <th className="py-2 pr-3">Δ Progress</th>
+              <th className="py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changed.length === 0 && (
+              <tr><td colSpan={6} className="py-3 text-gray-500">No progress or status changes between these months.</td></tr>
+            )}
+            {changed.map(a => (
+              <tr key={a.key} className="border-b last:border-0">
+                <td className="py-2 pr-3">{a.areaOrBuilding || '-'}</td>
+                <td className="py-2 pr-3">{a.mechanicalActivity || '-'}</td>
+                <td className="py-2 pr-3">{a.fromProgressPct != null ? `${a.fromProgressPct.toFixed(0)}%` : '-'}</td>
+                <td className="py-2 pr-3">{a.toProgressPct != null ? `${a.toProgressPct.toFixed(0)}%` : '-'}</td>
+                <td className={`py-2 pr-3 ${deltaColor(a.progressDelta)}`}>{formatDelta(a.progressDelta, ' pts')}</td>
+                <td className="py-2">
+                  {a.statusChanged ? (
+                    <span className="flex items-center gap-1"><StatusBadge status={a.fromStatus} /> → <StatusBadge status={a.toStatus} /></span>
+                  ) : (
+                    <StatusBadge status={a.toStatus} />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(data.added.length > 0 || data.removed.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="font-medium mb-1 text-green-700">Added in {to}</div>
+            <ul className="space-y-1">
+              {data.added.map(a => <li key={a.key}>{a.areaOrBuilding} — {a.mechanicalActivity} <StatusBadge status={a.status} /></li>)}
+              {data.added.length === 0 && <li className="text-gray-500">None</li>}
+            </ul>
+          </div>
+          <div>
+            <div className="font-medium mb-1 text-red-700">Removed since {from}</div>
+            <ul className="space-y-1">
+              {data.removed.map(a => <li key={a.key}>{a.areaOrBuilding} — {a.mechanicalActivity} <StatusBadge status={a.status} /></li>)}
+              {data.removed.length === 0 && <li className="text-gray-500">None</li>}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
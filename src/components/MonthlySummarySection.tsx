@@ -2,8 +2,17 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
+import { MonthlyDiffPanel } from '@/components/MonthlyDiffPanel';
 import { useMonthlyIndex, useMonthlySnapshot } from '@/context/DataContext';
-import type { YearMonth } from '@/types/monthly';
+import type { ManpowerDiscipline, YearMonth } from '@/types/monthly';
+
+const DISCIPLINE_LABELS: Record<ManpowerDiscipline, string> = {
+  hvac: 'HVAC',
+  firefighting: 'Firefighting',
+  fireAlarm: 'Fire Alarm',
+  security: 'Security',
+  total: 'Total',
+};
 
 function formatMonth(ym: YearMonth) {
   // ym is YYYY-MM
@@ -29,6 +38,14 @@ export function MonthlySummarySection() {
 
   const summary = snapshotData?.snapshot?.summary;
 
+  // Month-over-month: compare the selected month against the one before it unless the user picks another
+  const [compareMonth, setCompareMonth] = useState<YearMonth | undefined>(undefined);
+  const previousMonth = useMemo(() => {
+    const months = indexData?.months ?? [];
+    return [...months].sort().reverse().find(m => selectedMonth && m < selectedMonth);
+  }, [indexData?.months, selectedMonth]);
+  const baseMonth = compareMonth && compareMonth !== selectedMonth ? compareMonth : previousMonth;
+
   return (
     <Card>
       <div className="p-4 space-y-4">
@@ -86,9 +103,67 @@ export function MonthlySummarySection() {
           </div>
         )}
 
+        {!indexLoading && !indexError && !snapLoading && summary && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-gray-500 mb-2">Manpower by Discipline</div>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                {(Object.keys(DISCIPLINE_LABELS) as ManpowerDiscipline[]).map((discipline) => (
+                  <div key={discipline} className="flex justify-between">
+                    <span className="text-gray-600">{DISCIPLINE_LABELS[discipline]}</span>
+                    <span className="font-medium">{summary.manpowerByDiscipline?.[discipline] ?? '-'}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="rounded-lg border p-4">
+              <div className="text-sm text-gray-500 mb-2">Progress by Building</div>
+              <div className="space-y-2 text-sm max-h-48 overflow-y-auto">
+                {(summary.progressByBuilding ?? []).map((b) => (
+                  <div key={b.areaOrBuilding}>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{b.areaOrBuilding}</span>
+                      <span className="font-medium">{b.avgProgressPct != null ? `${b.avgProgressPct.toFixed(1)}%` : '-'}</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-100 rounded">
+                      <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${Math.min(100, Math.max(0, b.avgProgressPct ?? 0))}%` }} />
+                    </div>
+                  </div>
+                ))}
+                {(summary.progressByBuilding ?? []).length === 0 && <div className="text-gray-500">No building data.</div>}
+              </div>
+            </div>
+          </div>
+        )}
+
         {snapError && (
           <div className="text-red-600">Failed to load snapshot.</div>
         )}
+
+        {!indexLoading && !indexError && (indexData?.months?.length ?? 0) > 1 && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <h3 className="text-lg font-semibold">Month-over-Month Changes</h3>
+              <div className="flex items-center gap-2">
+                <label htmlFor="compare-month-select" className="text-sm text-gray-600">Compare with</label>
+                <select
+                  id="compare-month-select"
+                  className="px-3 py-2 border rounded-md bg-white dark:bg-neutral-900"
+                  value={baseMonth || ''}
+                  onChange={(e) => setCompareMonth(e.target.value as YearMonth)}
+                >
+                  {indexData?.months?.filter((m) => m !== selectedMonth).map((m) => (
+                    <option key={m} value={m}>{formatMonth(m)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <MonthlyDiffPanel
+              from={baseMonth && selectedMonth && baseMonth > selectedMonth ? selectedMonth : baseMonth}
+              to={baseMonth && selectedMonth && baseMonth > selectedMonth ? baseMonth : selectedMonth}
+            />
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -19,7 +19,7 @@ export function OverallProgressCard() {
     
     // Support both legacy and new data structures
     const items = data.map(item => ({
-      progress: item.progress ?? item['Progress %'] ?? 0
+      progress: item.progress ?? item.currentProgressPercentage ?? 0
     }));
     
     const totalProgress = items.reduce((sum, item) => sum + (Number(item.progress) || 0), 0);
@@ -32,7 +32,7 @@ export function OverallProgressCard() {
     
     // Support both legacy and new data structures
     const items = data.map(item => ({
-      progress: item.progress ?? item['Progress %'] ?? 0
+      progress: item.progress ?? item.currentProgressPercentage ?? 0
     }));
     
     const completed = items.filter(item => (Number(item.progress) || 0) >= 100).length;
@@ -1,12 +1,17 @@
+"use client";
+
 // src/components/ProactiveNotifications.tsx
 // Component for displaying autonomous proactive notifications
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, TrendingUp, TrendingDown, Users, X, Check } from "lucide-react";
-import { getActiveNotifications, acknowledgeNotification, getNotificationSummary, ProactiveNotification } from '@/services/autonomous-insights';
+import { AlertTriangle, TrendingUp, TrendingDown, Users, X, Check, BellOff, Package } from "lucide-react";
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { NotificationAction, NotificationSummary, NotificationsResponse, ProactiveNotification } from '@/lib/notifications/types';
+
+const SNOOZE_MINUTES = 24 * 60;
 
 interface ProactiveNotificationsProps {
   onNotificationClick?: (notification: ProactiveNotification) => void;
@@ -18,37 +23,57 @@ const ProactiveNotifications: React.FC<ProactiveNotificationsProps> = ({
   compact = false
 }) => {
   const [notifications, setNotifications] = useState<ProactiveNotification[]>([]);
-  const [summary, setSummary] = useState({
+  const [summary, setSummary] = useState<NotificationSummary>({
     total: 0,
     critical: 0,
     high: 0,
     medium: 0,
     low: 0,
-    recent: [] as ProactiveNotification[]
+    recent: []
   });
 
+  const loadNotifications = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const response = await fetchWithTimeout('/api/notifications', { signal, cache: 'no-store' }, CLIENT_FETCH_TIMEOUT_MS);
+      if (!response.ok) throw new Error(`Failed to load notifications: ${response.status}`);
+      const data: NotificationsResponse = await response.json();
+      setNotifications(data.notifications);
+      setSummary(data.summary);
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Error loading notifications:', error);
+    }
+  }, []);
+
   useEffect(() => {
     // Load notifications on component mount
-    loadNotifications();
+    const controller = new AbortController();
+    loadNotifications(controller.signal);
 
     // Refresh every 30 seconds
-    const interval = setInterval(loadNotifications, 30000);
-    return () => clearInterval(interval);
-  }, []);
-
-  const loadNotifications = () => {
-    const active = getActiveNotifications();
-    const summaryData = getNotificationSummary();
-    setNotifications(active);
-    setSummary(summaryData);
-  };
+    const interval = setInterval(() => loadNotifications(controller.signal), 30000);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [loadNotifications]);
 
-  const handleAcknowledge = (notificationId: string) => {
-    if (acknowledgeNotification(notificationId)) {
-      loadNotifications(); // Refresh the list
+  const updateNotification = async (notificationId: string, action: NotificationAction, minutes?: number) => {
+    try {
+      const response = await fetchWithTimeout(`/api/notifications/${encodeURIComponent(notificationId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, minutes }),
+      }, CLIENT_FETCH_TIMEOUT_MS);
+      if (!response.ok) throw new Error(`Failed to ${action} notification: ${response.status}`);
+      await loadNotifications(); // Refresh the list
+    } catch (error) {
+      console.error(`Error updating notification ${notificationId}:`, error);
     }
   };
 
+  const handleAcknowledge = (notificationId: string) => updateNotification(notificationId, 'acknowledge');
+  const handleSnooze = (notificationId: string) => updateNotification(notificationId, 'snooze', SNOOZE_MINUTES);
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'bg-red-500';
@@ -64,6 +89,7 @@ const ProactiveNotifications: React.FC<ProactiveNotificationsProps> = ({
       case 'critical_risk': return <AlertTriangle className="h-4 w-4" />;
       case 'workforce_shortage': return <Users className="h-4 w-4" />;
       case 'trend_alert': return <TrendingUp className="h-4 w-4" />;
+      case 'material_delay': return <Package className="h-4 w-4" />;
       default: return <AlertTriangle className="h-4 w-4" />;
     }
   };
@@ -191,10 +217,19 @@ const ProactiveNotifications: React.FC<ProactiveNotificationsProps> = ({
                   >
                     Details
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSnooze(notification.id)}
+                    title="Snooze for 24 hours"
+                  >
+                    <BellOff className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={() => handleAcknowledge(notification.id)}
+                    title="Acknowledge"
                     className="text-green-600 hover:text-green-700"
                   >
                     <Check className="h-4 w-4" />
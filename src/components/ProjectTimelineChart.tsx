@@ -2,20 +2,54 @@
 
 import { useTranslations } from 'next-intl';
 import { Card } from '@/components/ui/card';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, LineChart, Line, Legend, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { MechanicalPlanRow } from '@/services/google-sheets';
+import { useMonthlySeries } from '@/hooks/useMonthlySeries';
 
 interface ProjectTimelineChartProps {
-  data: any[];
+  data: MechanicalPlanRow[];
 }
 
+const SERIES_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#0EA5E9'];
+
 export function ProjectTimelineChart({ data }: ProjectTimelineChartProps) {
   const t = useTranslations('overview');
+  const { monthlySeries } = useMonthlySeries();
+
+  // لو فيه أكتر من snapshot شهري نرسم منحنى التقدم الحقيقي لكل مبنى، غير كده نرجع لعرض الخطة الحالية
+  if (monthlySeries && monthlySeries.dates.length > 1 && monthlySeries.buildings.length > 0) {
+    const buildings = monthlySeries.buildings.slice(0, SERIES_COLORS.length);
+    const lineData = monthlySeries.dates.map((date, i) => {
+      const point: Record<string, string | number | null> = { date, overall: monthlySeries.overall[i]?.progressPct ?? null };
+      buildings.forEach(b => { point[b.key] = b.points[i]?.progressPct ?? null; });
+      return point;
+    });
+
+    return (
+      <Card title={t('progressHistory')}>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={lineData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+              <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value) => (value === null ? '-' : `${value}%`)} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line type="monotone" dataKey="overall" name="Overall" stroke="#111827" strokeWidth={2} dot={false} connectNulls />
+              {buildings.map((b, i) => (
+                <Line key={b.key} type="monotone" dataKey={b.key} name={b.label} stroke={SERIES_COLORS[i]} dot={{ r: 2 }} connectNulls={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+    );
+  }
 
   const chartData = data?.slice(0, 8).map((item, index) => ({
-    name: item['Task Name'] || `مهمة ${index + 1}`,
-    progress: item['Progress %'] || 0,
-    planned: item['Planned Duration'] || 0,
-    actual: item['Actual Duration'] || 0,
+    name: item.mechanicalActivitySystem || `مهمة ${index + 1}`,
+    progress: item.currentProgressPercentage ?? 0,
+    planned: item.originalDurationDays ?? 0,
   })) || [];
 
   return (
@@ -35,7 +69,7 @@ export function ProjectTimelineChart({ data }: ProjectTimelineChartProps) {
             <Tooltip 
               formatter={(value, name) => [
                 `${value}${name === 'progress' ? '%' : ' يوم'}`,
-                name === 'progress' ? 'التقدم' : name === 'planned' ? 'مخطط' : 'فعلي'
+                name === 'progress' ? 'التقدم' : 'مخطط'
               ]}
             />
             <Bar dataKey="progress" fill="#3B82F6" name="progress" />
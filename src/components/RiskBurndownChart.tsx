@@ -0,0 +1,59 @@
+"use client";
+
+// Open risks by Risk Level over time, rebuilt from the audit trail (see services/risk-history.ts)
+import React, { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { buildRiskBurndown, BURNDOWN_LEVELS, type BurndownLevel } from '@/services/risk-history';
+import type { RiskAuditEntry } from '@/lib/risks/types';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+interface RiskBurndownChartProps {
+    risks: RiskRegisterItem[];
+    entries: RiskAuditEntry[];
+}
+
+const LEVEL_COLORS: Record<BurndownLevel, string> = {
+    'Critical': '#dc2626',
+    'High': '#f87171',
+    'Medium-High': '#fb923c',
+    'Medium': '#facc15',
+    'Low': '#4ade80',
+    'Unrated': '#94a3b8',
+};
+
+export function RiskBurndownChart({ risks, entries }: RiskBurndownChartProps) {
+    const points = useMemo(() => buildRiskBurndown(risks, entries), [risks, entries]);
+    const chartData = useMemo(() => points.map(point => ({ week: format(parseISO(point.date), 'dd MMM'), ...point.levels })), [points]);
+    // Only stack the levels that ever had an open risk
+    const levels = BURNDOWN_LEVELS.filter(level => points.some(point => point.levels[level] > 0));
+    const first = points[0]?.open ?? 0;
+    const last = points[points.length - 1]?.open ?? 0;
+
+    return (
+        <Card className="h-[320px] flex flex-col">
+            <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Risk Burndown</CardTitle>
+                <CardDescription className="text-xs">
+                    Open risks by level, weekly. {first !== last ? `${first} → ${last} open since ${points[0]?.date}.` : `${last} open.`}
+                    {entries.length === 0 && ' History starts with the first change made from the dashboard.'}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="flex-grow pt-2">
+                <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={chartData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.4} />
+                        <XAxis dataKey="week" tick={{ fontSize: 10 }} />
+                        <YAxis tick={{ fontSize: 10 }} allowDecimals={false} />
+                        <RechartsTooltip contentStyle={{ fontSize: 12 }} />
+                        <Legend wrapperStyle={{ fontSize: 11 }} />
+                        {levels.map(level => (
+                            <Area key={level} type="stepAfter" dataKey={level} stackId="open" stroke={LEVEL_COLORS[level]} fill={LEVEL_COLORS[level]} fillOpacity={0.6} />
+                        ))}
+                    </AreaChart>
+                </ResponsiveContainer>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+// Candidate risks drafted by the news/document scanner, waiting for someone to review or dismiss them
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ExternalLink, Loader2, Newspaper, X, ClipboardCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ScannedRiskDraft } from '@/lib/risks/types';
+
+interface RiskDraftQueueProps {
+    drafts: ScannedRiskDraft[];                           // Pending only, newest first
+    error: string | null;
+    reviewingId: string | null;                           // Draft currently loaded into the confirm form
+    onReview: (draft: ScannedRiskDraft) => void;
+    onDismiss: (draft: ScannedRiskDraft) => Promise<void>;
+}
+
+const isLink = (value: string | null | undefined): value is string => !!value && /^https?:\/\//i.test(value);
+
+export function RiskDraftQueue({ drafts, error, reviewingId, onReview, onDismiss }: RiskDraftQueueProps) {
+    const [dismissingId, setDismissingId] = useState<string | null>(null);
+    const [dismissError, setDismissError] = useState<string | null>(null);
+
+    const handleDismiss = async (draft: ScannedRiskDraft) => {
+        setDismissingId(draft.id);
+        setDismissError(null);
+        try {
+            await onDismiss(draft);
+        } catch (err) {
+            setDismissError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setDismissingId(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                    <Newspaper className="h-5 w-5" /> Scanned Risk Drafts
+                    <Badge variant="secondary">{drafts.length}</Badge>
+                </CardTitle>
+                <CardDescription>News and documents that mention a ScanKeywords phrase, drafted by AI. Review one to edit and add it to the register, or dismiss it.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {(error || dismissError) && <p className="text-sm text-destructive">{dismissError || error}</p>}
+                {drafts.map(draft => (
+                    <div key={draft.id} className={`rounded-md border p-3 space-y-2 ${reviewingId === draft.id ? 'border-primary' : ''}`}>
+                        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                            <div className="space-y-1 min-w-0">
+                                <p className="font-medium break-words">
+                                    {isLink(draft.risk.sourceUrl) ? (
+                                        <a href={draft.risk.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                            {draft.title} <ExternalLink className="inline h-3 w-3 ml-0.5" />
+                                        </a>
+                                    ) : draft.title}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    {draft.feed} · detected {format(draft.createdAt, 'dd-MMM-yyyy')}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 shrink-0">
+                                <Button size="sm" onClick={() => onReview(draft)} disabled={reviewingId === draft.id}>
+                                    <ClipboardCheck className="mr-1 h-4 w-4" /> Review
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={() => handleDismiss(draft)} disabled={dismissingId === draft.id || reviewingId === draft.id}>
+                                    {dismissingId === draft.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <X className="mr-1 h-4 w-4" />} Dismiss
+                                </Button>
+                            </div>
+                        </div>
+                        <p className="text-sm line-clamp-2">{draft.risk.riskDescription || draft.excerpt}</p>
+                        <div className="flex flex-wrap items-center gap-1">
+                            {draft.risk.riskLevelScore && <Badge variant="outline">{draft.risk.riskLevelScore}</Badge>}
+                            {draft.matchedKeywords.map(keyword => <Badge key={keyword} variant="secondary">{keyword}</Badge>)}
+                        </div>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+// Likely duplicates of the risk in the confirm form, with merge-into-existing or add-anyway
+import React, { useState } from 'react';
+import { Copy, GitMerge, Loader2, Plus } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { saveRisk } from '@/components/RiskEditDialog';
+import type { DuplicateRiskField, RiskDraft, RiskDuplicateMatch } from '@/lib/risks/types';
+import { mergeRiskPatch } from '@/services/risk-duplicates';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+interface RiskDuplicateWarningProps {
+    duplicates: RiskDuplicateMatch[];
+    draft: RiskDraft;                                  // Current form values
+    editorName: string;
+    disabled: boolean;                                 // While the add itself is running
+    onMerged: (risk: RiskRegisterItem) => void;
+    onAddAnyway: () => void;
+}
+
+const FIELD_LABELS: Record<DuplicateRiskField, string> = {
+    riskDescription: 'description',
+    likelyCauses: 'causes',
+    systemFocus: 'system',
+};
+
+const PATCH_LABELS: Record<string, string> = {
+    mitigationStrategiesActions: 'appends the mitigation',
+    actionOwner: 'sets the owner',
+    dueDateString: 'sets the due date',
+};
+
+export function RiskDuplicateWarning({ duplicates, draft, editorName, disabled, onMerged, onAddAnyway }: RiskDuplicateWarningProps) {
+    const [mergingId, setMergingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleMerge = async (existing: RiskRegisterItem) => {
+        const patch = mergeRiskPatch(existing, draft);
+        setMergingId(existing.riskId);
+        setError(null);
+        try {
+            // Nothing new to carry over: the existing risk already covers it
+            onMerged(Object.keys(patch).length > 0
+                ? await saveRisk(existing.riskId!, { method: 'PATCH', body: JSON.stringify(patch) }, editorName)
+                : existing);
+        } catch (err: any) {
+            setError(err.message || `Failed to merge into ${existing.riskId}.`);
+        } finally {
+            setMergingId(null);
+        }
+    };
+
+    return (
+        <Alert className="border-orange-500/70">
+            <Copy className="h-4 w-4" />
+            <AlertTitle>Possible duplicate{duplicates.length > 1 ? 's' : ''} in the register</AlertTitle>
+            <AlertDescription className="space-y-3">
+                <p>Merge this risk into an existing one, or add it as a new risk anyway.</p>
+                {duplicates.map(({ risk, score, fields }) => {
+                    const changes = Object.keys(mergeRiskPatch(risk, draft)).map(field => PATCH_LABELS[field]);
+                    return (
+                        <div key={risk.riskId} className="rounded-md border p-2 space-y-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">{risk.riskId}</span>
+                                <Badge variant="secondary">{Math.round(score * 100)}% similar</Badge>
+                                {risk.status && <Badge variant="outline">{risk.status}</Badge>}
+                                {risk.riskLevelScore && <Badge variant="outline">{risk.riskLevelScore}</Badge>}
+                            </div>
+                            <p className="text-sm line-clamp-2">{risk.riskDescription}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {(Object.keys(fields) as DuplicateRiskField[]).map(field => `${FIELD_LABELS[field]} ${Math.round(fields[field]! * 100)}%`).join(' · ')}
+                            </p>
+                            <div className="flex flex-wrap items-center gap-2 pt-1">
+                                <Button size="sm" variant="outline" onClick={() => handleMerge(risk)} disabled={disabled || mergingId !== null}>
+                                    {mergingId === risk.riskId ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <GitMerge className="mr-1 h-4 w-4" />} Merge into {risk.riskId}
+                                </Button>
+                                <span className="text-xs text-muted-foreground">{changes.length > 0 ? changes.join(', ') : 'nothing new to add'}</span>
+                            </div>
+                        </div>
+                    );
+                })}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button size="sm" variant="secondary" onClick={onAddAnyway} disabled={disabled || mergingId !== null}>
+                    <Plus className="mr-1 h-4 w-4" /> Add as a new risk anyway
+                </Button>
+            </AlertDescription>
+        </Alert>
+    );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+// Edit / close dialogs for a Risk Register row (PATCH and DELETE /api/risks/:riskId)
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Loader2, Save, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from '@/lib/utils';
+import { CLOSED_RISK_STATUS, RISK_STATUS_OPTIONS, type RiskPatch, type RiskResponse } from '@/lib/risks/types';
+import { SCORE_BANDS } from '@/services/risk-matrix';
+import { riskEditorHeaders } from '@/hooks/useRiskHistory';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+interface RiskDialogProps {
+    risk: RiskRegisterItem | null;   // Open while set
+    onClose: () => void;
+    onSaved: (risk: RiskRegisterItem) => void;
+    editorName: string;              // Signs the change in the audit trail
+}
+
+export async function saveRisk(riskId: string, init: RequestInit, editorName: string): Promise<RiskRegisterItem> {
+    const response = await fetch(`/api/risks/${encodeURIComponent(riskId)}`, { headers: { 'Content-Type': 'application/json', ...riskEditorHeaders(editorName) }, ...init });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || `Failed to update risk ${riskId}.`);
+    return (result as RiskResponse).risk;
+}
+
+// Current value first if the sheet uses wording the dropdown doesn't know
+const withCurrent = (options: string[], current: string | null | undefined) =>
+    current && !options.includes(current) ? [current, ...options] : options;
+
+export function RiskEditDialog({ risk, onClose, onSaved, editorName }: RiskDialogProps) {
+    const [form, setForm] = useState<RiskPatch>({});
+    const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!risk) return;
+        setForm({
+            status: risk.status,
+            actionOwner: risk.actionOwner,
+            residualRiskLevel: risk.residualRiskLevel,
+            mitigationStrategiesActions: risk.mitigationStrategiesActions,
+        });
+        setDueDate(risk.dueDateTimestamp ? new Date(risk.dueDateTimestamp) : undefined);
+        setError(null);
+    }, [risk]);
+
+    const handleSave = async () => {
+        if (!risk?.riskId) return;
+        // Only send what changed so the sheet keeps everyone else's edits
+        const patch: RiskPatch = {};
+        (Object.keys(form) as (keyof RiskPatch)[]).forEach(field => {
+            if ((form[field] ?? '') !== (risk[field] ?? '')) patch[field] = form[field] ?? null;
+        });
+        const initialDue = risk.dueDateTimestamp ? format(risk.dueDateTimestamp, 'yyyy-MM-dd') : null;
+        const nextDue = dueDate ? format(dueDate, 'yyyy-MM-dd') : null;
+        if (nextDue !== initialDue) patch.dueDateString = nextDue;
+        if (Object.keys(patch).length === 0) { onClose(); return; }
+
+        setSaving(true);
+        setError(null);
+        try {
+            onSaved(await saveRisk(risk.riskId, { method: 'PATCH', body: JSON.stringify(patch) }, editorName));
+        } catch (err: any) {
+            setError(err.message || 'Failed to update the risk.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={risk !== null} onOpenChange={(open) => { if (!open && !saving) onClose(); }}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Edit {risk?.riskId}</DialogTitle>
+                    <DialogDescription className="line-clamp-2">{risk?.riskDescription}</DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="risk-edit-status">Status</Label>
+                        <Select value={form.status ?? ''} onValueChange={(value) => setForm(prev => ({ ...prev, status: value }))}>
+                            <SelectTrigger id="risk-edit-status"><SelectValue placeholder="Select status" /></SelectTrigger>
+                            <SelectContent>
+                                {withCurrent(RISK_STATUS_OPTIONS, risk?.status).map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="risk-edit-residual">Residual Risk Level</Label>
+                        <Select value={form.residualRiskLevel ?? ''} onValueChange={(value) => setForm(prev => ({ ...prev, residualRiskLevel: value }))}>
+                            <SelectTrigger id="risk-edit-residual"><SelectValue placeholder="Select level" /></SelectTrigger>
+                            <SelectContent>
+                                {withCurrent(SCORE_BANDS, risk?.residualRiskLevel).map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="risk-edit-owner">Action Owner</Label>
+                        <Input id="risk-edit-owner" value={form.actionOwner ?? ''} onChange={(e) => setForm(prev => ({ ...prev, actionOwner: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="risk-edit-duedate">Due Date</Label>
+                        <div className="flex gap-1">
+                            <Popover>
+                                <PopoverTrigger asChild>
+                                    <Button id="risk-edit-duedate" variant="outline" className={cn("flex-1 justify-start text-left font-normal", !dueDate && "text-muted-foreground")}>
+                                        <CalendarDays className="mr-2 h-4 w-4" />
+                                        {dueDate ? format(dueDate, "PPP") : <span>{risk?.dueDateString || 'Pick a date'}</span>}
+                                    </Button>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0">
+                                    <Calendar mode="single" selected={dueDate} onSelect={setDueDate} initialFocus />
+                                </PopoverContent>
+                            </Popover>
+                            {dueDate && <Button variant="ghost" size="icon" onClick={() => setDueDate(undefined)} aria-label="Clear due date"><X className="h-4 w-4" /></Button>}
+                        </div>
+                    </div>
+                    <div className="space-y-1 sm:col-span-2">
+                        <Label htmlFor="risk-edit-mitigation">Mitigation Strategies / Actions</Label>
+                        <Textarea id="risk-edit-mitigation" rows={4} value={form.mitigationStrategiesActions ?? ''} onChange={(e) => setForm(prev => ({ ...prev, mitigationStrategiesActions: e.target.value }))} />
+                    </div>
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={saving || !form.status}>
+                        {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} Save
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+export function RiskCloseDialog({ risk, onClose, onSaved, editorName }: RiskDialogProps) {
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => { setError(null); }, [risk]);
+
+    const handleConfirm = async () => {
+        if (!risk?.riskId) return;
+        setSaving(true);
+        setError(null);
+        try {
+            onSaved(await saveRisk(risk.riskId, { method: 'DELETE' }, editorName));
+        } catch (err: any) {
+            setError(err.message || 'Failed to close the risk.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <AlertDialog open={risk !== null} onOpenChange={(open) => { if (!open && !saving) onClose(); }}>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Close {risk?.riskId}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        The risk stays in the register with status &quot;{CLOSED_RISK_STATUS}&quot; and today as its Last Updated date. You can reopen it later by editing the status.
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+                    <Button variant="destructive" onClick={handleConfirm} disabled={saving}>
+                        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Close Risk
+                    </Button>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+// Likelihood x severity heat map for the Risk Register (see services/risk-matrix.ts). Clicking a cell filters the table.
+import React, { useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { buildRiskMatrix, LIKELIHOOD_LABELS, SEVERITY_LABELS, type MatrixPosition, type RiskMatrixMode, type RiskScoreBand } from '@/services/risk-matrix';
+import { downloadSvgAsPng } from '@/lib/export-image';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+interface RiskHeatMapProps {
+    risks: RiskRegisterItem[];
+    mode: RiskMatrixMode;
+    onModeChange: (mode: RiskMatrixMode) => void;
+    selectedCell: MatrixPosition | null;
+    onSelectCell: (cell: MatrixPosition | null) => void;
+}
+
+// Literal colours so the exported PNG matches the screen
+const BAND_COLORS: Record<RiskScoreBand, { fill: string; text: string }> = {
+    'Low': { fill: '#86efac', text: '#14532d' },
+    'Medium': { fill: '#fde047', text: '#713f12' },
+    'Medium-High': { fill: '#fdba74', text: '#7c2d12' },
+    'High': { fill: '#f87171', text: '#7f1d1d' },
+    'Critical': { fill: '#dc2626', text: '#ffffff' },
+};
+
+const CELL_W = 72;
+const CELL_H = 48;
+const LEFT = 96;
+const TOP = 34;
+const WIDTH = LEFT + CELL_W * 5 + 12;
+const HEIGHT = TOP + CELL_H * 5 + 52;
+
+export function RiskHeatMap({ risks, mode, onModeChange, selectedCell, onSelectCell }: RiskHeatMapProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [exporting, setExporting] = useState(false);
+    const matrix = useMemo(() => buildRiskMatrix(risks, mode), [risks, mode]);
+    const title = `Risk Heat Map (${mode === 'inherent' ? 'Inherent' : 'Residual'}) - ${format(new Date(), 'dd MMM yyyy')}`;
+
+    const handleExport = async () => {
+        if (!svgRef.current) return;
+        setExporting(true);
+        try {
+            await downloadSvgAsPng(svgRef.current, `Risk_Heat_Map_${mode}_${format(new Date(), 'yyyyMMdd')}.png`);
+        } catch (error) {
+            console.error('Heat map export failed:', error);
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const isSelected = (cell: MatrixPosition) =>
+        selectedCell?.likelihood === cell.likelihood && selectedCell?.severity === cell.severity;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 pb-2">
+                <div>
+                    <CardTitle className="text-lg">Risk Heat Map</CardTitle>
+                    <CardDescription className="text-xs">
+                        Likelihood × severity{mode === 'residual' ? ', likelihood moved to match the Residual Risk Level' : ''}. Click a cell to filter the register.
+                        {matrix.unplaced.length > 0 && ` ${matrix.unplaced.length} risk(s) without a readable likelihood/severity are not shown.`}
+                    </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border p-0.5">
+                        {(['inherent', 'residual'] as RiskMatrixMode[]).map(option => (
+                            <Button key={option} size="sm" variant={mode === option ? 'default' : 'ghost'} className="h-7 px-2 text-xs capitalize" onClick={() => onModeChange(option)}>
+                                {option}
+                            </Button>
+                        ))}
+                    </div>
+                    <Button size="sm" variant="outline" className="h-8 text-xs" onClick={handleExport} disabled={exporting}>
+                        {exporting ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Download className="mr-1 h-3.5 w-3.5" />} PNG
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="flex justify-center overflow-x-auto">
+                <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width={WIDTH} height={HEIGHT} className="max-w-full h-auto text-foreground" fontFamily="Arial, sans-serif">
+                    <text x={WIDTH / 2} y={18} textAnchor="middle" fontSize={13} fontWeight={600} fill="currentColor">{title}</text>
+                    {matrix.rows.map((row, rowIndex) => (
+                        <React.Fragment key={rowIndex}>
+                            <text x={LEFT - 8} y={TOP + rowIndex * CELL_H + CELL_H / 2 + 4} textAnchor="end" fontSize={11} fill="currentColor">
+                                {LIKELIHOOD_LABELS[row[0].likelihood]}
+                            </text>
+                            {row.map((cell, colIndex) => {
+                                const colors = BAND_COLORS[cell.band];
+                                const selected = isSelected(cell);
+                                const x = LEFT + colIndex * CELL_W;
+                                const y = TOP + rowIndex * CELL_H;
+                                return (
+                                    <g
+                                        key={colIndex}
+                                        role="button"
+                                        tabIndex={0}
+                                        aria-label={`${LIKELIHOOD_LABELS[cell.likelihood]} likelihood, ${SEVERITY_LABELS[cell.severity]} severity: ${cell.risks.length} risks`}
+                                        style={{ cursor: 'pointer' }}
+                                        onClick={() => onSelectCell(selected ? null : { likelihood: cell.likelihood, severity: cell.severity })}
+                                        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSelectCell(selected ? null : { likelihood: cell.likelihood, severity: cell.severity }); } }}
+                                    >
+                                        <title>{cell.risks.map(r => r.riskId).filter(Boolean).join(', ') || 'No risks'}</title>
+                                        <rect x={x + 1} y={y + 1} width={CELL_W - 2} height={CELL_H - 2} rx={3} fill={colors.fill} stroke={selected ? '#1d4ed8' : '#ffffff'} strokeWidth={selected ? 3 : 1} opacity={cell.risks.length > 0 || selected ? 1 : 0.45} />
+                                        <text x={x + CELL_W / 2} y={y + CELL_H / 2 + 2} textAnchor="middle" fontSize={16} fontWeight={700} fill={colors.text}>
+                                            {cell.risks.length > 0 ? cell.risks.length : ''}
+                                        </text>
+                                        <text x={x + CELL_W - 6} y={y + CELL_H - 6} textAnchor="end" fontSize={9} fill={colors.text} opacity={0.7}>{cell.score}</text>
+                                    </g>
+                                );
+                            })}
+                        </React.Fragment>
+                    ))}
+                    {matrix.rows[0].map((cell, colIndex) => (
+                        <text key={colIndex} x={LEFT + colIndex * CELL_W + CELL_W / 2} y={TOP + CELL_H * 5 + 16} textAnchor="middle" fontSize={11} fill="currentColor">
+                            {SEVERITY_LABELS[cell.severity]}
+                        </text>
+                    ))}
+                    <text x={LEFT + (CELL_W * 5) / 2} y={HEIGHT - 10} textAnchor="middle" fontSize={12} fontWeight={600} fill="currentColor">Severity / Impact</text>
+                    <text x={14} y={TOP + (CELL_H * 5) / 2} textAnchor="middle" fontSize={12} fontWeight={600} fill="currentColor" transform={`rotate(-90 14 ${TOP + (CELL_H * 5) / 2})`}>Likelihood</text>
+                </svg>
+            </CardContent>
+        </Card>
+    );
+}
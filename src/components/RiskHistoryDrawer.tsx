@@ -0,0 +1,91 @@
+"use client";
+
+// Per-risk change timeline from the dashboard's audit trail (/api/risks/history)
+import React from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, History, PlusCircle, Archive, Pencil } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import type { AuditedRiskField, RiskAuditEntry } from '@/lib/risks/types';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+interface RiskHistoryDrawerProps {
+    risk: RiskRegisterItem | null;   // Open while set
+    entries: RiskAuditEntry[];       // Whole register, newest first
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<AuditedRiskField, string> = {
+    status: 'Status',
+    riskLevelScore: 'Risk Level',
+    residualRiskLevel: 'Residual Level',
+    likelihood: 'Likelihood',
+    severityImpactLevel: 'Severity',
+    actionOwner: 'Owner',
+    dueDateString: 'Due Date',
+    mitigationStrategiesActions: 'Mitigation',
+};
+
+const ACTIONS: Record<RiskAuditEntry['action'], { label: string; icon: React.ElementType; variant: 'default' | 'secondary' | 'outline' }> = {
+    create: { label: 'Created', icon: PlusCircle, variant: 'default' },
+    update: { label: 'Updated', icon: Pencil, variant: 'secondary' },
+    close: { label: 'Closed', icon: Archive, variant: 'outline' },
+};
+
+export function RiskHistoryDrawer({ risk, entries, onClose }: RiskHistoryDrawerProps) {
+    const riskEntries = risk?.riskId ? entries.filter(entry => entry.riskId.toLowerCase() === risk.riskId!.toLowerCase()) : [];
+
+    return (
+        <Sheet open={risk !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <SheetContent className="w-full sm:max-w-md flex flex-col">
+                <SheetHeader>
+                    <SheetTitle className="flex items-center gap-2"><History className="h-5 w-5" /> {risk?.riskId} history</SheetTitle>
+                    <SheetDescription className="line-clamp-2">{risk?.riskDescription}</SheetDescription>
+                </SheetHeader>
+                <ScrollArea className="flex-1 -mx-6 px-6 mt-4">
+                    {riskEntries.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                            No changes recorded yet. Only edits made from the dashboard are tracked; the sheet&apos;s Last Updated date is {risk?.lastUpdatedString || 'not set'}.
+                        </p>
+                    ) : (
+                        <ol className="relative border-s border-border ms-2 space-y-5 pb-4">
+                            {riskEntries.map(entry => {
+                                const action = ACTIONS[entry.action];
+                                const Icon = action.icon;
+                                return (
+                                    <li key={entry.id} className="ms-5">
+                                        <span className="absolute -start-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background ring-2 ring-border">
+                                            <Icon className="h-3 w-3 text-muted-foreground" />
+                                        </span>
+                                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                                            <Badge variant={action.variant} className="text-[10px] px-1.5 py-0">{action.label}</Badge>
+                                            <span className="font-medium">{entry.actor}</span>
+                                            <time className="text-muted-foreground" dateTime={new Date(entry.timestamp).toISOString()}>
+                                                {format(entry.timestamp, 'dd MMM yyyy HH:mm')}
+                                            </time>
+                                        </div>
+                                        <ul className="mt-2 space-y-1 text-xs">
+                                            {entry.changes.map(change => (
+                                                <li key={change.field} className="flex flex-wrap items-start gap-1">
+                                                    <span className="text-muted-foreground min-w-[90px]">{FIELD_LABELS[change.field] ?? change.field}:</span>
+                                                    {entry.action !== 'create' && (
+                                                        <>
+                                                            <span className="line-through text-muted-foreground break-words max-w-[140px]">{change.from ?? '—'}</span>
+                                                            <ArrowRight className="h-3 w-3 mt-0.5 text-muted-foreground" />
+                                                        </>
+                                                    )}
+                                                    <span className="font-medium break-words max-w-[200px]">{change.to ?? '—'}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                </ScrollArea>
+            </SheetContent>
+        </Sheet>
+    );
+}
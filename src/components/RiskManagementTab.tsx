@@ -18,12 +18,22 @@ import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"; // Needed for Date Picker
 import { Calendar } from "@/components/ui/calendar"; // Needed for Date Picker
-import { ArrowUpDown, FilterIcon, RefreshCw, ExternalLink, AlertTriangle, CheckCircle2, ListChecks, Info, CalendarDays, Loader2, Save, Check } from "lucide-react"; // Added Save, Check
+import { ArrowUpDown, FilterIcon, RefreshCw, ExternalLink, AlertTriangle, CheckCircle2, ListChecks, Info, CalendarDays, Loader2, Save, Check, Pencil, Archive, History } from "lucide-react"; // Added Save, Check
 import { Badge } from "@/components/ui/badge";
 import { format, isValid, set } from 'date-fns';
 import { Skeleton } from "@/components/ui/skeleton";
 import { Label } from '@/components/ui/label'; // Needed for Form
 import { cn } from '@/lib/utils'; // Needed for Calendar conditional styling
+import { RiskHeatMap } from '@/components/RiskHeatMap';
+import { RiskCloseDialog, RiskEditDialog } from '@/components/RiskEditDialog';
+import { RiskHistoryDrawer } from '@/components/RiskHistoryDrawer';
+import { RiskBurndownChart } from '@/components/RiskBurndownChart';
+import { RiskDraftQueue } from '@/components/RiskDraftQueue';
+import { RiskDuplicateWarning } from '@/components/RiskDuplicateWarning';
+import { riskEditorHeaders, useRiskHistory } from '@/hooks/useRiskHistory';
+import { useRiskDrafts } from '@/hooks/useRiskDrafts';
+import { CLOSED_RISK_STATUS, type RiskDuplicateMatch, type RiskDuplicatesResponse, type ScannedRiskDraft } from '@/lib/risks/types';
+import { LIKELIHOOD_LABELS, SEVERITY_LABELS, placeRisk, type MatrixPosition, type RiskMatrixMode } from '@/services/risk-matrix';
 
 // --- Type Definitions ---
 type SortableRiskColumns = keyof Pick<RiskRegisterItem, 'riskId' | 'systemFocus' | 'riskLevelScore' | 'status' | 'dueDateTimestamp' | 'actionOwner' | 'lastUpdatedTimestamp'>;
@@ -38,6 +48,8 @@ interface AnalyzedRiskData {
     riskLevelScore?: string;
     riskCategory?: string;
     mitigationStrategiesActions?: string;
+    sourceUrl?: string;             // Set on scanner drafts
+    detectionDateString?: string;
 }
 
 // --- Helper Functions ---
@@ -61,7 +73,9 @@ const formatDateString = (dateTimestamp: number | null, dateString: string | nul
 };
 
 export default function RiskManagementTab() {
-    const { data, loading, error, refreshData } = useRiskData();
+    const { data, loading, error, refreshData, updateItem } = useRiskData();
+    const { entries: riskHistory, refresh: refreshHistory, editorName, setEditorName } = useRiskHistory();
+    const { drafts, error: draftsError, refresh: refreshDrafts, decide: decideDraft } = useRiskDrafts(editorName);
 
     // --- States for AI Input & Confirmation Form ---
     const [naturalLanguageInput, setNaturalLanguageInput] = useState('');
@@ -71,6 +85,8 @@ export default function RiskManagementTab() {
     const [editedData, setEditedData] = useState<Partial<RiskRegisterItem>>({});
     const [isConfirming, setIsConfirming] = useState(false);
     const [confirmationResult, setConfirmationResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [reviewingDraft, setReviewingDraft] = useState<ScannedRiskDraft | null>(null);
+    const [duplicates, setDuplicates] = useState<RiskDuplicateMatch[]>([]);
 
     // --- States for Table Display ---
     const [sortConfig, setSortConfig] = useState<{ key: SortableRiskColumns | null; direction: 'ascending' | 'descending' }>({ key: 'riskLevelScore', direction: 'descending' });
@@ -78,6 +94,14 @@ export default function RiskManagementTab() {
     const [systemFilter, setSystemFilter] = useState<string>('all');
     const [statusFilter, setStatusFilter] = useState<string>('all');
     const [riskLevelFilter, setRiskLevelFilter] = useState<string>('all');
+    const [matrixMode, setMatrixMode] = useState<RiskMatrixMode>('inherent');
+    const [matrixCell, setMatrixCell] = useState<MatrixPosition | null>(null);
+
+    // --- States for Inline Edit / Close ---
+    const [editingRisk, setEditingRisk] = useState<RiskRegisterItem | null>(null);
+    const [closingRisk, setClosingRisk] = useState<RiskRegisterItem | null>(null);
+    const [historyRisk, setHistoryRisk] = useState<RiskRegisterItem | null>(null);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
 
     // --- Memos for derived data ---
     const uniqueSystems = useMemo(() => {
@@ -109,7 +133,8 @@ export default function RiskManagementTab() {
         return ['all', ...Array.from(levels).sort((a, b) => (order[a.toLowerCase()] || 99) - (order[b.toLowerCase()] || 99))];
       }, [data]);
 
-      const filteredData = useMemo(() => {
+      // The heat map shows everything the dropdown/search filters let through; its selected cell then narrows the table
+      const matrixRisks = useMemo(() => {
         if (!data) return [];
         return data.filter((item: RiskRegisterItem) => {
           const matchesGlobalSearch = globalSearchTerm === '' || Object.values(item).some(value => String(value).toLowerCase().includes(globalSearchTerm.toLowerCase()));
@@ -120,6 +145,14 @@ export default function RiskManagementTab() {
         });
       }, [data, globalSearchTerm, systemFilter, statusFilter, riskLevelFilter]);
 
+      const filteredData = useMemo(() => {
+        if (!matrixCell) return matrixRisks;
+        return matrixRisks.filter(item => {
+          const position = placeRisk(item, matrixMode);
+          return position?.likelihood === matrixCell.likelihood && position?.severity === matrixCell.severity;
+        });
+      }, [matrixRisks, matrixCell, matrixMode]);
+
       const sortedData = useMemo(() => {
         let sortableItems = [...filteredData];
         if (sortConfig.key !== null) {
@@ -172,12 +205,35 @@ export default function RiskManagementTab() {
                 dueDateTimestamp: null,
                 status: 'Open',
                 residualRiskLevel: analyzedData.riskLevelScore || 'Medium',
+                sourceUrl: analyzedData.sourceUrl,
+                detectionDateString: analyzedData.detectionDateString,
             });
         } else {
             setEditedData({});
         }
     }, [analyzedData]);
 
+    // --- Effect to look for likely duplicates as soon as the form opens (POST /api/risks/add checks again) ---
+    useEffect(() => {
+        setDuplicates([]);
+        if (!analyzedData?.riskDescription) return;
+        const controller = new AbortController();
+        fetch('/api/risks/duplicates', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(analyzedData),
+            signal: controller.signal,
+        })
+            .then(async response => {
+                if (!response.ok) throw new Error(`Duplicate check failed: ${response.status}`);
+                setDuplicates(((await response.json()) as RiskDuplicatesResponse).duplicates ?? []);
+            })
+            .catch(err => {
+                if (!controller.signal.aborted) console.error("Duplicate check error:", err);
+            });
+        return () => controller.abort();
+    }, [analyzedData]);
+
     // --- Handlers ---
      const requestSort = useCallback((key: SortableRiskColumns) => {
          let newDirection: 'ascending' | 'descending' = 'ascending';
@@ -203,6 +259,7 @@ export default function RiskManagementTab() {
         setAnalysisError(null);
         setAnalyzedData(null);
         setEditedData({});
+        setReviewingDraft(null);
         setConfirmationResult(null);
         try {
             const response = await fetch('/api/risks/analyze', {
@@ -235,7 +292,54 @@ export default function RiskManagementTab() {
         }
     };
 
-    const handleConfirmAndAddToSheet = useCallback(async () => {
+    const handleRiskSaved = useCallback((risk: RiskRegisterItem) => {
+        updateItem(risk);
+        refreshHistory();
+        setEditingRisk(null);
+        setClosingRisk(null);
+        setSavedMessage(`${risk.riskId} updated (status: ${risk.status || 'N/A'}).`);
+        setTimeout(() => setSavedMessage(null), 4000);
+    }, [updateItem, refreshHistory]);
+
+    // Loads a scanner draft into the confirm form; it's marked accepted once the risk is added
+    const handleReviewDraft = useCallback((draft: ScannedRiskDraft) => {
+        setAnalysisError(null);
+        setConfirmationResult(null);
+        setReviewingDraft(draft);
+        setAnalyzedData(draft.risk as AnalyzedRiskData);
+    }, []);
+
+    const handleCancelReview = useCallback(() => {
+        setAnalyzedData(null);
+        setEditedData({});
+        setReviewingDraft(null);
+    }, []);
+
+    // Shared tail of add and merge: the form closes and a reviewed scanner draft is marked accepted
+    const finishConfirmedRisk = useCallback(async (riskId: string) => {
+        if (reviewingDraft) {
+            // The risk is in the register either way; a failed decision only leaves the draft pending
+            await decideDraft(reviewingDraft.id, { action: 'accept', riskId }).catch(err => {
+                console.error("Failed to mark draft accepted:", err);
+                refreshDrafts();
+            });
+            setReviewingDraft(null);
+        } else {
+            setNaturalLanguageInput('');
+        }
+        setAnalyzedData(null);
+        setEditedData({});
+        refreshHistory();
+    }, [reviewingDraft, decideDraft, refreshDrafts, refreshHistory]);
+
+    const handleMergedIntoExisting = useCallback(async (risk: RiskRegisterItem) => {
+        updateItem(risk);
+        await finishConfirmedRisk(risk.riskId!);
+        setConfirmationResult({ type: 'success', message: `Merged into existing risk ${risk.riskId}.` });
+        setTimeout(() => setConfirmationResult(null), 4000);
+    }, [updateItem, finishConfirmedRisk]);
+
+    const handleConfirmAndAddToSheet = useCallback(async (allowDuplicate: boolean = false) => {
         if (!editedData || !editedData.riskDescription) {
             setConfirmationResult({ type: 'error', message: 'Cannot add risk with empty description.' });
             return;
@@ -247,17 +351,20 @@ export default function RiskManagementTab() {
         delete dataToSend.dueDateTimestamp;
 
         try {
-            const response = await fetch('/api/risks/add', {
+            const response = await fetch(allowDuplicate ? '/api/risks/add?allowDuplicate=true' : '/api/risks/add', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: { 'Content-Type': 'application/json', ...riskEditorHeaders(editorName) },
                 body: JSON.stringify(dataToSend),
             });
             const result = await response.json();
+            // Edited into a likely duplicate after the form opened: show the matches instead
+            if (response.status === 409 && Array.isArray(result.duplicates)) {
+                setDuplicates(result.duplicates);
+                return;
+            }
             if (!response.ok) { throw new Error(result.message || 'Failed to add risk to the sheet.'); }
             setConfirmationResult({ type: 'success', message: `Risk (ID: ${result.riskId}) added successfully! Refreshing data...` });
-            setNaturalLanguageInput('');
-            setAnalyzedData(null);
-            setEditedData({});
+            await finishConfirmedRisk(result.riskId);
             setTimeout(() => { refreshData(); setConfirmationResult(null); }, 2500);
         } catch (err: any) {
             console.error("Add to Sheet Error:", err);
@@ -265,7 +372,7 @@ export default function RiskManagementTab() {
         } finally {
             setIsConfirming(false);
         }
-    }, [editedData, refreshData]);
+    }, [editedData, refreshData, editorName, finishConfirmedRisk]);
 
     // --- Render Logic ---
     // Skeleton Loader
@@ -333,12 +440,24 @@ export default function RiskManagementTab() {
                 </CardContent>
             </Card>
 
+            {/* --- Scanner Drafts --- */}
+            {(drafts.length > 0 || draftsError) && (
+                <RiskDraftQueue drafts={drafts} error={draftsError} reviewingId={reviewingDraft?.id ?? null} onReview={handleReviewDraft} onDismiss={(draft) => decideDraft(draft.id, { action: 'dismiss' })} />
+            )}
+
             {/* --- NEW: Confirmation/Edit Form Card --- */}
             {analyzedData && (
                 <Card className="border-primary animate-fadeIn">
                     <CardHeader>
                         <CardTitle>Review and Confirm Risk Details</CardTitle>
                         <CardDescription>AI analysis results are below. Review, edit if needed, set Due Date/Status, and confirm to add.</CardDescription>
+                        {reviewingDraft && (
+                            <p className="text-sm text-muted-foreground break-words">
+                                Drafted from {reviewingDraft.feed}
+                                {editedData.sourceUrl && <>: <a href={editedData.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline">{editedData.sourceUrl}</a></>}
+                                {editedData.detectionDateString && <> · detected {editedData.detectionDateString}</>}
+                            </p>
+                        )}
                     </CardHeader>
                     <CardContent className="space-y-4">
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -426,9 +545,12 @@ export default function RiskManagementTab() {
                                 </Popover>
                             </div>
                         </div>
+                        {duplicates.length > 0 && (
+                            <RiskDuplicateWarning duplicates={duplicates} draft={editedData} editorName={editorName} disabled={isConfirming} onMerged={handleMergedIntoExisting} onAddAnyway={() => handleConfirmAndAddToSheet(true)} />
+                        )}
                         <div className="flex justify-end gap-2 mt-6">
-                             <Button variant="outline" onClick={() => { setAnalyzedData(null); setEditedData({}); }} disabled={isConfirming}> Cancel </Button>
-                             <Button onClick={handleConfirmAndAddToSheet} disabled={isConfirming || !editedData.riskDescription}>
+                             <Button variant="outline" onClick={handleCancelReview} disabled={isConfirming}> Cancel </Button>
+                             <Button onClick={() => handleConfirmAndAddToSheet()} disabled={isConfirming || !editedData.riskDescription || duplicates.length > 0}>
                                 {isConfirming ? ( <> <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Confirming... </> ) : ( <> <Check className="mr-2 h-4 w-4" /> Confirm & Add to Sheet </>)}
                             </Button>
                         </div>
@@ -461,25 +583,51 @@ export default function RiskManagementTab() {
                 </CardContent>
             </Card>
 
+            {/* --- Risk Heat Map --- */}
+            {matrixRisks.length > 0 && (
+                <RiskHeatMap risks={matrixRisks} mode={matrixMode} onModeChange={(mode) => { setMatrixMode(mode); setMatrixCell(null); }} selectedCell={matrixCell} onSelectCell={setMatrixCell} />
+            )}
+
+            {/* --- Risk Burndown --- */}
+            {data && data.length > 0 && <RiskBurndownChart risks={data} entries={riskHistory} />}
+
             {/* --- No Data Matching Filters Message --- */}
             {data && data.length > 0 && sortedData.length === 0 && (
                 <Card className="text-center p-6">
                     <CardContent>
                         <Info className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
                         <p className="text-muted-foreground">No risks match the current filter criteria.</p>
+                        {matrixCell && <Button variant="link" size="sm" onClick={() => setMatrixCell(null)}>Clear heat map cell</Button>}
                     </CardContent>
                 </Card>
             )}
 
+            {/* --- Inline Edit / Close --- */}
+            <RiskEditDialog risk={editingRisk} onClose={() => setEditingRisk(null)} onSaved={handleRiskSaved} editorName={editorName} />
+            <RiskCloseDialog risk={closingRisk} onClose={() => setClosingRisk(null)} onSaved={handleRiskSaved} editorName={editorName} />
+            <RiskHistoryDrawer risk={historyRisk} entries={riskHistory} onClose={() => setHistoryRisk(null)} />
+            {savedMessage && (
+                <Alert className="animate-fadeIn">
+                    <CheckCircle2 className="h-4 w-4" />
+                    <AlertTitle>Saved</AlertTitle>
+                    <AlertDescription>{savedMessage}</AlertDescription>
+                </Alert>
+            )}
+
             {/* --- Risk Register Table --- */}
             {sortedData.length > 0 && (
                 <Card>
-                    <CardHeader> <CardTitle>Risk Register</CardTitle> <CardDescription> Displaying {filteredData.length} of {data?.length || 0} total risks. </CardDescription> </CardHeader>
+                    <CardHeader> <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2"> <CardTitle>Risk Register</CardTitle> <div className="flex items-center gap-2"> <Label htmlFor="risk-editor-name" className="text-xs text-muted-foreground whitespace-nowrap">Editing as</Label> <Input id="risk-editor-name" placeholder="Your name (for the change history)" value={editorName} onChange={(e) => setEditorName(e.target.value)} className="h-8 w-full sm:w-56 text-xs" /> </div> </div> <CardDescription> Displaying {filteredData.length} of {data?.length || 0} total risks.
+                        {matrixCell && (
+                            <> Heat map cell: {LIKELIHOOD_LABELS[matrixCell.likelihood]} likelihood × {SEVERITY_LABELS[matrixCell.severity]} severity ({matrixMode}). <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setMatrixCell(null)}>Clear</Button></>
+                        )}
+                    </CardDescription> </CardHeader>
                     <CardContent className="overflow-x-auto">
                         <Table>
                             <TableHeader>
                                 <TableRow>
                                     {[ { key: 'riskId', label: 'ID' }, { key: 'riskDescription', label: 'Description' }, { key: 'systemFocus', label: 'System' }, { key: 'riskLevelScore', label: 'Risk Level' }, { key: 'mitigationStrategiesActions', label: 'Mitigation Actions' }, { key: 'actionOwner', label: 'Owner' }, { key: 'dueDateTimestamp', label: 'Due Date' }, { key: 'status', label: 'Status' }, { key: 'lastUpdatedTimestamp', label: 'Last Updated' }, ].map(col => ( <TableHead key={col.key} onClick={() => requestSort(col.key as SortableRiskColumns)} className="cursor-pointer group whitespace-nowrap hover:bg-muted/50 transition-colors px-3 py-2 text-xs sm:text-sm"> {col.label} {getSortIndicator(col.key as SortableRiskColumns)} </TableHead> ))}
+                                    <TableHead className="whitespace-nowrap px-3 py-2 text-xs sm:text-sm text-right">Actions</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
@@ -494,6 +642,11 @@ export default function RiskManagementTab() {
                                         <TableCell className="px-3 py-2 whitespace-nowrap"> {formatDateString(risk.dueDateTimestamp, risk.dueDateString)} </TableCell>
                                         <TableCell className="px-3 py-2 whitespace-nowrap">{risk.status || 'N/A'}</TableCell>
                                         <TableCell className="px-3 py-2 whitespace-nowrap"> {formatDateString(risk.lastUpdatedTimestamp, risk.lastUpdatedString)} </TableCell>
+                                        <TableCell className="px-3 py-2 whitespace-nowrap text-right">
+                                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setHistoryRisk(risk)} disabled={!risk.riskId} title="Change history" aria-label={`History of ${risk.riskId}`}> <History className="h-3.5 w-3.5" /> </Button>
+                                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingRisk(risk)} disabled={!risk.riskId} title="Edit status, owner, due date" aria-label={`Edit ${risk.riskId}`}> <Pencil className="h-3.5 w-3.5" /> </Button>
+                                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setClosingRisk(risk)} disabled={!risk.riskId || risk.status === CLOSED_RISK_STATUS} title="Close risk" aria-label={`Close ${risk.riskId}`}> <Archive className="h-3.5 w-3.5" /> </Button>
+                                        </TableCell>
                                     </TableRow>
                                 ))}
                             </TableBody>
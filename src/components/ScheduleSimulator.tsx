@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Icons } from "@/components/icons";
+import { cn } from "@/lib/utils";
+import { useToast } from '@/hooks/use-toast';
+import { useSimulationScenarios } from '@/hooks/useSimulationScenarios';
+import { MANPOWER_DISCIPLINES, getDisciplineLabel, type ManpowerDisciplineId, type ManpowerValues } from '@/lib/manpower-disciplines';
+import { simulateSchedule, type SimulationChange, type SimulationResult } from '@/services/schedule-simulator';
+import type { EnhancedMechanicalPlanRow, GanttTaskData } from '@/types';
+
+interface ScheduleSimulatorProps {
+    tasks: GanttTaskData[];
+    plan: EnhancedMechanicalPlanRow[];
+    manpower: ManpowerValues[];
+}
+
+type ChangeType = SimulationChange['type'];
+
+const formatDay = (ts: number | null) => (ts === null ? '-' : format(ts, 'dd-MMM-yy'));
+
+const ShiftBadge = ({ days }: { days: number }) => (
+    <span className={cn("font-semibold", days > 0 ? "text-destructive" : days < 0 ? "text-emerald-600" : "text-muted-foreground")}>
+        {days > 0 ? `+${days}d` : `${days}d`}
+    </span>
+);
+
+export function ScheduleSimulator({ tasks, plan, manpower }: ScheduleSimulatorProps) {
+    const { toast } = useToast();
+    const { scenarios, saveScenario, deleteScenario } = useSimulationScenarios();
+    const [changes, setChanges] = useState<SimulationChange[]>([]);
+    const [changeType, setChangeType] = useState<ChangeType>('delay');
+    const [activityId, setActivityId] = useState<string>('');
+    const [discipline, setDiscipline] = useState<ManpowerDisciplineId>(MANPOWER_DISCIPLINES[0].id);
+    const [amount, setAmount] = useState<string>('');
+    const [scenarioName, setScenarioName] = useState('');
+
+    const taskNames = useMemo(() => new Map(tasks.map(t => [String(t.id), t.name])), [tasks]);
+    const baseline = useMemo(() => simulateSchedule(tasks, plan, manpower, []), [tasks, plan, manpower]);
+    const result = useMemo(() => simulateSchedule(tasks, plan, manpower, changes), [tasks, plan, manpower, changes]);
+    const savedResults = useMemo(
+        () => scenarios.map(s => ({ scenario: s, result: simulateSchedule(tasks, plan, manpower, s.changes) })),
+        [scenarios, tasks, plan, manpower]
+    );
+    const movedActivities = result.activities.filter(a => a.shiftDays !== 0).sort((a, b) => b.shiftDays - a.shiftDays).slice(0, 8);
+
+    const describeChange = (change: SimulationChange): string => {
+        switch (change.type) {
+            case 'delay': return `Delay ${taskNames.get(change.activityId) ?? change.activityId} by ${change.days}d`;
+            case 'duration': return `${taskNames.get(change.activityId) ?? change.activityId}: duration ${change.durationDays}d`;
+            case 'crew': return `${getDisciplineLabel(change.discipline)} crew ${change.delta > 0 ? '+' : ''}${change.delta}`;
+        }
+    };
+
+    const addChange = () => {
+        const value = Number(amount);
+        if (!Number.isFinite(value) || amount.trim() === '') {
+            toast({ variant: "destructive", title: "Invalid value", description: "Enter a number of days or workers." });
+            return;
+        }
+        if (changeType !== 'crew' && !activityId) {
+            toast({ variant: "destructive", title: "Select an activity", description: "Pick the activity to change." });
+            return;
+        }
+        const change: SimulationChange = changeType === 'delay' ? { type: 'delay', activityId, days: Math.round(value) }
+            : changeType === 'duration' ? { type: 'duration', activityId, durationDays: Math.max(0, Math.round(value)) }
+            : { type: 'crew', discipline, delta: Math.round(value) };
+        setChanges(prev => [...prev, change]);
+        setAmount('');
+    };
+
+    const handleSave = () => {
+        if (changes.length === 0) return;
+        const saved = saveScenario(scenarioName, changes);
+        setScenarioName('');
+        toast({ title: "Scenario saved", description: saved.name });
+    };
+
+    const comparisonBuildings = baseline.buildings.map(b => b.building).sort();
+    const findBuildingFinish = (res: SimulationResult, building: string) => res.buildings.find(b => b.building === building)?.simulatedFinish ?? null;
+
+    if (tasks.length === 0) {
+        return <div className="flex items-center justify-center h-40 text-muted-foreground text-sm">No activities with valid start/finish dates to simulate.</div>;
+    }
+
+    return (
+        <div className="p-3 space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                {/* Changes */}
+                <Card>
+                    <CardHeader className="p-3">
+                        <CardTitle className="text-base">What-if Changes</CardTitle>
+                        <CardDescription className="text-xs">Delay an activity, change its duration or add/remove crew on a discipline.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-3 pt-0 space-y-3">
+                        <div className="grid grid-cols-1 gap-2">
+                            <select aria-label="Change type" className="px-2 py-1.5 border rounded-md text-sm bg-background" value={changeType} onChange={(e) => setChangeType(e.target.value as ChangeType)}>
+                                <option value="delay">Delay activity (days)</option>
+                                <option value="duration">Set duration (days)</option>
+                                <option value="crew">Change crew (workers)</option>
+                            </select>
+                            {changeType === 'crew' ? (
+                                <select aria-label="Discipline" className="px-2 py-1.5 border rounded-md text-sm bg-background" value={discipline} onChange={(e) => setDiscipline(e.target.value as ManpowerDisciplineId)}>
+                                    {MANPOWER_DISCIPLINES.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                                </select>
+                            ) : (
+                                <select aria-label="Activity" className="px-2 py-1.5 border rounded-md text-sm bg-background" value={activityId} onChange={(e) => setActivityId(e.target.value)}>
+                                    <option value="">Select activity…</option>
+                                    {tasks.map(t => <option key={t.id} value={String(t.id)}>{t.name}</option>)}
+                                </select>
+                            )}
+                            <div className="flex gap-2">
+                                <Input type="number" placeholder={changeType === 'crew' ? 'e.g. 4 or -2' : 'Days'} value={amount} onChange={(e) => setAmount(e.target.value)} className="h-8 text-sm" />
+                                <Button size="sm" onClick={addChange}>Add</Button>
+                            </div>
+                        </div>
+                        <div className="space-y-1">
+                            {changes.length === 0 ? <p className="text-xs text-muted-foreground">No changes yet: showing the baseline.</p> : changes.map((change, index) => (
+                                <div key={index} className="flex items-center justify-between gap-2 text-xs border rounded px-2 py-1">
+                                    <span className="truncate" title={describeChange(change)}>{describeChange(change)}</span>
+                                    <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => setChanges(prev => prev.filter((_, i) => i !== index))} title="Remove change"><Icons.close className="h-3 w-3" /></Button>
+                                </div>
+                            ))}
+                        </div>
+                        {result.crew.length > 0 && (
+                            <div className="text-xs text-muted-foreground space-y-0.5">
+                                {result.crew.map(c => <div key={c.discipline}>{`${getDisciplineLabel(c.discipline)}: forecast ${c.baselineCrew.toFixed(1)} → ${c.simulatedCrew.toFixed(1)} workers (×${c.durationFactor.toFixed(2)} remaining work)`}</div>)}
+                            </div>
+                        )}
+                        {result.warnings.map(w => <p key={w} className="text-xs text-amber-700 dark:text-amber-400">{w}</p>)}
+                        <div className="flex gap-2 pt-1 border-t">
+                            <Input placeholder="Scenario name" value={scenarioName} onChange={(e) => setScenarioName(e.target.value)} className="h-8 text-sm" />
+                            <Button size="sm" variant="outline" onClick={handleSave} disabled={changes.length === 0}>Save</Button>
+                            <Button size="sm" variant="ghost" onClick={() => setChanges([])} disabled={changes.length === 0}>Reset</Button>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Result next to baseline */}
+                <Card className="lg:col-span-2">
+                    <CardHeader className="p-3">
+                        <CardTitle className="text-base">Baseline vs Simulated</CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-3 pt-0 space-y-3">
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="rounded-lg border p-3"><div className="text-xs text-muted-foreground">Baseline Finish</div><div className="text-lg font-semibold">{formatDay(result.baselineFinish)}</div></div>
+                            <div className="rounded-lg border p-3"><div className="text-xs text-muted-foreground">Forecast Finish</div><div className="text-lg font-semibold">{formatDay(result.simulatedFinish)}</div></div>
+                            <div className="rounded-lg border p-3"><div className="text-xs text-muted-foreground">Shift</div><div className="text-lg"><ShiftBadge days={result.shiftDays} /></div></div>
+                        </div>
+                        <Table className="text-xs">
+                            <TableHeader><TableRow><TableHead>Building</TableHead><TableHead>Baseline Finish</TableHead><TableHead>Simulated Finish</TableHead><TableHead className="text-right">Shift</TableHead></TableRow></TableHeader>
+                            <TableBody>
+                                {result.buildings.map(b => (
+                                    <TableRow key={b.building}><TableCell>{b.building}</TableCell><TableCell>{formatDay(b.baselineFinish)}</TableCell><TableCell>{formatDay(b.simulatedFinish)}</TableCell><TableCell className="text-right"><ShiftBadge days={b.shiftDays} /></TableCell></TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        {movedActivities.length > 0 && (
+                            <div>
+                                <div className="text-xs font-medium text-muted-foreground mb-1">Recalculated Finish Dates</div>
+                                <div className="space-y-1">
+                                    {movedActivities.map(a => (
+                                        <div key={a.id} className="flex items-center justify-between gap-2 text-xs">
+                                            <span className="truncate flex-1" title={a.name}>{a.name}</span>
+                                            <span className="text-muted-foreground whitespace-nowrap">{`${formatDay(a.baselineFinish)} → ${formatDay(a.simulatedFinish)}`}</span>
+                                            <span className="w-12 text-right"><ShiftBadge days={a.shiftDays} /></span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Saved scenarios */}
+            <Card>
+                <CardHeader className="p-3">
+                    <CardTitle className="text-base">Saved Scenarios</CardTitle>
+                    <CardDescription className="text-xs">Finish dates per scenario against the baseline.</CardDescription>
+                </CardHeader>
+                <CardContent className="p-3 pt-0 overflow-x-auto">
+                    {savedResults.length === 0 ? <p className="text-xs text-muted-foreground">No saved scenarios.</p> : (
+                        <Table className="text-xs">
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Scenario</TableHead>
+                                    <TableHead>Project Finish</TableHead>
+                                    <TableHead>Shift</TableHead>
+                                    {comparisonBuildings.map(b => <TableHead key={b} className="whitespace-nowrap">{b}</TableHead>)}
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                <TableRow className="bg-muted/40">
+                                    <TableCell className="font-medium">Baseline</TableCell>
+                                    <TableCell>{formatDay(baseline.baselineFinish)}</TableCell>
+                                    <TableCell>-</TableCell>
+                                    {comparisonBuildings.map(b => <TableCell key={b}>{formatDay(findBuildingFinish(baseline, b))}</TableCell>)}
+                                    <TableCell />
+                                </TableRow>
+                                {savedResults.map(({ scenario, result: scenarioResult }) => (
+                                    <TableRow key={scenario.id}>
+                                        <TableCell className="font-medium"><div>{scenario.name}</div><div className="text-[10px] text-muted-foreground">{`${scenario.changes.length} change(s)`}</div></TableCell>
+                                        <TableCell>{formatDay(scenarioResult.simulatedFinish)}</TableCell>
+                                        <TableCell><ShiftBadge days={scenarioResult.shiftDays} /></TableCell>
+                                        {comparisonBuildings.map(b => <TableCell key={b}>{formatDay(findBuildingFinish(scenarioResult, b))}</TableCell>)}
+                                        <TableCell className="whitespace-nowrap text-right">
+                                            {scenarioResult.warnings.length > 0 && <Badge variant="outline" className="mr-1 text-[10px]" title={scenarioResult.warnings.join('\n')}>!</Badge>}
+                                            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => setChanges(scenario.changes)}>Load</Button>
+                                            <Button variant="ghost" size="sm" className="h-6 px-2 text-destructive" onClick={() => deleteScenario(scenario.id)}>Delete</Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -21,6 +21,7 @@ import { cn } from "@/lib/utils";
 
 // --- Forecast Chart Integration ---
 import ForecastChart from "@/components/ForecastChart";
+import ForecastBacktestPanel from "@/components/ForecastBacktestPanel";
 
 // --- Enhanced Command System ---
 interface CommandSuggestion {
@@ -43,6 +44,24 @@ const COMMAND_SUGGESTIONS: CommandSuggestion[] = [
         icon: <Shield className="h-4 w-4" />,
         category: 'forecast'
     },
+    {
+        command: '/forecast method=ema window=7 horizon=4 discipline=security',
+        description: 'توقع القوى العاملة لمقاول الأمن',
+        icon: <Shield className="h-4 w-4" />,
+        category: 'forecast'
+    },
+    {
+        command: '/forecast method=holt horizon=4 discipline=total',
+        description: 'توقع إجمالي القوى العاملة بطريقة Holt مع نطاق التوقع',
+        icon: <TrendingUp className="h-4 w-4" />,
+        category: 'forecast'
+    },
+    {
+        command: '/backtest horizon=1',
+        description: 'قياس دقة طرق التوقع على البيانات السابقة واختيار الأفضل',
+        icon: <TrendingUp className="h-4 w-4" />,
+        category: 'forecast'
+    },
     {
         command: '/detectrisks',
         description: 'تحليل المخاطر والمشاكل المحتملة',
@@ -98,6 +117,7 @@ export function ChatbotDrawer() {
 
     // Forecast data state
     const [forecastData, setForecastData] = useState<any>(null);
+    const [backtestData, setBacktestData] = useState<any>(null);
 
     const scrollAreaRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -267,6 +287,13 @@ export function ChatbotDrawer() {
             // Handle forecast data
             if (responseData.type === 'forecastResult') {
                 setForecastData({ ...responseData.data, discipline: responseData.discipline });
+                setBacktestData(null);
+            }
+
+            // /backtest replaces the chart with the accuracy table for every discipline
+            if (responseData.type === 'backtestResult') {
+                setBacktestData(responseData.data);
+                setForecastData(null);
             }
 
             const newBotMessage: Message = { sender: 'bot', text: responseData.reply || "لم أتمكن من فهم الرد." };
@@ -298,6 +325,7 @@ export function ChatbotDrawer() {
         setMessages([initialBotMessage]);
         setError(null);
         setForecastData(null); // Clear forecast data
+        setBacktestData(null);
         inputRef.current?.focus();
     };
 
@@ -373,6 +401,14 @@ export function ChatbotDrawer() {
                 {forecastData && (
                     <div className="p-4 border-t">
                         <ForecastChart data={forecastData} discipline={forecastData.discipline} locale="ar" />
+                        {forecastData.backtest && (
+                            <ForecastBacktestPanel disciplines={[forecastData.backtest]} currentMethod={forecastData.method} locale="ar" />
+                        )}
+                    </div>
+                )}
+                {backtestData && (
+                    <div className="p-4 border-t">
+                        <ForecastBacktestPanel disciplines={backtestData.disciplines} horizon={backtestData.horizon} locale="ar" />
                     </div>
                 )}
 
@@ -5,12 +5,13 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertTriangle, CalendarClock, TrendingUp, Activity, Users, BarChartBig, CheckCircle, PackageX, ArrowUpRight, ArrowDownRight, Minus, Target, Package as PackageIcon } from 'lucide-react';
-import { ResponsiveContainer, LineChart, Line, Tooltip as RechartsTooltip, CartesianGrid, XAxis, YAxis, AreaChart, Area } from 'recharts';
+import { ResponsiveContainer, LineChart, Line, Tooltip as RechartsTooltip, CartesianGrid, XAxis, YAxis, AreaChart, Area, Legend, ReferenceLine } from 'recharts';
 import { format, isValid } from 'date-fns';
 import { cn } from '@/lib/utils';
 import type { ComparisonResults, ProgressTrends, TrendDataPoint } from '@/types';
 import { Icons } from "@/components/icons"; // Ensure Icons is imported
 import { Progress } from "@/components/ui/progress";
+import type { EvmGroup, EvmReport } from '@/services/evm';
 
 
 // --- Interface for Props ---
@@ -21,6 +22,7 @@ interface ExecutiveSummaryTabProps {
     delayedActivitiesCount: number | null;
     materialRiskCount: number | null;
     progressTrends: ProgressTrends | null;
+    evm: EvmReport | null;
 }
 
 // --- Performance Optimization: Memoize expensive calculations ---
@@ -68,6 +70,27 @@ const MemoizedProgressBars = React.memo(({
 
 MemoizedProgressBars.displayName = 'MemoizedProgressBars';
 
+// SPI >= 1 on/ahead of schedule, 0.9–1 slipping, < 0.9 behind
+const spiColor = (spi: number | null | undefined) =>
+    spi === null || spi === undefined ? "" : spi >= 1 ? "text-emerald-600" : spi >= 0.9 ? "text-orange-600" : "text-red-600";
+
+const EvmGroupList = ({ title, groups }: { title: string; groups: EvmGroup[] }) => (
+    <div>
+        <div className="text-xs font-medium text-muted-foreground mb-1">{title}</div>
+        {groups.length === 0 ? <div className="text-xs text-muted-foreground">No planned activities.</div> : (
+            <div className="space-y-1 max-h-32 overflow-y-auto">
+                {groups.map(group => (
+                    <div key={group.key} className="flex items-center justify-between text-sm">
+                        <span className="truncate flex-1">{group.label}</span>
+                        <span className={cn("font-semibold w-12 text-right", spiColor(group.spi))}>{group.spi !== null ? group.spi.toFixed(2) : 'N/A'}</span>
+                        <span className={cn("text-xs w-16 text-right", group.scheduleVariance < 0 ? "text-red-600" : "text-muted-foreground")}>{`${group.scheduleVariance > 0 ? '+' : ''}${group.scheduleVariance.toFixed(1)}d`}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
 const renderTrendIcon = (change: number | null | undefined) => {
     if (change === null || change === undefined || change === 0) return <Minus className="h-4 w-4 text-muted-foreground" />;
     if (change > 0) return <ArrowUpRight className="h-4 w-4 text-emerald-500" />;
@@ -81,7 +104,8 @@ export function ExecutiveSummaryTab({
     weeklyVelocity, // Value could be null or undefined initially
     delayedActivitiesCount,
     materialRiskCount,
-    progressTrends
+    progressTrends,
+    evm
 }: ExecutiveSummaryTabProps) {
 
     // Safely access potentially null values
@@ -94,6 +118,13 @@ export function ExecutiveSummaryTab({
         ? new Date(historicalComparisons.previousTimestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
         : 'previous';
     const overallTrendData = progressTrends?.overall ?? [];
+    const evmOverall = evm?.overall ?? null;
+    const sCurveData = evm?.sCurve ?? [];
+    const weeklySpi = sCurveData.filter(point => point.spi !== null);
+    const latestSpi = weeklySpi.length > 0 ? weeklySpi[weeklySpi.length - 1] : null;
+    const previousSpi = weeklySpi.length > 1 ? weeklySpi[weeklySpi.length - 2] : null;
+    const spiChange = latestSpi?.spi != null && previousSpi?.spi != null ? latestSpi.spi - previousSpi.spi : null;
+    const statusDateKey = evm ? format(evm.statusDate, 'yyyy-MM-dd') : null;
 
     return (
         <div className="space-y-4">
@@ -230,6 +261,58 @@ export function ExecutiveSummaryTab({
                      </CardContent>
                 </Card>
             </div>
+
+            {/* Row 3: Earned Value (duration-weighted) */}
+            <div className="grid gap-4 grid-cols-1 lg:grid-cols-3">
+                {/* S-Curve */}
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Planned vs Earned (S-Curve)</CardTitle>
+                        <CardDescription>Cumulative planned progress from the Mechanical Plan against earned progress at each snapshot.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="pl-2 pr-6">
+                        {loading ? <div className="h-[240px] flex justify-center items-center"><Icons.spinner className="h-8 w-8 animate-spin"/></div> :
+                         sCurveData.length === 0 ? <div className="h-[240px] flex justify-center items-center text-muted-foreground">No scheduled activities with start/finish dates.</div> : (
+                             <ResponsiveContainer width="100%" height={240}>
+                                 <LineChart data={sCurveData} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+                                     <CartesianGrid strokeDasharray="3 3" />
+                                     <XAxis dataKey="date" tick={{ fontSize: 10 }} interval="preserveStartEnd" minTickGap={30} />
+                                     <YAxis yAxisId="pct" domain={[0, 100]} tickFormatter={(v) => `${v}%`} tick={{ fontSize: 10 }} />
+                                     <YAxis yAxisId="spi" orientation="right" domain={[0, 'auto']} tick={{ fontSize: 10 }} hide />
+                                     <RechartsTooltip formatter={(value, name) => typeof value !== 'number' ? '-' : name === 'SPI' ? value.toFixed(2) : `${value.toFixed(1)}%`} />
+                                     <Legend wrapperStyle={{ fontSize: 12 }} />
+                                     {statusDateKey && <ReferenceLine yAxisId="pct" x={statusDateKey} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" />}
+                                     <Line yAxisId="pct" type="monotone" dataKey="plannedPct" name="Planned" stroke="hsl(var(--muted-foreground))" strokeWidth={2} dot={false} />
+                                     <Line yAxisId="pct" type="monotone" dataKey="earnedPct" name="Earned" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2 }} connectNulls />
+                                     <Line yAxisId="spi" type="monotone" dataKey="spi" name="SPI" stroke="hsl(var(--chart-4))" strokeWidth={1} strokeDasharray="4 2" dot={false} connectNulls />
+                                 </LineChart>
+                             </ResponsiveContainer>
+                         )}
+                    </CardContent>
+                </Card>
+                {/* SPI / SV */}
+                <Card className="flex flex-col">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-sm font-medium">Schedule Performance (SPI)</CardTitle>
+                        <Icons.trendingUp className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {loading ? <Icons.spinner className="h-6 w-6 animate-spin" /> : (<>
+                            <div>
+                                <div className={cn("text-2xl font-bold", spiColor(evmOverall?.spi))}>{evmOverall?.spi != null ? evmOverall.spi.toFixed(2) : 'N/A'}</div>
+                                <p className="text-xs text-muted-foreground">
+                                    {evmOverall ? `SV ${evmOverall.scheduleVariance > 0 ? '+' : ''}${evmOverall.scheduleVariance.toFixed(1)} duration-days · EV ${evmOverall.earnedPct ?? 0}% vs PV ${evmOverall.plannedPct ?? 0}%` : 'No plan data'}
+                                </p>
+                                <p className={cn("text-xs text-muted-foreground", spiChange === null ? "" : spiChange >= 0 ? "text-emerald-600" : "text-red-600")}>
+                                    {spiChange !== null && previousSpi ? `${spiChange >= 0 ? '+' : ''}${spiChange.toFixed(2)} vs ${previousSpi.date}` : 'No weekly comparison'}
+                                </p>
+                            </div>
+                            <EvmGroupList title="SPI by System" groups={evm?.bySystem ?? []} />
+                            <EvmGroupList title="SPI by Building" groups={evm?.byBuilding ?? []} />
+                        </>)}
+                    </CardContent>
+                </Card>
+            </div>
         </div>
     );
-}
\ No newline at end of file
+}
@@ -37,6 +37,10 @@ import {
   Siren,
   AlertTriangle, // Added this, you can use either AlertCircle or AlertTriangle
 
+  // Mechanical Plan what-if simulator
+  SlidersHorizontal,
+  X,
+
   // Add any other icons used elsewhere if needed
 
 } from 'lucide-react';
@@ -83,6 +87,9 @@ export const Icons = {
   siren: Siren,
   // alertTriangle is already added above
 
+  // For the Mechanical Plan what-if simulator
+  whatIf: SlidersHorizontal,
+  close: X,
 };
 
 // Optional: Export types if needed
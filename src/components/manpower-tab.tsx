@@ -16,24 +16,16 @@ import { cn } from "@/lib/utils";
 import { format, isValid } from 'date-fns';
 // --- ADDED: Import DateRange type ---
 import { DateRange } from 'react-day-picker';
-import type { ManpowerSortState, ManpowerSortColumn } from '@/types';
+import type { ManpowerSortState, ManpowerSortColumn, ManpowerSummary } from '@/types';
+import { MANPOWER_DISCIPLINES, getRowTotalManpower, type ManpowerDisciplineId } from '@/lib/manpower-disciplines';
 
 // Import the new ChartJS component
 import { ManpowerChartJS } from '@/components/ManpowerChartJS'; // <-- Ensure path is correct
 // Import forecast components and service
 import ForecastChart from '@/components/ForecastChart';
 import { forecastManpower, ForecastParams } from '@/services/forecasting';
-
-// --- Types ---
-interface ManpowerSummary {
-    totalManDays: number;
-    avgTotalManpower: number | null;
-    peakTotalManpower: number | null;
-    avgHvac: number | null;
-    avgFf: number | null;
-    avgFa: number | null;
-    numberOfDays: number;
-}
+import { ManpowerDemandChart } from '@/components/ManpowerDemandChart';
+import type { ManpowerDemandReport } from '@/services/manpower-demand';
 
 // Define props interface for the component
 interface ManpowerTabProps {
@@ -47,6 +39,7 @@ interface ManpowerTabProps {
     sortState: ManpowerSortState;
     onSort: (column: ManpowerSortColumn) => void;
     onExport: (data: ManpowerSheetRow[], fileName: string, tableId: string) => void;
+    demand: ManpowerDemandReport | null; // Remaining plan work vs forecast supply (whole plan, not date-filtered)
 }
 
 // Helper to format date
@@ -62,30 +55,30 @@ export function ManpowerTab({
     data, // Expects filtered & sorted data from parent (page.tsx)
     loading, error, dateRange, sortState,
     setDateRange, // Now accepting the prop
-    onSort, onExport
+    onSort, onExport, demand
 }: ManpowerTabProps) {
 
     // --- Calculate Summary ---
     const summaryData = useMemo((): ManpowerSummary => {
+        const avgByDiscipline = {} as Record<ManpowerDisciplineId, number | null>;
+        MANPOWER_DISCIPLINES.forEach(d => { avgByDiscipline[d.id] = null; });
         if (!data || data.length === 0) {
-            return { totalManDays: 0, avgTotalManpower: null, peakTotalManpower: null, avgHvac: null, avgFf: null, avgFa: null, numberOfDays: 0 };
+            return { totalManDays: 0, avgTotalManpower: null, peakTotalManpower: null, avgByDiscipline, numberOfDays: 0 };
         }
         let totalManDays = 0; let sumTotal = 0, countTotal = 0, peakTotal = 0;
-        let sumHvac = 0, countHvac = 0; let sumFf = 0, countFf = 0; let sumFa = 0, countFa = 0;
 
         data.forEach(row => {
-            const total = row.totalManpower ?? ((row.hvacManpower ?? 0) + (row.firefightingManpower ?? 0) + (row.fireAlarmManpower ?? 0));
-            const hvac = row.hvacManpower; const ff = row.firefightingManpower; const fa = row.fireAlarmManpower;
+            const total = getRowTotalManpower(row);
             if (typeof total === 'number' && !isNaN(total)) { totalManDays += total; sumTotal += total; countTotal++; if (total > peakTotal) { peakTotal = total; } }
-            if (typeof hvac === 'number' && !isNaN(hvac)) { sumHvac += hvac; countHvac++; }
-            if (typeof ff === 'number' && !isNaN(ff)) { sumFf += ff; countFf++; }
-            if (typeof fa === 'number' && !isNaN(fa)) { sumFa += fa; countFa++; }
+        });
+        MANPOWER_DISCIPLINES.forEach(d => {
+            const values = data.map(row => row[d.field]).filter((v): v is number => typeof v === 'number' && !isNaN(v));
+            avgByDiscipline[d.id] = values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
         });
         const uniqueDays = new Set(data.map(d => d.timestamp)).size;
         return {
             totalManDays: totalManDays, avgTotalManpower: countTotal > 0 ? (sumTotal / countTotal) : null,
-            peakTotalManpower: peakTotal > 0 ? peakTotal : null, avgHvac: countHvac > 0 ? (sumHvac / countHvac) : null,
-            avgFf: countFf > 0 ? (sumFf / countFf) : null, avgFa: countFa > 0 ? (sumFa / countFa) : null,
+            peakTotalManpower: peakTotal > 0 ? peakTotal : null, avgByDiscipline,
             numberOfDays: uniqueDays
         };
     }, [data]);
@@ -101,9 +94,7 @@ export function ManpowerTab({
     // --- Table Columns Definition ---
     const columns: { key: ManpowerSortColumn; label: string; className?: string }[] = [
         { key: 'timestamp', label: 'Date', className: 'w-[100px] px-2 whitespace-nowrap' },
-        { key: 'hvacManpower', label: 'HVAC', className: 'w-[90px] text-center px-2' },
-        { key: 'firefightingManpower', label: 'Firefighting', className: 'w-[100px] text-center px-2' },
-        { key: 'fireAlarmManpower', label: 'Fire Alarm', className: 'w-[90px] text-center px-2' },
+        ...MANPOWER_DISCIPLINES.map(d => ({ key: d.field as ManpowerSortColumn, label: d.label, className: 'w-[100px] text-center px-2' })),
         { key: 'totalManpower', label: 'Total', className: 'w-[90px] text-center px-2 font-semibold' },
     ];
     const tableColSpan = columns.length;
@@ -113,13 +104,13 @@ export function ManpowerTab({
         <div className="flex flex-col gap-4 h-full">
 
             {/* Row 1: Summary Cards */}
-            <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-4 xl:grid-cols-7 px-1 flex-shrink-0">
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-4 xl:grid-cols-8 px-1 flex-shrink-0">
                 <Card className="p-3"> <CardDescription className="text-xs mb-1">Total Man-Days</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.totalManDays ?? '-'}</CardTitle> </Card>
                 <Card className="p-3"> <CardDescription className="text-xs mb-1">Avg. Daily Total</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.avgTotalManpower?.toFixed(1) ?? '-'}</CardTitle> </Card>
                 <Card className="p-3"> <CardDescription className="text-xs mb-1">Peak Daily Total</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.peakTotalManpower ?? '-'}</CardTitle> </Card>
-                <Card className="p-3"> <CardDescription className="text-xs mb-1">Avg. HVAC</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.avgHvac?.toFixed(1) ?? '-'}</CardTitle> </Card>
-                <Card className="p-3"> <CardDescription className="text-xs mb-1">Avg. FF</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.avgFf?.toFixed(1) ?? '-'}</CardTitle> </Card>
-                <Card className="p-3"> <CardDescription className="text-xs mb-1">Avg. FA</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.avgFa?.toFixed(1) ?? '-'}</CardTitle> </Card>
+                {MANPOWER_DISCIPLINES.map(d => (
+                    <Card key={d.id} className="p-3"> <CardDescription className="text-xs mb-1">Avg. {d.shortLabel}</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.avgByDiscipline[d.id]?.toFixed(1) ?? '-'}</CardTitle> </Card>
+                ))}
                 <Card className="p-3"> <CardDescription className="text-xs mb-1">Days Shown</CardDescription> <CardTitle className="text-lg font-bold">{summaryData?.numberOfDays ?? '-'}</CardTitle> </Card>
             </div>
 
@@ -139,6 +130,11 @@ export function ManpowerTab({
                 </Card>
             </div>
 
+            {/* Row 2b: Demand vs supply */}
+            <div className="px-1 flex-shrink-0">
+                <ManpowerDemandChart report={demand} />
+            </div>
+
             {/* Row 3: Table */}
             <div className="px-1 flex-grow flex flex-col overflow-hidden">
                 <Card className="h-full flex flex-col overflow-hidden border shadow-sm">
@@ -166,13 +162,13 @@ export function ManpowerTab({
                                     <TableRow><TableCell colSpan={tableColSpan} className="h-24 text-center text-muted-foreground">No data available for the selected date range.</TableCell></TableRow>
                                 ) : (
                                     data.map((row, index) => {
-                                        const displayTotal = row.totalManpower ?? ((row.hvacManpower ?? 0) + (row.firefightingManpower ?? 0) + (row.fireAlarmManpower ?? 0));
+                                        const displayTotal = getRowTotalManpower(row);
                                         return (
                                             <TableRow key={`${row.timestamp}-${index}`}>
                                                 <TableCell className="px-2 py-1.5 whitespace-nowrap">{formatDateDisplay(row.timestamp)}</TableCell>
-                                                <TableCell className="px-2 py-1.5 text-center">{row.hvacManpower ?? '-'}</TableCell>
-                                                <TableCell className="px-2 py-1.5 text-center">{row.firefightingManpower ?? '-'}</TableCell>
-                                                <TableCell className="px-2 py-1.5 text-center">{row.fireAlarmManpower ?? '-'}</TableCell>
+                                                {MANPOWER_DISCIPLINES.map(d => (
+                                                    <TableCell key={d.id} className="px-2 py-1.5 text-center">{row[d.field] ?? '-'}</TableCell>
+                                                ))}
                                                 <TableCell className="px-2 py-1.5 text-center font-semibold">{displayTotal > 0 ? displayTotal : '-'}</TableCell>
                                             </TableRow>
                                         );
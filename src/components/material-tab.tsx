@@ -7,11 +7,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
-    AlertTriangle, Link as LinkIcon, Truck, PackageCheck, PackageSearch, Package, Clock
+    AlertTriangle, Link as LinkIcon, Truck, PackageCheck, PackageSearch, Package, Clock, ClipboardCheck, FileWarning
 } from 'lucide-react';
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { useChartColors } from '@/hooks/use-chart-colors';
-import type { MaterialStatusRow } from '@/services/google-sheets';
+import type { MaterialStatusRow, MIRRow } from '@/services/google-sheets';
+import { linkMirsToMaterials, calculateInspectionLagByDiscipline, findDeliveredWithoutMir } from '@/services/material-inspection';
 import { Icons } from "@/components/icons";
 import { cn } from "@/lib/utils";
 import { format, isValid, startOfDay, addDays } from "date-fns";
@@ -41,6 +42,8 @@ interface MaterialTabProps {
     onApprovalFilterChange: (value: string) => void;
     onSort: (column: MaterialSortColumn) => void;
     onExport: (data: MaterialStatusRow[], fileName: string, tableId: string) => void;
+    mirData: MIRRow[];
+    mirLoading: boolean;
 }
 
 const formatDate = (timestamp: number | null, originalString: string | null = null): string => {
@@ -105,7 +108,8 @@ const CustomPieTooltip = ({ active, payload, colors }: { active?: boolean, paylo
 
 export function MaterialTab({
     data, loading, error, filters, sortState,
-    onSystemFilterChange, onStatusFilterChange, onLocationFilterChange, onApprovalFilterChange, onSort, onExport
+    onSystemFilterChange, onStatusFilterChange, onLocationFilterChange, onApprovalFilterChange, onSort, onExport,
+    mirData, mirLoading
 }: MaterialTabProps) {
 
     const themeColors = useChartColors();
@@ -181,6 +185,12 @@ export function MaterialTab({
         return { summaryData: finalSummaryData, systemCounts: finalSystemCounts };
     }, [safeData, today]);
 
+    // --- MIR approval cycle ---
+    // Lag is measured over the whole MIR log; "without MIR" follows the table filters.
+    const safeMirData = useMemo(() => Array.isArray(mirData) ? mirData : [], [mirData]);
+    const inspectionLagByDiscipline = useMemo(() => calculateInspectionLagByDiscipline(safeMirData), [safeMirData]);
+    const deliveredWithoutMir = useMemo(() => findDeliveredWithoutMir(linkMirsToMaterials(safeData, safeMirData)), [safeData, safeMirData]);
+
     if (loading && safeData.length === 0) {
         return <div className="flex justify-center items-center h-60"><Icons.spinner className="h-8 w-8 animate-spin" /><p className="ml-2 text-lg">Loading Material Data...</p></div>;
     }
@@ -266,6 +276,54 @@ export function MaterialTab({
                 </div>
             </div>
 
+            {/* ----- MIR Approval Cycle ----- */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-1 flex-shrink-0 items-stretch">
+                <Card className="flex flex-col">
+                    <CardHeader className="p-3 pb-1 flex-shrink-0"><CardTitle className="text-base flex items-center gap-1.5"><ClipboardCheck className="h-4 w-4" /> Received to Inspected (MIR)</CardTitle><CardDescription className="text-xs">Days from material receipt to inspection, per discipline</CardDescription></CardHeader>
+                    <CardContent className="p-2">
+                        {mirLoading && safeMirData.length === 0 ? (
+                            <div className="flex items-center justify-center h-20"><Icons.spinner className="h-5 w-5 animate-spin" /></div>
+                        ) : inspectionLagByDiscipline.length === 0 ? (
+                            <div className="flex items-center justify-center h-20 text-muted-foreground text-sm">No inspected MIRs yet.</div>
+                        ) : (
+                            <Table className="text-xs">
+                                <TableHeader><TableRow><TableHead className="h-7 px-2">Discipline</TableHead><TableHead className="h-7 px-2 text-center">Inspected</TableHead><TableHead className="h-7 px-2 text-center">Avg. Days</TableHead><TableHead className="h-7 px-2 text-center">Max Days</TableHead><TableHead className="h-7 px-2 text-center">Awaiting</TableHead></TableRow></TableHeader>
+                                <TableBody>
+                                    {inspectionLagByDiscipline.map(lag => (
+                                        <TableRow key={lag.discipline}>
+                                            <TableCell className="px-2 py-1 font-medium">{lag.discipline}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center">{lag.inspectedCount}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center">{lag.averageLagDays ?? '-'}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center">{lag.maxLagDays ?? '-'}</TableCell>
+                                            <TableCell className={cn("px-2 py-1 text-center", lag.awaitingCount > 0 && "text-amber-600 dark:text-amber-400 font-medium")}>{lag.awaitingCount}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+                <Card className="flex flex-col">
+                    <CardHeader className="p-3 pb-1 flex-shrink-0"><CardTitle className="text-base flex items-center gap-1.5"><FileWarning className="h-4 w-4 text-amber-500" /> Delivered without MIR <Badge variant="outline" className="ml-1 text-xs">{mirLoading && safeMirData.length === 0 ? '-' : deliveredWithoutMir.length}</Badge></CardTitle><CardDescription className="text-xs">Items on site with no matching inspection request</CardDescription></CardHeader>
+                    <CardContent className="p-2 max-h-[180px] overflow-y-auto">
+                        {mirLoading && safeMirData.length === 0 ? (
+                            <div className="flex items-center justify-center h-20"><Icons.spinner className="h-5 w-5 animate-spin" /></div>
+                        ) : deliveredWithoutMir.length === 0 ? (
+                            <div className="flex items-center justify-center h-20 text-muted-foreground text-sm">All delivered items have an MIR.</div>
+                        ) : (
+                            <ul className="space-y-1 text-xs">
+                                {deliveredWithoutMir.map((row, index) => (
+                                    <li key={`${row.system}-${row.itemDescription}-${index}`} className="flex items-start justify-between gap-2 border-b border-border/40 pb-1">
+                                        <span><span className="font-medium">{row.system ?? 'N/A'}</span> · {row.itemDescription}</span>
+                                        <span className="text-muted-foreground whitespace-nowrap">{row.buildingLocation ?? ''}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
             {/* ----- Filters Section ----- */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2 flex-shrink-0 px-1">
                 <Select value={safeFilters.systemFilter} onValueChange={onSystemFilterChange} disabled={loading}> <SelectTrigger className="w-full text-xs h-8"><SelectValue placeholder="System" /></SelectTrigger> <SelectContent>{systemOptions.map(s => (<SelectItem key={s} value={s} className="text-xs">{s}</SelectItem>))}</SelectContent> </Select>
@@ -18,6 +18,11 @@ import {
 import { Gantt, ViewMode, Task as OriginalGanttTask } from "gantt-task-react";
 import "gantt-task-react/dist/index.css";
 import { useChartColors } from '@/hooks/use-chart-colors';
+import { analyzeCriticalPath } from '@/services/critical-path';
+import { ScheduleSimulator } from '@/components/ScheduleSimulator';
+import { useBaselineSnapshot } from '@/hooks/useBaselineSnapshot';
+import { compareToBaseline } from '@/services/baseline-variance';
+import type { ManpowerValues } from '@/lib/manpower-disciplines';
 
 import type {
     MechanicalPlanSortState, MechanicalPlanSortColumn,
@@ -25,10 +30,11 @@ import type {
     GanttTaskData, EnhancedMechanicalPlanSummary, ActualStatusCount
 } from '@/types';
 
-type PlanViewMode = 'gantt' | 'table';
+type PlanViewMode = 'gantt' | 'table' | 'simulate';
 
 interface MechanicalPlanTabProps {
     data: EnhancedMechanicalPlanRow[];
+    fullPlan: EnhancedMechanicalPlanRow[]; // Unfiltered plan: float and critical flags must not depend on the table filters
     loading: boolean;
     error: string | null;
     sortState: MechanicalPlanSortState;
@@ -37,6 +43,8 @@ interface MechanicalPlanTabProps {
     onSort: (column: MechanicalPlanSortColumn) => void;
     onExport: (data: EnhancedMechanicalPlanRow[], fileName: string, tableId: string) => void;
     todayTimestamp: number;
+    ganttTasks: GanttTaskData[];   // Baseline bars for the what-if simulator
+    manpowerData: ManpowerValues[]; // Crew forecasts for the what-if simulator
 }
 
 // --- بداية الكود الصحيح للدوال المساعدة ---
@@ -76,12 +84,15 @@ const ActualStatusBadge = ({ status }: { status: EnhancedMechanicalPlanRow['actu
 
 
 export function MechanicalPlanTab({
-    data,
-    loading, error, sortState, summaryData, statusCounts, onSort, onExport, todayTimestamp
+    data, fullPlan,
+    loading, error, sortState, summaryData, statusCounts, onSort, onExport, todayTimestamp, ganttTasks, manpowerData
 }: MechanicalPlanTabProps) {
 
     const [viewMode, setViewMode] = React.useState<PlanViewMode>('table');
     const [ganttViewScale, setGanttViewScale] = useState<ViewMode>(ViewMode.Week);
+    const [criticalOnly, setCriticalOnly] = useState(false);
+    const [slippedOnly, setSlippedOnly] = useState(false);
+    const { baselineMonths, baselineMonth, setBaselineMonth, baselineRows, baselineLoading } = useBaselineSnapshot();
     const { primary, muted, success, warning, destructive, grid, foreground, axis, tooltipBg, tooltipText } = useChartColors();
     const upcomingCutoffTimestamp = startOfDay(addDays(new Date(todayTimestamp), 5)).getTime();
 
@@ -90,11 +101,32 @@ export function MechanicalPlanTab({
     const safeStatusCounts = Array.isArray(statusCounts) ? statusCounts : [];
     const safeSummaryData = summaryData || { totalActivities: 0, completedActivities: 0, ongoingActivities: 0, notStartedActivities: 0, activitiesWithNAStatus: 0 };
 
+    // المسار الحرج محسوب على الخطة كلها زي /api/mechanical-plan/critical-path (الفلاتر بتأثر على العرض بس)،
+    // والـ predecessors المكتوبة نص بتتربط بأسماء الأنشطة
+    const safePlan = useMemo(() => Array.isArray(fullPlan) ? fullPlan : [], [fullPlan]);
+    const criticalPath = useMemo(() => analyzeCriticalPath(safePlan), [safePlan]);
+    const criticalById = useMemo(() => new Map(criticalPath.activities.map(a => [a.id, a])), [criticalPath]);
+    const criticalCount = criticalPath.criticalPath.length;
+    const buildingDriverCount = criticalPath.activities.filter(a => a.drivesBuildingFinish && !a.isCritical).length;
+
+    // Baseline vs current: أي شهر من الـ monthly tabs ممكن يتعلم baseline
+    const baseline = useMemo(
+        () => (baselineMonth && baselineRows ? compareToBaseline(baselineMonth, safeData, baselineRows) : null),
+        [baselineMonth, baselineRows, safeData]
+    );
+    const visibleData = useMemo(
+        () => (slippedOnly && baseline ? safeData.filter(row => baseline.byActivityId.get(String(row.id))?.slipped) : safeData),
+        [safeData, slippedOnly, baseline]
+    );
+
     const derivedGanttTasks = useMemo((): GanttTaskData[] => {
-        if (loading || !Array.isArray(safeData)) { return []; }
-        return safeData
+        if (loading || !Array.isArray(visibleData)) { return []; }
+        const ganttRows = visibleData
             .filter(row => row?.calculatedStartTimestamp && row.calculatedFinishTimestamp && row.calculatedStartTimestamp < row.calculatedFinishTimestamp)
-            .map((row): GanttTaskData | null => {
+            .filter(row => !criticalOnly || criticalById.get(String(row.id))?.drivesBuildingFinish);
+        const ganttIds = new Set(ganttRows.map(row => String(row.id)));
+        return ganttRows
+            .map((row): GanttTaskData[] | null => {
                 if (!row) return null;
                 const startDate = new Date(row.calculatedStartTimestamp!);
                 const endDate = new Date(row.calculatedFinishTimestamp!);
@@ -111,13 +143,36 @@ export function MechanicalPlanTab({
                     case 'Not Started': styles = { ...styles, progressColor: muted ? `${muted}50` : '#e5e7eb', backgroundColor: muted || '#d1d5db' }; break;
                     default: styles = { ...styles, progressColor: muted ? `${muted}30` : '#f3f4f6', backgroundColor: muted ? `${muted}a0` : '#e5e7eb' };
                 }
+                // Critical path in solid red; activities that only drive their building's finish in light red
+                const cpm = criticalById.get(String(row.id));
+                if (cpm?.isCritical) {
+                    styles = { ...styles, backgroundColor: destructive ? `${destructive}cc` : '#ef4444cc', progressColor: destructive || '#dc2626', backgroundSelectedColor: destructive || '#dc2626' };
+                } else if (cpm?.drivesBuildingFinish) {
+                    styles = { ...styles, backgroundColor: destructive ? `${destructive}66` : '#fca5a5', progressColor: destructive ? `${destructive}aa` : '#f87171' };
+                }
+                const floatLabel = cpm ? ` (float ${cpm.totalFloatDays}d)` : '';
+                const variance = baseline?.byActivityId.get(String(row.id));
+                const slipLabel = variance?.finishSlipDays ? ` [${variance.finishSlipDays > 0 ? '+' : ''}${variance.finishSlipDays}d vs BL]` : '';
                 const taskObject: GanttTaskData = {
-                    id: taskId, name: `${row.areaBuilding || 'Bldg'} - ${row.mechanicalActivitySystem || 'Activity'}`,
+                    id: taskId, name: `${row.areaBuilding || 'Bldg'} - ${row.mechanicalActivitySystem || 'Activity'}${floatLabel}${slipLabel}`,
                     start: startDate, end: endDate, progress: progressValue, type: 'task', isDisabled: false, styles: styles,
+                    dependencies: cpm?.predecessorIds.filter(id => ganttIds.has(id)),
                 };
-                return taskObject;
-            }).filter((task): task is GanttTaskData => task !== null);
-    }, [safeData, loading, primary, muted, success, warning]);
+                // Grey ghost bar under activities whose dates moved since the baseline
+                const baselineStart = variance?.baselineStart ? new Date(`${variance.baselineStart}T00:00:00`) : null;
+                const baselineEnd = variance?.baselineFinish ? new Date(`${variance.baselineFinish}T00:00:00`) : null;
+                if (baselineStart && baselineEnd && isValid(baselineStart) && isValid(baselineEnd) && baselineStart < baselineEnd && (variance?.startSlipDays || variance?.finishSlipDays)) {
+                    const baselineTask: GanttTaskData = {
+                        id: `${taskId}--baseline`, name: `↳ Baseline ${baseline?.baselineMonth}`, start: baselineStart, end: baselineEnd, progress: 0, type: 'task', isDisabled: true,
+                        styles: { backgroundColor: muted ? `${muted}80` : '#d4d4d8', backgroundSelectedColor: muted ? `${muted}80` : '#d4d4d8', progressColor: 'transparent', progressSelectedColor: 'transparent' },
+                    };
+                    return [taskObject, baselineTask];
+                }
+                return [taskObject];
+            }).filter((tasks): tasks is GanttTaskData[] => tasks !== null).flat();
+    }, [visibleData, loading, primary, muted, success, warning, destructive, criticalOnly, criticalById, baseline]);
+
+    const ganttActivityCount = derivedGanttTasks.filter(task => !task.id.endsWith('--baseline')).length;
 
     if (loading && safeData.length === 0 && derivedGanttTasks.length === 0) {
         return ( <div className="flex justify-center items-center h-60"> <Icons.spinner className="h-8 w-8 animate-spin"/> <p className="ml-2 text-lg">Loading Plan Data...</p> </div> );
@@ -135,9 +190,13 @@ export function MechanicalPlanTab({
         { key: 'predecessorFinishTimestamp', label: 'Pred. Finish', className: 'w-[90px] px-1.5 whitespace-nowrap' },
         { key: 'calculatedStartTimestamp', label: 'Calc. Start', className: 'w-[90px] px-1.5 whitespace-nowrap' },
         { key: 'calculatedFinishTimestamp', label: 'Calc. Finish', className: 'w-[90px] px-1.5 whitespace-nowrap' },
+        { key: 'baselineStart', label: 'BL Start', className: 'w-[90px] px-1.5 whitespace-nowrap' },
+        { key: 'baselineFinish', label: 'BL Finish', className: 'w-[90px] px-1.5 whitespace-nowrap' },
+        { key: 'finishSlipDays', label: 'Slip (d)', className: 'w-[70px] px-1 text-center' },
         { key: 'originalDurationDays', label: 'Orig. Dur', className: 'w-[60px] text-center px-1' },
         { key: 'actualStatus', label: 'Actual Status', className: 'w-[130px] px-1.5 whitespace-nowrap' },
         { key: 'remarksJustification', label: 'Remarks / Justification', className: 'min-w-[250px] px-2' },
+        { key: 'totalFloatDays', label: 'Float (d)', className: 'w-[90px] px-1.5 text-center' },
     ];
     const sortableColumns: MechanicalPlanSortColumn[] = [ 'areaBuilding', 'locationRoomLevel', 'mechanicalActivitySystem', 'currentProgressPercentage', 'keyPredecessorActivity', 'predecessorFinishTimestamp', 'calculatedStartTimestamp', 'calculatedFinishTimestamp', 'originalDurationDays', 'actualStatus', 'remarksJustification' ];
 
@@ -195,21 +254,39 @@ export function MechanicalPlanTab({
                 <Card className="flex-grow flex flex-col overflow-hidden border shadow-sm h-full">
                     <CardHeader className="flex flex-row items-center justify-between flex-shrink-0 border-b px-4 py-2">
                         <div>
-                            <CardTitle className="text-base font-semibold"> {viewMode === 'gantt' ? 'Mechanical Plan Timeline (Gantt View)' : 'Mechanical Installation Plan Details'} </CardTitle>
+                            <CardTitle className="text-base font-semibold"> {viewMode === 'gantt' ? 'Mechanical Plan Timeline (Gantt View)' : viewMode === 'simulate' ? 'What-if Schedule Simulation' : 'Mechanical Installation Plan Details'} </CardTitle>
                             <CardDescription className="text-xs">
                                 {viewMode === 'gantt' ?
-                                    `${derivedGanttTasks.length > 0 ? derivedGanttTasks.length : 'No'} activities with valid dates.` :
-                                    `${safeData.length > 0 ? safeData.length : 'No'} activities listed. Click headers to sort.`
+                                    `${ganttActivityCount > 0 ? ganttActivityCount : 'No'} activities with valid dates. ${criticalCount} on the critical path, ${buildingDriverCount} more driving a building finish${criticalPath.projectFinish ? ` (project finish ${criticalPath.projectFinish})` : ''}.` :
+                                    viewMode === 'simulate' ? 'Recalculated finish dates against the baseline plan.' :
+                                    `${visibleData.length > 0 ? visibleData.length : 'No'} activities listed. Click headers to sort.`
                                 }
                             </CardDescription>
+                            {baseline && viewMode !== 'simulate' && (
+                                <p className="text-xs text-muted-foreground">{`Baseline ${baseline.baselineMonth}: ${baseline.slippedCount} slipped${baseline.maxFinishSlipDays && baseline.maxFinishSlipDays > 0 ? ` (max +${baseline.maxFinishSlipDays}d)` : ''}, ${baseline.addedCount} added since.`}</p>
+                            )}
                         </div>
                         <div className='flex items-center gap-2'>
+                            <select aria-label="Baseline snapshot" className="h-8 px-2 border rounded-md text-xs bg-background" value={baselineMonth ?? ''} onChange={(e) => { setBaselineMonth(e.target.value || null); if (!e.target.value) setSlippedOnly(false); }} title="Mark a monthly snapshot as the baseline">
+                                <option value="">No baseline</option>
+                                {baselineMonths.map(m => <option key={m} value={m}>{`Baseline: ${m}`}</option>)}
+                            </select>
+                            {baselineLoading && <Icons.spinner className="h-4 w-4 animate-spin" />}
+                            {baseline && viewMode !== 'simulate' && (
+                                <Button onClick={() => setSlippedOnly(prev => !prev)} variant={slippedOnly ? 'secondary' : 'outline'} size="sm" title="Show only activities that finish later than in the baseline"> <Icons.calendarClock className="mr-1.5 h-3.5 w-3.5" /> {slippedOnly ? 'All Activities' : 'Slipped Only'} </Button>
+                            )}
+                            {viewMode === 'gantt' && (
+                                <Button onClick={() => setCriticalOnly(prev => !prev)} variant={criticalOnly ? 'destructive' : 'outline'} size="sm" title="Show only activities whose delay moves the project or building finish"> <AlertTriangle className="mr-1.5 h-3.5 w-3.5" /> {criticalOnly ? 'Show All' : 'Critical Only'} </Button>
+                            )}
+                            <Button onClick={() => setViewMode(prev => prev === 'simulate' ? 'table' : 'simulate')} variant={viewMode === 'simulate' ? 'secondary' : 'outline'} size="sm" title={viewMode === 'simulate' ? 'Close Simulation' : 'What-if Simulation'}> <Icons.whatIf className="mr-1.5 h-3.5 w-3.5" /> What-if </Button>
                             <Button onClick={() => setViewMode(prev => prev === 'gantt' ? 'table' : 'gantt')} variant="outline" size="sm" title={viewMode === 'gantt' ? 'Switch to Table View' : 'Switch to Gantt View'}> {viewMode === 'gantt' ? <Icons.tableView className="h-4 w-4" /> : <Icons.ganttView className="h-4 w-4" />} </Button>
                             <Button onClick={() => onExport(safeData, 'Mechanical_Plan_Integrated_Data', 'mechanical-plan-table')} variant="outline" size="sm" disabled={loading || safeData.length === 0} title="Export Table Data"> <Icons.download className="mr-1.5 h-3.5 w-3.5" /> Export Table </Button>
                         </div>
                     </CardHeader>
                     <CardContent className="flex-grow overflow-auto p-0 relative">
-                        {viewMode === 'gantt' ? (
+                        {viewMode === 'simulate' ? (
+                            <ScheduleSimulator tasks={ganttTasks} plan={safeData} manpower={manpowerData} />
+                        ) : viewMode === 'gantt' ? (
                             <div className='p-2 w-full h-full overflow-auto min-h-[500px] bg-card'>
                                 {derivedGanttTasks.length === 0 ? ( <div className="flex items-center justify-center h-full text-muted-foreground">No tasks found with valid start/finish dates for the current filters.</div> ) : (
                                     <Gantt tasks={derivedGanttTasks} viewMode={ganttViewScale} onSelect={task => console.log('Selected Task:', task)} listCellWidth={""} ganttHeight={500} columnWidth={ganttViewScale === ViewMode.Month ? 90 : ganttViewScale === ViewMode.Week ? 150 : 65} todayColor={primary ? `${primary}33` : 'rgba(255, 87, 34, 0.2)'} barProgressColor="inherit" barProgressSelectedColor="inherit" barBackgroundColor="inherit" barBackgroundSelectedColor="inherit" />
@@ -218,7 +295,7 @@ export function MechanicalPlanTab({
                         ) : (
                             <div className="overflow-x-auto">
                                 <TooltipProvider delayDuration={200}>
-                                    <Table id="mechanical-plan-table" className="w-full text-xs relative border-collapse min-w-[1450px]">
+                                    <Table id="mechanical-plan-table" className="w-full text-xs relative border-collapse min-w-[1800px]">
                                         <TableHeader className="sticky top-0 z-10 bg-muted/95 backdrop-blur-sm">
                                             <TableRow className="border-b border-border">
                                                 {columns.map(col => {
@@ -228,8 +305,8 @@ export function MechanicalPlanTab({
                                             </TableRow>
                                         </TableHeader>
                                         <TableBody>
-                                            {safeData.length === 0 ? ( <TableRow><TableCell colSpan={columns.length} className="text-center h-24 text-muted-foreground">No integrated mechanical plan data available.</TableCell></TableRow> ) : (
-                                                safeData.map((row, index) => {
+                                            {visibleData.length === 0 ? ( <TableRow><TableCell colSpan={columns.length} className="text-center h-24 text-muted-foreground">{slippedOnly ? 'No activities slipped since the baseline.' : 'No integrated mechanical plan data available.'}</TableCell></TableRow> ) : (
+                                                visibleData.map((row, index) => {
                                                     if (!row) return null;
                                                     const finishTs = row.calculatedFinishTimestamp;
                                                     const startTs = row.calculatedStartTimestamp;
@@ -237,6 +314,8 @@ export function MechanicalPlanTab({
                                                     const isDelayed = !isCompleted && typeof finishTs === 'number' && finishTs < todayTimestamp;
                                                     const isUpcoming = !isCompleted && typeof startTs === 'number' && startTs >= todayTimestamp && startTs < upcomingCutoffTimestamp;
                                                     const isTBD = row.calculatedStartDateString?.toLowerCase() === 'tbd' || row.calculatedFinishDateString?.toLowerCase() === 'tbd';
+                                                    const cpm = criticalById.get(String(row.id));
+                                                    const variance = baseline?.byActivityId.get(String(row.id));
                                                     return (
                                                         <TableRow key={row.id || index} className={cn( "hover:bg-muted/50 border-b border-border/40", isDelayed && "table-row-delayed", isUpcoming && !isDelayed && "table-row-upcoming", isTBD && "opacity-70 italic" )}>
                                                             <TableCell className={cn("px-2 py-1 truncate", columns[0].className)} style={columns[0].className?.includes('sticky') ? { left: 0 } : {}} title={row.areaBuilding ?? ''}>{row.areaBuilding ?? 'N/A'}</TableCell>
@@ -247,9 +326,13 @@ export function MechanicalPlanTab({
                                                             <TableCell className={cn("px-1.5 py-1 whitespace-nowrap", columns[5].className)}>{formatPlanDate(row.predecessorFinishTimestamp, row.predecessorFinishDateString)}</TableCell>
                                                             <TableCell className={cn("px-1.5 py-1 whitespace-nowrap", columns[6].className)}>{formatPlanDate(row.calculatedStartTimestamp, row.calculatedStartDateString)}</TableCell>
                                                             <TableCell className={cn("px-1.5 py-1 whitespace-nowrap", columns[7].className, isDelayed && "font-semibold text-destructive")}>{formatPlanDate(row.calculatedFinishTimestamp, row.calculatedFinishDateString)}</TableCell>
-                                                            <TableCell className={cn("px-1 py-1 text-center", columns[8].className)}>{row.originalDurationDays ?? 'N/A'}</TableCell>
-                                                            <TableCell className={cn("px-1.5 py-1", columns[9].className)}><div className="flex items-center gap-1"><ActualStatusBadge status={row.actualStatus} />{isDelayed && ( <Tooltip><TooltipTrigger><AlertTriangle className="h-3.5 w-3.5 text-destructive shrink-0" /></TooltipTrigger><TooltipContent side="top"><p>Delayed</p></TooltipContent></Tooltip> )}{isUpcoming && !isDelayed && ( <Tooltip><TooltipTrigger><Clock className="h-3.5 w-3.5 text-amber-600 dark:text-amber-400 shrink-0" /></TooltipTrigger><TooltipContent side="top"><p>Upcoming Start</p></TooltipContent></Tooltip> )}</div></TableCell>
-                                                            <TableCell className={cn("px-2 py-1", columns[10].className)} title={row.remarksJustification ?? ''}><div className='max-w-[300px] whitespace-normal break-words'>{row.remarksJustification ?? '-'}</div></TableCell>
+                                                            <TableCell className={cn("px-1.5 py-1 whitespace-nowrap text-muted-foreground", columns[8].className)}>{variance?.baselineStart ? formatPlanDate(new Date(`${variance.baselineStart}T00:00:00`).getTime(), variance.baselineStart) : '-'}</TableCell>
+                                                            <TableCell className={cn("px-1.5 py-1 whitespace-nowrap text-muted-foreground", columns[9].className)}>{variance?.baselineFinish ? formatPlanDate(new Date(`${variance.baselineFinish}T00:00:00`).getTime(), variance.baselineFinish) : '-'}</TableCell>
+                                                            <TableCell className={cn("px-1 py-1 text-center", columns[10].className, (variance?.finishSlipDays ?? 0) > 0 && "font-semibold text-destructive", (variance?.finishSlipDays ?? 0) < 0 && "text-emerald-600")} title={variance && !variance.inBaseline ? 'Not in baseline' : undefined}>{variance ? (variance.inBaseline ? (variance.finishSlipDays !== null ? `${variance.finishSlipDays > 0 ? '+' : ''}${variance.finishSlipDays}` : '-') : 'New') : '-'}</TableCell>
+                                                            <TableCell className={cn("px-1 py-1 text-center", columns[11].className)}>{row.originalDurationDays ?? 'N/A'}</TableCell>
+                                                            <TableCell className={cn("px-1.5 py-1", columns[12].className)}><div className="flex items-center gap-1"><ActualStatusBadge status={row.actualStatus} />{isDelayed && ( <Tooltip><TooltipTrigger><AlertTriangle className="h-3.5 w-3.5 text-destructive shrink-0" /></TooltipTrigger><TooltipContent side="top"><p>Delayed</p></TooltipContent></Tooltip> )}{isUpcoming && !isDelayed && ( <Tooltip><TooltipTrigger><Clock className="h-3.5 w-3.5 text-amber-600 dark:text-amber-400 shrink-0" /></TooltipTrigger><TooltipContent side="top"><p>Upcoming Start</p></TooltipContent></Tooltip> )}</div></TableCell>
+                                                            <TableCell className={cn("px-2 py-1", columns[13].className)} title={row.remarksJustification ?? ''}><div className='max-w-[300px] whitespace-normal break-words'>{row.remarksJustification ?? '-'}</div></TableCell>
+                                                            <TableCell className={cn("px-1.5 py-1", columns[14].className)}>{cpm ? ( <div className="flex items-center justify-center gap-1"> <span className={cn("font-medium", cpm.isCritical && "text-destructive font-semibold")}>{cpm.totalFloatDays}</span> {cpm.drivesBuildingFinish && ( <Tooltip><TooltipTrigger><Badge variant={cpm.isCritical ? 'destructive' : 'outline'} className="text-[10px] px-1 py-0">{cpm.isCritical ? 'CP' : 'Bldg'}</Badge></TooltipTrigger><TooltipContent side="top"><p>{cpm.isCritical ? 'On the critical path' : 'Delay pushes the building finish'}</p></TooltipContent></Tooltip> )} </div> ) : '-'}</TableCell>
                                                         </TableRow>
                                                     );
                                                 })
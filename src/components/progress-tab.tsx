@@ -8,11 +8,13 @@ import { ProgressChart } from "@/components/progress-chart";
 import { Icons } from '@/components/icons';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import type {
     ComparisonResults,
     ProgressTrends,
     BuildingProgressData
 } from '@/types';
+import type { MonthlySeries, MonthlySeriesResponse } from '@/types/monthly';
 
 // Props interface (cleaned up)
 interface ProgressTabProps {
@@ -35,8 +37,27 @@ interface ProgressTabProps {
     historicalComparisons: ComparisonResults | null;
     progressTrends: ProgressTrends | null; // ممكن يكون null
     aggregatedBuildingProgress?: BuildingProgressData[]; // ممكن يكون undefined أو array
+    monthlySeries?: MonthlySeriesResponse | null; // منحنيات التقدم من التابات الشهرية
+    monthlySeriesLoading?: boolean;
 }
 
+const SERIES_COLORS = ['hsl(var(--primary))', '#82ca9d', '#8884d8', '#ffc658', '#ef4444', '#0ea5e9', '#a855f7'];
+const MAX_SERIES_LINES = SERIES_COLORS.length;
+
+const normalizeBuilding = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// لو المستخدم مختار مبنى معين نعرض منحنى المبنى + أنشطته، غير كده الـ overall + كل مبنى
+const selectSeriesLines = (series: MonthlySeriesResponse, buildingFilter: string | undefined): MonthlySeries[] => {
+    const selected = buildingFilter && buildingFilter !== 'All Buildings'
+        ? series.buildings.find(b => normalizeBuilding(b.areaOrBuilding) === normalizeBuilding(buildingFilter))
+        : undefined;
+    if (selected) {
+        return [selected, ...series.activities.filter(a => a.key.startsWith(`${selected.key}|`))].slice(0, MAX_SERIES_LINES);
+    }
+    const overall: MonthlySeries = { key: '__overall__', label: 'Overall', areaOrBuilding: '', points: series.overall };
+    return [overall, ...series.buildings].slice(0, MAX_SERIES_LINES);
+};
+
 // Helper function (Unchanged)
 const formatComparisonText = (change: number | null, comparisonDate: number | null): string | null => {
     if (change === null || comparisonDate === null) return "No comparison";
@@ -55,7 +76,9 @@ export function ProgressTab({
     currentAverages,
     historicalComparisons,
     progressTrends, // مستخدمة في Trend Chart (اللي متشال حالياً)
-    aggregatedBuildingProgress
+    aggregatedBuildingProgress,
+    monthlySeries,
+    monthlySeriesLoading = false
 }: ProgressTabProps) {
 
     const comparisonDate = historicalComparisons?.previousTimestamp ?? null;
@@ -71,6 +94,15 @@ export function ProgressTab({
     const buildingOptions = (filters && Array.isArray(filters.buildings)) ? filters.buildings : [];
     // --- نهاية التعديل ---
 
+    const seriesLines = monthlySeries ? selectSeriesLines(monthlySeries, filters?.buildingFilter) : [];
+    const seriesChartData = monthlySeries
+        ? monthlySeries.dates.map((date, i) => {
+            const point: Record<string, string | number | null> = { date };
+            seriesLines.forEach(line => { point[line.key] = line.points[i]?.progressPct ?? null; });
+            return point;
+        })
+        : [];
+
     if (error && !loading) {
         return (
             <Alert variant="destructive">
@@ -181,6 +213,43 @@ export function ProgressTab({
             )}
             */}
 
+            {/* Section 3b: Progress over time from the monthly snapshot tabs */}
+            {(monthlySeriesLoading || seriesChartData.length > 1) && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Progress Over Time (Monthly Snapshots)</CardTitle>
+                        <CardDescription>
+                            Curves built from every monthly tab{monthlySeries ? ` (${monthlySeries.months[0]} → ${monthlySeries.months[monthlySeries.months.length - 1]})` : ''}; gaps between snapshot dates are interpolated.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="h-[350px] w-full">
+                        {monthlySeriesLoading && !monthlySeries ? (
+                            <div className="flex justify-center items-center h-full">
+                                <Icons.spinner className="h-6 w-6 animate-spin text-primary" />
+                            </div>
+                        ) : (
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={seriesChartData} margin={{ top: 5, right: 20, left: -20, bottom: 5 }}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis dataKey="date" style={{ fontSize: '0.75rem' }} />
+                                    <YAxis domain={[0, 100]} tickFormatter={(val) => `${val}%`} style={{ fontSize: '0.75rem' }} />
+                                    <Tooltip
+                                        formatter={(value) => (value === null ? '-' : `${value}%`)}
+                                        contentStyle={{ backgroundColor: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', borderRadius: 'var(--radius)' }}
+                                        itemStyle={{ color: 'hsl(var(--foreground))' }}
+                                        labelStyle={{ color: 'hsl(var(--foreground))', fontWeight: 'bold' }}
+                                    />
+                                    <Legend wrapperStyle={{fontSize: '0.8rem'}} />
+                                    {seriesLines.map((line, i) => (
+                                        <Line key={line.key} type="monotone" dataKey={line.key} name={line.mechanicalActivity || line.label} stroke={SERIES_COLORS[i]} strokeWidth={i === 0 ? 2 : 1.5} dot={{ r: 2 }} activeDot={{ r: 4 }} />
+                                    ))}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Section 4: Detailed Table (كان متشال) */}
 
             {/* Optional Section: Building Progress Chart */}
@@ -0,0 +1,189 @@
+// src/components/rfi-tab.tsx
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, ClipboardList, FileText, Hourglass, Building2 } from 'lucide-react';
+import { Icons } from "@/components/icons";
+import { cn } from "@/lib/utils";
+import { format, isValid } from "date-fns";
+import type { RFIRow, RFIStatus } from '@/services/google-sheets';
+
+interface RfiTabProps {
+    data: RFIRow[];
+    loading: boolean;
+    error: string | null;
+    onExport: (data: RFIRow[], fileName: string, tableId: string) => void;
+}
+
+interface BuildingRfiCount {
+    building: string;
+    total: number;
+    inspected: number;
+    awaiting: number;
+    submitted: number;
+}
+
+const STATUS_OPTIONS: Array<'All Statuses' | RFIStatus> = ['All Statuses', 'Inspected', 'Awaiting Inspection', 'Submitted'];
+const UNSPECIFIED_BUILDING = 'Unspecified';
+
+const formatDate = (timestamp: number | null, originalString: string | null): string => {
+    if (timestamp && isValid(new Date(timestamp))) { return format(new Date(timestamp), 'dd-MMM-yy'); }
+    return originalString && originalString.trim() ? originalString : '-';
+};
+
+const RfiStatusBadge = ({ status }: { status: RFIStatus }) => {
+    switch (status) {
+        case 'Inspected': return <Badge className="text-xs border border-emerald-300 dark:border-emerald-700 bg-emerald-100 text-emerald-800 hover:bg-emerald-200 dark:bg-emerald-900/50 dark:text-emerald-300">Inspected</Badge>;
+        case 'Awaiting Inspection': return <Badge className="text-xs border border-amber-300 dark:border-amber-700 bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900/50 dark:text-amber-300">Awaiting Inspection</Badge>;
+        default: return <Badge variant="outline" className="text-xs">Submitted</Badge>;
+    }
+};
+
+export function RfiTab({ data, loading, error, onExport }: RfiTabProps) {
+    const [disciplineFilter, setDisciplineFilter] = useState<string>('All Disciplines');
+    const [statusFilter, setStatusFilter] = useState<string>('All Statuses');
+
+    const safeData = useMemo(() => Array.isArray(data) ? data : [], [data]);
+
+    const disciplineOptions = useMemo(() => {
+        const categories = new Set(safeData.map(row => row.disciplineCategory));
+        return ['All Disciplines', ...Array.from(categories).sort()];
+    }, [safeData]);
+
+    const filteredData = useMemo(() => safeData.filter(row => {
+        const disciplineMatch = disciplineFilter === 'All Disciplines' || row.disciplineCategory === disciplineFilter;
+        const statusMatch = statusFilter === 'All Statuses' || row.status === statusFilter;
+        return disciplineMatch && statusMatch;
+    }), [safeData, disciplineFilter, statusFilter]);
+
+    const summary = useMemo(() => ({
+        total: filteredData.length,
+        inspected: filteredData.filter(r => r.status === 'Inspected').length,
+        awaiting: filteredData.filter(r => r.status === 'Awaiting Inspection').length,
+        submitted: filteredData.filter(r => r.status === 'Submitted').length,
+    }), [filteredData]);
+
+    const buildingCounts = useMemo((): BuildingRfiCount[] => {
+        const byBuilding = new Map<string, BuildingRfiCount>();
+        filteredData.forEach(row => {
+            const building = row.building ?? UNSPECIFIED_BUILDING;
+            if (!byBuilding.has(building)) { byBuilding.set(building, { building, total: 0, inspected: 0, awaiting: 0, submitted: 0 }); }
+            const entry = byBuilding.get(building)!;
+            entry.total++;
+            if (row.status === 'Inspected') entry.inspected++;
+            else if (row.status === 'Awaiting Inspection') entry.awaiting++;
+            else entry.submitted++;
+        });
+        // Keep "Unspecified" last so the named buildings read first
+        return Array.from(byBuilding.values()).sort((a, b) => {
+            if (a.building === UNSPECIFIED_BUILDING) return 1;
+            if (b.building === UNSPECIFIED_BUILDING) return -1;
+            return b.total - a.total || a.building.localeCompare(b.building);
+        });
+    }, [filteredData]);
+
+    if (loading && safeData.length === 0) {
+        return <div className="flex justify-center items-center h-60"><Icons.spinner className="h-8 w-8 animate-spin" /><p className="ml-2 text-lg">Loading RFI Log...</p></div>;
+    }
+    if (error && safeData.length === 0) {
+        return ( <Card className="border-destructive bg-destructive/10 h-full flex items-center justify-center"> <CardContent className="text-center"> <h3 className="text-lg font-semibold text-destructive mb-2">Error Loading RFI Log</h3> <p className="text-sm text-destructive">{error}</p> </CardContent> </Card> );
+    }
+
+    return (
+        <div className="flex flex-col gap-4 h-full">
+            {/* ----- Summary + Building Counts ----- */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 px-1 flex-shrink-0 items-stretch">
+                <div className="grid grid-cols-2 gap-3 md:col-span-1">
+                    <Card className="p-3"> <div className="flex items-center justify-between mb-1"><span className="text-sm font-medium text-muted-foreground">Total RFIs</span><ClipboardList className="h-4 w-4 text-muted-foreground"/></div> <div className="text-2xl font-bold">{summary.total}</div> </Card>
+                    <Card className="p-3"> <div className="flex items-center justify-between mb-1"><span className="text-sm font-medium text-muted-foreground">Inspected</span><ClipboardCheck className="h-4 w-4 text-emerald-500"/></div> <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{summary.inspected}</div> </Card>
+                    <Card className="p-3"> <div className="flex items-center justify-between mb-1"><span className="text-sm font-medium text-muted-foreground">Awaiting</span><Hourglass className="h-4 w-4 text-amber-500"/></div> <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">{summary.awaiting}</div> </Card>
+                    <Card className="p-3"> <div className="flex items-center justify-between mb-1"><span className="text-sm font-medium text-muted-foreground">Submitted</span><FileText className="h-4 w-4 text-muted-foreground"/></div> <div className="text-2xl font-bold">{summary.submitted}</div> </Card>
+                </div>
+                <Card className="md:col-span-2 flex flex-col">
+                    <CardHeader className="p-3 pb-1 flex-shrink-0"><CardTitle className="text-base flex items-center gap-1.5"><Building2 className="h-4 w-4" /> RFIs by Building</CardTitle><CardDescription className="text-xs">Building inferred from the RFI description</CardDescription></CardHeader>
+                    <CardContent className="p-2">
+                        {buildingCounts.length === 0 ? (
+                            <div className="flex items-center justify-center h-20 text-muted-foreground text-sm">No RFIs for the selected filters.</div>
+                        ) : (
+                            <Table className="text-xs">
+                                <TableHeader><TableRow><TableHead className="h-7 px-2">Building</TableHead><TableHead className="h-7 px-2 text-center">Total</TableHead><TableHead className="h-7 px-2 text-center">Inspected</TableHead><TableHead className="h-7 px-2 text-center">Awaiting</TableHead><TableHead className="h-7 px-2 text-center">Submitted</TableHead></TableRow></TableHeader>
+                                <TableBody>
+                                    {buildingCounts.map(b => (
+                                        <TableRow key={b.building}>
+                                            <TableCell className={cn("px-2 py-1", b.building === UNSPECIFIED_BUILDING && "text-muted-foreground italic")}>{b.building}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center font-medium">{b.total}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center text-emerald-600 dark:text-emerald-400">{b.inspected}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center text-amber-600 dark:text-amber-400">{b.awaiting}</TableCell>
+                                            <TableCell className="px-2 py-1 text-center">{b.submitted}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* ----- Filters Section ----- */}
+            <div className="grid grid-cols-2 gap-2 flex-shrink-0 px-1 md:max-w-md">
+                <Select value={disciplineFilter} onValueChange={setDisciplineFilter} disabled={loading}> <SelectTrigger className="w-full text-xs h-8"><SelectValue placeholder="Discipline" /></SelectTrigger> <SelectContent>{disciplineOptions.map(d => (<SelectItem key={d} value={d} className="text-xs">{d}</SelectItem>))}</SelectContent> </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter} disabled={loading}> <SelectTrigger className="w-full text-xs h-8"><SelectValue placeholder="Status" /></SelectTrigger> <SelectContent>{STATUS_OPTIONS.map(st => (<SelectItem key={st} value={st} className="text-xs">{st}</SelectItem>))}</SelectContent> </Select>
+            </div>
+
+            {/* ----- Table Card ----- */}
+            <div className="flex-grow flex flex-col overflow-hidden mt-1">
+                <Card className="flex-grow flex flex-col overflow-hidden border shadow-sm h-full">
+                    <CardHeader className="flex flex-row items-center justify-between flex-shrink-0 border-b px-4 py-2">
+                        <div><CardTitle className="text-base font-semibold">RFI Log</CardTitle><CardDescription className="text-xs">Inspection requests for mechanical works. Items: {filteredData.length}</CardDescription></div>
+                        <Button onClick={() => onExport(filteredData, 'RFI_Log', 'rfi-table')} variant="outline" size="sm" disabled={loading || filteredData.length === 0}><Icons.download className="mr-1.5 h-3.5 w-3.5" /> Export</Button>
+                    </CardHeader>
+                    <CardContent className="flex-grow overflow-y-auto p-0 relative">
+                        <Table id="rfi-table" className="w-full text-xs border-collapse">
+                            <TableHeader className="sticky top-0 z-10 bg-muted/95 backdrop-blur-sm">
+                                <TableRow className="border-b border-border">
+                                    <TableHead className="w-[50px] px-2 py-2 text-xs">S. No.</TableHead>
+                                    <TableHead className="w-[130px] px-2 py-2 text-xs">RFI No.</TableHead>
+                                    <TableHead className="min-w-[250px] px-2 py-2 text-xs">Description</TableHead>
+                                    <TableHead className="w-[120px] px-2 py-2 text-xs">Discipline</TableHead>
+                                    <TableHead className="w-[130px] px-2 py-2 text-xs">Building</TableHead>
+                                    <TableHead className="w-[90px] px-2 py-2 text-xs whitespace-nowrap">Received</TableHead>
+                                    <TableHead className="w-[90px] px-2 py-2 text-xs whitespace-nowrap">Inspected</TableHead>
+                                    <TableHead className="w-[130px] px-2 py-2 text-xs">Status</TableHead>
+                                    <TableHead className="min-w-[150px] px-2 py-2 text-xs">Prepared By</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {filteredData.length === 0 ? (
+                                    <TableRow><TableCell colSpan={9} className="text-center h-60 text-muted-foreground">No RFIs available for the selected filters.</TableCell></TableRow>
+                                ) : (
+                                    filteredData.map((row, index) => (
+                                        <TableRow key={`${row.section ?? 'main'}-${row.rfiNumber ?? row.serialNo ?? 'na'}-${index}`} className="hover:bg-muted/50 border-b border-border/40">
+                                            <TableCell className="px-2 py-1.5">{row.serialNo ?? '-'}</TableCell>
+                                            <TableCell className="px-2 py-1.5 whitespace-nowrap">
+                                                <span className="font-medium">{row.baseRfiNumber ?? '-'}</span>
+                                                {row.revision !== null && <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0">Rev {row.revision}</Badge>}
+                                                {row.section && <div className="text-[10px] text-muted-foreground">{row.section}</div>}
+                                            </TableCell>
+                                            <TableCell className="px-2 py-1.5" title={row.description ?? ''}>{row.description ?? '-'}</TableCell>
+                                            <TableCell className="px-2 py-1.5" title={row.discipline ?? ''}>{row.disciplineCategory}</TableCell>
+                                            <TableCell className="px-2 py-1.5">{row.building ?? <span className="text-muted-foreground">-</span>}</TableCell>
+                                            <TableCell className="px-2 py-1.5 whitespace-nowrap">{formatDate(row.materialReceivedTimestamp, row.materialReceivedDateString)}</TableCell>
+                                            <TableCell className="px-2 py-1.5 whitespace-nowrap">{formatDate(row.inspectionTimestamp, row.inspectionDateString)}</TableCell>
+                                            <TableCell className="px-2 py-1.5"><RfiStatusBadge status={row.status} /></TableCell>
+                                            <TableCell className="px-2 py-1.5" title={row.preparedBy ?? ''}>{row.preparedBy ?? '-'}</TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
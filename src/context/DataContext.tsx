@@ -6,7 +6,7 @@ import { toast } from 'react-hot-toast';
 import { DataState, DashboardData, DataFetchError } from '@/types/dashboard';
 import { ErrorState } from '@/components/ui/ErrorState';
 import { fetchWithTimeout, isTimeoutError, CLIENT_FETCH_TIMEOUT_MS, combineSignals } from '@/lib/http/timeout';
-import type { MonthlyIndexResponse, MonthlySnapshotsResponse, YearMonth } from '@/types/monthly';
+import type { MonthlyDiffResponse, MonthlyIndexResponse, MonthlySnapshotsResponse, YearMonth } from '@/types/monthly';
 
 // Types
 type DataType = 'progress' | 'manpower' | 'aiInsights' | 'risk';
@@ -27,6 +27,7 @@ interface DataStateContextType {
   // Monthly APIs
   getMonthlyIndex: (options?: { order?: 'asc' | 'desc'; limit?: number; from?: YearMonth; to?: YearMonth; signal?: AbortSignal }) => Promise<MonthlyIndexResponse>;
   getMonthlySnapshot: (yearMonth: YearMonth, options?: { signal?: AbortSignal }) => Promise<MonthlySnapshotsResponse>;
+  getMonthlyDiff: (from: YearMonth, to: YearMonth, options?: { signal?: AbortSignal }) => Promise<MonthlyDiffResponse>;
 }
 
 interface DataProviderProps {
@@ -99,6 +100,8 @@ export function DataProvider({ children, initialData }: DataProviderProps) {
   const monthlySnapshotCache = useRef<Record<YearMonth, { data: MonthlySnapshotsResponse; timestamp: number; ttl: number }>>({});
   const monthlySnapshotInFlight = useRef<Record<YearMonth, Promise<MonthlySnapshotsResponse>>>({});
   const monthlySnapshotAbortMap = useRef<Map<YearMonth, AbortController>>(new Map());
+  const monthlyDiffCache = useRef<Record<string, { data: MonthlyDiffResponse; timestamp: number; ttl: number }>>({});
+  const monthlyDiffInFlight = useRef<Partial<Record<string, Promise<MonthlyDiffResponse>>>>({});
   
   // Initialize state with initial data if provided
   const [state, dispatch] = useReducer(dataReducer, {
@@ -324,6 +327,36 @@ export function DataProvider({ children, initialData }: DataProviderProps) {
     try { return await promise; } finally { delete monthlySnapshotInFlight.current[yearMonth]; }
   }, []);
 
+  const getMonthlyDiff = useCallback(async (from: YearMonth, to: YearMonth, options?: { signal?: AbortSignal }): Promise<MonthlyDiffResponse> => {
+    const key = `${from}..${to}`;
+    const cached = monthlyDiffCache.current[key];
+    if (cached && Date.now() - cached.timestamp < cached.ttl) {
+      return cached.data;
+    }
+
+    // De-dupe in-flight
+    const inFlight = monthlyDiffInFlight.current[key];
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = (async () => {
+      const qs = new URLSearchParams({ from, to });
+      const resp = await fetchWithTimeout(`/api/monthly/diff?${qs.toString()}`, { signal: options?.signal }, CLIENT_FETCH_TIMEOUT_MS);
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok) {
+        const message = (json as any)?.error || 'Failed to fetch monthly diff';
+        throw Object.assign(new Error(message), { status: resp.status, code: (json as any)?.code, retryable: resp.status !== 404 && resp.status !== 400 });
+      }
+      const data = json as MonthlyDiffResponse;
+      monthlyDiffCache.current[key] = { data, timestamp: Date.now(), ttl: CACHE_TTL };
+      return data;
+    })();
+
+    monthlyDiffInFlight.current[key] = promise;
+    try { return await promise; } finally { delete monthlyDiffInFlight.current[key]; }
+  }, []);
+
   // Get data with caching and loading states
   const getData = useCallback(async (type: DataType, forceRefresh = false, signal?: AbortSignal): Promise<DashboardData | null> => {
     const cacheKey = `${type}`;
@@ -446,6 +479,7 @@ export function DataProvider({ children, initialData }: DataProviderProps) {
     isRefreshing,
     getMonthlyIndex,
     getMonthlySnapshot,
+    getMonthlyDiff,
   };
 
   return (
@@ -570,3 +604,35 @@ export function useMonthlySnapshot(yearMonth: YearMonth, options: { autoFetch?:
 
   return { data, isLoading, error, refresh };
 }
+
+export function useMonthlyDiff(from: YearMonth | undefined, to: YearMonth | undefined, options: { autoFetch?: boolean } = {}) {
+  const { autoFetch = true } = options;
+  const { getMonthlyDiff } = useData();
+  const [data, setData] = useState<MonthlyDiffResponse | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<any>(null);
+
+  useEffect(() => {
+    if (!autoFetch || !from || !to || from === to) {
+      setData(null);
+      return;
+    }
+    const controller = new AbortController();
+    (async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await getMonthlyDiff(from, to, { signal: controller.signal });
+        setData(res);
+      } catch (err) {
+        if (!isTimeoutError(err)) console.error('useMonthlyDiff error:', err);
+        setError(err);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [from, to, autoFetch, getMonthlyDiff]);
+
+  return { data, isLoading, error };
+}
@@ -0,0 +1,33 @@
+// src/hooks/useAnalysisJobs.ts
+import { useState, useEffect } from 'react';
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { JobsResponse } from '@/lib/jobs/types';
+
+const REFRESH_MS = 5 * 60 * 1000;
+
+// Scheduled analysis status (/api/jobs) for the header; failures stay quiet, the indicator just hides
+export function useAnalysisJobs() {
+    const [data, setData] = useState<JobsResponse | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const fetchDataInternal = async () => {
+            try {
+                const response = await fetchWithTimeout('/api/jobs', { signal: controller.signal, cache: 'no-store' }, CLIENT_FETCH_TIMEOUT_MS);
+                if (!response.ok) throw new Error(`Failed to load analysis jobs: ${response.status}`);
+                setData(await response.json() as JobsResponse);
+            } catch (err) {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching analysis jobs:', err);
+            }
+        };
+        fetchDataInternal();
+        const interval = setInterval(fetchDataInternal, REFRESH_MS);
+        return () => {
+            clearInterval(interval);
+            controller.abort();
+        };
+    }, []);
+
+    return { analysisJobs: data };
+}
@@ -0,0 +1,70 @@
+// src/hooks/useBaselineSnapshot.ts
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { MechanicalPlanRow, MonthlyIndexResponse, MonthlySnapshotsResponse, YearMonth } from '@/types/monthly';
+import { useToast } from '@/hooks/use-toast';
+
+const STORAGE_KEY = 'mechanical-plan:baseline-month';
+
+// Monthly tabs that can serve as the baseline, plus the rows of the one marked as baseline (kept per browser)
+export function useBaselineSnapshot() {
+    const [months, setMonths] = useState<YearMonth[]>([]);
+    const [baselineMonth, setBaselineMonthState] = useState<YearMonth | null>(null);
+    const [rows, setRows] = useState<MechanicalPlanRow[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        setBaselineMonthState(window.localStorage.getItem(STORAGE_KEY) || null);
+        const controller = new AbortController();
+        fetchWithTimeout('/api/monthly?order=desc&limit=100', { signal: controller.signal }, CLIENT_FETCH_TIMEOUT_MS)
+            .then(async response => {
+                if (!response.ok) throw new Error(`Failed to load monthly tabs: ${response.status}`);
+                const index = await response.json() as MonthlyIndexResponse;
+                setMonths(index.months ?? []);
+            })
+            .catch(err => {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching monthly tabs for baseline:', err);
+            });
+        return () => controller.abort();
+    }, []);
+
+    useEffect(() => {
+        if (!baselineMonth) { setRows(null); setError(null); return; }
+        const controller = new AbortController();
+        const fetchDataInternal = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const response = await fetchWithTimeout(`/api/monthly/${baselineMonth}`, { signal: controller.signal }, CLIENT_FETCH_TIMEOUT_MS);
+                if (!response.ok) {
+                    const body = await response.json().catch(() => ({}));
+                    throw new Error(body.error || `Failed to load baseline ${baselineMonth}: ${response.status}`);
+                }
+                const data = await response.json() as MonthlySnapshotsResponse;
+                setRows(data.snapshot?.rows ?? []);
+            } catch (err) {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching baseline snapshot:', err);
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                setError(errorMessage);
+                setRows(null);
+                toast({ variant: "destructive", title: "Error Loading Baseline", description: errorMessage });
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        };
+        fetchDataInternal();
+        return () => controller.abort();
+    }, [baselineMonth, toast]);
+
+    const setBaselineMonth = useCallback((month: YearMonth | null) => {
+        setBaselineMonthState(month);
+        if (month) window.localStorage.setItem(STORAGE_KEY, month);
+        else window.localStorage.removeItem(STORAGE_KEY);
+    }, []);
+
+    return { baselineMonths: months, baselineMonth, setBaselineMonth, baselineRows: rows, baselineLoading: loading, baselineError: error };
+}
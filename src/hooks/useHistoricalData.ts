@@ -1,6 +1,7 @@
 // src/hooks/useHistoricalData.ts
 import { useState, useEffect } from 'react';
-import { getHistoricalProgressData, SHEET_NAMES, type HistoricalProgressRow } from '@/services/google-sheets';
+import { SHEET_NAMES, type HistoricalProgressRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { useToast } from '@/hooks/use-toast';
 
 // Helper function to remove duplicate timestamps from historical data
@@ -28,7 +29,7 @@ export function useHistoricalData() {
             setLoading(true);
             setError(null);
             try {
-                const result = await getHistoricalProgressData(SHEET_NAMES.HISTORY);
+                const result = await sheetsRepository.getHistoricalProgress();
                 if (!Array.isArray(result)) {
                     console.warn(`Received non-array data for ${SHEET_NAMES.HISTORY}:`, result);
                     setData([]);
@@ -1,6 +1,7 @@
 // src/hooks/useManpowerData.ts
 import { useState, useEffect } from 'react';
-import { getManpowerSheetData, SHEET_NAMES, type ManpowerSheetRow } from '@/services/google-sheets';
+import { SHEET_NAMES, type ManpowerSheetRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { useToast } from '@/hooks/use-toast';
 
 export function useManpowerData() {
@@ -14,7 +15,7 @@ export function useManpowerData() {
             setLoading(true);
             setError(null); // Reset error before fetching
             try {
-                const result = await getManpowerSheetData(SHEET_NAMES.MANPOWER);
+                const result = await sheetsRepository.getManpower();
                 if (!Array.isArray(result)) {
                     console.warn(`Received non-array data for ${SHEET_NAMES.MANPOWER}:`, result);
                     setData([]); // Set to empty array if format is invalid
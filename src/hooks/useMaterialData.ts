@@ -1,6 +1,7 @@
 // src/hooks/useMaterialData.ts
 import { useState, useEffect } from 'react';
-import { getMaterialStatusData, SHEET_NAMES, type MaterialStatusRow } from '@/services/google-sheets';
+import { SHEET_NAMES, type MaterialStatusRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { useToast } from '@/hooks/use-toast';
 
 export function useMaterialData() {
@@ -14,7 +15,7 @@ export function useMaterialData() {
             setLoading(true);
             setError(null);
             try {
-                const result = await getMaterialStatusData(SHEET_NAMES.MATERIAL);
+                const result = await sheetsRepository.getMaterialStatus();
                 if (!Array.isArray(result)) {
                     console.warn(`Received non-array data for ${SHEET_NAMES.MATERIAL}:`, result);
                     setData([]);
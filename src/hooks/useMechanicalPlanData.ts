@@ -1,6 +1,7 @@
 // src/hooks/useMechanicalPlanData.ts
 import { useState, useEffect, useCallback } from 'react'; // ضيف useCallback
-import { getMechanicalPlanData, SHEET_NAMES, type MechanicalPlanRow } from '@/services/google-sheets';
+import { SHEET_NAMES, type MechanicalPlanRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 import { useToast } from '@/hooks/use-toast';
 
 export function useMechanicalPlanData() {
@@ -14,7 +15,7 @@ export function useMechanicalPlanData() {
         setLoading(true);
         setError(null);
         try {
-            const result = await getMechanicalPlanData(SHEET_NAMES.PLAN);
+            const result = await sheetsRepository.getMechanicalPlan();
             if (!Array.isArray(result)) {
                 console.warn(`Received non-array data for ${SHEET_NAMES.PLAN}:`, result);
                 setData([]);
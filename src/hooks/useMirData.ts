@@ -0,0 +1,39 @@
+// src/hooks/useMirData.ts
+import { useState, useEffect } from 'react';
+import { SHEET_NAMES, type MIRRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { useToast } from '@/hooks/use-toast';
+
+export function useMirData() {
+    const [data, setData] = useState<MIRRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const fetchDataInternal = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const result = await sheetsRepository.getMirLog();
+                if (!Array.isArray(result)) {
+                    console.warn(`Received non-array data for ${SHEET_NAMES.MIR_LOG}:`, result);
+                    setData([]);
+                    throw new Error(`Invalid data format for ${SHEET_NAMES.MIR_LOG}.`);
+                }
+                setData(result);
+            } catch (err) {
+                console.error(`Error fetching ${SHEET_NAMES.MIR_LOG}:`, err);
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                setError(errorMessage);
+                setData([]);
+                toast({ variant: "destructive", title: `Error Loading ${SHEET_NAMES.MIR_LOG}`, description: errorMessage });
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchDataInternal();
+    }, [toast]);
+
+    return { mirData: data, mirLoading: loading, mirError: error };
+}
@@ -0,0 +1,42 @@
+// src/hooks/useMonthlySeries.ts
+import { useState, useEffect } from 'react';
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { MonthlySeriesResponse } from '@/types/monthly';
+import { useToast } from '@/hooks/use-toast';
+
+// Progress curves stitched from all monthly snapshot tabs (/api/monthly/series)
+export function useMonthlySeries() {
+    const [data, setData] = useState<MonthlySeriesResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const controller = new AbortController();
+        const fetchDataInternal = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const response = await fetchWithTimeout('/api/monthly/series', { signal: controller.signal }, CLIENT_FETCH_TIMEOUT_MS);
+                if (!response.ok) {
+                    const body = await response.json().catch(() => ({}));
+                    throw new Error(body.error || `Failed to load monthly series: ${response.status}`);
+                }
+                setData(await response.json() as MonthlySeriesResponse);
+            } catch (err) {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching monthly series:', err);
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                setError(errorMessage);
+                setData(null);
+                toast({ variant: "destructive", title: "Error Loading Monthly Snapshots", description: errorMessage });
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        };
+        fetchDataInternal();
+        return () => controller.abort();
+    }, [toast]);
+
+    return { monthlySeries: data, monthlySeriesLoading: loading, monthlySeriesError: error };
+}
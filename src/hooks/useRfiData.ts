@@ -0,0 +1,39 @@
+// src/hooks/useRfiData.ts
+import { useState, useEffect } from 'react';
+import { SHEET_NAMES, type RFIRow } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
+import { useToast } from '@/hooks/use-toast';
+
+export function useRfiData() {
+    const [data, setData] = useState<RFIRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const fetchDataInternal = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                const result = await sheetsRepository.getRfiLog();
+                if (!Array.isArray(result)) {
+                    console.warn(`Received non-array data for ${SHEET_NAMES.RFI_LOG}:`, result);
+                    setData([]);
+                    throw new Error(`Invalid data format for ${SHEET_NAMES.RFI_LOG}.`);
+                }
+                setData(result);
+            } catch (err) {
+                console.error(`Error fetching ${SHEET_NAMES.RFI_LOG}:`, err);
+                const errorMessage = err instanceof Error ? err.message : String(err);
+                setError(errorMessage);
+                setData([]);
+                toast({ variant: "destructive", title: `Error Loading ${SHEET_NAMES.RFI_LOG}`, description: errorMessage });
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchDataInternal();
+    }, [toast]);
+
+    return { rfiData: data, rfiLoading: loading, rfiError: error };
+}
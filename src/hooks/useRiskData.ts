@@ -1,13 +1,15 @@
 // src/hooks/useRiskData.ts
 import { useState, useEffect, useCallback } from 'react';
 // نستورد النوع الأساسي RiskRegisterItem من مكانه الأصلي في services
-import { getRiskRegisterData, type RiskRegisterItem, SHEET_NAMES } from '@/services/google-sheets';
+import { type RiskRegisterItem, SHEET_NAMES } from '@/services/google-sheets';
+import { sheetsRepository } from '@/services/sheets-repository';
 
 interface UseRiskDataReturn {
   data: RiskRegisterItem[]; // هنا بنستخدم النوع المستورد
   loading: boolean;
   error: Error | null;
   refreshData: () => void;
+  updateItem: (risk: RiskRegisterItem) => void; // Show a saved edit before the published sheet catches up
 }
 
 const RISK_REGISTER_SHEET_NAME = SHEET_NAMES.RISK_REGISTER;
@@ -21,7 +23,7 @@ export function useRiskData(): UseRiskDataReturn {
     setLoading(true);
     setError(null);
     try {
-      const result = await getRiskRegisterData(RISK_REGISTER_SHEET_NAME);
+      const result = await sheetsRepository.getRiskRegister(RISK_REGISTER_SHEET_NAME);
       setData(result);
     } catch (err: any) {
       console.error("[useRiskData] Failed to fetch risk data:", err);
@@ -36,5 +38,9 @@ export function useRiskData(): UseRiskDataReturn {
     fetchData();
   }, [fetchData]);
 
-  return { data, loading, error, refreshData: fetchData };
+  const updateItem = useCallback((risk: RiskRegisterItem) => {
+    setData(prev => prev.map(item => item.riskId === risk.riskId ? risk : item));
+  }, []);
+
+  return { data, loading, error, refreshData: fetchData, updateItem };
 }
\ No newline at end of file
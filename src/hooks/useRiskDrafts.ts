@@ -0,0 +1,51 @@
+// src/hooks/useRiskDrafts.ts
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { RiskDraftsResponse, ScannedRiskDraft } from '@/lib/risks/types';
+import { riskEditorHeaders } from './useRiskHistory';
+
+export type RiskDraftDecision = { action: 'accept'; riskId: string } | { action: 'dismiss' };
+
+// Pending drafts from the news/document scanner (/api/risks/drafts) and the accept/dismiss calls for them
+export function useRiskDrafts(editorName: string) {
+    const [drafts, setDrafts] = useState<ScannedRiskDraft[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        fetchWithTimeout('/api/risks/drafts', { signal: controller.signal, cache: 'no-store' }, CLIENT_FETCH_TIMEOUT_MS)
+            .then(async response => {
+                if (!response.ok) throw new Error(`Failed to load risk drafts: ${response.status}`);
+                setDrafts(((await response.json()) as RiskDraftsResponse).drafts ?? []);
+                setError(null);
+            })
+            .catch(err => {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching risk drafts:', err);
+                setError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+        return () => controller.abort();
+    }, [reloadKey]);
+
+    const refresh = useCallback(() => setReloadKey(key => key + 1), []);
+
+    // Drops the draft from the list once the server recorded the decision
+    const decide = useCallback(async (draftId: string, decision: RiskDraftDecision) => {
+        const response = await fetchWithTimeout(`/api/risks/drafts/${encodeURIComponent(draftId)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...riskEditorHeaders(editorName) },
+            body: JSON.stringify(decision),
+        }, CLIENT_FETCH_TIMEOUT_MS);
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(result.error || `Failed to update draft: ${response.status}`);
+        setDrafts(current => current.filter(d => d.id !== draftId));
+    }, [editorName]);
+
+    return { drafts, loading, error, refresh, decide };
+}
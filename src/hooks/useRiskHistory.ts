@@ -0,0 +1,59 @@
+// src/hooks/useRiskHistory.ts
+import { useState, useEffect, useCallback } from 'react';
+import { fetchWithTimeout, isAbortError, CLIENT_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import { RISK_EDITOR_HEADER, type RiskAuditEntry, type RiskHistoryResponse } from '@/lib/risks/types';
+
+const EDITOR_STORAGE_KEY = 'risk-register:editor-name';
+
+// Header naming who makes a change, for the audit trail (see /api/risks routes)
+export function riskEditorHeaders(editorName: string): Record<string, string> {
+    const name = editorName.trim();
+    return name ? { [RISK_EDITOR_HEADER]: encodeURIComponent(name) } : {};
+}
+
+// Register-wide audit trail (/api/risks/history) plus the editor name this browser signs changes with
+export function useRiskHistory() {
+    const [entries, setEntries] = useState<RiskAuditEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [editorName, setEditorNameState] = useState('');
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        setEditorNameState(window.localStorage.getItem(EDITOR_STORAGE_KEY) ?? '');
+    }, []);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setLoading(true);
+        fetchWithTimeout('/api/risks/history', { signal: controller.signal, cache: 'no-store' }, CLIENT_FETCH_TIMEOUT_MS)
+            .then(async response => {
+                if (!response.ok) throw new Error(`Failed to load risk history: ${response.status}`);
+                setEntries(((await response.json()) as RiskHistoryResponse).entries ?? []);
+                setError(null);
+            })
+            .catch(err => {
+                if (isAbortError(err) && controller.signal.aborted) return;
+                console.error('Error fetching risk history:', err);
+                setError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setLoading(false);
+            });
+        return () => controller.abort();
+    }, [reloadKey]);
+
+    const refresh = useCallback(() => setReloadKey(key => key + 1), []);
+
+    const setEditorName = useCallback((name: string) => {
+        setEditorNameState(name);
+        try {
+            if (name.trim()) window.localStorage.setItem(EDITOR_STORAGE_KEY, name.trim());
+            else window.localStorage.removeItem(EDITOR_STORAGE_KEY);
+        } catch (err) {
+            console.error('Failed to save editor name:', err);
+        }
+    }, []);
+
+    return { entries, loading, error, refresh, editorName, setEditorName };
+}
@@ -0,0 +1,44 @@
+// src/hooks/useSimulationScenarios.ts
+import { useState, useEffect, useCallback } from 'react';
+import type { SimulationChange, SimulationScenario } from '@/services/schedule-simulator';
+
+const STORAGE_KEY = 'mechanical-plan:what-if-scenarios';
+
+// What-if scenarios are per-browser, so they live in localStorage rather than the sheet
+function readScenarios(): SimulationScenario[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.warn('Ignoring unreadable what-if scenarios:', err);
+        return [];
+    }
+}
+
+export function useSimulationScenarios() {
+    const [scenarios, setScenarios] = useState<SimulationScenario[]>([]);
+
+    useEffect(() => { setScenarios(readScenarios()); }, []);
+
+    const persist = useCallback((next: SimulationScenario[]) => {
+        setScenarios(next);
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch (err) {
+            console.error('Failed to save what-if scenarios:', err);
+        }
+    }, []);
+
+    const saveScenario = useCallback((name: string, changes: SimulationChange[]): SimulationScenario => {
+        const scenario: SimulationScenario = { id: `scenario-${Date.now()}`, name: name.trim() || 'Untitled scenario', createdAt: new Date().toISOString(), changes };
+        persist([...readScenarios(), scenario]);
+        return scenario;
+    }, [persist]);
+
+    const deleteScenario = useCallback((id: string) => {
+        persist(readScenarios().filter(s => s.id !== id));
+    }, [persist]);
+
+    return { scenarios, saveScenario, deleteScenario };
+}
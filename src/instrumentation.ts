@@ -0,0 +1,19 @@
+// src/instrumentation.ts
+// Runs once per server start. In offline mode, point the CSV readers used by API routes at the local export folder.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { getServerDataSource } = await import('@/lib/data-source');
+  const source = getServerDataSource();
+  if (source) {
+    const { setSheetCsvSource } = await import('@/services/google-sheets');
+    setSheetCsvSource(source);
+    console.log(`[instrumentation] Using local sheet data source (${process.env.LOCAL_SHEETS_DIR || 'the sheet'})`);
+  }
+
+  // Long-lived servers run the analysis schedule in-process. Serverless hosts set ANALYSIS_SCHEDULER=off and have
+  // their cron call POST /api/jobs/run instead.
+  if (process.env.ANALYSIS_SCHEDULER !== 'off') {
+    const { getAnalysisJobRunner } = await import('@/services/analysis-jobs');
+    getAnalysisJobRunner().start();
+  }
+}
@@ -0,0 +1,62 @@
+// Minimal CSV helpers shared by the gviz CSV readers and the local-directory data source.
+
+// Split CSV text into records. Line breaks inside quoted fields (e.g. multi-line "Prepared By" cells) stay in their field.
+export function splitCSVRecords(csvText: string): string[] {
+    const text = csvText.replace(/\r\n/g, '\n');
+    const records: string[] = []; let current = ''; let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') { inQuotes = !inQuotes; current += char; }
+        else if (char === '\n' && !inQuotes) { records.push(current); current = ''; }
+        else { current += char; }
+    }
+    records.push(current);
+    return records;
+}
+
+export function parseCSVLine(line: string): string[] {
+    const fields: string[] = []; let currentField = ''; let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') { currentField += '"'; i++; }
+            else { inQuotes = !inQuotes; }
+        } else if (char === ',' && !inQuotes) {
+            fields.push(currentField); currentField = '';
+        } else {
+            currentField += char;
+        }
+    }
+    fields.push(currentField); // Push the last field
+    return fields.map(field => {
+        const trimmedField = field.trim();
+        // Handle fields that are entirely enclosed in quotes
+        if (trimmedField.startsWith('"') && trimmedField.endsWith('"')) {
+            return trimmedField.slice(1, -1).replace(/""/g, '"'); // Remove outer quotes and unescape double quotes
+        }
+        return trimmedField;
+    });
+}
+
+// All records as cell arrays, header row included (same shape as the Sheets API `values` response).
+export function parseCSVRows(csvText: string): string[][] {
+    if (!csvText) return [];
+    return splitCSVRecords(csvText.replace(/^﻿/, '').trim())
+        .filter(record => record.trim() !== '')
+        .map(parseCSVLine);
+}
+
+export function toCSV(rows: string[][]): string {
+    const escape = (cell: string): string => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    return rows.map(row => row.map(cell => escape(cell ?? '')).join(',')).join('\n');
+}
+
+// Cells typed on Arabic keyboards: Arabic-Indic digits (٠-٩ / ۰-۹), ٫ decimal separator, ٬ thousands separator and ٪
+export function normalizeArabicNumerals(value: string): string {
+    return value
+        .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+        .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+        .replace(/٫/g, '.')
+        .replace(/٬/g, ',')
+        .replace(/٪/g, '%');
+}
@@ -0,0 +1,60 @@
+import { google } from 'googleapis';
+import { SHEETS_TIMEOUT_MS } from '@/lib/http/timeout';
+import { toCSV } from '@/lib/csv';
+import type { SheetDataSource, SheetMeta } from './types';
+
+// The live spreadsheet through the Sheets API (service account in GOOGLE_CREDENTIALS_BASE64).
+export class GoogleApiDataSource implements SheetDataSource {
+  public readonly kind = 'google-sheets' as const;
+  private sheets: any;
+  private spreadsheetId: string;
+
+  constructor() {
+    // Decode the base64 credentials
+    const credentialsBase64 = process.env.GOOGLE_CREDENTIALS_BASE64;
+    if (!credentialsBase64) {
+      throw new Error('GOOGLE_CREDENTIALS_BASE64 environment variable is not set');
+    }
+
+    const credentials = JSON.parse(
+      Buffer.from(credentialsBase64, 'base64').toString('utf-8')
+    );
+
+    // Initialize Google Auth
+    const auth = new google.auth.GoogleAuth({
+      credentials,
+      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+    });
+
+    this.sheets = google.sheets({ version: 'v4', auth });
+    google.options({ timeout: SHEETS_TIMEOUT_MS });
+    this.spreadsheetId = process.env.NEXT_PUBLIC_GOOGLE_SHEET_ID || '';
+  }
+
+  async listSheets(): Promise<SheetMeta[]> {
+    const meta = await this.sheets.spreadsheets.get({
+      spreadsheetId: this.spreadsheetId,
+      timeout: SHEETS_TIMEOUT_MS,
+    });
+    return (meta.data.sheets || [])
+      .map((s: any) => ({
+        sheetId: s.properties?.sheetId as number,
+        index: s.properties?.index as number,
+        title: s.properties?.title as string,
+      }))
+      .filter((s: SheetMeta) => Number.isInteger(s.sheetId) && Number.isInteger(s.index) && !!s.title);
+  }
+
+  async getValues(sheetName: string): Promise<string[][]> {
+    const response = await this.sheets.spreadsheets.values.get({
+      spreadsheetId: this.spreadsheetId,
+      range: `${sheetName}!A:Z`, // Get all columns
+      timeout: SHEETS_TIMEOUT_MS,
+    });
+    return response.data.values || [];
+  }
+
+  async getCsv(sheetName: string): Promise<string> {
+    return toCSV(await this.getValues(sheetName));
+  }
+}
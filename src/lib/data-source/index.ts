@@ -0,0 +1,22 @@
+// Server-side entry point for sheet data sources (imports Node built-ins; do not import from client components).
+import path from 'path';
+import { LocalDirectoryDataSource } from './local-directory';
+import { isLocalDataSourceConfigured, type SheetDataSource } from './types';
+
+export * from './types';
+export { LocalDirectoryDataSource, sheetTitleFromExportFileName } from './local-directory';
+
+export const DEFAULT_LOCAL_SHEETS_DIR = 'the sheet';
+
+let localSource: LocalDirectoryDataSource | null = null;
+
+// NEXT_PUBLIC_DATA_SOURCE=local switches every reader to the CSV exports in LOCAL_SHEETS_DIR (default "./the sheet").
+// Returns null when the live spreadsheet should be used.
+export function getServerDataSource(): SheetDataSource | null {
+  if (!isLocalDataSourceConfigured()) return null;
+  if (!localSource) {
+    const dir = process.env.LOCAL_SHEETS_DIR || DEFAULT_LOCAL_SHEETS_DIR;
+    localSource = new LocalDirectoryDataSource(path.resolve(process.cwd(), dir));
+  }
+  return localSource;
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseCSVRows } from '@/lib/csv';
+import { SheetNotFoundError, type SheetDataSource, type SheetMeta } from './types';
+
+interface LocalSheetFile {
+  title: string;
+  fileName: string;
+}
+
+// "250410-Buildings Fire & HVAC Systems Tracking Sheet - Manpower (1).csv" -> "Manpower"
+// The tab title is whatever follows the last " - "; a trailing " (1)" download counter is dropped.
+export function sheetTitleFromExportFileName(fileName: string): string | null {
+  if (!/\.csv$/i.test(fileName)) return null;
+  const base = fileName.replace(/\.csv$/i, '');
+  const sepIdx = base.lastIndexOf(' - ');
+  const title = (sepIdx >= 0 ? base.slice(sepIdx + 3) : base).replace(/\s*\(\d+\)\s*$/, '').trim();
+  return title || null;
+}
+
+const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^a-z0-9؀-ۿ]+/g, '');
+
+// Reads a folder of CSV exports ("the sheet") as if it were the spreadsheet: one file per tab.
+export class LocalDirectoryDataSource implements SheetDataSource {
+  public readonly kind = 'local-directory' as const;
+  private readonly directory: string;
+  private filesPromise: Promise<LocalSheetFile[]> | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private async listFiles(): Promise<LocalSheetFile[]> {
+    if (!this.filesPromise) {
+      this.filesPromise = fs.readdir(this.directory).then(entries => {
+        const byTitle = new Map<string, LocalSheetFile>();
+        // Sorted so that when two downloads of the same tab exist the later "(2)" file wins
+        entries.sort().forEach(fileName => {
+          const title = sheetTitleFromExportFileName(fileName);
+          if (title) byTitle.set(title, { title, fileName });
+        });
+        return Array.from(byTitle.values());
+      });
+      // Let a later call retry if the folder was missing
+      this.filesPromise.catch(() => { this.filesPromise = null; });
+    }
+    return this.filesPromise;
+  }
+
+  private async resolveFile(sheetName: string): Promise<LocalSheetFile> {
+    const files = await this.listFiles();
+    const wanted = sheetName.trim();
+    const match = files.find(f => f.title === wanted)
+      ?? files.find(f => f.title.toLowerCase() === wanted.toLowerCase())
+      ?? files.find(f => normalizeTitle(f.title) === normalizeTitle(wanted));
+    if (!match) throw new SheetNotFoundError(sheetName, this.directory);
+    return match;
+  }
+
+  async listSheets(): Promise<SheetMeta[]> {
+    const files = await this.listFiles();
+    return files.map((f, index) => ({ sheetId: index + 1, index, title: f.title }));
+  }
+
+  async getCsv(sheetName: string): Promise<string> {
+    const file = await this.resolveFile(sheetName);
+    const text = await fs.readFile(path.join(this.directory, file.fileName), 'utf-8');
+    return text.replace(/^﻿/, '');
+  }
+
+  async getValues(sheetName: string): Promise<string[][]> {
+    return parseCSVRows(await this.getCsv(sheetName));
+  }
+}
@@ -0,0 +1,42 @@
+// Pluggable sheet data sources.
+// Safe to import from client code: no Node built-ins here, the implementations live in their own files.
+
+export type DataSourceKind = 'google-sheets' | 'local-directory';
+
+export interface SheetMeta {
+  sheetId: number;
+  index: number;
+  title: string;
+}
+
+// What the gviz CSV readers in src/services/google-sheets.ts need
+export interface SheetCsvSource {
+  getCsv(sheetName: string): Promise<string>;
+}
+
+// What GoogleSheetsService needs: tab listing plus raw cell values (header row first)
+export interface SheetDataSource extends SheetCsvSource {
+  readonly kind: DataSourceKind;
+  listSheets(): Promise<SheetMeta[]>;
+  getValues(sheetName: string): Promise<string[][]>;
+}
+
+export class SheetNotFoundError extends Error {
+  public readonly code = 'SHEET_NOT_FOUND';
+  public readonly sheetName: string;
+
+  constructor(sheetName: string, where: string) {
+    super(`Sheet "${sheetName}" not found in ${where}`);
+    this.name = 'SheetNotFoundError';
+    this.sheetName = sheetName;
+  }
+}
+
+export function isSheetNotFoundError(err: unknown): err is SheetNotFoundError {
+  return err instanceof SheetNotFoundError || (!!err && typeof err === 'object' && (err as any).code === 'SHEET_NOT_FOUND');
+}
+
+// NEXT_PUBLIC_ so the browser hooks know to read through /api/sheets/csv instead of the gviz URL
+export function isLocalDataSourceConfigured(): boolean {
+  return process.env.NEXT_PUBLIC_DATA_SOURCE === 'local';
+}
@@ -0,0 +1,37 @@
+// Downloads an on-screen SVG chart as a PNG (e.g. for pasting into the monthly report).
+// The SVG must use literal colours: CSS variables and Tailwind classes don't survive serialization.
+export async function downloadSvgAsPng(svg: SVGSVGElement, fileName: string, options: { scale?: number; background?: string } = {}): Promise<void> {
+    const { scale = 2, background = '#ffffff' } = options;
+    const { width, height } = svg.viewBox.baseVal.width ? svg.viewBox.baseVal : svg.getBoundingClientRect();
+
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    const markup = new XMLSerializer().serializeToString(clone);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+    try {
+        const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error('Could not render the chart image'));
+            img.src = url;
+        });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * scale);
+        canvas.height = Math.round(height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available');
+        context.fillStyle = background;
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        const link = document.createElement('a');
+        link.download = fileName;
+        link.href = canvas.toDataURL('image/png');
+        link.click();
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
@@ -0,0 +1,4 @@
+// Server-side feed readers (imports fs; do not import from client components).
+export * from './types';
+export { parseFeed, htmlToText, decodeEntities } from './parse';
+export { UrlFeedSource, FileFeedSource, DirectoryFeedSource, feedSourcesFromConfig } from './sources';
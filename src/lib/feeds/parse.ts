@@ -0,0 +1,78 @@
+import type { FeedItem } from './types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+// Markup to readable text (feed descriptions are often escaped HTML)
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' '),
+  ).replace(/[ \t\f\v]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+}
+
+// Text content of the first <tag> (exact qualified name, e.g. "content:encoded"), CDATA unwrapped
+function tagText(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return null;
+  const raw = match[1].trim();
+  const cdata = raw.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+  return cdata ? cdata[1] : decodeEntities(raw);
+}
+
+function atomLink(block: string): string | null {
+  const links = Array.from(block.matchAll(/<link\b([^>]*)\/?>/gi)).map(m => m[1]);
+  const preferred = links.find(attrs => !/rel\s*=/.test(attrs) || /rel\s*=\s*["']alternate["']/.test(attrs)) ?? links[0];
+  const href = preferred?.match(/href\s*=\s*["']([^"']+)["']/);
+  return href ? decodeEntities(href[1]) : null;
+}
+
+function toTime(value: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? null : time;
+}
+
+// RSS 2.0 <item>s and Atom <entry>s; anything else yields no items
+export function parseFeed(xml: string, feed: string): FeedItem[] {
+  const rss = Array.from(xml.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/gi)).map(m => m[1]);
+  const atom = rss.length > 0 ? [] : Array.from(xml.matchAll(/<entry\b[^>]*>([\s\S]*?)<\/entry>/gi)).map(m => m[1]);
+
+  const items = [
+    ...rss.map(block => {
+      const url = tagText(block, 'link');
+      return {
+        id: tagText(block, 'guid') || url || '',
+        title: htmlToText(tagText(block, 'title') ?? ''),
+        summary: htmlToText(tagText(block, 'content:encoded') ?? tagText(block, 'description') ?? ''),
+        url: url?.trim() || null,
+        publishedAt: toTime(tagText(block, 'pubDate') ?? tagText(block, 'dc:date')),
+        feed,
+      };
+    }),
+    ...atom.map(block => {
+      const url = atomLink(block);
+      return {
+        id: tagText(block, 'id') || url || '',
+        title: htmlToText(tagText(block, 'title') ?? ''),
+        summary: htmlToText(tagText(block, 'content') ?? tagText(block, 'summary') ?? ''),
+        url,
+        publishedAt: toTime(tagText(block, 'published') ?? tagText(block, 'updated')),
+        feed,
+      };
+    }),
+  ];
+  return items.filter(item => item.id && (item.title || item.summary));
+}
@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchWithTimeout, CSV_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import { htmlToText, parseFeed } from './parse';
+import type { FeedItem, FeedSource } from './types';
+
+const FEED_EXTENSIONS = ['.xml', '.rss', '.atom'];
+const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.html', '.htm'];
+
+// RSS/Atom over HTTP(S)
+export class UrlFeedSource implements FeedSource {
+  constructor(readonly name: string, private readonly timeoutMs: number = CSV_FETCH_TIMEOUT_MS) {}
+
+  async fetchItems(): Promise<FeedItem[]> {
+    const response = await fetchWithTimeout(this.name, { cache: 'no-store', headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' } }, this.timeoutMs);
+    if (!response.ok) throw new Error(`Feed ${this.name} returned HTTP ${response.status}`);
+    return parseFeed(await response.text(), this.name);
+  }
+}
+
+// A saved RSS/Atom file
+export class FileFeedSource implements FeedSource {
+  constructor(readonly name: string) {}
+
+  async fetchItems(): Promise<FeedItem[]> {
+    return parseFeed(await fs.readFile(this.name, 'utf-8'), this.name);
+  }
+}
+
+// A folder of feeds and documents (reports, saved articles): feed files contribute their items, every other
+// text/HTML file is one item titled by its first line. Not recursive.
+export class DirectoryFeedSource implements FeedSource {
+  constructor(readonly name: string) {}
+
+  async fetchItems(): Promise<FeedItem[]> {
+    const entries = await fs.readdir(this.name, { withFileTypes: true });
+    const items: FeedItem[] = [];
+    for (const entry of entries.filter(e => e.isFile()).sort((a, b) => a.name.localeCompare(b.name))) {
+      const file = path.join(this.name, entry.name);
+      const extension = path.extname(entry.name).toLowerCase();
+      if (FEED_EXTENSIONS.includes(extension)) {
+        items.push(...await new FileFeedSource(file).fetchItems());
+      } else if (DOCUMENT_EXTENSIONS.includes(extension)) {
+        const raw = await fs.readFile(file, 'utf-8');
+        const text = extension.startsWith('.htm') ? htmlToText(raw) : raw.trim();
+        const htmlTitle = extension.startsWith('.htm') ? raw.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] : undefined;
+        const [firstLine = '', ...rest] = text.split('\n');
+        const { mtimeMs } = await fs.stat(file);
+        items.push({
+          id: file,
+          title: (htmlTitle ? htmlToText(htmlTitle) : firstLine.replace(/^#+\s*/, '')).trim() || entry.name,
+          summary: htmlTitle ? text : rest.join('\n').trim(),
+          url: null,
+          publishedAt: Math.round(mtimeMs),
+          feed: this.name,
+        });
+      }
+    }
+    return items;
+  }
+}
+
+// RISK_SCAN_FEEDS: comma/newline separated http(s) URLs, feed files or folders (relative to the app directory)
+export async function feedSourcesFromConfig(value: string | undefined, cwd: string = process.cwd()): Promise<FeedSource[]> {
+  const entries = (value ?? '').split(/[,\n]/).map(entry => entry.trim()).filter(Boolean);
+  return Promise.all(entries.map(async (entry): Promise<FeedSource> => {
+    if (/^https?:\/\//i.test(entry)) return new UrlFeedSource(entry);
+    const resolved = path.resolve(cwd, entry);
+    const stat = await fs.stat(resolved).catch(() => null);
+    return stat?.isDirectory() ? new DirectoryFeedSource(resolved) : new FileFeedSource(resolved);
+  }));
+}
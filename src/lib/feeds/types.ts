@@ -0,0 +1,15 @@
+// News / document feeds for the risk scanner (services/risk-scanner.ts)
+
+export interface FeedItem {
+  id: string;                 // guid / atom id / file path; falls back to the link
+  title: string;
+  summary: string;            // Plain text, HTML stripped
+  url: string | null;
+  publishedAt: number | null;
+  feed: string;               // Where it came from (URL, file or folder), for the review queue
+}
+
+export interface FeedSource {
+  readonly name: string;
+  fetchItems(): Promise<FeedItem[]>;
+}
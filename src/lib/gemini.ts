@@ -1,18 +1,21 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { withTimeout, AI_INSIGHTS_TIMEOUT_MS, isTimeoutError, TimeoutError } from '@/lib/http/timeout';
+import type { HistoricalProgressRow, ManpowerSheetRow, MechanicalPlanRow, RiskRegisterItem } from '@/services/google-sheets';
+import type { ProjectData as RepositoryProjectData } from '@/services/sheets-repository';
+import { getRiskLevelBand } from '@/services/risk-analytics';
+import { getRowTotalManpower } from '@/lib/manpower-disciplines';
+import { forecastProjectCompletion, type CompletionForecast, type CompletionForecastReport } from '@/services/completion-forecast';
 
-export interface ProjectData {
-  manpower?: Record<string, any>[];
-  mechanicalPlan?: Record<string, any>[];
-  riskRegister?: Record<string, any>[];
-  [key: string]: any; // Allow for additional dynamic properties
-}
+// Same shape as /api/project-data; every tab is optional because the client may send a partial payload.
+// progressHistory ("Full Progress History") feeds the completion forecast.
+export type ProjectData = Partial<RepositoryProjectData> & { progressHistory?: HistoricalProgressRow[] };
 
 interface AIInsights {
-  predictedCompletionDate: string;
+  predictedCompletionDate: string; // Likely project date from the completion forecast, not from the model
   summaryReport: string;
   recommendations: string[];
   riskAnalysis: string;
+  completionForecast: CompletionForecastReport | null;
 }
 
 export class GeminiService {
@@ -31,12 +34,15 @@ export class GeminiService {
 
   async generateInsights(projectData: ProjectData): Promise<AIInsights> {
     try {
-      const prompt = this.buildAnalysisPrompt(projectData);
+      const completionForecast = (projectData.mechanicalPlan?.length ?? 0) > 0
+        ? forecastProjectCompletion(projectData.mechanicalPlan ?? [], projectData.progressHistory ?? [])
+        : null;
+      const prompt = this.buildAnalysisPrompt(projectData, completionForecast);
       const result = await withTimeout(this.model.generateContent(prompt), AI_INSIGHTS_TIMEOUT_MS, 'generateContent') as any;
       const response = await result.response;
       const text = response.text();
 
-      return this.parseAIResponse(text);
+      return this.parseAIResponse(text, completionForecast);
     } catch (error) {
       if (isTimeoutError(error)) {
         throw new TimeoutError('AI insights generation timed out', AI_INSIGHTS_TIMEOUT_MS, 'generateContent', error);
@@ -46,7 +52,7 @@ export class GeminiService {
     }
   }
 
-  private buildAnalysisPrompt(data: ProjectData): string {
+  private buildAnalysisPrompt(data: ProjectData, completionForecast: CompletionForecastReport | null): string {
     // Provide empty arrays as defaults for missing data
     const manpowerData = data.manpower || [];
     const mechanicalPlanData = data.mechanicalPlan || [];
@@ -55,9 +61,10 @@ export class GeminiService {
     const manpowerSummary = this.summarizeManpower(manpowerData);
     const progressSummary = this.summarizeProgress(mechanicalPlanData);
     const riskSummary = this.summarizeRisks(riskData);
+    const completionSummary = this.summarizeCompletion(completionForecast);
 
     return `
-تحليل بيانات المشروع والتنبؤ بتاريخ الإنجاز:
+تحليل بيانات المشروع وتواريخ الإنجاز المحسوبة:
 
 بيانات القوى العاملة:
 ${manpowerSummary}
@@ -68,92 +75,93 @@ ${progressSummary}
 بيانات المخاطر:
 ${riskSummary}
 
+توقعات الإنجاز (محسوبة من سرعة التقدم الأسبوعية، متفائل / مرجح / متشائم):
+${completionSummary}
+
 المطلوب:
 1. تحليل التقدم الحالي للمشروع
-2. التنبؤ بتاريخ الإنجاز المتوقع بناءً على البيانات الحالية
+2. التعليق على تواريخ الإنجاز المحسوبة أعلاه كما هي — لا تقترح تاريخاً آخر
 3. تحديد المخاطر الرئيسية وتأثيرها على الجدول الزمني
-4. تقديم توصيات لتحسين الأداء
+4. تقديم توصيات لتحسين الأداء (خاصة للمباني والأنظمة الأبطأ)
 
 يرجى تقديم الإجابة بالتنسيق التالي:
-COMPLETION_DATE: [التاريخ المتوقع]
 SUMMARY: [ملخص حالة المشروع]
 RECOMMENDATIONS: [التوصيات مفصولة بـ |]
 RISK_ANALYSIS: [تحليل المخاطر]
     `;
   }
 
-  private summarizeManpower(manpower: Record<string, any>[]): string {
+  private summarizeManpower(manpower: ManpowerSheetRow[]): string {
     if (!manpower || manpower.length === 0) return 'لا توجد بيانات للقوى العاملة';
 
-    const totalPlanned = manpower.reduce((sum, item) => {
-      const value = item['Total Planned'] || item['المخطط الإجمالي'] || 0;
-      return sum + (typeof value === 'number' ? value : 0);
-    }, 0);
-    
-    const totalActual = manpower.reduce((sum, item) => {
-      const value = item['Total Actual'] || item['الفعلي الإجمالي'] || 0;
-      return sum + (typeof value === 'number' ? value : 0);
-    }, 0);
-    
-    const totalUtilization = manpower.reduce((sum, item) => {
-      const value = item['Utilization %'] || item['نسبة الاستخدام'] || 0;
-      return sum + (typeof value === 'number' ? value : 0);
-    }, 0);
-    
-    const avgUtilization = manpower.length > 0 ? totalUtilization / manpower.length : 0;
+    const totals = manpower
+      .map(row => getRowTotalManpower(row))
+      .filter(v => Number.isFinite(v));
+    if (totals.length === 0) return 'لا توجد بيانات للقوى العاملة';
+
+    const latest = totals[totals.length - 1];
+    const peak = Math.max(...totals);
+    const average = totals.reduce((sum, v) => sum + v, 0) / totals.length;
+    const latestDate = manpower[manpower.length - 1]?.dateString ?? '';
 
-    return `إجمالي المخطط: ${totalPlanned}، إجمالي الفعلي: ${totalActual}، متوسط الاستخدام: ${avgUtilization.toFixed(1)}%`;
+    return `آخر قيمة (${latestDate}): ${latest}، الذروة: ${peak}، المتوسط: ${average.toFixed(1)}، عدد القراءات: ${totals.length}`;
   }
 
-  private summarizeProgress(mechanicalPlan: Record<string, any>[]): string {
+  private summarizeProgress(mechanicalPlan: MechanicalPlanRow[]): string {
     if (!mechanicalPlan || mechanicalPlan.length === 0) return 'لا توجد بيانات للتقدم';
 
-    const totalProgress = mechanicalPlan.reduce((sum, item) => {
-      const value = item['Progress %'] || item['نسبة الإنجاز'] || 0;
-      return sum + (typeof value === 'number' ? value : 0);
-    }, 0);
-    
+    const totalProgress = mechanicalPlan.reduce((sum, item) => sum + (item.currentProgressPercentage ?? 0), 0);
     const avgProgress = mechanicalPlan.length > 0 ? totalProgress / mechanicalPlan.length : 0;
-    
-    const completedTasks = mechanicalPlan.filter(item => {
-      const progress = item['Progress %'] || item['نسبة الإنجاز'] || 0;
-      return (typeof progress === 'number' ? progress : 0) >= 100;
-    }).length;
-    
+    const completedTasks = mechanicalPlan.filter(item => (item.currentProgressPercentage ?? 0) >= 100).length;
     const totalTasks = mechanicalPlan.length;
 
     return `متوسط التقدم: ${avgProgress.toFixed(1)}%، المهام المكتملة: ${completedTasks}/${totalTasks}`;
   }
 
-  private summarizeRisks(riskRegister: Record<string, any>[]): string {
-    if (!riskRegister || riskRegister.length === 0) return 'لا توجد مخاطر مسجلة';
-
-    const getRiskScore = (risk: Record<string, any>): number => {
-      const score = risk['Risk Score'] || risk['درجة المخاطرة'] || 0;
-      return typeof score === 'number' ? score : 0;
+  private summarizeCompletion(report: CompletionForecastReport | null): string {
+    if (!report) return 'لا توجد بيانات كافية لحساب تاريخ الإنجاز';
+
+    const describe = (f: CompletionForecast): string => {
+      const progress = f.currentProgress !== null ? `${f.currentProgress}%` : 'غير معروف';
+      switch (f.status) {
+        case 'completed':
+          return `${f.label}: مكتمل`;
+        case 'stalled':
+          return `${f.label}: التقدم ${progress}، متوقف (السرعة ${f.weeklyVelocity ?? 0}%/أسبوع) — لا يمكن تحديد تاريخ`;
+        case 'insufficient-data':
+          return `${f.label}: التقدم ${progress}، لا توجد لقطات تاريخية كافية`;
+        default:
+          return `${f.label}: التقدم ${progress}، السرعة ${f.weeklyVelocity}%/أسبوع — ${f.optimisticDate} / ${f.likelyDate} / ${f.pessimisticDate ?? 'غير محدد'}`;
+      }
     };
 
-    const highRisks = riskRegister.filter(risk => getRiskScore(risk) >= 15).length;
-    const mediumRisks = riskRegister.filter(risk => {
-      const score = getRiskScore(risk);
-      return score >= 8 && score < 15;
-    }).length;
-    const lowRisks = riskRegister.filter(risk => getRiskScore(risk) < 8).length;
+    return [
+      `حتى تاريخ ${report.asOf}`,
+      describe(report.project),
+      ...report.systems.map(describe),
+      ...report.buildings.map(describe),
+    ].join('\n');
+  }
+
+  private summarizeRisks(riskRegister: RiskRegisterItem[]): string {
+    if (!riskRegister || riskRegister.length === 0) return 'لا توجد مخاطر مسجلة';
+
+    const bands = riskRegister.map(risk => getRiskLevelBand(risk));
+    const highRisks = bands.filter(b => b === 'high').length;
+    const mediumRisks = bands.filter(b => b === 'medium').length;
+    const lowRisks = bands.filter(b => b === 'low').length;
 
     return `المخاطر العالية: ${highRisks}، المتوسطة: ${mediumRisks}، المنخفضة: ${lowRisks}`;
   }
 
-  private parseAIResponse(text: string): AIInsights {
+  private parseAIResponse(text: string, completionForecast: CompletionForecastReport | null): AIInsights {
     const lines = text.split('\n');
-    let predictedCompletionDate = '';
     let summaryReport = '';
     let recommendations: string[] = [];
     let riskAnalysis = '';
 
     for (const line of lines) {
-      if (line.startsWith('COMPLETION_DATE:')) {
-        predictedCompletionDate = line.replace('COMPLETION_DATE:', '').trim();
-      } else if (line.startsWith('SUMMARY:')) {
+      if (line.startsWith('SUMMARY:')) {
         summaryReport = line.replace('SUMMARY:', '').trim();
       } else if (line.startsWith('RECOMMENDATIONS:')) {
         const recText = line.replace('RECOMMENDATIONS:', '').trim();
@@ -165,10 +173,11 @@ RISK_ANALYSIS: [تحليل المخاطر]
 
     // Fallback values if parsing fails
     return {
-      predictedCompletionDate: predictedCompletionDate || 'غير محدد',
+      predictedCompletionDate: completionForecast?.project.likelyDate ?? 'غير محدد',
       summaryReport: summaryReport || 'تحليل غير متوفر',
       recommendations: recommendations.length > 0 ? recommendations : ['لا توجد توصيات متاحة'],
-      riskAnalysis: riskAnalysis || 'تحليل المخاطر غير متوفر'
+      riskAnalysis: riskAnalysis || 'تحليل المخاطر غير متوفر',
+      completionForecast,
     };
   }
 }
@@ -1,67 +1,42 @@
-import { google } from 'googleapis';
-import { withTimeout, SHEETS_TIMEOUT_MS, TimeoutError, isTimeoutError } from '@/lib/http/timeout';
+import { getServerDataSource, type SheetDataSource, type SheetMeta } from '@/lib/data-source';
+import { GoogleApiDataSource } from '@/lib/data-source/google-api';
+import { normalizeHeaderLabel, resolveHeaderField, type HeaderAliasTab } from '@/lib/sheets/header-aliases';
+import { SHEET_NAMES } from '@/services/google-sheets';
 
 interface SheetData {
   [key: string]: any;
 }
 
-interface ProjectData {
-  manpower: SheetData[];
-  mechanicalPlan: SheetData[];
-  riskRegister: SheetData[];
-}
-
-// Simple in-memory cache for project data
-let __projectDataCache: { data: ProjectData; ts: number } | null = null;
-const CACHE_TTL_MS = 90 * 1000; // 90 seconds
-
+const SHEET_ALIAS_TABS: Record<string, HeaderAliasTab> = {
+  [SHEET_NAMES.PROGRESS]: 'progress',
+  [SHEET_NAMES.MANPOWER]: 'manpower',
+  [SHEET_NAMES.MATERIAL]: 'material',
+  [SHEET_NAMES.PLAN]: 'mechanicalPlan',
+  [SHEET_NAMES.HISTORY]: 'history',
+  [SHEET_NAMES.RISK_REGISTER]: 'riskRegister',
+  [SHEET_NAMES.RFI_LOG]: 'inspectionLog',
+  [SHEET_NAMES.MIR_LOG]: 'inspectionLog',
+};
+
+// Raw, untyped access for discovery (tab listing, monthly tabs, catalog).
+// Typed rows for every tab come from sheetsRepository in src/services/sheets-repository.ts.
 export class GoogleSheetsService {
-  private sheets: any;
-  private spreadsheetId: string;
-
-  constructor() {
-    // Decode the base64 credentials
-    const credentialsBase64 = process.env.GOOGLE_CREDENTIALS_BASE64;
-    if (!credentialsBase64) {
-      throw new Error('GOOGLE_CREDENTIALS_BASE64 environment variable is not set');
-    }
-
-    const credentials = JSON.parse(
-      Buffer.from(credentialsBase64, 'base64').toString('utf-8')
-    );
+  private source: SheetDataSource;
 
-    // Initialize Google Auth
-    const auth = new google.auth.GoogleAuth({
-      credentials,
-      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
-    });
-
-    this.sheets = google.sheets({ version: 'v4', auth });
-    google.options({ timeout: SHEETS_TIMEOUT_MS });
-    this.spreadsheetId = process.env.NEXT_PUBLIC_GOOGLE_SHEET_ID || '';
+  // Defaults to the local CSV folder when NEXT_PUBLIC_DATA_SOURCE=local, otherwise the Sheets API
+  constructor(dataSource?: SheetDataSource) {
+    this.source = dataSource ?? getServerDataSource() ?? new GoogleApiDataSource();
   }
 
   // --- Utility: list sheet names ---
   async listSheets(): Promise<string[]> {
-    const meta = await this.sheets.spreadsheets.get({
-      spreadsheetId: this.spreadsheetId,
-      timeout: SHEETS_TIMEOUT_MS,
-    });
-    const titles = (meta.data.sheets || [])
-      .map((s: any) => s.properties?.title)
-      .filter(Boolean);
-    return titles as string[];
+    const sheets = await this.source.listSheets();
+    return sheets.map(s => s.title);
   }
 
   async getSheetData(sheetName: string): Promise<SheetData[]> {
     try {
-      const response = await this.sheets.spreadsheets.values.get({
-        spreadsheetId: this.spreadsheetId,
-        range: `${sheetName}!A:Z`, // Get all columns
-        timeout: SHEETS_TIMEOUT_MS,
-      });
-
-      const rows = response.data.values;
+      const rows = await this.source.getValues(sheetName);
       if (!rows || rows.length === 0) {
         return [];
       }
@@ -89,137 +64,17 @@ export class GoogleSheetsService {
     }
   }
 
-  async getProjectData(): Promise<ProjectData> {
-    // Serve from cache if fresh
-    if (__projectDataCache && Date.now() - __projectDataCache.ts < CACHE_TTL_MS) {
-      return __projectDataCache.data;
-    }
-
-    try {
-      const normalized: ProjectData = await withTimeout((async (): Promise<ProjectData> => {
-        // Try preferred sheet names first; if not found, pick best matches
-        const sheetNames = await this.listSheets();
-        const pick = (candidates: string[]): string | null => {
-          // direct match
-          for (const name of candidates) if (sheetNames.includes(name)) return name;
-          // case-insensitive contains
-          const lower = sheetNames.map(s => s.toLowerCase());
-          for (const c of candidates.map(s => s.toLowerCase())) {
-            const idx = lower.findIndex(s => s.includes(c));
-            if (idx >= 0) return sheetNames[idx];
-          }
-          return null;
-        };
-
-        const manpowerSheet = pick(['Manpower','القوى العاملة','Resources','Man power']) || 'Manpower';
-        const mechSheet = pick(['Mechanical Plan','MEP','الخطة الميكانيكية']) || 'Mechanical Plan';
-        const riskSheet = pick(['RiskRegister','Risk Register','سجل المخاطر']) || 'RiskRegister';
-
-        const [manpower, mechanicalPlan, riskRegister] = await Promise.all([
-          this.getSheetData(manpowerSheet),
-          this.getSheetData(mechSheet),
-          this.getSheetData(riskSheet),
-        ]);
-
-        return {
-          manpower: this.cleanManpowerData(manpower),
-          mechanicalPlan: this.cleanMechanicalPlanData(mechanicalPlan),
-          riskRegister: this.cleanRiskRegisterData(riskRegister),
-        };
-      })(), SHEETS_TIMEOUT_MS, 'getProjectData');
-
-      __projectDataCache = { data: normalized, ts: Date.now() };
-      return normalized;
-    } catch (error) {
-      if (isTimeoutError(error)) {
-        console.error('Timeout fetching project data:', error);
-        throw new TimeoutError('Project data fetch timed out', SHEETS_TIMEOUT_MS, 'getProjectData', error);
-      }
-      console.error('Error fetching project data:', error);
-      throw error;
-    }
-  }
-
-  public cleanManpowerData(data: SheetData[]): SheetData[] {
-    return data.map(row => {
-      const n = (k: string) => this.parseNumber(row[k] ?? row[this.normalizeHeader(k)]);
-      const p = (k: string) => this.parsePercentage(row[k] ?? row[this.normalizeHeader(k)]);
-
-      // Flexibly map common manpower metrics
-      const totalManpower = n('Total Manpower') || n('Total') || n('إجمالي القوى العاملة');
-      return {
-        ...row,
-        Date: row['Date'] || row['التاريخ'] || row[this.normalizeHeader('Date')] || '',
-        'Total Planned': n('Total Planned'),
-        'Total Actual': n('Total Actual'),
-        'Utilization %': p('Utilization %'),
-        'Total Manpower': totalManpower,
-      };
-    });
-  }
-
-  public cleanMechanicalPlanData(data: SheetData[]): SheetData[] {
-    return data.map(row => ({
-      ...row,
-      'Progress %': this.parsePercentage(row['Progress %'] ?? row['Progress'] ?? row['نسبة التقدم']),
-      'Planned Duration': this.parseNumber(row['Planned Duration'] ?? row['المدة المخططة']),
-      'Actual Duration': this.parseNumber(row['Actual Duration'] ?? row['المدة الفعلية']),
-    }));
-  }
-
-  public cleanRiskRegisterData(data: SheetData[]): SheetData[] {
-    return data.map(row => ({
-      ...row,
-      'Probability': this.parseNumber(row['Probability'] ?? row['الاحتمالية']),
-      'Impact': this.parseNumber(row['Impact'] ?? row['التأثير']),
-      'Risk Score': this.parseNumber(row['Risk Score'] ?? row['درجة المخاطر'] ?? row['RiskScore']),
-    }));
-  }
-
-  private parsePercentage(value: string): number {
-    if (!value) return 0;
-    const v = value.toString().replace('٪','%');
-    const parsed = parseFloat(v.replace('%', ''));
-    return isNaN(parsed) ? 0 : parsed;
-  }
-
-  private parseNumber(value: string): number {
-    if (!value) return 0;
-    const v = value.toString().replace(/٬/g, ',').replace(/٫/g, '.');
-    const parsed = parseFloat(v);
-    return isNaN(parsed) ? 0 : parsed;
-  }
-
   // --- Normalization helpers ---
-  private normalizeHeader(h: string): string {
-    if (!h) return '';
-    const s = h
-      .toString()
-      .trim()
-      .toLowerCase()
-      .normalize('NFKD')
-      .replace(/[\u064B-\u0652]/g, '') // remove Arabic diacritics
-      .replace(/[%\s_\-]+/g, ' ')
-      .trim();
-
-    const map: Record<string, string[]> = {
-      'total planned': ['total planned','اجمالي المخطط','إجمالي المخطط'],
-      'total actual': ['total actual','اجمالي الفعلي','إجمالي الفعلي'],
-      'utilization %': ['utilization %','utilization','نسبة الاستخدام','استخدام %'],
-      'progress %': ['progress %','progress','نسبة التقدم','الانجاز %'],
-      'planned duration': ['planned duration','المدة المخططة'],
-      'actual duration': ['actual duration','المدة الفعلية'],
-      'probability': ['probability','الاحتمالية'],
-      'impact': ['impact','التأثير'],
-      'risk score': ['risk score','riskscore','درجة المخاطر'],
-      'date': ['date','التاريخ'],
-      'total manpower': ['total manpower','اجمالي القوى العاملة','إجمالي القوى العاملة','total'],
-    };
+  // Raw headers map to the typed field they feed (see HEADER_ALIASES), e.g. "Current Progress %" -> "mechanicalPlan.currentProgressPercentage"
+  private normalizeHeader(h: string, tab?: HeaderAliasTab): string {
+    return resolveHeaderField(h, tab) ?? normalizeHeaderLabel(h);
+  }
 
-    for (const key of Object.keys(map)) {
-      if (map[key].some(alias => s === alias)) return key;
-    }
-    return s;
+  // Which alias group a tab's headers belong to; monthly snapshot tabs share the history layout
+  private aliasTabForSheet(sheetName: string): HeaderAliasTab | undefined {
+    const known = SHEET_ALIAS_TABS[sheetName];
+    if (known) return known;
+    return this.extractYearMonthFromTitle(sheetName) ? 'history' : undefined;
   }
 
   // --- Module 1: Monthly tabs discovery & naming normalization ---
@@ -324,19 +179,8 @@ export class GoogleSheetsService {
   }
 
   // Detailed sheets listing with metadata
-  private async listSheetsWithMeta(): Promise<Array<{ sheetId: number; index: number; title: string }>> {
-    const meta = await this.sheets.spreadsheets.get({
-      spreadsheetId: this.spreadsheetId,
-      timeout: SHEETS_TIMEOUT_MS,
-    });
-    const sheets = (meta.data.sheets || [])
-      .map((s: any) => ({
-        sheetId: s.properties?.sheetId as number,
-        index: s.properties?.index as number,
-        title: s.properties?.title as string,
-      }))
-      .filter((s: { sheetId: number; index: number; title: string }) => Number.isInteger(s.sheetId) && Number.isInteger(s.index) && !!s.title);
-    return sheets;
+  private async listSheetsWithMeta(): Promise<SheetMeta[]> {
+    return this.source.listSheets();
   }
 
   // List monthly tabs with normalized YearMonth and deterministic duplicate handling.
@@ -401,7 +245,8 @@ export class GoogleSheetsService {
         continue;
       }
       const headers = Object.keys(data[0] || {});
-      const normalizedHeaders = headers.map(h => this.normalizeHeader(h));
+      const tab = this.aliasTabForSheet(name);
+      const normalizedHeaders = headers.map(h => this.normalizeHeader(h, tab));
       sheets.push({ name, headers, normalizedHeaders, sample: data.slice(0, sampleRows) });
     }
 
@@ -0,0 +1,101 @@
+// Minimal 5-field cron expressions ("minute hour day-of-month month day-of-week"), evaluated in server local time.
+// Supports *, lists (1,15), ranges (1-5), steps (*/10, 8-18/2) and the @hourly/@daily/@weekly/@monthly aliases.
+// Safe to import from client code.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;   // 0 = Sunday (7 is folded into 0)
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// How far ahead nextCronRun looks before giving up (covers Feb 29 schedules)
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Invalid cron ${name} field "${field}"`);
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    let from = min;
+    let to = max;
+    if (match[1] !== '*') {
+      from = Number(match[2]);
+      // "5/15" means 5, 20, 35, 50 (from 5 to the end of the range)
+      to = match[3] !== undefined ? Number(match[3]) : (match[4] !== undefined ? max : from);
+    }
+    if (step < 1 || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron ${name} field "${field}": values must be within ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  return {
+    expression,
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    daysOfMonth: new Set(parseField(dayOfMonth, 1, 31, 'day-of-month')),
+    months: new Set(parseField(month, 1, 12, 'month')),
+    daysOfWeek: new Set(parseField(dayOfWeek, 0, 7, 'day-of-week').map(d => d % 7)),
+    restrictsDayOfMonth: dayOfMonth !== '*',
+    restrictsDayOfWeek: dayOfWeek !== '*',
+  };
+}
+
+// Classic cron rule: when both day fields are restricted, either one matching is enough
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) return dom || dow;
+  if (schedule.restrictsDayOfMonth) return dom;
+  if (schedule.restrictsDayOfWeek) return dow;
+  return true;
+}
+
+// First matching minute strictly after `after`; null if nothing matches within five years (e.g. "0 0 31 2 *")
+export function nextCronRun(schedule: CronSchedule | string, after: Date | number): Date | null {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const start = new Date(after);
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    if (cron.months.has(day.getMonth() + 1) && matchesDay(cron, day)) {
+      const sameDay = i === 0;
+      for (const hour of cron.hours) {
+        if (sameDay && hour < start.getHours()) continue;
+        for (const minute of cron.minutes) {
+          if (sameDay && hour === start.getHours() && minute < start.getMinutes()) continue;
+          const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          // Skip wall-clock times that don't exist on a DST change day
+          if (candidate.getHours() === hour && candidate.getTime() > new Date(after).getTime()) return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return null;
+}
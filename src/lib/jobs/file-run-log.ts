@@ -0,0 +1,23 @@
+import { JsonArrayFile } from '@/lib/storage/json-file';
+import type { JobRun, JobRunLog } from './types';
+
+export const MAX_LOGGED_RUNS = 200;
+
+export class FileJobRunLog implements JobRunLog {
+  private readonly file: JsonArrayFile<JobRun>;
+  private readonly maxItems: number;
+
+  constructor(filePath: string, maxItems: number = MAX_LOGGED_RUNS) {
+    this.file = new JsonArrayFile(filePath);
+    this.maxItems = maxItems;
+  }
+
+  async list(limit?: number): Promise<JobRun[]> {
+    const runs = await this.file.read();
+    return limit === undefined ? runs : runs.slice(0, limit);
+  }
+
+  add(run: JobRun): Promise<void> {
+    return this.file.mutate(current => ({ next: [run, ...current].slice(0, this.maxItems), result: undefined }));
+  }
+}
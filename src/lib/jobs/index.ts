@@ -0,0 +1,5 @@
+// Server-side entry point for the job runner (imports Node built-ins; do not import from client components).
+export * from './types';
+export { parseCron, nextCronRun, type CronSchedule } from './cron';
+export { JobRunner, UnknownJobError, JobAlreadyRunningError, type JobDefinition } from './runner';
+export { FileJobRunLog, MAX_LOGGED_RUNS } from './file-run-log';
@@ -0,0 +1,158 @@
+import { parseCron, nextCronRun, type CronSchedule } from './cron';
+import type { JobRun, JobRunLog, JobStatus, JobTrigger, JobsResponse } from './types';
+
+export interface JobDefinition {
+  id: string;
+  label: string;
+  schedule: string | null;        // Cron expression; null = trigger only
+  run: () => Promise<number>;     // Resolves to the number of notifications produced
+}
+
+export class UnknownJobError extends Error {
+  constructor(job: string) {
+    super(`Unknown job "${job}"`);
+    this.name = 'UnknownJobError';
+  }
+}
+
+export class JobAlreadyRunningError extends Error {
+  constructor(job: string) {
+    super(`Job "${job}" is already running`);
+    this.name = 'JobAlreadyRunningError';
+  }
+}
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Runs named jobs on cron schedules inside a long-lived Node process (start()) or whenever a hosted cron hits the
+// HTTP trigger (runDue()). Every run, scheduled or manual, lands in the run log.
+export class JobRunner {
+  private readonly jobs = new Map<string, JobDefinition & { cron: CronSchedule | null }>();
+  private readonly running = new Set<string>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly log: JobRunLog;
+  private readonly now: () => number;
+
+  constructor(jobs: JobDefinition[], log: JobRunLog, now: () => number = Date.now) {
+    // Bad schedules fail at startup rather than silently never running
+    jobs.forEach(job => this.jobs.set(job.id, { ...job, cron: job.schedule ? parseCron(job.schedule) : null }));
+    this.log = log;
+    this.now = now;
+  }
+
+  get started(): boolean {
+    return this.timers.size > 0;
+  }
+
+  async runJob(id: string, trigger: JobTrigger): Promise<JobRun> {
+    const job = this.jobs.get(id);
+    if (!job) throw new UnknownJobError(id);
+    if (this.running.has(id)) throw new JobAlreadyRunningError(id);
+
+    this.running.add(id);
+    const startedAt = this.now();
+    let run: JobRun;
+    try {
+      const produced = await job.run();
+      run = this.record(id, trigger, startedAt, 'success', produced);
+    } catch (error) {
+      console.error(`[jobs] ${id} failed:`, error);
+      run = this.record(id, trigger, startedAt, 'failed', 0, error instanceof Error ? error.message : String(error));
+    } finally {
+      this.running.delete(id);
+    }
+    await this.log.add(run);
+    return run;
+  }
+
+  private record(id: string, trigger: JobTrigger, startedAt: number, status: JobRun['status'], produced: number, error?: string): JobRun {
+    const finishedAt = this.now();
+    return {
+      id: `${id}-${startedAt}`,
+      job: id,
+      trigger,
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt - startedAt,
+      status,
+      notificationsProduced: produced,
+      ...(error ? { error } : {}),
+    };
+  }
+
+  // Jobs whose next slot after their last run has passed (or that never ran), run one after another
+  async runDue(trigger: JobTrigger = 'http'): Promise<JobRun[]> {
+    const now = this.now();
+    const lastRuns = await this.lastRuns();
+    const due = Array.from(this.jobs.values()).filter(job => {
+      if (!job.cron || this.running.has(job.id)) return false;
+      const last = lastRuns.get(job.id);
+      if (!last) return true;
+      const next = nextCronRun(job.cron, last.startedAt);
+      return next !== null && next.getTime() <= now;
+    });
+
+    const runs: JobRun[] = [];
+    for (const job of due) {
+      runs.push(await this.runJob(job.id, trigger));
+    }
+    return runs;
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.jobs.forEach(job => this.arm(job.id));
+    console.log(`[jobs] Scheduler started: ${Array.from(this.jobs.values()).map(j => `${j.id} (${j.schedule ?? 'manual'})`).join(', ')}`);
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private arm(id: string): void {
+    const cron = this.jobs.get(id)?.cron;
+    if (!cron) return;
+    const next = nextCronRun(cron, this.now());
+    if (!next) return;
+    const delay = next.getTime() - this.now();
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_MS) {
+        this.arm(id);
+        return;
+      }
+      this.runJob(id, 'schedule')
+        .catch(error => console.error(`[jobs] Could not run ${id}:`, error))
+        .finally(() => {
+          if (this.timers.has(id)) this.arm(id);
+        });
+    }, Math.min(delay, MAX_TIMER_MS));
+    // Don't keep a process alive just for the scheduler (tests, scripts)
+    (timer as { unref?: () => void }).unref?.();
+    this.timers.set(id, timer);
+  }
+
+  private async lastRuns(runs?: JobRun[]): Promise<Map<string, JobRun>> {
+    const last = new Map<string, JobRun>();
+    (runs ?? await this.log.list()).forEach(run => {
+      if (!last.has(run.job)) last.set(run.job, run);
+    });
+    return last;
+  }
+
+  async getStatus(recentRuns: number = 20): Promise<JobsResponse> {
+    const runs = await this.log.list();
+    const lastRuns = await this.lastRuns(runs);
+    const now = this.now();
+    const jobs: JobStatus[] = Array.from(this.jobs.values()).map(job => ({
+      job: job.id,
+      label: job.label,
+      schedule: job.schedule,
+      running: this.running.has(job.id),
+      lastRun: lastRuns.get(job.id) ?? null,
+      nextRunAt: job.cron ? nextCronRun(job.cron, now)?.getTime() ?? null : null,
+    }));
+    return { schedulerActive: this.started, jobs, runs: runs.slice(0, recentRuns) };
+  }
+}
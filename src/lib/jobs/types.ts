@@ -0,0 +1,38 @@
+// Scheduled job runs.
+// Safe to import from client code: no Node built-ins here, the implementations live in their own files.
+
+// schedule = in-process timer, http = hosted cron calling POST /api/jobs/run, manual = someone asked for one job
+export type JobTrigger = 'schedule' | 'http' | 'manual';
+
+export interface JobRun {
+  id: string;
+  job: string;
+  trigger: JobTrigger;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  status: 'success' | 'failed';
+  notificationsProduced: number;
+  error?: string;
+}
+
+export interface JobStatus {
+  job: string;
+  label: string;
+  schedule: string | null;   // null = only runs when triggered
+  running: boolean;
+  lastRun: JobRun | null;
+  nextRunAt: number | null;
+}
+
+// GET /api/jobs
+export interface JobsResponse {
+  schedulerActive: boolean;   // false when only the HTTP trigger drives the schedule
+  jobs: JobStatus[];
+  runs: JobRun[];             // Newest first
+}
+
+export interface JobRunLog {
+  list(limit?: number): Promise<JobRun[]>;   // Newest first
+  add(run: JobRun): Promise<void>;           // The log caps its size
+}
@@ -0,0 +1,91 @@
+// src/lib/manpower-disciplines.ts
+// Manpower disciplines shown across the dashboard. Adding a discipline here (plus its header aliases under
+// HEADER_ALIASES.manpower and a field on ManpowerSheetRow) makes it available to the Manpower reader,
+// charts, summaries, forecasts and the /forecast command.
+
+import type { ManpowerSheetRow } from '@/services/google-sheets';
+
+export type ManpowerDisciplineField = 'hvacManpower' | 'firefightingManpower' | 'fireAlarmManpower' | 'securityManpower';
+export type ChartColorKey = 'chart1' | 'chart2' | 'chart3' | 'chart4' | 'chart5';
+
+export interface ManpowerDisciplineConfig {
+  id: string;                      // Used in /forecast discipline=<id> and notifications
+  field: ManpowerDisciplineField;  // Column on ManpowerSheetRow
+  label: string;
+  labelAr: string;
+  shortLabel: string;              // Chart legends / summary cards
+  aliases: readonly string[];      // Extra values accepted by discipline=
+  chartColor: ChartColorKey;
+}
+
+export const MANPOWER_DISCIPLINES = [
+  { id: 'hvac', field: 'hvacManpower', label: 'HVAC', labelAr: 'التكييف', shortLabel: 'HVAC', aliases: [], chartColor: 'chart1' },
+  { id: 'firefighting', field: 'firefightingManpower', label: 'Firefighting', labelAr: 'مكافحة الحريق', shortLabel: 'FF', aliases: ['ff'], chartColor: 'chart2' },
+  { id: 'firealarm', field: 'fireAlarmManpower', label: 'Fire Alarm', labelAr: 'إنذار الحريق', shortLabel: 'FA', aliases: ['fa', 'fire_alarm'], chartColor: 'chart3' },
+  { id: 'security', field: 'securityManpower', label: 'Security Subcontractor', labelAr: 'مقاول الأمن', shortLabel: 'Security', aliases: ['sec', 'security_subcontractor'], chartColor: 'chart4' },
+] as const satisfies readonly ManpowerDisciplineConfig[];
+
+export type ManpowerDisciplineId = (typeof MANPOWER_DISCIPLINES)[number]['id'];
+export type DisciplineCategory = 'HVAC' | 'FF' | 'FA' | 'Other'; // RFI / MIR logs and plan activity names
+export type ForecastDiscipline = ManpowerDisciplineId | 'total';
+
+// Every value accepted by /forecast discipline=, total last
+export const FORECAST_DISCIPLINES: readonly ForecastDiscipline[] = [...MANPOWER_DISCIPLINES.map(d => d.id), 'total'];
+
+export type ManpowerValues = Pick<ManpowerSheetRow, 'dateString' | 'totalManpower'> & Partial<Record<ManpowerDisciplineField, number | null>>;
+
+export function getManpowerDiscipline(id: string): ManpowerDisciplineConfig | undefined {
+  return MANPOWER_DISCIPLINES.find(d => d.id === id);
+}
+
+// Accepts ids, aliases and labels in any case ("FA", "Fire Alarm", "security"); null when unknown
+export function resolveManpowerDiscipline(value: string | null | undefined): ForecastDiscipline | null {
+  const normalized = (value ?? '').trim().toLowerCase();
+  if (!normalized) return null;
+  if (normalized === 'total') return 'total';
+  const compact = normalized.replace(/[\s_-]+/g, '');
+  const match = MANPOWER_DISCIPLINES.find(d =>
+    d.id === normalized ||
+    d.label.toLowerCase().replace(/[\s_-]+/g, '') === compact ||
+    (d.aliases as readonly string[]).includes(normalized));
+  return match ? match.id : null;
+}
+
+export function getDisciplineLabel(discipline: ForecastDiscipline, locale: 'en' | 'ar' = 'en'): string {
+  if (discipline === 'total') return locale === 'ar' ? 'الإجمالي' : 'Total';
+  const config = getManpowerDiscipline(discipline);
+  return config ? (locale === 'ar' ? config.labelAr : config.label) : discipline;
+}
+
+// Total column when present, otherwise the sum of every configured discipline
+export function getRowTotalManpower(row: ManpowerValues): number {
+  if (typeof row.totalManpower === 'number') return row.totalManpower;
+  return MANPOWER_DISCIPLINES.reduce((sum, d) => sum + (row[d.field] ?? 0), 0);
+}
+
+export function normalizeDisciplineCategory(value: string | null | undefined): DisciplineCategory {
+  const lower = value?.toLowerCase().trim() ?? '';
+  if (!lower) return 'Other';
+  if (lower.includes('hvac')) return 'HVAC';
+  if (lower.includes('alarm') || /\bfa\b/.test(lower)) return 'FA';
+  if (lower.includes('fire fighting') || lower.includes('firefighting') || /\bff\b/.test(lower)) return 'FF';
+  return 'Other';
+}
+
+// Plan activity name -> manpower discipline; security scope is named explicitly in the plan
+export function getActivityDiscipline(activity: string | null | undefined): ManpowerDisciplineId | null {
+  const name = (activity ?? '').toLowerCase();
+  if (/security|cctv|access control|card reader|intercom/.test(name)) return 'security';
+  switch (normalizeDisciplineCategory(activity)) {
+    case 'HVAC': return 'hvac';
+    case 'FF': return 'firefighting';
+    case 'FA': return 'firealarm';
+    default: return null;
+  }
+}
+
+export function getDisciplineValue(row: ManpowerValues, discipline: ForecastDiscipline): number | null {
+  if (discipline === 'total') return row.totalManpower ?? null;
+  const config = getManpowerDiscipline(discipline);
+  return config ? row[config.field] ?? null : null;
+}
@@ -0,0 +1,23 @@
+import { JsonArrayFile } from '@/lib/storage/json-file';
+import type { DeliveryLog, DeliveryRecord } from './types';
+
+export const MAX_LOGGED_DELIVERIES = 200;
+
+export class FileDeliveryLog implements DeliveryLog {
+  private readonly file: JsonArrayFile<DeliveryRecord>;
+  private readonly maxItems: number;
+
+  constructor(filePath: string, maxItems: number = MAX_LOGGED_DELIVERIES) {
+    this.file = new JsonArrayFile(filePath);
+    this.maxItems = maxItems;
+  }
+
+  async list(limit?: number): Promise<DeliveryRecord[]> {
+    const records = await this.file.read();
+    return limit === undefined ? records : records.slice(0, limit);
+  }
+
+  add(record: DeliveryRecord): Promise<void> {
+    return this.file.mutate(current => ({ next: [record, ...current].slice(0, this.maxItems), result: undefined }));
+  }
+}
@@ -0,0 +1,41 @@
+import { JsonArrayFile } from '@/lib/storage/json-file';
+import type { NotificationPatch, NotificationStore, ProactiveNotification } from './types';
+
+export const MAX_STORED_NOTIFICATIONS = 100;
+
+// Notifications in a single JSON file (see JsonArrayFile for the write queue)
+export class FileNotificationStore implements NotificationStore {
+  private readonly file: JsonArrayFile<ProactiveNotification>;
+  private readonly maxItems: number;
+
+  constructor(filePath: string, maxItems: number = MAX_STORED_NOTIFICATIONS) {
+    this.file = new JsonArrayFile(filePath);
+    this.maxItems = maxItems;
+  }
+
+  list(): Promise<ProactiveNotification[]> {
+    return this.file.read();
+  }
+
+  add(notifications: ProactiveNotification[]): Promise<void> {
+    return this.file.mutate(current => ({ next: [...notifications, ...current].slice(0, this.maxItems), result: undefined }));
+  }
+
+  update(id: string, patch: NotificationPatch): Promise<ProactiveNotification | null> {
+    return this.file.mutate(current => {
+      const index = current.findIndex(n => n.id === id);
+      if (index === -1) return { next: current, result: null };
+      const updated = { ...current[index], ...patch };
+      const next = [...current];
+      next[index] = updated;
+      return { next, result: updated };
+    });
+  }
+
+  prune(now: number = Date.now()): Promise<number> {
+    return this.file.mutate(current => {
+      const next = current.filter(n => !n.expiresAt || n.expiresAt > now);
+      return { next, result: current.length - next.length };
+    });
+  }
+}
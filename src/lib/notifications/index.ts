@@ -0,0 +1,45 @@
+// Server-side entry point for notification storage (imports Node built-ins; do not import from client components).
+import path from 'path';
+import { FileNotificationStore } from './file-store';
+import { FileDeliveryLog } from './delivery-log';
+import type { DeliveryLog, NotificationStore } from './types';
+
+export * from './types';
+export { FileNotificationStore, MAX_STORED_NOTIFICATIONS } from './file-store';
+export { FileDeliveryLog, MAX_LOGGED_DELIVERIES } from './delivery-log';
+export { sendMail, formatMessage, SmtpError, type SmtpConfig, type MailMessage } from './smtp';
+
+export const DEFAULT_NOTIFICATIONS_FILE = '.data/notifications.json';
+export const DEFAULT_DELIVERIES_FILE = '.data/deliveries.json';
+
+// Kept on globalThis like the analysis job runner: instrumentation (scheduled runs) and each route handler are
+// bundled separately, and they must share one store and its write queue.
+const globalForNotifications = globalThis as unknown as { notificationStore?: NotificationStore | null; deliveryLog?: DeliveryLog | null };
+
+// NOTIFICATIONS_FILE (default ".data/notifications.json") survives restarts and is shared by every request served
+// from the same deployment volume.
+export function getNotificationStore(): NotificationStore {
+  if (!globalForNotifications.notificationStore) {
+    const file = process.env.NOTIFICATIONS_FILE || DEFAULT_NOTIFICATIONS_FILE;
+    globalForNotifications.notificationStore = new FileNotificationStore(path.resolve(process.cwd(), file));
+  }
+  return globalForNotifications.notificationStore;
+}
+
+// Tests swap in their own store; null goes back to the configured file
+export function setNotificationStore(next: NotificationStore | null): void {
+  globalForNotifications.notificationStore = next;
+}
+
+// NOTIFICATION_DELIVERIES_FILE (default ".data/deliveries.json"): every email/webhook attempt, newest first
+export function getDeliveryLog(): DeliveryLog {
+  if (!globalForNotifications.deliveryLog) {
+    const file = process.env.NOTIFICATION_DELIVERIES_FILE || DEFAULT_DELIVERIES_FILE;
+    globalForNotifications.deliveryLog = new FileDeliveryLog(path.resolve(process.cwd(), file));
+  }
+  return globalForNotifications.deliveryLog;
+}
+
+export function setDeliveryLog(next: DeliveryLog | null): void {
+  globalForNotifications.deliveryLog = next;
+}
@@ -0,0 +1,240 @@
+// Minimal SMTP client for the notification digest: implicit TLS or STARTTLS when the server offers it, AUTH PLAIN,
+// UTF-8 bodies sent base64-encoded. Enough for relays like Office 365/Gmail and local catchers (MailHog, Mailpit).
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;      // true = TLS from the first byte (usually port 465)
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;         // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export class SmtpError extends Error {
+  public readonly code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 15000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads complete (possibly multi-line "250-...") replies off the socket, one per read()
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private readonly onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf-8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      if (line.length < 4 || line[3] === ' ') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines.map(l => l.slice(4)) });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private readonly onError = (error: Error) => this.fail(error);
+  private readonly onTimeout = () => {
+    this.fail(new SmtpError(`SMTP timed out after ${this.timeoutMs}ms`));
+    this.socket.destroy();
+  };
+  private readonly onClose = () => this.fail(new SmtpError('SMTP connection closed'));
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('timeout', this.onTimeout);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: net.Socket) {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('timeout', this.onTimeout);
+    socket.off('close', this.onClose);
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiter) {
+      this.waiter.reject(this.failure);
+      this.waiter = null;
+    }
+  }
+
+  private flush() {
+    if (this.waiter && this.replies.length > 0) {
+      this.waiter.resolve(this.replies.shift()!);
+      this.waiter = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) return Promise.resolve(this.replies.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiter = { resolve, reject }; });
+  }
+
+  async expect(codes: number[], what: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${what} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], what: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, what);
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    this.detach(this.socket);
+    const plain = this.socket;
+    this.socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const secured = tls.connect({ socket: plain, servername }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+    this.attach(this.socket);
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.command('QUIT', [221]);
+    } catch {
+      // The message is already accepted; a rude hang-up doesn't matter
+    }
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+
+  destroy() {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+}
+
+const addressOf = (mailbox: string) => /<([^>]+)>/.exec(mailbox)?.[1]?.trim() ?? mailbox.trim();
+
+// RFC 2047 so Arabic subjects survive any relay
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+
+const base64Body = (value: string) =>
+  (Buffer.from(value, 'utf-8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+
+export function formatMessage(message: MailMessage, date: Date = new Date()): string {
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, body: string) =>
+    [`Content-Type: ${type}; charset=UTF-8`, 'Content-Transfer-Encoding: base64', '', base64Body(body)].join('\r\n');
+
+  if (!message.html) {
+    return [...headers, part('text/plain', message.text)].join('\r\n');
+  }
+  const boundary = `digest-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) throw new SmtpError('No recipients');
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+
+  const socket = await new Promise<net.Socket>((resolve, reject) => {
+    const onConnect = () => {
+      connected.off('error', reject);
+      resolve(connected);
+    };
+    const connected: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    connected.once('error', reject);
+    connected.setTimeout(timeoutMs, () => {
+      connected.destroy();
+      reject(new SmtpError(`SMTP connect to ${config.host}:${config.port} timed out`));
+    });
+  });
+
+  const connection = new SmtpConnection(socket, timeoutMs);
+  try {
+    await connection.expect([220], 'greeting');
+    const hostname = os.hostname() || 'localhost';
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+
+    if (!config.secure && ehlo.lines.some(l => l.toUpperCase().startsWith('STARTTLS'))) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host);
+      ehlo = await connection.command(`EHLO ${hostname}`, [250], 'EHLO');
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`, 'utf-8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+    await connection.command('DATA', [354]);
+    // Bodies are base64, so only header lines could start with a dot; stuff them anyway
+    const data = formatMessage(message).replace(/^\./gm, '..');
+    await connection.command(`${data}\r\n.`, [250], 'message');
+    await connection.close();
+  } catch (error) {
+    connection.destroy();
+    throw error;
+  }
+}
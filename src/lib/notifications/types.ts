@@ -0,0 +1,91 @@
+// Proactive notification storage.
+// Safe to import from client code: no Node built-ins here, the implementations live in their own files.
+
+export type NotificationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ProactiveNotification {
+  id: string;
+  type: 'critical_risk' | 'workforce_shortage' | 'trend_alert' | 'material_delay' | 'system_warning';
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  recommendations: string[];
+  data: any;
+  timestamp: number;
+  acknowledged: boolean;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;   // Hidden from the active list until then
+  expiresAt?: number;
+}
+
+export interface NotificationSummary {
+  total: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  recent: ProactiveNotification[];
+}
+
+// GET /api/notifications
+export interface NotificationsResponse {
+  notifications: ProactiveNotification[];
+  summary: NotificationSummary;
+}
+
+export type NotificationAction = 'acknowledge' | 'snooze' | 'expire';
+
+export type NotificationPatch = Partial<Pick<ProactiveNotification, 'acknowledged' | 'acknowledgedAt' | 'snoozedUntil' | 'expiresAt'>>;
+
+// What autonomous-insights and the /api/notifications routes need from a backend
+export interface NotificationStore {
+  list(): Promise<ProactiveNotification[]>;                                      // Newest first, including inactive ones
+  add(notifications: ProactiveNotification[]): Promise<void>;                    // Prepends; the store caps its size
+  update(id: string, patch: NotificationPatch): Promise<ProactiveNotification | null>; // null when the id is unknown
+  prune(now?: number): Promise<number>;                                          // Drops expired entries, returns how many
+}
+
+export function isNotificationActive(notification: ProactiveNotification, now: number = Date.now()): boolean {
+  return !notification.acknowledged &&
+    (!notification.expiresAt || notification.expiresAt > now) &&
+    (!notification.snoozedUntil || notification.snoozedUntil <= now);
+}
+
+export function summarizeNotifications(active: ProactiveNotification[]): NotificationSummary {
+  return {
+    total: active.length,
+    critical: active.filter(n => n.severity === 'critical').length,
+    high: active.filter(n => n.severity === 'high').length,
+    medium: active.filter(n => n.severity === 'medium').length,
+    low: active.filter(n => n.severity === 'low').length,
+    recent: active.slice(0, 5), // Last 5 notifications
+  };
+}
+
+// --- Delivery (email digest, webhook) ---
+
+export type DeliveryChannel = 'email' | 'webhook';
+
+// Which channels each severity goes to
+export type NotificationRouting = Record<NotificationSeverity, DeliveryChannel[]>;
+
+export interface DeliveryRecord {
+  id: string;
+  channel: DeliveryChannel;
+  notificationIds: string[];
+  status: 'sent' | 'failed';
+  attempts: number;
+  startedAt: number;
+  durationMs: number;
+  error?: string;
+}
+
+// GET /api/notifications/deliveries
+export interface DeliveriesResponse {
+  deliveries: DeliveryRecord[];
+}
+
+export interface DeliveryLog {
+  list(limit?: number): Promise<DeliveryRecord[]>;   // Newest first
+  add(record: DeliveryRecord): Promise<void>;        // The log caps its size
+}
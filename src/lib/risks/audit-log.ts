@@ -0,0 +1,22 @@
+import { JsonArrayFile } from '@/lib/storage/json-file';
+import type { RiskAuditEntry, RiskAuditLog } from './types';
+
+// Uncapped: the trail is the only history the register has, and a busy year is a few thousand small entries
+export class FileRiskAuditLog implements RiskAuditLog {
+  private readonly file: JsonArrayFile<RiskAuditEntry>;
+
+  constructor(filePath: string) {
+    this.file = new JsonArrayFile(filePath);
+  }
+
+  async list(riskId?: string): Promise<RiskAuditEntry[]> {
+    const entries = await this.file.read();
+    if (!riskId) return entries;
+    const wanted = riskId.trim().toLowerCase();
+    return entries.filter(entry => entry.riskId.toLowerCase() === wanted);
+  }
+
+  add(entry: RiskAuditEntry): Promise<void> {
+    return this.file.mutate(current => ({ next: [entry, ...current], result: undefined }));
+  }
+}
@@ -0,0 +1,34 @@
+import { JsonArrayFile } from '@/lib/storage/json-file';
+import type { RiskDraftQueue, ScannedDraftPatch, ScannedRiskDraft } from './types';
+
+// Decided drafts are kept (up to the cap) so the scanner remembers which sources it already drafted
+export const MAX_QUEUED_DRAFTS = 500;
+
+export class FileRiskDraftQueue implements RiskDraftQueue {
+  private readonly file: JsonArrayFile<ScannedRiskDraft>;
+  private readonly maxItems: number;
+
+  constructor(filePath: string, maxItems: number = MAX_QUEUED_DRAFTS) {
+    this.file = new JsonArrayFile(filePath);
+    this.maxItems = maxItems;
+  }
+
+  list(): Promise<ScannedRiskDraft[]> {
+    return this.file.read();
+  }
+
+  add(drafts: ScannedRiskDraft[]): Promise<void> {
+    return this.file.mutate(current => ({ next: [...drafts, ...current].slice(0, this.maxItems), result: undefined }));
+  }
+
+  update(id: string, patch: ScannedDraftPatch): Promise<ScannedRiskDraft | null> {
+    return this.file.mutate(current => {
+      const index = current.findIndex(d => d.id === id);
+      if (index === -1) return { next: current, result: null };
+      const updated = { ...current[index], ...patch };
+      const next = [...current];
+      next[index] = updated;
+      return { next, result: updated };
+    });
+  }
+}
@@ -0,0 +1,95 @@
+// Server-side entry point for Risk Register writes (imports googleapis; do not import from client components).
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { SHEET_NAMES, type RiskRegisterItem } from '@/services/google-sheets';
+import { GoogleSheetsRiskStore } from './sheets-store';
+import { FileRiskAuditLog } from './audit-log';
+import { FileRiskDraftQueue } from './draft-queue';
+import { diffRisk, RISK_EDITOR_HEADER, UNKNOWN_RISK_EDITOR, type RiskAuditEntry, type RiskAuditLog, type RiskDraftQueue, type RiskStore } from './types';
+
+export * from './types';
+export { GoogleSheetsRiskStore, type SheetsRiskStoreConfig } from './sheets-store';
+export { MemoryRiskStore } from './memory-store';
+export { FileRiskAuditLog } from './audit-log';
+export { FileRiskDraftQueue, MAX_QUEUED_DRAFTS } from './draft-queue';
+export { nextRiskId } from './sheet-row';
+
+export const DEFAULT_RISK_AUDIT_FILE = '.data/risk-audit.json';
+export const DEFAULT_RISK_DRAFTS_FILE = '.data/risk-drafts.json';
+
+let store: RiskStore | null = null;
+let auditLog: RiskAuditLog | null = null;
+let draftQueue: RiskDraftQueue | null = null;
+
+// GOOGLE_SHEET_ID + GOOGLE_SERVICE_ACCOUNT_CREDENTIALS, tab RISK_REGISTER_SHEET_NAME (default "RiskRegister")
+export function getRiskStore(): RiskStore {
+  if (!store) {
+    store = new GoogleSheetsRiskStore({
+      spreadsheetId: process.env.GOOGLE_SHEET_ID,
+      sheetName: process.env.RISK_REGISTER_SHEET_NAME || SHEET_NAMES.RISK_REGISTER,
+      credentials: process.env.GOOGLE_SERVICE_ACCOUNT_CREDENTIALS,
+    });
+  }
+  return store;
+}
+
+// Tests swap in a MemoryRiskStore; null goes back to the sheet
+export function setRiskStore(next: RiskStore | null): void {
+  store = next;
+}
+
+// RISK_AUDIT_FILE (default ".data/risk-audit.json"): every change made through the dashboard, newest first
+export function getRiskAuditLog(): RiskAuditLog {
+  if (!auditLog) {
+    const file = process.env.RISK_AUDIT_FILE || DEFAULT_RISK_AUDIT_FILE;
+    auditLog = new FileRiskAuditLog(path.resolve(process.cwd(), file));
+  }
+  return auditLog;
+}
+
+export function setRiskAuditLog(next: RiskAuditLog | null): void {
+  auditLog = next;
+}
+
+// RISK_DRAFTS_FILE (default ".data/risk-drafts.json"): scanner drafts waiting for someone to confirm or dismiss them
+export function getRiskDraftQueue(): RiskDraftQueue {
+  if (!draftQueue) {
+    const file = process.env.RISK_DRAFTS_FILE || DEFAULT_RISK_DRAFTS_FILE;
+    draftQueue = new FileRiskDraftQueue(path.resolve(process.cwd(), file));
+  }
+  return draftQueue;
+}
+
+export function setRiskDraftQueue(next: RiskDraftQueue | null): void {
+  draftQueue = next;
+}
+
+export function getRiskEditor(request: Request): string {
+  const header = request.headers.get(RISK_EDITOR_HEADER);
+  if (!header) return UNKNOWN_RISK_EDITOR;
+  try {
+    return decodeURIComponent(header).trim().slice(0, 100) || UNKNOWN_RISK_EDITOR;
+  } catch {
+    return UNKNOWN_RISK_EDITOR;
+  }
+}
+
+// Called after the sheet write succeeded: a failure here is logged, not reported, so the user doesn't retry a
+// change that already happened. Returns the entry, or null when nothing audited changed.
+export async function recordRiskChange(
+  action: RiskAuditEntry['action'],
+  actor: string,
+  previous: RiskRegisterItem | null,
+  risk: RiskRegisterItem,
+  now: number = Date.now(),
+): Promise<RiskAuditEntry | null> {
+  const changes = diffRisk(previous, risk);
+  if (!risk.riskId || (previous && changes.length === 0)) return null;
+  const entry: RiskAuditEntry = { id: randomUUID(), riskId: risk.riskId, action, actor, timestamp: now, changes };
+  try {
+    await getRiskAuditLog().add(entry);
+  } catch (error) {
+    console.error(`[risks] Could not record ${action} of ${risk.riskId} in the audit trail:`, error);
+  }
+  return entry;
+}
@@ -0,0 +1,30 @@
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import { applyRiskPatch, draftToRow, nextRiskId, rowToRisk } from './sheet-row';
+import type { RiskDraft, RiskPatch, RiskStore, RiskUpdateResult } from './types';
+
+// In-process register with the same id and column rules as the sheet; backs the route tests and local experiments
+export class MemoryRiskStore implements RiskStore {
+  private risks: RiskRegisterItem[];
+
+  constructor(initial: RiskRegisterItem[] = []) {
+    this.risks = initial.map(risk => ({ ...risk }));
+  }
+
+  async list(): Promise<RiskRegisterItem[]> {
+    return this.risks.map(risk => ({ ...risk }));
+  }
+
+  async add(draft: RiskDraft, now: number = Date.now()): Promise<RiskRegisterItem> {
+    const risk = rowToRisk(draftToRow(nextRiskId(this.risks.map(r => r.riskId)), draft, now));
+    this.risks.push(risk);
+    return { ...risk };
+  }
+
+  async update(riskId: string, patch: RiskPatch, now: number = Date.now()): Promise<RiskUpdateResult | null> {
+    const index = this.risks.findIndex(r => r.riskId?.trim().toLowerCase() === riskId.trim().toLowerCase());
+    if (index === -1) return null;
+    const previous = this.risks[index];
+    this.risks[index] = applyRiskPatch(previous, patch, now);
+    return { previous: { ...previous }, risk: { ...this.risks[index] } };
+  }
+}
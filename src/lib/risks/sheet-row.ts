@@ -0,0 +1,110 @@
+import { format, isValid, parse } from 'date-fns';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import { RISK_ID_PREFIX, type EditableRiskField, type RiskDraft } from './types';
+
+// RiskRegister columns A..Q, in sheet order
+export const RISK_COLUMNS = [
+  'riskId', 'riskDescription', 'systemFocus', 'likelyCauses', 'potentialImpactConsequence', 'likelihood',
+  'severityImpactLevel', 'riskLevelScore', 'riskCategory', 'mitigationStrategiesActions', 'actionOwner',
+  'dueDateString', 'status', 'residualRiskLevel', 'lastUpdatedString', 'sourceUrl', 'detectionDateString',
+] as const;
+
+type RiskColumn = typeof RISK_COLUMNS[number];
+
+export function columnLetter(field: RiskColumn | EditableRiskField): string {
+  return String.fromCharCode(65 + RISK_COLUMNS.indexOf(field));
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'M/d/yy'];
+
+function toTimestamp(value: string | null): number | null {
+  if (!value) return null;
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value.trim(), pattern, new Date());
+    if (isValid(date)) return date.getTime();
+  }
+  return null;
+}
+
+// Dates written by the dashboard (Last Updated, Due Date from the picker)
+export const formatSheetDate = (time: number) => format(time, 'yyyy-MM-dd');
+
+export function rowToRisk(row: unknown[]): RiskRegisterItem {
+  const cell = (field: RiskColumn) => {
+    const value = row[RISK_COLUMNS.indexOf(field)];
+    return value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim();
+  };
+  return {
+    riskId: cell('riskId'),
+    riskDescription: cell('riskDescription'),
+    systemFocus: cell('systemFocus'),
+    likelyCauses: cell('likelyCauses'),
+    potentialImpactConsequence: cell('potentialImpactConsequence'),
+    likelihood: cell('likelihood'),
+    severityImpactLevel: cell('severityImpactLevel'),
+    riskLevelScore: cell('riskLevelScore'),
+    riskCategory: cell('riskCategory'),
+    mitigationStrategiesActions: cell('mitigationStrategiesActions'),
+    actionOwner: cell('actionOwner'),
+    dueDateString: cell('dueDateString'),
+    dueDateTimestamp: toTimestamp(cell('dueDateString')),
+    status: cell('status'),
+    residualRiskLevel: cell('residualRiskLevel'),
+    lastUpdatedString: cell('lastUpdatedString'),
+    lastUpdatedTimestamp: toTimestamp(cell('lastUpdatedString')),
+    sourceUrl: cell('sourceUrl'),
+    detectionDateString: cell('detectionDateString'),
+    detectionDateTimestamp: toTimestamp(cell('detectionDateString')),
+  };
+}
+
+// Apply a patch to a stored risk, keeping the parsed timestamps in step with their strings
+export function applyRiskPatch(risk: RiskRegisterItem, patch: Partial<Record<EditableRiskField, string | null>>, now: number): RiskRegisterItem {
+  const lastUpdatedString = formatSheetDate(now);
+  const next = { ...risk, ...patch, lastUpdatedString, lastUpdatedTimestamp: toTimestamp(lastUpdatedString) };
+  if ('dueDateString' in patch) next.dueDateTimestamp = toTimestamp(patch.dueDateString ?? null);
+  return next;
+}
+
+// Gemini drafts may carry arrays where the sheet has text
+export const formatPotentialArray = (value: string | string[] | undefined | null, fallback: string = 'TBD'): string => {
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'string' && value.trim() !== '') return value;
+  if (value === null || value === undefined) return fallback;
+  // Empty strings (or numbers like 0) are kept as typed rather than becoming 'TBD'
+  return String(value);
+};
+
+// The row POST /api/risks/add appends, with the same defaults the analyze -> confirm flow always had
+export function draftToRow(riskId: string, draft: RiskDraft, now: number): string[] {
+  return [
+    /* A */ riskId,
+    /* B */ draft.riskDescription ?? 'N/A',
+    /* C */ formatPotentialArray(draft.systemFocus, 'TBD'),
+    /* D */ formatPotentialArray(draft.likelyCauses, 'TBD'),
+    /* E */ formatPotentialArray(draft.potentialImpactConsequence, 'TBD'),
+    /* F */ formatPotentialArray(draft.likelihood, 'Medium'),
+    /* G */ formatPotentialArray(draft.severityImpactLevel, 'Medium'),
+    /* H */ formatPotentialArray(draft.riskLevelScore, 'Medium'),
+    /* I */ formatPotentialArray(draft.riskCategory, 'TBD'),
+    /* J */ formatPotentialArray(draft.mitigationStrategiesActions, 'TBD'),
+    /* K */ formatPotentialArray(draft.actionOwner, 'TBD'),
+    /* L */ draft.dueDateString ?? 'TBD',
+    /* M */ formatPotentialArray(draft.status, 'Open'),
+    /* N */ formatPotentialArray(draft.residualRiskLevel ?? draft.riskLevelScore, 'Medium'),
+    /* O */ formatSheetDate(now),
+    /* P */ draft.sourceUrl ?? '',
+    /* Q */ draft.detectionDateString ?? '',
+  ];
+}
+
+// Highest MR-### plus one, zero-padded to three digits
+export function nextRiskId(existingIds: (string | null | undefined)[], prefix: string = RISK_ID_PREFIX): string {
+  const last = existingIds.reduce((max, id) => {
+    const text = String(id ?? '').trim();
+    if (!text.startsWith(`${prefix}-`)) return max;
+    const number = parseInt(text.substring(prefix.length + 1), 10);
+    return isNaN(number) ? max : Math.max(max, number);
+  }, 0);
+  return `${prefix}-${String(last + 1).padStart(3, '0')}`;
+}
@@ -0,0 +1,85 @@
+import { GoogleAuth } from 'google-auth-library';
+import { google, sheets_v4 } from 'googleapis';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import { applyRiskPatch, columnLetter, draftToRow, nextRiskId, RISK_COLUMNS, rowToRisk } from './sheet-row';
+import { RiskStoreConfigError, type EditableRiskField, type RiskDraft, type RiskPatch, type RiskStore, type RiskUpdateResult } from './types';
+
+export interface SheetsRiskStoreConfig {
+  spreadsheetId?: string;
+  sheetName: string;
+  credentials?: string;   // Service account JSON
+}
+
+// The RiskRegister tab through the Sheets API (the dashboard itself reads it from the published CSV)
+export class GoogleSheetsRiskStore implements RiskStore {
+  private client: sheets_v4.Sheets | null = null;
+
+  constructor(private readonly config: SheetsRiskStoreConfig) {}
+
+  private async sheets(): Promise<{ sheets: sheets_v4.Sheets; spreadsheetId: string }> {
+    const { spreadsheetId, credentials } = this.config;
+    if (!spreadsheetId || !credentials) {
+      throw new RiskStoreConfigError('Server configuration error: Google Sheets access details missing.');
+    }
+    if (!this.client) {
+      const text = credentials.trim();
+      if (!text.startsWith('{') || !text.endsWith('}')) {
+        throw new RiskStoreConfigError('Invalid format for Google Service Account credentials.');
+      }
+      const auth = new GoogleAuth({ credentials: JSON.parse(text), scopes: ['https://www.googleapis.com/auth/spreadsheets'] });
+      this.client = google.sheets({ version: 'v4', auth: (await auth.getClient()) as any });
+    }
+    return { sheets: this.client, spreadsheetId };
+  }
+
+  private get lastColumn(): string {
+    return columnLetter(RISK_COLUMNS[RISK_COLUMNS.length - 1]);
+  }
+
+  // Data rows with their 1-based sheet row numbers (header is row 1)
+  private async readRows(): Promise<{ row: number; risk: RiskRegisterItem }[]> {
+    const { sheets, spreadsheetId } = await this.sheets();
+    const response = await sheets.spreadsheets.values.get({ spreadsheetId, range: `${this.config.sheetName}!A2:${this.lastColumn}` });
+    return (response.data.values ?? [])
+      .map((values, index) => ({ row: index + 2, risk: rowToRisk(values) }))
+      .filter(entry => entry.risk.riskId);
+  }
+
+  async list(): Promise<RiskRegisterItem[]> {
+    return (await this.readRows()).map(entry => entry.risk);
+  }
+
+  async add(draft: RiskDraft, now: number = Date.now()): Promise<RiskRegisterItem> {
+    const { sheets, spreadsheetId } = await this.sheets();
+    const riskId = nextRiskId((await this.readRows()).map(entry => entry.risk.riskId));
+    const values = draftToRow(riskId, draft, now);
+    await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: `${this.config.sheetName}!A1`,
+      valueInputOption: 'USER_ENTERED',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: { values: [values] },
+    });
+    return rowToRisk(values);
+  }
+
+  // Writes only the patched cells plus Last Updated, so concurrent edits to other columns survive
+  async update(riskId: string, patch: RiskPatch, now: number = Date.now()): Promise<RiskUpdateResult | null> {
+    const entry = (await this.readRows()).find(e => e.risk.riskId?.toLowerCase() === riskId.trim().toLowerCase());
+    if (!entry) return null;
+    const updated = applyRiskPatch(entry.risk, patch, now);
+    const fields = [...Object.keys(patch) as EditableRiskField[], 'lastUpdatedString' as const];
+    const { sheets, spreadsheetId } = await this.sheets();
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: fields.map(field => ({
+          range: `${this.config.sheetName}!${columnLetter(field)}${entry.row}`,
+          values: [[updated[field] ?? '']],
+        })),
+      },
+    });
+    return { previous: entry.risk, risk: updated };
+  }
+}
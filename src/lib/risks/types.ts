@@ -0,0 +1,143 @@
+// Risk Register writes (add, edit, close).
+// Safe to import from client code: no Node built-ins here, the implementations live in their own files.
+import type { RiskRegisterItem } from '@/services/google-sheets';
+
+// Columns PATCH /api/risks/:riskId may change; everything else is fixed once the risk is registered
+export const EDITABLE_RISK_FIELDS = ['status', 'actionOwner', 'dueDateString', 'residualRiskLevel', 'mitigationStrategiesActions'] as const;
+
+export type EditableRiskField = typeof EDITABLE_RISK_FIELDS[number];
+
+export type RiskPatch = Partial<Pick<RiskRegisterItem, EditableRiskField>>;
+
+// What the analyze -> confirm flow sends to POST /api/risks/add
+export type RiskDraft = Omit<Partial<RiskRegisterItem>, 'riskId' | 'lastUpdatedString' | 'lastUpdatedTimestamp'>;
+
+// DELETE /api/risks/:riskId sets this status instead of removing the row
+export const CLOSED_RISK_STATUS = 'Closed';
+
+export const RISK_STATUS_OPTIONS = ['Open', 'In Progress', 'Monitored', 'Ongoing', 'Needs Review', CLOSED_RISK_STATUS];
+
+export const RISK_ID_PREFIX = 'MR';
+
+// PATCH / DELETE /api/risks/:riskId
+export interface RiskResponse {
+  risk: RiskRegisterItem;
+}
+
+export interface RiskUpdateResult {
+  previous: RiskRegisterItem;
+  risk: RiskRegisterItem;
+}
+
+// What the /api/risks routes need from a backend
+export interface RiskStore {
+  list(): Promise<RiskRegisterItem[]>;                                                      // Sheet order
+  add(draft: RiskDraft, now?: number): Promise<RiskRegisterItem>;                           // Assigns the next MR-### id
+  update(riskId: string, patch: RiskPatch, now?: number): Promise<RiskUpdateResult | null>; // null when the id is unknown
+}
+
+// Thrown when the backend can't be reached at all (missing credentials), as opposed to a failed write
+export class RiskStoreConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RiskStoreConfigError';
+  }
+}
+
+// --- Audit trail ---
+
+// Who made the change: free text from the dashboard (URI-encoded so Arabic names survive the header)
+export const RISK_EDITOR_HEADER = 'x-risk-editor';
+
+export const UNKNOWN_RISK_EDITOR = 'Dashboard';
+
+// Columns whose history is kept; Last Updated is implied by the entry timestamp
+export const AUDITED_RISK_FIELDS = [
+  'status', 'riskLevelScore', 'residualRiskLevel', 'likelihood', 'severityImpactLevel', 'actionOwner', 'dueDateString',
+  'mitigationStrategiesActions',
+] as const;
+
+export type AuditedRiskField = typeof AUDITED_RISK_FIELDS[number];
+
+export interface RiskFieldChange {
+  field: AuditedRiskField;
+  from: string | null;
+  to: string | null;
+}
+
+export interface RiskAuditEntry {
+  id: string;
+  riskId: string;
+  action: 'create' | 'update' | 'close';
+  actor: string;
+  timestamp: number;
+  changes: RiskFieldChange[];   // create: every audited field that has a value
+}
+
+// GET /api/risks/history
+export interface RiskHistoryResponse {
+  entries: RiskAuditEntry[];
+}
+
+export interface RiskAuditLog {
+  list(riskId?: string): Promise<RiskAuditEntry[]>;   // Newest first
+  add(entry: RiskAuditEntry): Promise<void>;
+}
+
+const auditValue = (risk: RiskRegisterItem | null, field: AuditedRiskField) => risk?.[field]?.trim() || null;
+
+// Field-by-field difference between two versions of a row (previous null = newly created)
+export function diffRisk(previous: RiskRegisterItem | null, next: RiskRegisterItem): RiskFieldChange[] {
+  return AUDITED_RISK_FIELDS
+    .map(field => ({ field, from: auditValue(previous, field), to: auditValue(next, field) }))
+    .filter(change => change.from !== change.to);
+}
+
+// --- Scanner drafts awaiting confirmation ---
+
+export type ScannedDraftStatus = 'pending' | 'accepted' | 'dismissed';
+
+export interface ScannedRiskDraft {
+  id: string;
+  status: ScannedDraftStatus;
+  createdAt: number;
+  feed: string;
+  title: string;
+  excerpt: string;
+  sourceKey: string;            // URL (or feed id) the draft came from; never drafted twice
+  matchedKeywords: string[];
+  risk: RiskDraft;              // Gemini fields plus sourceUrl and detectionDateString, ready for POST /api/risks/add
+  decidedAt?: number;
+  decidedBy?: string;
+  riskId?: string;              // Register id once accepted
+}
+
+export type ScannedDraftPatch = Partial<Pick<ScannedRiskDraft, 'status' | 'decidedAt' | 'decidedBy' | 'riskId'>>;
+
+// GET /api/risks/drafts
+export interface RiskDraftsResponse {
+  drafts: ScannedRiskDraft[];
+}
+
+export interface RiskDraftQueue {
+  list(): Promise<ScannedRiskDraft[]>;                                               // Newest first, every status
+  add(drafts: ScannedRiskDraft[]): Promise<void>;
+  update(id: string, patch: ScannedDraftPatch): Promise<ScannedRiskDraft | null>;     // null when the id is unknown
+}
+
+// --- Duplicate detection before POST /api/risks/add ---
+
+export const DUPLICATE_RISK_FIELDS = ['riskDescription', 'likelyCauses', 'systemFocus'] as const;
+
+export type DuplicateRiskField = typeof DUPLICATE_RISK_FIELDS[number];
+
+export interface RiskDuplicateMatch {
+  risk: RiskRegisterItem;
+  score: number;                                          // 0..1, weighted over the fields both sides filled in
+  fields: Partial<Record<DuplicateRiskField, number>>;    // Per-field similarity
+}
+
+// POST /api/risks/duplicates, and the 409 from POST /api/risks/add
+export interface RiskDuplicatesResponse {
+  duplicates: RiskDuplicateMatch[];
+}
@@ -0,0 +1,28 @@
+// Arabic/English text folded for matching: case, Latin accents, Arabic diacritics and tatweel, and the letter
+// variants people type interchangeably (أ/إ/آ -> ا, ى -> ي, ة -> ه, ؤ -> و, ئ -> ي). Punctuation becomes spaces.
+
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;   // Harakat, Quranic marks, tatweel
+const ARABIC_LETTERS = /[\u0600-\u06FF]/;
+
+export function normalizeSearchText(text: string | null | undefined): string {
+  return (text ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(ARABIC_MARKS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Both arguments already normalized. Latin phrases must match whole words ("sec" is not in "section"); Arabic
+// phrases may carry attached prefixes (ال، و، ب، ل) so they match inside words.
+export function containsPhrase(normalizedText: string, normalizedPhrase: string): boolean {
+  if (!normalizedPhrase) return false;
+  if (ARABIC_LETTERS.test(normalizedPhrase)) return normalizedText.includes(normalizedPhrase);
+  return ` ${normalizedText} `.includes(` ${normalizedPhrase} `);
+}
@@ -0,0 +1,133 @@
+// Single source of truth for the column headers of every tab.
+// Each field lists the accepted header spellings, most specific first; the first one found wins.
+// Aliases are matched against lower-cased, trimmed header cells (see normalizeHeaderLabel).
+
+export const HEADER_ALIASES = {
+  progress: {
+    id: ['id'],
+    projects: ['projects', 'project'],
+    buildingName: ['building name', 'building'],
+    floorRoom: ['floor/room', 'floor', 'room'],
+    hvacPercentage: ['hvac (%)', 'hvac'],
+    firefightingPercentage: ['firefighting (%)', 'ff (%)', 'ff'],
+    fireAlarmPercentage: ['fire alarm (%)', 'fa (%)', 'fa'],
+    hvacRemarks: ['hvac remarks', 'hvac remark'],
+    fireRemarks: ['fire remarks', 'fire remark', 'ff remarks', 'fa remarks'],
+  },
+  manpower: {
+    date: ['date', 'day', 'التاريخ', 'اليوم'],
+    hvacManpower: ['hvac manpower', 'hvac'],
+    firefightingManpower: ['firefighting manpower', 'ff', 'firefighting'],
+    fireAlarmManpower: ['fire alarm manpower', 'fa', 'fire alarm'],
+    securityManpower: ['security subcontractor', 'security subcontractor manpower', 'security manpower', 'security', 'مقاول الأمن'],
+    totalManpower: ['total manpower', 'total', 'اجمالي القوى العاملة', 'إجمالي القوى العاملة'],
+  },
+  material: {
+    system: ['system'],
+    itemDescription: ['item description'],
+    buildingLocation: ['building location', 'location'],
+    approvalStage: ['approval stage', 'approval'],
+    deliveryStatus: ['delivery status', 'status'],
+    quantity: ['quantity (approved drawings)', 'quantity', 'qty'],
+    plannedDeliveryDate: ['planned delivery date', 'planned date', 'planned'],
+    actualDeliveryDate: ['actual delivery date', 'actual date', 'actual'],
+    remarks: ['remarks'],
+    documentLink: ['document link', 'doc link', 'link'],
+  },
+  mechanicalPlan: {
+    areaBuilding: ['area/building', 'areabuilding'],
+    locationRoomLevel: ['location (room/level)', 'location', 'room/level'],
+    // One column holding both, e.g. "PE-263 Control Building Battery Room" (split by splitAreaAndLocation)
+    areaBuildingLocation: ['area/building & location (room/level)', 'area/building & location', 'area & location'],
+    mechanicalActivitySystem: ['mechanical activity (system)', 'activity'],
+    originalDurationDays: ['original duration (days)', 'duration (days)', 'duration', 'المدة المخططة'],
+    currentProgressPercentage: ['current progress %', '% progress', 'progress %', 'progress', 'نسبة التقدم', 'الانجاز %'],
+    keyPredecessorActivity: ['key predecessor activity', 'predecessor'],
+    predecessorFinishDate: ['predecessor finish date', 'pred. finish'],
+    calculatedStartDate: ['calculated mech. start date', 'calc. start', 'start date'],
+    calculatedFinishDate: ['calculated mech. finish date', 'calc. finish', 'finish date'],
+    remarksJustification: ['remarks / justification', 'remarks'],
+  },
+  // "Full Progress History" and the monthly YYYY-MM snapshot tabs
+  history: {
+    snapshotDate: ['snapshotdate', 'snapshot date', 'date'],
+    dataSource: ['datasource', 'data source'],
+    projects: ['projects'],
+    buildingName: ['building name', 'building'],
+    floorRoom: ['floor/room', 'floor', 'room'],
+    firefightingPercentage: ['firefighting (%)', 'ff (%)', 'firefighting'],
+    fireAlarmPercentage: ['fire alarm (%)', 'fa (%)', 'fire alarm'],
+    fireRemarks: ['fire remarks'],
+    hvacPercentage: ['hvac (%)', 'hvac'],
+    hvacRemarks: ['hvac remarks'],
+    areaBuilding: ['area/building', 'areabuilding'],
+    locationRoomLevel: ['location (room/level)'],
+    areaBuildingLocation: ['area/building & location (room/level)', 'area/building & location', 'area & location'],
+    mechanicalActivitySystem: ['mechanical activity (system)', 'activity'],
+    originalDurationDays: ['original duration (days)', 'duration (days)', 'duration'],
+    currentProgressPercentage: ['current progress %', '% progress', 'progress %'],
+    keyPredecessorActivity: ['key predecessor activity', 'predecessor'],
+    predecessorFinishDate: ['predecessor finish date', 'pred. finish'],
+    calculatedStartDate: ['calculated mech. start date', 'calc. start', 'start date'],
+    calculatedFinishDate: ['calculated mech. finish date', 'calc. finish', 'finish date'],
+    remarksJustification: ['remarks / justification', 'remarks'],
+    hvacManpower: ['hvac manpower'],
+    ffManpower: ['firefighting manpower', 'ff manpower'],
+    faManpower: ['fire alarm manpower', 'fa manpower'],
+    securityManpower: ['security subcontractor', 'security subcontractor manpower', 'security manpower'],
+    totalManpower: ['total manpower'],
+  },
+  riskRegister: {
+    riskId: ['risk id'],
+    riskDescription: ['risk description'],
+    systemFocus: ['system focus'],
+    likelyCauses: ['likely causes'],
+    potentialImpactConsequence: ['potential impact / consequence', 'potential impact'],
+    likelihood: ['likelihood', 'probability', 'الاحتمالية'],
+    severityImpactLevel: ['severity / impact level', 'severity', 'impact', 'التأثير'],
+    riskLevelScore: ['risk level / score', 'risk level score', 'risk score', 'riskscore', 'درجة المخاطر'],
+    riskCategory: ['risk category'],
+    mitigationStrategiesActions: ['mitigation strategies / actions', 'mitigation actions'],
+    actionOwner: ['action owner'],
+    dueDate: ['due date'],
+    status: ['status'],
+    residualRiskLevel: ['residual risk level'],
+    lastUpdated: ['last updated'],
+    sourceUrl: ['source url', 'source link', 'source'],
+    detectionDate: ['detection date', 'detected on'],
+  },
+  scanKeywords: {
+    keyword: ['scankeyword', 'scan keyword', 'keyword', 'keywords'],
+  },
+  // RFI'S and Material Inspection Request logs share one layout
+  inspectionLog: {
+    serialNo: ['s. no.', 's.no.', 'serial no'],
+    description: ['description'],
+    requestNumber: ['inspection req. no.', 'inspection request no.', 'rfi no.', 'rfi no', 'mir no.', 'mir no'],
+    discipline: ['discipline'],
+    materialReceived: ['material received', 'received'],
+    inspectionDate: ['inspection date'],
+    preparedBy: ['prepared by'],
+  },
+} as const;
+
+export type HeaderAliasTab = keyof typeof HEADER_ALIASES;
+
+export function normalizeHeaderLabel(header: string | null | undefined): string {
+  return (header ?? '').toString().trim().toLowerCase();
+}
+
+// Maps a raw header cell to "tab.field" (e.g. "Current Progress %" -> "mechanicalPlan.currentProgressPercentage").
+// Returns null when no tab knows the header. Pass a tab to resolve against that tab only.
+export function resolveHeaderField(header: string, tab?: HeaderAliasTab): string | null {
+  const label = normalizeHeaderLabel(header);
+  if (!label) return null;
+  const tabs = tab ? [tab] : (Object.keys(HEADER_ALIASES) as HeaderAliasTab[]);
+  for (const t of tabs) {
+    const fields = HEADER_ALIASES[t] as Record<string, readonly string[]>;
+    for (const field of Object.keys(fields)) {
+      if (fields[field].includes(label)) return `${t}.${field}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// A JSON array kept in a single file. Writes go through one queue and replace the file atomically (temp file +
+// rename), so concurrent route calls in the same server process can't interleave or leave half-written JSON. Each
+// write gets its own temp file, so writers that don't share the queue never rename each other's file.
+export class JsonArrayFile<T> {
+  readonly filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async readNow(): Promise<T[]> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      // A corrupt file shouldn't take the dashboard down; it is rewritten on the next change
+      console.error(`[storage] Could not read ${this.filePath}:`, error);
+      return [];
+    }
+  }
+
+  private async write(items: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(items, null, 2), 'utf-8');
+    await fs.rename(tmp, this.filePath);
+  }
+
+  // Waits for pending writes so callers see their own changes
+  async read(): Promise<T[]> {
+    await this.queue;
+    return this.readNow();
+  }
+
+  // Serializes read-modify-write cycles
+  mutate<R>(change: (current: T[]) => { next: T[]; result: R }): Promise<R> {
+    const run = this.queue.then(async () => {
+      const { next, result } = change(await this.readNow());
+      await this.write(next);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
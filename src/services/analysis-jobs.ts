@@ -0,0 +1,92 @@
+// src/services/analysis-jobs.ts
+// Autonomous analyses as scheduled jobs. Server only (the run log lives on disk).
+
+import path from 'path';
+import { JobRunner, FileJobRunLog, type JobDefinition } from '@/lib/jobs';
+import { runAutonomousAnalysis, type AnalysisKind } from './autonomous-insights';
+import { getDeliveryConfig, sendEmailDigest, sendWebhook } from './notification-delivery';
+import { runRiskScan } from './risk-scanner';
+
+export const DEFAULT_JOB_RUNS_FILE = '.data/job-runs.json';
+
+// Cron per analysis, overridable with ANALYSIS_SCHEDULE_<KIND> (e.g. ANALYSIS_SCHEDULE_RISK="0 */6 * * *");
+// "off" leaves the analysis to manual triggers only.
+export const DEFAULT_ANALYSIS_SCHEDULES: Record<AnalysisKind, { label: string; schedule: string }> = {
+  risk: { label: 'Risk analysis', schedule: '0 6 * * *' },
+  forecast: { label: 'Manpower forecast', schedule: '15 6 * * *' },
+  materials: { label: 'Material delays', schedule: '30 6 * * *' },
+};
+
+function scheduleFor(kind: AnalysisKind, fallback: string): string | null {
+  const configured = process.env[`ANALYSIS_SCHEDULE_${kind.toUpperCase()}`]?.trim();
+  if (!configured) return fallback;
+  return configured.toLowerCase() === 'off' ? null : configured;
+}
+
+// NOTIFY_DIGEST_SCHEDULE, only registered when SMTP and recipients are configured
+export const DEFAULT_DIGEST_SCHEDULE = '0 7 * * *';
+
+// ANALYSIS_SCHEDULE_SCAN, only registered when RISK_SCAN_FEEDS lists something to scan
+export const DEFAULT_SCAN_SCHEDULE = '0 5 * * *';
+
+export function createAnalysisJobs(): JobDefinition[] {
+  const jobs: JobDefinition[] = (Object.keys(DEFAULT_ANALYSIS_SCHEDULES) as AnalysisKind[]).map(kind => ({
+    id: kind,
+    label: DEFAULT_ANALYSIS_SCHEDULES[kind].label,
+    schedule: scheduleFor(kind, DEFAULT_ANALYSIS_SCHEDULES[kind].schedule),
+    run: async () => {
+      const { created } = await runAutonomousAnalysis([kind]);
+      // A webhook outage is logged by the delivery log; it doesn't fail the analysis
+      await sendWebhook(created).catch(error => console.error('[jobs] Webhook delivery error:', error));
+      return created.length;
+    },
+  }));
+
+  if (getDeliveryConfig().email) {
+    const configured = process.env.NOTIFY_DIGEST_SCHEDULE?.trim();
+    jobs.push({
+      id: 'digest',
+      label: 'Email digest',
+      schedule: configured?.toLowerCase() === 'off' ? null : configured || DEFAULT_DIGEST_SCHEDULE,
+      run: async () => {
+        const record = await sendEmailDigest();
+        if (record?.status === 'failed') throw new Error(`Digest not delivered after ${record.attempts} attempts: ${record.error}`);
+        return record?.notificationIds.length ?? 0;
+      },
+    });
+  }
+
+  if (process.env.RISK_SCAN_FEEDS?.trim()) {
+    const configured = process.env.ANALYSIS_SCHEDULE_SCAN?.trim();
+    jobs.push({
+      id: 'scan',
+      label: 'News & document scan',
+      schedule: configured?.toLowerCase() === 'off' ? null : configured || DEFAULT_SCAN_SCHEDULE,
+      run: async () => {
+        const result = await runRiskScan();
+        result.errors.forEach(error => console.error('[jobs] Risk scan:', error));
+        if (result.queued.length === 0 && result.errors.length > 0) throw new Error(result.errors[0]);
+        return result.queued.length;
+      },
+    });
+  }
+  return jobs;
+}
+
+// Kept on globalThis: instrumentation and the route handlers are bundled separately, and the route must see the
+// runner whose timers were started (running flags, schedulerActive).
+const globalForJobs = globalThis as unknown as { analysisJobRunner?: JobRunner | null };
+
+export function getAnalysisJobRunner(): JobRunner {
+  if (!globalForJobs.analysisJobRunner) {
+    const file = process.env.JOB_RUNS_FILE || DEFAULT_JOB_RUNS_FILE;
+    globalForJobs.analysisJobRunner = new JobRunner(createAnalysisJobs(), new FileJobRunLog(path.resolve(process.cwd(), file)));
+  }
+  return globalForJobs.analysisJobRunner;
+}
+
+// Tests swap in their own runner; null rebuilds from the environment
+export function setAnalysisJobRunner(next: JobRunner | null): void {
+  globalForJobs.analysisJobRunner?.stop();
+  globalForJobs.analysisJobRunner = next;
+}
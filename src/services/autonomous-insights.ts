@@ -1,39 +1,33 @@
 // src/services/autonomous-insights.ts
 // Module: Autonomous Insights - Proactive Analysis and Notifications
 
-import { getManpowerSheetData, SHEET_NAMES } from './google-sheets';
+import { sheetsRepository } from './sheets-repository';
 import { forecastManpower, ForecastParams } from './forecasting';
+import { calculateManpowerDemand, type DisciplineDemand } from './manpower-demand';
+import { findMaterialIssues, type MaterialIssue } from './material-delays';
+import { FORECAST_DISCIPLINES } from '@/lib/manpower-disciplines';
 import { analyzeRisks, RiskAnalysisParams } from './risk-analytics';
+import type { ManpowerSheetRow } from './google-sheets';
+import { getNotificationStore, isNotificationActive, summarizeNotifications, type NotificationSummary, type ProactiveNotification } from '@/lib/notifications';
 
-export interface ProactiveNotification {
-  id: string;
-  type: 'critical_risk' | 'workforce_shortage' | 'trend_alert' | 'system_warning';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  title: string;
-  message: string;
-  recommendations: string[];
-  data: any;
-  timestamp: number;
-  acknowledged: boolean;
-  expiresAt?: number;
-}
+export type { ProactiveNotification, NotificationSummary } from '@/lib/notifications/types';
+
+export type AnalysisKind = 'risk' | 'forecast' | 'materials';
 
 export interface AutonomousAnalysisResult {
   timestamp: number;
   duration: number;
   notifications: ProactiveNotification[];
+  created: ProactiveNotification[];   // Stored by this run, after de-duplication against the open ones
   summary: {
     risksAnalyzed: number;
     forecastsGenerated: number;
+    materialIssues: number;
     criticalAlerts: number;
     recommendationsCount: number;
   };
 }
 
-// In-memory storage for notifications (in production, use database)
-let notifications: ProactiveNotification[] = [];
-const MAX_NOTIFICATIONS = 100;
-
 // Generate unique notification ID
 function generateNotificationId(): string {
   return `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -69,19 +63,18 @@ function createCriticalRiskNotification(
   };
 }
 
-// Create notification for workforce shortage
+// Create notification for workforce shortage (forecast headcount below what the remaining plan work needs)
 function createWorkforceShortageNotification(
-  forecastData: any,
-  discipline: string,
+  demand: DisciplineDemand,
   shortageLevel: 'moderate' | 'severe'
 ): ProactiveNotification {
   const title = shortageLevel === 'severe'
     ? '🚨 نقص حاد متوقع في القوى العاملة'
     : '⚠️ نقص متوقع في القوى العاملة';
 
-  const nextValue = forecastData.forecast?.[0] || 0;
+  const week = demand.weeks.find(w => w.weekStart === demand.peakShortageWeek);
   const recommendations = [
-    `تخطيط لتوظيف ${Math.max(5, Math.ceil((forecastData.historical?.slice(-1)[0] || 0) - nextValue))} شخص إضافي`,
+    `تخطيط لتوظيف ${Math.ceil(demand.peakShortage)} شخص إضافي قبل أسبوع ${demand.peakShortageWeek}`,
     'مراجعة جدولة المشاريع لتجنب التأخير',
     'تقييم إمكانية إعادة التوزيع من أنظمة أخرى'
   ];
@@ -91,15 +84,64 @@ function createWorkforceShortageNotification(
     type: 'workforce_shortage',
     severity: shortageLevel === 'severe' ? 'high' : 'medium',
     title,
-    message: `التوقع يشير إلى نقص ${shortageLevel === 'severe' ? 'حاد' : 'متوسط'} في ${discipline.toUpperCase()}. القيمة المتوقعة: ${nextValue.toFixed(1)}`,
+    message: `الأعمال المتبقية في ${demand.discipline.toUpperCase()} تحتاج ${week?.demand.toFixed(1) ?? '-'} فرد أسبوع ${demand.peakShortageWeek} والمتوقع ${week?.supply?.toFixed(1) ?? '-'} فقط (نقص ${shortageLevel === 'severe' ? 'حاد' : 'متوسط'}: ${demand.peakShortage.toFixed(1)})`,
     recommendations,
-    data: { ...forecastData, discipline },
+    data: { ...demand, source: demand.discipline },
     timestamp: Date.now(),
     acknowledged: false,
     expiresAt: Date.now() + (3 * 24 * 60 * 60 * 1000) // 3 days
   };
 }
 
+// Days ahead in which a dependent activity start makes a material problem urgent
+const MATERIAL_LOOKAHEAD_DAYS = 14;
+const SEVERITY_ORDER: ProactiveNotification['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Create notification for an overdue, rejected or partial material delivery
+function createMaterialDelayNotification(issue: MaterialIssue): ProactiveNotification {
+  const { material, kind } = issue;
+  const item = material.itemDescription ?? 'مادة غير محددة';
+  const activities = issue.affectedActivities;
+  const urgent = activities.filter(a => a.daysToStart !== null && a.daysToStart <= MATERIAL_LOOKAHEAD_DAYS);
+  // Rejected > overdue > partial, one level higher when dependent work starts within the lookahead
+  const base = kind === 'rejected' ? 2 : kind === 'overdue' ? 1 : 0;
+  const severity = SEVERITY_ORDER[Math.min(base + (urgent.length > 0 ? 1 : 0), SEVERITY_ORDER.length - 1)];
+
+  const title = kind === 'rejected'
+    ? '🚫 توريد مرفوض لمادة مطلوبة'
+    : kind === 'overdue'
+      ? '📦 تأخر توريد مادة عن الموعد المخطط'
+      : '📦 توريد جزئي لمادة مطلوبة';
+
+  const status = kind === 'rejected'
+    ? 'تم رفض التوريد'
+    : kind === 'overdue'
+      ? `متأخرة ${issue.daysLate ?? '-'} يوم عن الموعد المخطط ${material.plannedDeliveryDateString ?? ''}`.trim()
+      : `تم توريد جزء فقط${issue.daysLate ? ` (الموعد المخطط فات من ${issue.daysLate} يوم)` : ''}`;
+  const linked = activities.length > 0
+    ? `الأنشطة المعتمدة عليها: ${activities.slice(0, 3).map(a => `${a.mechanicalActivitySystem ?? '-'} - ${a.areaBuilding ?? '-'}`).join('، ')}${activities.length > 3 ? ` و${activities.length - 3} أخرى` : ''}`
+    : 'لا توجد أنشطة غير مكتملة مرتبطة في الخطة الميكانيكية';
+
+  const recommendations = [
+    kind === 'rejected' ? 'متابعة المورد لإعادة التوريد وإغلاق ملاحظات الرفض' : 'متابعة المورد لتأكيد موعد توريد جديد',
+    ...(urgent.length > 0 ? [`إعادة ترتيب ${urgent.length} نشاط يبدأ خلال ${MATERIAL_LOOKAHEAD_DAYS} يوم أو توفير بديل مؤقت`] : []),
+    'تحديث موعد التوريد في شيت Material Status',
+  ];
+
+  return {
+    id: generateNotificationId(),
+    type: 'material_delay',
+    severity,
+    title,
+    message: `${item} (${material.system ?? '-'} - ${material.buildingLocation ?? '-'}): ${status}. ${linked}.`,
+    recommendations,
+    data: { ...issue, source: `material:${kind}:${material.system ?? ''}:${item}:${material.buildingLocation ?? ''}` },
+    timestamp: Date.now(),
+    acknowledged: false,
+    expiresAt: Date.now() + (7 * 24 * 60 * 60 * 1000) // 7 days
+  };
+}
+
 // Create notification for trend alerts
 function createTrendAlertNotification(
   trendData: any,
@@ -179,20 +221,60 @@ async function analyzeRisksAndNotify(): Promise<ProactiveNotification[]> {
   return notifications;
 }
 
+// Workforce shortage = forecast supply below the crew the remaining plan work needs (next 4 weeks)
+async function analyzeDemandAndNotify(manpowerData: ManpowerSheetRow[]): Promise<ProactiveNotification[]> {
+  const notifications: ProactiveNotification[] = [];
+
+  try {
+    const plan = await sheetsRepository.getMechanicalPlan();
+    const report = calculateManpowerDemand(plan ?? [], manpowerData, { horizonWeeks: 4 });
+    report.disciplines.forEach(demand => {
+      const week = demand.weeks.find(w => w.weekStart === demand.peakShortageWeek);
+      if (!week || week.demand <= 0) return;
+      const shortagePct = (demand.peakShortage / week.demand) * 100;
+      if (shortagePct >= 20) {
+        notifications.push(createWorkforceShortageNotification(demand, 'severe'));
+      } else if (shortagePct >= 10) {
+        notifications.push(createWorkforceShortageNotification(demand, 'moderate'));
+      }
+    });
+  } catch (error) {
+    console.error('[Autonomous] Error in demand analysis:', error);
+  }
+
+  return notifications;
+}
+
+// Overdue, rejected and partial deliveries linked to the plan activities waiting on them
+async function analyzeMaterialsAndNotify(): Promise<ProactiveNotification[]> {
+  const notifications: ProactiveNotification[] = [];
+
+  try {
+    const [materials, plan] = await Promise.all([sheetsRepository.getMaterialStatus(), sheetsRepository.getMechanicalPlan()]);
+    findMaterialIssues(materials ?? [], plan ?? []).forEach(issue => {
+      notifications.push(createMaterialDelayNotification(issue));
+    });
+  } catch (error) {
+    console.error('[Autonomous] Error in material analysis:', error);
+  }
+
+  return notifications;
+}
+
 // Analyze forecasts and generate notifications
 async function analyzeForecastsAndNotify(): Promise<ProactiveNotification[]> {
   const notifications: ProactiveNotification[] = [];
 
   try {
-    const manpowerData = await getManpowerSheetData(SHEET_NAMES.MANPOWER);
+    const manpowerData = await sheetsRepository.getManpower();
     if (!manpowerData || manpowerData.length === 0) {
       console.warn('[Autonomous] No manpower data available for forecasting');
       return notifications;
     }
 
-    const disciplines = ['hvac', 'firefighting', 'firealarm', 'total'] as const;
+    notifications.push(...await analyzeDemandAndNotify(manpowerData));
 
-    for (const discipline of disciplines) {
+    for (const discipline of FORECAST_DISCIPLINES) {
       const params: ForecastParams = {
         method: 'ema',
         window: 7,
@@ -207,21 +289,6 @@ async function analyzeForecastsAndNotify(): Promise<ProactiveNotification[]> {
       const lastHistorical = forecastResult.historical[forecastResult.historical.length - 1] || 0;
       const change = ((nextForecast - lastHistorical) / lastHistorical) * 100;
 
-      // Check for severe workforce shortage
-      if (change < -20) { // More than 20% decrease
-        notifications.push(createWorkforceShortageNotification(
-          forecastResult,
-          discipline,
-          'severe'
-        ));
-      } else if (change < -10) { // More than 10% decrease
-        notifications.push(createWorkforceShortageNotification(
-          forecastResult,
-          discipline,
-          'moderate'
-        ));
-      }
-
       // Check for significant trends
       if (forecastResult.trend === 'increasing' && change > 15) {
         notifications.push(createTrendAlertNotification(
@@ -245,34 +312,37 @@ async function analyzeForecastsAndNotify(): Promise<ProactiveNotification[]> {
   return notifications;
 }
 
-// Main autonomous analysis function
-export async function runAutonomousAnalysis(): Promise<AutonomousAnalysisResult> {
+export const ANALYSIS_KINDS: AnalysisKind[] = ['risk', 'forecast', 'materials'];
+
+// Main autonomous analysis function; the job runner calls it once per analysis kind
+export async function runAutonomousAnalysis(kinds: AnalysisKind[] = ANALYSIS_KINDS): Promise<AutonomousAnalysisResult> {
   const startTime = Date.now();
-  console.log('[Autonomous] Starting daily analysis...');
+  console.log(`[Autonomous] Starting analysis (${kinds.join(', ')})...`);
 
-  const riskNotifications = await analyzeRisksAndNotify();
-  const forecastNotifications = await analyzeForecastsAndNotify();
+  const riskNotifications = kinds.includes('risk') ? await analyzeRisksAndNotify() : [];
+  const forecastNotifications = kinds.includes('forecast') ? await analyzeForecastsAndNotify() : [];
+  const materialNotifications = kinds.includes('materials') ? await analyzeMaterialsAndNotify() : [];
 
-  const allNotifications = [...riskNotifications, ...forecastNotifications];
+  const allNotifications = [...riskNotifications, ...forecastNotifications, ...materialNotifications];
 
-  // Add new notifications (avoid duplicates)
+  // Clean up old notifications, then add new ones (avoid duplicates of anything still open)
+  const now = Date.now();
+  const store = getNotificationStore();
+  await store.prune(now);
+  const stored = await store.list();
+  const fresh: ProactiveNotification[] = [];
   allNotifications.forEach(notification => {
-    const existing = notifications.find(n =>
+    const existing = [...fresh, ...stored].find(n =>
       n.type === notification.type &&
       n.data?.source === notification.data?.source &&
       !n.acknowledged
     );
 
     if (!existing) {
-      notifications.unshift(notification); // Add to beginning
+      fresh.push(notification);
     }
   });
-
-  // Clean up old notifications
-  const now = Date.now();
-  notifications = notifications.filter(n =>
-    !n.expiresAt || n.expiresAt > now
-  ).slice(0, MAX_NOTIFICATIONS); // Keep only recent ones
+  await store.add(fresh); // The store keeps only the most recent ones
 
   const duration = Date.now() - startTime;
 
@@ -280,9 +350,11 @@ export async function runAutonomousAnalysis(): Promise<AutonomousAnalysisResult>
     timestamp: now,
     duration,
     notifications: allNotifications,
+    created: fresh,
     summary: {
       risksAnalyzed: riskNotifications.length,
       forecastsGenerated: forecastNotifications.length,
+      materialIssues: materialNotifications.length,
       criticalAlerts: allNotifications.filter(n => n.severity === 'critical').length,
       recommendationsCount: allNotifications.reduce((sum, n) => sum + n.recommendations.length, 0)
     }
@@ -292,57 +364,28 @@ export async function runAutonomousAnalysis(): Promise<AutonomousAnalysisResult>
   return result;
 }
 
-// Get active notifications
-export function getActiveNotifications(): ProactiveNotification[] {
+// Get active notifications (not acknowledged, snoozed or expired)
+export async function getActiveNotifications(): Promise<ProactiveNotification[]> {
   const now = Date.now();
-  return notifications.filter(n =>
-    !n.acknowledged &&
-    (!n.expiresAt || n.expiresAt > now)
-  );
+  return (await getNotificationStore().list()).filter(n => isNotificationActive(n, now));
 }
 
-// Acknowledge notification
-export function acknowledgeNotification(notificationId: string): boolean {
-  const notification = notifications.find(n => n.id === notificationId);
-  if (notification) {
-    notification.acknowledged = true;
-    return true;
-  }
-  return false;
+// Acknowledge notification; null when the id is unknown
+export function acknowledgeNotification(notificationId: string): Promise<ProactiveNotification | null> {
+  return getNotificationStore().update(notificationId, { acknowledged: true, acknowledgedAt: Date.now() });
 }
 
-// Get notification summary
-export function getNotificationSummary(): {
-  total: number;
-  critical: number;
-  high: number;
-  medium: number;
-  low: number;
-  recent: ProactiveNotification[];
-} {
-  const active = getActiveNotifications();
-  const recent = active.slice(0, 5); // Last 5 notifications
-
-  return {
-    total: active.length,
-    critical: active.filter(n => n.severity === 'critical').length,
-    high: active.filter(n => n.severity === 'high').length,
-    medium: active.filter(n => n.severity === 'medium').length,
-    low: active.filter(n => n.severity === 'low').length,
-    recent
-  };
+// Hide a notification until the given time
+export function snoozeNotification(notificationId: string, until: number): Promise<ProactiveNotification | null> {
+  return getNotificationStore().update(notificationId, { snoozedUntil: until });
 }
 
-// Initialize autonomous analysis (call this when the app starts)
-export function initializeAutonomousAnalysis() {
-  // Run initial analysis
-  runAutonomousAnalysis().catch(console.error);
-
-  // Set up daily analysis (every 24 hours)
-  const interval = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  setInterval(() => {
-    runAutonomousAnalysis().catch(console.error);
-  }, interval);
+// Expire now; the next analysis run prunes it
+export function expireNotification(notificationId: string): Promise<ProactiveNotification | null> {
+  return getNotificationStore().update(notificationId, { expiresAt: Date.now() });
+}
 
-  console.log('[Autonomous] Initialized daily analysis system');
+// Get notification summary
+export async function getNotificationSummary(): Promise<NotificationSummary> {
+  return summarizeNotifications(await getActiveNotifications());
 }
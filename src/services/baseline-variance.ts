@@ -0,0 +1,91 @@
+// src/services/baseline-variance.ts
+// Compares the live Mechanical Plan against a frozen baseline (any monthly snapshot tab). Activities are matched
+// like the month-over-month diff (Area/Building + Mechanical Activity) at their latest SnapshotDate in the tab; when
+// the same activity repeats on several floors the location breaks the tie.
+
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { getActivityKey } from '@/services/monthly-diff';
+import type { EnhancedMechanicalPlanRow } from '@/types';
+import type { MechanicalPlanRow as MonthlyPlanRow, YearMonth } from '@/types/monthly';
+
+export interface BaselineVariance {
+  activityId: string;
+  inBaseline: boolean;
+  baselineStart: string | null;  // YYYY-MM-DD
+  baselineFinish: string | null;
+  currentStart: string | null;
+  currentFinish: string | null;
+  startSlipDays: number | null;  // Positive = later than baseline
+  finishSlipDays: number | null;
+  slipped: boolean;              // Finish (or start, when there is no finish) moved later
+}
+
+export interface BaselineComparison {
+  baselineMonth: YearMonth;
+  byActivityId: Map<string, BaselineVariance>;
+  slippedCount: number;
+  addedCount: number;            // Live activities that weren't in the baseline
+  maxFinishSlipDays: number | null;
+}
+
+const normalizeLocation = (value: string | null | undefined): string =>
+  (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const toDay = (ts: number | null): string | null => (ts === null ? null : format(ts, 'yyyy-MM-dd'));
+
+const slip = (current: string | null, baseline: string | null | undefined): number | null =>
+  current && baseline ? differenceInCalendarDays(parseISO(current), parseISO(baseline)) : null;
+
+export function compareToBaseline(baselineMonth: YearMonth, current: EnhancedMechanicalPlanRow[], baseline: MonthlyPlanRow[]): BaselineComparison {
+  // Monthly tabs repeat every activity once per snapshot day; only the latest day's rows are the baseline
+  const latestByKey = new Map<string, { date: string; rows: MonthlyPlanRow[] }>();
+  baseline.forEach(row => {
+    const key = getActivityKey(row);
+    if (!key) return;
+    const date = row.SnapshotDate ?? '';
+    const entry = latestByKey.get(key);
+    if (!entry || date > entry.date) latestByKey.set(key, { date, rows: [row] });
+    else if (date === entry.date) entry.rows.push(row);
+  });
+  const baselineByKey = new Map<string, MonthlyPlanRow[]>();
+  latestByKey.forEach((entry, key) => baselineByKey.set(key, entry.rows));
+
+  const byActivityId = new Map<string, BaselineVariance>();
+  let slippedCount = 0;
+  let addedCount = 0;
+  let maxFinishSlipDays: number | null = null;
+
+  current.forEach(row => {
+    const activityId = String(row.id);
+    const key = getActivityKey({ AreaOrBuilding: row.areaBuilding ?? undefined, MechanicalActivity: row.mechanicalActivitySystem ?? undefined });
+    const candidates = key ? baselineByKey.get(key) ?? [] : [];
+    const location = normalizeLocation(row.locationRoomLevel);
+    const index = Math.max(0, candidates.findIndex(c => normalizeLocation(c.SpecificLocation) === location));
+    // Each baseline row is used once so repeated activities line up floor by floor
+    const match = candidates.length > 0 ? candidates.splice(index, 1)[0] : undefined;
+
+    const currentStart = toDay(row.calculatedStartTimestamp);
+    const currentFinish = toDay(row.calculatedFinishTimestamp);
+    const startSlipDays = slip(currentStart, match?.CalculatedStartDate);
+    const finishSlipDays = slip(currentFinish, match?.CalculatedFinishDate);
+    const slipped = (finishSlipDays ?? startSlipDays ?? 0) > 0;
+
+    if (!match) addedCount++;
+    if (slipped) slippedCount++;
+    if (finishSlipDays !== null) maxFinishSlipDays = Math.max(maxFinishSlipDays ?? finishSlipDays, finishSlipDays);
+
+    byActivityId.set(activityId, {
+      activityId,
+      inBaseline: Boolean(match),
+      baselineStart: match?.CalculatedStartDate ?? null,
+      baselineFinish: match?.CalculatedFinishDate ?? null,
+      currentStart,
+      currentFinish,
+      startSlipDays,
+      finishSlipDays,
+      slipped,
+    });
+  });
+
+  return { baselineMonth, byActivityId, slippedCount, addedCount, maxFinishSlipDays };
+}
@@ -0,0 +1,207 @@
+// src/services/completion-forecast.ts
+// Deterministic completion dates from progress velocity. The "likely" rate is the same weekly velocity the
+// executive summary shows (latest snapshot vs the last one at least 7 days older); the spread of week-by-week
+// rates across the "Full Progress History" gives the optimistic / pessimistic rates. Progress is weighted by
+// original duration, like the rest of the dashboard.
+
+import { addDays, format, startOfDay, subDays } from 'date-fns';
+import { normalizeDisciplineCategory, type HistoricalProgressRow, type MechanicalPlanRow } from '@/services/google-sheets';
+
+export interface ProgressPoint {
+  timestamp: number;
+  progress: number; // 0-100
+}
+
+export type CompletionStatus = 'completed' | 'forecast' | 'stalled' | 'insufficient-data';
+
+export interface CompletionForecast {
+  key: string;
+  label: string;
+  kind: 'project' | 'building' | 'system';
+  currentProgress: number | null;
+  weeklyVelocity: number | null;      // Likely rate (% per week)
+  optimisticVelocity: number | null;
+  pessimisticVelocity: number | null;
+  optimisticDate: string | null;      // YYYY-MM-DD
+  likelyDate: string | null;
+  pessimisticDate: string | null;     // Null when the slowest observed rate never reaches 100%
+  status: CompletionStatus;
+  snapshots: number;
+}
+
+export interface CompletionForecastReport {
+  asOf: string; // YYYY-MM-DD
+  project: CompletionForecast;
+  buildings: CompletionForecast[];
+  systems: CompletionForecast[];
+}
+
+type PlanInput = Pick<MechanicalPlanRow, 'areaBuilding' | 'mechanicalActivitySystem' | 'originalDurationDays' | 'currentProgressPercentage'>;
+
+const SYSTEMS = ['HVAC', 'FF', 'FA'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const clampPct = (value: number): number => Math.max(0, Math.min(100, value));
+
+const toDay = (ts: number): string => format(ts, 'yyyy-MM-dd');
+
+// Same rule as the executive summary card: (latest - last snapshot >= 7 days older) per day × 7
+export function calculateWeeklyVelocity(points: ProgressPoint[], asOf: number = Date.now()): number | null {
+  const today = startOfDay(asOf).getTime();
+  const sevenDaysAgo = startOfDay(subDays(asOf, 7)).getTime();
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const latest = sorted.filter(p => p.timestamp <= today).pop();
+  const past = sorted.filter(p => p.timestamp <= sevenDaysAgo).pop();
+  if (!latest || !past || latest.timestamp <= past.timestamp) return null;
+  const daysDiff = Math.round((latest.timestamp - past.timestamp) / DAY_MS);
+  if (daysDiff <= 0) return null;
+  return round1(((latest.progress - past.progress) / daysDiff) * 7);
+}
+
+// Week-normalised rate between every pair of consecutive snapshots
+function intervalRates(points: ProgressPoint[]): number[] {
+  const rates: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const days = (points[i].timestamp - points[i - 1].timestamp) / DAY_MS;
+    if (days > 0) rates.push(((points[i].progress - points[i - 1].progress) / days) * 7);
+  }
+  return rates;
+}
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+type Weighted = { duration: number; progress: number };
+
+const weightedProgress = (rows: Weighted[]): number | null => {
+  const total = rows.reduce((sum, r) => sum + r.duration, 0);
+  return total > 0 ? round1(rows.reduce((sum, r) => sum + r.duration * clampPct(r.progress), 0) / total) : null;
+};
+
+const toWeighted = (duration: number | null | undefined, progress: number | null | undefined): Weighted | null =>
+  typeof duration === 'number' && duration > 0
+    ? { duration, progress: typeof progress === 'number' && isFinite(progress) ? progress : 0 }
+    : null;
+
+const buildingOf = (value: string | null | undefined): string | null => value?.trim() || null;
+
+const systemOf = (activity: string | null | undefined): string | null => {
+  const category = normalizeDisciplineCategory(activity);
+  return category === 'Other' ? null : category;
+};
+
+// Duration-weighted progress per snapshot for every group key produced by keysOf (rows without a duration are skipped)
+export function buildProgressSeries(
+  history: HistoricalProgressRow[],
+  keysOf: (row: HistoricalProgressRow) => (string | null)[]
+): Map<string, ProgressPoint[]> {
+  const bySnapshot = new Map<number, Map<string, Weighted[]>>();
+  history.forEach(row => {
+    const item = toWeighted(row.originalDurationDays, row.currentProgressPercentage);
+    if (row.snapshotTimestamp === null || !item) return;
+    const snapshot = bySnapshot.get(row.snapshotTimestamp) ?? new Map<string, Weighted[]>();
+    keysOf(row).forEach(key => { if (key) snapshot.set(key, [...(snapshot.get(key) ?? []), item]); });
+    bySnapshot.set(row.snapshotTimestamp, snapshot);
+  });
+
+  const series = new Map<string, ProgressPoint[]>();
+  Array.from(bySnapshot.keys()).sort((a, b) => a - b).forEach(timestamp => {
+    bySnapshot.get(timestamp)!.forEach((rows, key) => {
+      const progress = weightedProgress(rows);
+      if (progress !== null) series.set(key, [...(series.get(key) ?? []), { timestamp, progress }]);
+    });
+  });
+  return series;
+}
+
+const projectDate = (asOf: number, remaining: number, velocity: number | null): string | null =>
+  velocity !== null && velocity > 0 ? toDay(addDays(asOf, Math.ceil((remaining / velocity) * 7)).getTime()) : null;
+
+export function forecastCompletion(
+  key: string,
+  label: string,
+  kind: CompletionForecast['kind'],
+  points: ProgressPoint[],
+  currentProgress: number | null,
+  asOf: number = Date.now()
+): CompletionForecast {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const current = currentProgress ?? sorted[sorted.length - 1]?.progress ?? null;
+  const base: CompletionForecast = {
+    key, label, kind,
+    currentProgress: current,
+    weeklyVelocity: null, optimisticVelocity: null, pessimisticVelocity: null,
+    optimisticDate: null, likelyDate: null, pessimisticDate: null,
+    status: 'insufficient-data',
+    snapshots: sorted.length,
+  };
+  if (current !== null && current >= 100) return { ...base, status: 'completed' };
+
+  const rates = intervalRates(sorted).sort((a, b) => a - b);
+  if (current === null || rates.length === 0) return base;
+
+  // Recent velocity first; when it's flat or missing fall back to the average rate over the whole history
+  const span = (sorted[sorted.length - 1].timestamp - sorted[0].timestamp) / DAY_MS;
+  const average = span > 0 ? ((sorted[sorted.length - 1].progress - sorted[0].progress) / span) * 7 : null;
+  const recent = calculateWeeklyVelocity(sorted, asOf);
+  const likely = recent !== null && recent > 0 ? recent : average !== null && average > 0 ? round1(average) : null;
+  if (likely === null) return { ...base, weeklyVelocity: recent ?? (average !== null ? round1(average) : null), status: 'stalled' };
+
+  const optimistic = round1(Math.max(likely, quantile(rates, 0.75)));
+  const pessimistic = round1(Math.min(likely, quantile(rates, 0.25)));
+  const remaining = 100 - current;
+  return {
+    ...base,
+    weeklyVelocity: likely,
+    optimisticVelocity: optimistic,
+    pessimisticVelocity: pessimistic,
+    optimisticDate: projectDate(asOf, remaining, optimistic),
+    likelyDate: projectDate(asOf, remaining, likely),
+    pessimisticDate: projectDate(asOf, remaining, pessimistic),
+    status: 'forecast',
+  };
+}
+
+// Current progress comes from the live plan; the history supplies the velocities
+export function forecastProjectCompletion(
+  plan: PlanInput[],
+  history: HistoricalProgressRow[],
+  asOf: number = Date.now()
+): CompletionForecastReport {
+  const current = new Map<string, Weighted[]>();
+  const add = (key: string | null, item: Weighted) => { if (key) current.set(key, [...(current.get(key) ?? []), item]); };
+  plan.forEach(row => {
+    const item = toWeighted(row.originalDurationDays, row.currentProgressPercentage);
+    if (!item) return;
+    const building = buildingOf(row.areaBuilding);
+    add('project', item);
+    add(building ? `building:${building}` : null, item);
+    const system = systemOf(row.mechanicalActivitySystem);
+    if (system) add(`system:${system}`, item);
+  });
+
+  const series = buildProgressSeries(history, row => {
+    const building = buildingOf(row.areaBuilding ?? row.buildingName);
+    const system = systemOf(row.mechanicalActivitySystem);
+    return ['project', building ? `building:${building}` : null, system ? `system:${system}` : null];
+  });
+
+  const forecastFor = (key: string, label: string, kind: CompletionForecast['kind']) =>
+    forecastCompletion(key, label, kind, series.get(key) ?? [], weightedProgress(current.get(key) ?? []), asOf);
+
+  const buildingNames = new Set<string>();
+  current.forEach((_, key) => { if (key.startsWith('building:')) buildingNames.add(key.slice('building:'.length)); });
+
+  return {
+    asOf: toDay(asOf),
+    project: forecastFor('project', 'Project', 'project'),
+    buildings: Array.from(buildingNames).sort((a, b) => a.localeCompare(b)).map(name => forecastFor(`building:${name}`, name, 'building')),
+    systems: SYSTEMS.filter(system => current.has(`system:${system}`)).map(system => forecastFor(`system:${system}`, system, 'system')),
+  };
+}
@@ -0,0 +1,287 @@
+// src/services/critical-path.ts
+// Critical path / float analysis for the Mechanical Plan. "Key Predecessor Activity" is free text, so it is
+// resolved against the plan's activity names (same building first, then anywhere). Predecessors that don't match
+// an activity (civil works, other trades) become a start-no-earlier-than constraint from "Predecessor Finish Date".
+// Forward/backward passes run in calendar days.
+
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import type { MechanicalPlanRow } from '@/services/google-sheets';
+
+export type CriticalPathInput = Pick<MechanicalPlanRow,
+  'areaBuilding' | 'locationRoomLevel' | 'mechanicalActivitySystem' | 'originalDurationDays' | 'keyPredecessorActivity' |
+  'predecessorFinishTimestamp' | 'calculatedStartTimestamp' | 'calculatedFinishTimestamp'
+> & { id?: string | number };
+
+export interface CriticalPathActivity {
+  id: string;
+  label: string;
+  areaBuilding: string | null;
+  activity: string | null;
+  durationDays: number;
+  predecessorIds: string[];
+  unresolvedPredecessors: string[]; // Predecessor text that didn't match a plan activity
+  earlyStart: string;               // YYYY-MM-DD
+  earlyFinish: string;
+  lateStart: string;
+  lateFinish: string;
+  totalFloatDays: number;           // Slack before the project finish moves
+  buildingFloatDays: number;        // Slack before this activity's building finish moves
+  isCritical: boolean;
+  drivesBuildingFinish: boolean;
+  inCycle: boolean;
+}
+
+export interface BuildingFinish {
+  building: string;
+  finish: string;
+  drivingActivityIds: string[];
+}
+
+export interface CriticalPathResult {
+  projectStart: string | null;
+  projectFinish: string | null;
+  activities: CriticalPathActivity[];
+  criticalPath: string[];           // Critical activity ids in early-start order
+  buildings: BuildingFinish[];
+  cycles: string[][];               // Activities whose predecessors loop back on themselves (links inside the loop ignored)
+  skipped: number;                  // Rows with no usable dates or duration
+}
+
+interface Node {
+  id: string;
+  row: CriticalPathInput;
+  building: string;
+  duration: number;
+  anchor: number | null;            // Day offset of calculated start / external constraint
+  preds: string[];
+  unresolved: string[];
+  es: number;
+  ef: number;
+}
+
+const normalize = (value: string | null | undefined): string =>
+  (value ?? '')
+    .toLowerCase()
+    .replace(/[()]/g, ' ')
+    .replace(/[^a-z0-9؀-ۿ&+]+/g, ' ')
+    .trim();
+
+// "A, B / C & D" -> ["A", "B", "C & D"]; "&" is kept because activity names use it ("Intercom & IP telephone")
+export function splitPredecessors(text: string | null | undefined): string[] {
+  return (text ?? '')
+    .split(/[,;\n/]| and |\+/i)
+    .map(part => part.trim())
+    .filter(part => part.length > 0 && part !== '-' && part.toLowerCase() !== 'n/a');
+}
+
+const toIsoDay = (anchor: Date, offset: number): string => format(addDays(anchor, offset), 'yyyy-MM-dd');
+
+function nodeDuration(row: CriticalPathInput): number | null {
+  if (typeof row.originalDurationDays === 'number' && row.originalDurationDays >= 0) return row.originalDurationDays;
+  if (typeof row.calculatedStartTimestamp === 'number' && typeof row.calculatedFinishTimestamp === 'number') {
+    return Math.max(0, differenceInCalendarDays(row.calculatedFinishTimestamp, row.calculatedStartTimestamp));
+  }
+  return null;
+}
+
+// Same location beats same building beats anywhere; inside a tier an exact name beats a partial match
+function resolvePredecessor(text: string, self: Node, nodes: Node[]): string[] {
+  const target = normalize(text);
+  if (!target) return [];
+  const candidates = nodes.filter(n => n.id !== self.id);
+  const exact = candidates.filter(n => normalize(n.row.mechanicalActivitySystem) === target);
+  const partial = candidates.filter(n => {
+    const name = normalize(n.row.mechanicalActivitySystem);
+    return name.length > 3 && (name.includes(target) || target.includes(name));
+  });
+  const location = normalize(self.row.locationRoomLevel);
+  for (const pool of [exact, partial]) {
+    const sameBuilding = pool.filter(n => n.building === self.building);
+    const sameLocation = sameBuilding.filter(n => normalize(n.row.locationRoomLevel) === location);
+    const match = sameLocation.length > 0 ? sameLocation : sameBuilding.length > 0 ? sameBuilding : pool;
+    if (match.length > 0) return match.map(n => n.id);
+  }
+  return [];
+}
+
+// Kahn's algorithm; expects a graph without cycles (see findCycles)
+function topologicalOrder(nodes: Map<string, Node>): string[] {
+  const indegree = new Map<string, number>();
+  const successors = new Map<string, string[]>();
+  nodes.forEach(node => {
+    indegree.set(node.id, node.preds.length);
+    node.preds.forEach(p => successors.set(p, [...(successors.get(p) ?? []), node.id]));
+  });
+  const queue = Array.from(nodes.keys()).filter(id => indegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    (successors.get(id) ?? []).forEach(s => {
+      const remaining = (indegree.get(s) ?? 0) - 1;
+      indegree.set(s, remaining);
+      if (remaining === 0) queue.push(s);
+    });
+  }
+  return order;
+}
+
+// Tarjan's strongly connected components; every component with more than one activity is a loop. Activities that
+// merely follow a loop are not part of it.
+function findCycles(nodes: Map<string, Node>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    nodes.get(id)!.preds.forEach(p => {
+      if (!index.has(p)) {
+        visit(p);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(p)!));
+      } else if (onStack.has(p)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(p)!));
+      }
+    });
+    if (lowLink.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1) cycles.push(component);
+  };
+
+  nodes.forEach((_, id) => { if (!index.has(id)) visit(id); });
+  return cycles;
+}
+
+// Latest finishes for a backward pass; target() gives the finish an activity must meet when nothing follows it
+function backwardPass(order: string[], nodes: Map<string, Node>, target: (node: Node) => number): Map<string, number> {
+  const lateFinish = new Map<string, number>();
+  const lateStart = new Map<string, number>();
+  const successors = new Map<string, string[]>();
+  nodes.forEach(node => node.preds.forEach(p => successors.set(p, [...(successors.get(p) ?? []), node.id])));
+  [...order].reverse().forEach(id => {
+    const node = nodes.get(id)!;
+    const succStarts = (successors.get(id) ?? []).map(s => lateStart.get(s)).filter((v): v is number => v !== undefined);
+    const lf = Math.min(target(node), ...succStarts);
+    lateFinish.set(id, lf);
+    lateStart.set(id, lf - node.duration);
+  });
+  return lateFinish;
+}
+
+export function analyzeCriticalPath(rows: CriticalPathInput[]): CriticalPathResult {
+  const usable = rows
+    .map((row, index) => ({ row, index, duration: nodeDuration(row) }))
+    .filter(({ row, duration }) => duration !== null && (typeof row.calculatedStartTimestamp === 'number' || typeof row.predecessorFinishTimestamp === 'number' || row.keyPredecessorActivity));
+
+  const starts = usable
+    .flatMap(({ row }) => [row.calculatedStartTimestamp, row.predecessorFinishTimestamp])
+    .filter((ts): ts is number => typeof ts === 'number');
+  if (usable.length === 0 || starts.length === 0) {
+    return { projectStart: null, projectFinish: null, activities: [], criticalPath: [], buildings: [], cycles: [], skipped: rows.length };
+  }
+  const anchor = startOfDay(Math.min(...starts));
+  const dayOf = (ts: number | null): number | null => (typeof ts === 'number' ? differenceInCalendarDays(ts, anchor) : null);
+
+  const nodes = new Map<string, Node>();
+  usable.forEach(({ row, index, duration }) => {
+    const id = row.id !== undefined ? String(row.id) : `activity-${index}`;
+    nodes.set(id, {
+      id, row, duration: duration as number,
+      building: normalize(row.areaBuilding) || 'unassigned',
+      anchor: dayOf(row.calculatedStartTimestamp), preds: [], unresolved: [], es: 0, ef: 0,
+    });
+  });
+
+  const nodeList = Array.from(nodes.values());
+  nodeList.forEach(node => {
+    splitPredecessors(node.row.keyPredecessorActivity).forEach(text => {
+      const ids = resolvePredecessor(text, node, nodeList);
+      if (ids.length === 0) node.unresolved.push(text);
+      ids.forEach(id => { if (!node.preds.includes(id)) node.preds.push(id); });
+    });
+  });
+
+  const cycles = findCycles(nodes);
+  const cyclic = new Set(cycles.flat());
+  // Links inside a loop can't be scheduled; drop only those and schedule the loop's activities on their own dates.
+  // Links into and out of the loop are kept, so the activities after it still follow it.
+  cycles.forEach(cycle => cycle.forEach(id => {
+    const node = nodes.get(id)!;
+    node.preds = node.preds.filter(p => !cycle.includes(p));
+  }));
+  const fullOrder = topologicalOrder(nodes);
+
+  // Forward pass: ES = latest of predecessor finishes, external predecessor finish and the planned start
+  fullOrder.forEach(id => {
+    const node = nodes.get(id)!;
+    const external = node.unresolved.length > 0 ? dayOf(node.row.predecessorFinishTimestamp) : null;
+    const predFinishes = node.preds.map(p => nodes.get(p)!.ef);
+    node.es = Math.max(0, node.anchor ?? 0, external ?? 0, ...predFinishes);
+    node.ef = node.es + node.duration;
+  });
+
+  const projectFinish = Math.max(...nodeList.map(n => n.ef));
+  const lateFinish = backwardPass(fullOrder, nodes, () => projectFinish);
+
+  // Building float: backward pass per building with that building's own finish as the target
+  const buildingFinish = new Map<string, number>();
+  nodeList.forEach(n => buildingFinish.set(n.building, Math.max(buildingFinish.get(n.building) ?? 0, n.ef)));
+  const buildingFloat = new Map<string, number>();
+  buildingFinish.forEach((finish, building) => {
+    const lf = backwardPass(fullOrder, nodes, node => (node.building === building ? finish : Infinity));
+    nodeList.filter(n => n.building === building).forEach(n => buildingFloat.set(n.id, lf.get(n.id)! - n.ef));
+  });
+
+  const activities: CriticalPathActivity[] = nodeList
+    .map(node => {
+      const lf = lateFinish.get(node.id)!;
+      const totalFloat = lf - node.ef;
+      const bFloat = buildingFloat.get(node.id) ?? totalFloat;
+      return {
+        id: node.id,
+        label: [node.row.areaBuilding, node.row.mechanicalActivitySystem].filter(Boolean).join(' — '),
+        areaBuilding: node.row.areaBuilding,
+        activity: node.row.mechanicalActivitySystem,
+        durationDays: node.duration,
+        predecessorIds: node.preds,
+        unresolvedPredecessors: node.unresolved,
+        earlyStart: toIsoDay(anchor, node.es),
+        earlyFinish: toIsoDay(anchor, node.ef),
+        lateStart: toIsoDay(anchor, lf - node.duration),
+        lateFinish: toIsoDay(anchor, lf),
+        totalFloatDays: totalFloat,
+        buildingFloatDays: bFloat,
+        isCritical: totalFloat <= 0,
+        drivesBuildingFinish: bFloat <= 0,
+        inCycle: cyclic.has(node.id),
+      };
+    })
+    .sort((a, b) => a.earlyStart.localeCompare(b.earlyStart) || a.totalFloatDays - b.totalFloatDays);
+
+  const buildings: BuildingFinish[] = Array.from(buildingFinish.entries()).map(([building, finish]) => ({
+    building: nodeList.find(n => n.building === building)?.row.areaBuilding?.trim() || 'Unassigned',
+    finish: toIsoDay(anchor, finish),
+    drivingActivityIds: activities.filter(a => nodes.get(a.id)!.building === building && a.drivesBuildingFinish).map(a => a.id),
+  })).sort((a, b) => a.finish.localeCompare(b.finish));
+
+  return {
+    projectStart: toIsoDay(anchor, 0),
+    projectFinish: toIsoDay(anchor, projectFinish),
+    activities,
+    criticalPath: activities.filter(a => a.isCritical).map(a => a.id),
+    buildings,
+    cycles,
+    skipped: rows.length - usable.length,
+  };
+}
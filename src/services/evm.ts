@@ -0,0 +1,193 @@
+// src/services/evm.ts
+// Earned-value metrics from the Mechanical Plan. There are no cost columns in the sheet, so each activity's
+// budget is its original duration (same duration weighting the dashboard already uses for average progress):
+// BAC = Σ duration, PV = Σ duration × planned %, EV = Σ duration × actual %.
+
+import { addDays, format, startOfDay } from 'date-fns';
+import { normalizeDisciplineCategory, type HistoricalProgressRow } from '@/services/google-sheets';
+import type { EnhancedMechanicalPlanRow } from '@/types';
+
+export interface EvmMetrics {
+  bac: number;              // Budget at completion (duration-days)
+  plannedValue: number;     // PV at the status date (duration-days)
+  earnedValue: number;      // EV at the status date (duration-days)
+  plannedPct: number | null; // PV / BAC × 100
+  earnedPct: number | null;  // EV / BAC × 100
+  scheduleVariance: number;  // EV - PV (duration-days); negative = behind schedule
+  spi: number | null;        // EV / PV, null until something was planned
+  activityCount: number;
+}
+
+export interface EvmGroup extends EvmMetrics {
+  key: string;
+  label: string;
+}
+
+export interface SCurvePoint {
+  date: string;             // YYYY-MM-DD
+  timestamp: number;
+  plannedPct: number | null;
+  earnedPct: number | null; // Only on dates with a progress snapshot (or the status date)
+  spi: number | null;
+}
+
+export interface EvmReport {
+  statusDate: number;
+  overall: EvmMetrics;
+  byBuilding: EvmGroup[];
+  bySystem: EvmGroup[];
+  activities: (EvmGroup & { activityId: string | number })[];
+  sCurve: SCurvePoint[];
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const clampPct = (value: number): number => Math.max(0, Math.min(100, value));
+
+const toDateKey = (ts: number): string => format(ts, 'yyyy-MM-dd');
+
+const normalizeKeyPart = (value: string | null | undefined): string =>
+  (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Activities without a duration or a calculated start/finish can't be planned, so they carry no budget
+const isPlannable = (row: EnhancedMechanicalPlanRow): boolean =>
+  typeof row.originalDurationDays === 'number' && row.originalDurationDays > 0 &&
+  row.calculatedStartTimestamp !== null && row.calculatedFinishTimestamp !== null;
+
+// Linear planned progress between calculated start and finish
+export function plannedPercentAt(row: EnhancedMechanicalPlanRow, timestamp: number): number {
+  const start = row.calculatedStartTimestamp;
+  const finish = row.calculatedFinishTimestamp;
+  if (start === null || finish === null) return 0;
+  if (timestamp <= start) return 0;
+  if (timestamp >= finish) return 100;
+  return clampPct(((timestamp - start) / (finish - start)) * 100);
+}
+
+function computeMetrics(rows: EnhancedMechanicalPlanRow[], statusDate: number, earnedPctOf: (row: EnhancedMechanicalPlanRow) => number | null): EvmMetrics {
+  let bac = 0;
+  let pv = 0;
+  let ev = 0;
+  let count = 0;
+  for (const row of rows) {
+    if (!isPlannable(row)) continue;
+    const budget = row.originalDurationDays as number;
+    bac += budget;
+    pv += budget * plannedPercentAt(row, statusDate) / 100;
+    ev += budget * clampPct(earnedPctOf(row) ?? 0) / 100;
+    count++;
+  }
+  return {
+    bac: round(bac),
+    plannedValue: round(pv),
+    earnedValue: round(ev),
+    plannedPct: bac > 0 ? round((pv / bac) * 100, 1) : null,
+    earnedPct: bac > 0 ? round((ev / bac) * 100, 1) : null,
+    scheduleVariance: round(ev - pv),
+    spi: pv > 0 ? round(ev / pv) : null,
+    activityCount: count,
+  };
+}
+
+function groupBy(rows: EnhancedMechanicalPlanRow[], keyOf: (row: EnhancedMechanicalPlanRow) => string, statusDate: number): EvmGroup[] {
+  const groups = new Map<string, EnhancedMechanicalPlanRow[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => ({ key, label: key, ...computeMetrics(groupRows, statusDate, r => r.currentProgressPercentage) }))
+    .filter(group => group.activityCount > 0)
+    .sort((a, b) => (a.spi ?? Infinity) - (b.spi ?? Infinity));
+}
+
+const activityKey = (area: string | null | undefined, activity: string | null | undefined): string =>
+  `${normalizeKeyPart(area)}|${normalizeKeyPart(activity)}`;
+
+// Earned % per snapshot date from the "Full Progress History" rows, matched to plan activities by area + activity.
+// Rows repeated for an activity on one day (e.g. per room) are averaged; an activity missing from a snapshot keeps
+// its last known progress instead of dropping to 0.
+function earnedBySnapshot(plan: EnhancedMechanicalPlanRow[], history: HistoricalProgressRow[]): Map<number, Map<string, number>> {
+  const planKeys = new Set(plan.map(row => activityKey(row.areaBuilding, row.mechanicalActivitySystem)));
+  const byDay = new Map<number, Map<string, { sum: number; count: number }>>();
+  for (const row of history) {
+    if (row.snapshotTimestamp === null || typeof row.currentProgressPercentage !== 'number') continue;
+    const key = activityKey(row.areaBuilding ?? row.buildingName, row.mechanicalActivitySystem);
+    if (!planKeys.has(key)) continue;
+    const day = startOfDay(row.snapshotTimestamp).getTime();
+    const totals = byDay.get(day) ?? new Map<string, { sum: number; count: number }>();
+    const entry = totals.get(key) ?? { sum: 0, count: 0 };
+    entry.sum += row.currentProgressPercentage;
+    entry.count++;
+    totals.set(key, entry);
+    byDay.set(day, totals);
+  }
+
+  const bySnapshot = new Map<number, Map<string, number>>();
+  let lastKnown = new Map<string, number>();
+  Array.from(byDay.keys()).sort((a, b) => a - b).forEach(day => {
+    const snapshot = new Map(lastKnown);
+    byDay.get(day)?.forEach(({ sum, count }, key) => snapshot.set(key, sum / count));
+    bySnapshot.set(day, snapshot);
+    lastKnown = snapshot;
+  });
+  return bySnapshot;
+}
+
+// Weekly planned curve from the earliest start to the latest finish, with earned points at each progress snapshot
+export function buildSCurve(plan: EnhancedMechanicalPlanRow[], history: HistoricalProgressRow[] = [], statusDate: number = Date.now()): SCurvePoint[] {
+  const plannable = plan.filter(isPlannable);
+  if (plannable.length === 0) return [];
+
+  const start = startOfDay(Math.min(...plannable.map(r => r.calculatedStartTimestamp as number))).getTime();
+  const finish = startOfDay(Math.max(...plannable.map(r => r.calculatedFinishTimestamp as number))).getTime();
+  const status = startOfDay(statusDate).getTime();
+
+  const dates = new Set<number>();
+  for (let ts = start; ts <= finish; ts = addDays(ts, 7).getTime()) dates.add(ts);
+  dates.add(finish);
+
+  const snapshots = earnedBySnapshot(plannable, history);
+  snapshots.forEach((_, ts) => dates.add(ts));
+  dates.add(status);
+
+  return Array.from(dates).sort((a, b) => a - b).map(ts => {
+    const snapshot = snapshots.get(ts);
+    const earnedOf = ts === status
+      ? (row: EnhancedMechanicalPlanRow) => row.currentProgressPercentage
+      : snapshot
+        ? (row: EnhancedMechanicalPlanRow) => snapshot.get(activityKey(row.areaBuilding, row.mechanicalActivitySystem)) ?? null
+        : null;
+    // The status point uses the exact status date so it matches the SPI card
+    const metrics = computeMetrics(plannable, ts === status ? statusDate : ts, earnedOf ?? (() => null));
+    return {
+      date: toDateKey(ts),
+      timestamp: ts,
+      plannedPct: metrics.plannedPct,
+      earnedPct: earnedOf ? metrics.earnedPct : null,
+      spi: earnedOf ? metrics.spi : null,
+    };
+  });
+}
+
+export function calculateEvm(plan: EnhancedMechanicalPlanRow[], history: HistoricalProgressRow[] = [], statusDate: number = Date.now()): EvmReport {
+  const actual = (row: EnhancedMechanicalPlanRow) => row.currentProgressPercentage;
+  return {
+    statusDate,
+    overall: computeMetrics(plan, statusDate, actual),
+    byBuilding: groupBy(plan, row => row.areaBuilding?.trim() || 'Unassigned', statusDate),
+    bySystem: groupBy(plan, row => normalizeDisciplineCategory(row.mechanicalActivitySystem), statusDate),
+    activities: plan
+      .filter(isPlannable)
+      .map(row => ({
+        key: String(row.id),
+        activityId: row.id,
+        label: [row.areaBuilding, row.mechanicalActivitySystem].filter(Boolean).join(' — '),
+        ...computeMetrics([row], statusDate, actual),
+      })),
+    sCurve: buildSCurve(plan, history, statusDate),
+  };
+}
@@ -0,0 +1,124 @@
+// src/services/forecast-backtest.ts
+// Rolling-origin backtest of the manpower forecast methods. For every origin t the method is fitted on the
+// first t points only and its h-step-ahead forecast is compared with what was actually recorded, so the
+// errors are genuinely out-of-sample. MAE / MAPE / bias replace the heuristic `confidence` when judging a method.
+
+import { FORECAST_METHODS, forecastSeries, getMinHistoryLength, type ForecastMethod } from './forecasting';
+import { FORECAST_DISCIPLINES, getDisciplineValue, type ForecastDiscipline, type ManpowerValues } from '@/lib/manpower-disciplines';
+
+export interface BacktestOptions {
+  horizon?: number;        // Steps ahead being scored (default 1 = next entry)
+  minTrainSize?: number;   // First origin (default: the SMA window); earlier points are never scored. backtestForecasts
+                           // raises it so every method that fits the history is scored on the same origins
+  window?: number;         // SMA/EMA window
+  seasonLength?: number;   // Holt-Winters season
+  methods?: readonly ForecastMethod[];
+  disciplines?: readonly ForecastDiscipline[];
+}
+
+export interface BacktestMetrics {
+  method: ForecastMethod;
+  mae: number | null;      // Mean absolute error (workers)
+  mape: number | null;     // Mean absolute % error; days with 0 actual are left out
+  bias: number | null;     // Mean (forecast - actual); positive = over-forecasting
+  samples: number;         // Origins where the method could produce a forecast
+}
+
+export interface DisciplineBacktest {
+  discipline: ForecastDiscipline;
+  points: number;          // Non-empty history entries
+  origins: number;         // Origins available for scoring
+  methods: BacktestMetrics[];
+  recommended: ForecastMethod | null;
+}
+
+export interface BacktestReport {
+  horizon: number;
+  minTrainSize: number;
+  window: number;
+  seasonLength: number;
+  disciplines: DisciplineBacktest[];
+  generatedAt: string; // ISO
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function backtestSeries(
+  series: number[],
+  method: ForecastMethod,
+  { horizon = 1, minTrainSize = 3, window = 7, seasonLength = 7 }: BacktestOptions = {}
+): BacktestMetrics {
+  const absErrors: number[] = [];
+  const pctErrors: number[] = [];
+  const errors: number[] = [];
+
+  // Origins before the method's minimum history are skipped rather than fitted (and logged) as failures
+  const firstOrigin = Math.max(minTrainSize, getMinHistoryLength(method, { window, seasonLength }));
+  for (let origin = firstOrigin; origin + horizon <= series.length; origin++) {
+    const fit = forecastSeries(series.slice(0, origin), { method, window, horizon, seasonLength });
+    const predicted = fit?.forecast[horizon - 1];
+    if (predicted === undefined || !Number.isFinite(predicted)) continue;
+    const actual = series[origin + horizon - 1];
+    errors.push(predicted - actual);
+    absErrors.push(Math.abs(predicted - actual));
+    if (actual !== 0) pctErrors.push(Math.abs(predicted - actual) / Math.abs(actual) * 100);
+  }
+
+  const mae = mean(absErrors);
+  const mape = mean(pctErrors);
+  const bias = mean(errors);
+  return {
+    method,
+    mae: mae === null ? null : round(mae),
+    mape: mape === null ? null : round(mape, 1),
+    bias: bias === null ? null : round(bias),
+    samples: absErrors.length,
+  };
+}
+
+// Lowest MAE wins (MAPE breaks ties). Only methods scored on every origin compete, otherwise a method that
+// needs a longer history (Holt-Winters) would be judged on the easier, later origins only.
+export function recommendMethod(methods: BacktestMetrics[]): ForecastMethod | null {
+  const fullCoverage = Math.max(0, ...methods.map(m => m.samples));
+  if (fullCoverage === 0) return null;
+  const ranked = methods
+    .filter(m => m.samples === fullCoverage && m.mae !== null)
+    .sort((a, b) => (a.mae as number) - (b.mae as number) || (a.mape ?? Infinity) - (b.mape ?? Infinity));
+  return ranked[0]?.method ?? null;
+}
+
+export function backtestForecasts(manpower: ManpowerValues[], options: BacktestOptions = {}): BacktestReport {
+  const horizon = Math.max(1, options.horizon ?? 1);
+  const window = options.window ?? 7;
+  const seasonLength = options.seasonLength ?? 7;
+  const minTrainSize = Math.max(2, options.minTrainSize ?? window);
+  const methods = options.methods ?? FORECAST_METHODS;
+  const sorted = [...manpower].sort((a, b) => (a.dateString || '').localeCompare(b.dateString || ''));
+
+  const disciplines = (options.disciplines ?? FORECAST_DISCIPLINES).map((discipline): DisciplineBacktest => {
+    const series = sorted
+      .map(row => getDisciplineValue(row, discipline))
+      .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    // Common first origin for every method with enough history for at least one origin, so a method that needs a
+    // longer history (Holt-Winters) is compared with the others on the same days instead of being left out
+    const firstOrigin = Math.max(minTrainSize, ...methods
+      .map(method => getMinHistoryLength(method, { window, seasonLength }))
+      .filter(min => min + horizon <= series.length));
+    const scored = methods.map(method => backtestSeries(series, method, { horizon, minTrainSize: firstOrigin, window, seasonLength }));
+    return {
+      discipline,
+      points: series.length,
+      origins: Math.max(0, series.length - firstOrigin - horizon + 1),
+      methods: scored,
+      recommended: recommendMethod(scored),
+    };
+  });
+
+  return { horizon, minTrainSize, window, seasonLength, disciplines, generatedAt: new Date().toISOString() };
+}
@@ -1,11 +1,27 @@
 // src/services/forecasting.ts
 // Module 2: Forecasting Service for Project Grandeur (Enhanced with Stress Testing)
 
+import { getDisciplineValue, resolveManpowerDiscipline, type ForecastDiscipline, type ManpowerValues } from '@/lib/manpower-disciplines';
+
+export type ForecastMethod = 'sma' | 'ema' | 'linear' | 'holt' | 'holt-winters';
+
+export const FORECAST_METHODS: readonly ForecastMethod[] = ['sma', 'ema', 'linear', 'holt', 'holt-winters'];
+
 export interface ForecastParams {
-  method: 'sma' | 'ema';
+  method: ForecastMethod;
   window: number; // For SMA/EMA calculation
   horizon: number; // Number of future periods to forecast
-  discipline?: 'hvac' | 'firefighting' | 'firealarm' | 'total';
+  discipline?: ForecastDiscipline; // Any configured manpower discipline, or 'total'
+  seasonLength?: number; // Holt-Winters season in periods (default 7 = weekly cycle on daily data)
+  alpha?: number; // Level smoothing (Holt / Holt-Winters)
+  beta?: number; // Trend smoothing (Holt / Holt-Winters)
+  gamma?: number; // Seasonal smoothing (Holt-Winters)
+  intervalLevel?: 0.8 | 0.95; // Prediction interval coverage (default 0.95)
+}
+
+export interface PredictionInterval {
+  lower: number;
+  upper: number;
 }
 
 export interface ForecastResult {
@@ -18,6 +34,9 @@ export interface ForecastResult {
   confidence: number; // 0-1 scale
   warnings?: string[]; // New: warnings for edge cases
   qualityScore?: number; // New: data quality assessment
+  intervals?: PredictionInterval[]; // One per forecast period
+  intervalLevel?: number;
+  seasonLength?: number; // Holt-Winters only
 }
 
 export interface StressTestResult {
@@ -129,6 +148,175 @@ export function forecastEMA(data: (number | null)[], horizon: number, window: nu
   return forecast;
 }
 
+// Point forecast plus the widening factor of its error at each step (1 = one-step-ahead residual spread)
+export interface MethodForecast {
+  forecast: number[];
+  residuals: number[]; // In-sample one-step-ahead errors
+  spread: number[]; // Multiplier on the residual standard deviation per horizon step
+}
+
+const DEFAULT_SEASON_LENGTH = 7;
+const Z_SCORES: Record<number, number> = { 0.8: 1.2816, 0.95: 1.96 };
+
+// Ordinary least squares on the period index; spread follows the textbook prediction interval
+export function forecastLinear(data: (number | null)[], horizon: number): MethodForecast | null {
+  const cleanData = data.filter(x => x !== null) as number[];
+  const n = cleanData.length;
+  if (n < 3) {
+    console.error(`[Stress Test] Cannot fit linear regression with ${n} points`);
+    return null;
+  }
+  const meanX = (n - 1) / 2;
+  const meanY = cleanData.reduce((a, b) => a + b, 0) / n;
+  const sxx = cleanData.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+  const slope = cleanData.reduce((sum, y, x) => sum + (x - meanX) * (y - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = cleanData.map((y, x) => y - (intercept + slope * x));
+  const forecast: number[] = [];
+  const spread: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const x = n - 1 + h;
+    forecast.push(Math.max(0, intercept + slope * x));
+    spread.push(Math.sqrt(1 + 1 / n + (x - meanX) ** 2 / sxx));
+  }
+  return { forecast, residuals, spread };
+}
+
+// Holt's linear (double exponential) smoothing
+export function forecastHolt(data: (number | null)[], horizon: number, alpha = 0.5, beta = 0.3): MethodForecast | null {
+  const cleanData = data.filter(x => x !== null) as number[];
+  if (cleanData.length < 3) {
+    console.error(`[Stress Test] Cannot run Holt with ${cleanData.length} points`);
+    return null;
+  }
+  let level = cleanData[0];
+  let trend = cleanData[1] - cleanData[0];
+  const residuals: number[] = [];
+  for (let i = 1; i < cleanData.length; i++) {
+    residuals.push(cleanData[i] - (level + trend));
+    const prevLevel = level;
+    level = alpha * cleanData[i] + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+  }
+  const forecast: number[] = [];
+  const spread: number[] = [];
+  let variance = 1;
+  for (let h = 1; h <= horizon; h++) {
+    forecast.push(Math.max(0, level + h * trend));
+    spread.push(Math.sqrt(variance));
+    variance += (alpha * (1 + h * beta)) ** 2;
+  }
+  return { forecast, residuals, spread };
+}
+
+// Additive Holt-Winters; needs two full seasons to initialise the seasonal indices
+export function forecastHoltWinters(
+  data: (number | null)[],
+  horizon: number,
+  seasonLength = DEFAULT_SEASON_LENGTH,
+  alpha = 0.4,
+  beta = 0.1,
+  gamma = 0.3
+): MethodForecast | null {
+  const cleanData = data.filter(x => x !== null) as number[];
+  const m = seasonLength;
+  if (m < 2 || cleanData.length < 2 * m) {
+    console.error(`[Stress Test] Holt-Winters needs at least ${2 * m} points for season length ${m}, got ${cleanData.length}`);
+    return null;
+  }
+  const firstSeason = cleanData.slice(0, m);
+  const secondSeason = cleanData.slice(m, 2 * m);
+  const firstMean = firstSeason.reduce((a, b) => a + b, 0) / m;
+  const secondMean = secondSeason.reduce((a, b) => a + b, 0) / m;
+
+  let level = firstMean;
+  let trend = (secondMean - firstMean) / m;
+  const seasonal = firstSeason.map(v => v - firstMean);
+  const residuals: number[] = [];
+
+  for (let i = m; i < cleanData.length; i++) {
+    const s = seasonal[i % m];
+    residuals.push(cleanData[i] - (level + trend + s));
+    const prevLevel = level;
+    level = alpha * (cleanData[i] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    seasonal[i % m] = gamma * (cleanData[i] - level) + (1 - gamma) * s;
+  }
+
+  const n = cleanData.length;
+  const forecast: number[] = [];
+  const spread: number[] = [];
+  let variance = 1;
+  for (let h = 1; h <= horizon; h++) {
+    forecast.push(Math.max(0, level + h * trend + seasonal[(n + h - 1) % m]));
+    spread.push(Math.sqrt(variance));
+    variance += (alpha * (1 + h * beta) + (h % m === 0 ? gamma * (1 - alpha) : 0)) ** 2;
+  }
+  return { forecast, residuals, spread };
+}
+
+// One-step-ahead errors of the moving-average methods, so SMA/EMA also get intervals (random-walk widening)
+function movingAverageResiduals(data: number[], method: 'sma' | 'ema', window: number): number[] {
+  if (method === 'ema') {
+    const ema = calculateEMA(data, window);
+    return data.slice(1).map((value, i) => value - ema[i]);
+  }
+  const residuals: number[] = [];
+  for (let i = window; i < data.length; i++) {
+    const mean = data.slice(i - window, i).reduce((a, b) => a + b, 0) / window;
+    residuals.push(data[i] - mean);
+  }
+  return residuals;
+}
+
+// Fewest non-empty points each method needs to fit (Holt-Winters: two full seasons); forecastSeries returns null below
+export function getMinHistoryLength(method: ForecastMethod, { window, seasonLength = DEFAULT_SEASON_LENGTH }: Pick<ForecastParams, 'window' | 'seasonLength'>): number {
+  switch (method) {
+    case 'sma': return window;
+    case 'ema': return 2;
+    case 'linear':
+    case 'holt': return 3;
+    case 'holt-winters': return seasonLength < 2 ? Infinity : 2 * seasonLength;
+  }
+}
+
+// Runs one method on an already-selected series (shared by forecastManpower and the backtest)
+export function forecastSeries(values: (number | null)[], params: ForecastParams): MethodForecast | null {
+  const { method, window, horizon } = params;
+  switch (method) {
+    case 'linear':
+      return forecastLinear(values, horizon);
+    case 'holt':
+      return forecastHolt(values, horizon, params.alpha, params.beta);
+    case 'holt-winters':
+      return forecastHoltWinters(values, horizon, params.seasonLength ?? DEFAULT_SEASON_LENGTH, params.alpha, params.beta, params.gamma);
+    default: {
+      const cleanData = values.filter(x => x !== null) as number[];
+      const forecastFn = method === 'sma' ? forecastSMA : forecastEMA;
+      const points = forecastFn(values, horizon, window);
+      return points.length > 0
+        ? { forecast: points, residuals: movingAverageResiduals(cleanData, method, window), spread: points.map((_, i) => Math.sqrt(i + 1)) }
+        : null;
+    }
+  }
+}
+
+export function calculatePredictionIntervals(
+  forecast: number[],
+  residuals: number[],
+  spread: number[],
+  level: 0.8 | 0.95 = 0.95
+): PredictionInterval[] {
+  const n = residuals.length;
+  const sigma = n > 1 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 1)) : 0;
+  const z = Z_SCORES[level] ?? Z_SCORES[0.95];
+  return forecast.map((value, i) => {
+    const margin = z * sigma * (spread[i] ?? Math.sqrt(i + 1));
+    return { lower: Math.max(0, value - margin), upper: value + margin };
+  });
+}
+
 // Enhanced trend detection with more sophisticated analysis
 function detectTrend(data: number[]): 'increasing' | 'decreasing' | 'stable' {
   if (data.length < 3) return 'stable';
@@ -222,7 +410,7 @@ function assessDataQuality(data: (number | null)[]): { score: number; warnings:
 
 // Main forecasting function with enhanced stress testing
 export function forecastManpower(
-  manpowerData: { dateString: string | null; hvacManpower: number | null; firefightingManpower: number | null; fireAlarmManpower: number | null; totalManpower: number | null }[],
+  manpowerData: ManpowerValues[],
   params: ForecastParams
 ): ForecastResult | null {
   const startTime = Date.now();
@@ -234,41 +422,25 @@ export function forecastManpower(
 
   const sortedData = manpowerData.sort((a, b) => (a.dateString || '').localeCompare(b.dateString || ''));
 
-  const hvacData = sortedData.map(r => r.hvacManpower);
-  const firefightingData = sortedData.map(r => r.firefightingManpower);
-  const firealarmData = sortedData.map(r => r.fireAlarmManpower);
-  const totalData = sortedData.map(r => r.totalManpower);
-
-  const { method, window, horizon, discipline = 'total' } = params;
-
-  // Select the appropriate dataset
-  let selectedData: (number | null)[];
-  switch (discipline.toLowerCase()) {
-    case 'hvac':
-      selectedData = hvacData;
-      break;
-    case 'firefighting':
-      selectedData = firefightingData;
-      break;
-    case 'firealarm':
-      selectedData = firealarmData;
-      break;
-    default:
-      selectedData = totalData;
-  }
+  const { method, window, horizon, discipline = 'total', intervalLevel = 0.95 } = params;
+  const seasonLength = params.seasonLength ?? DEFAULT_SEASON_LENGTH;
+
+  // Select the appropriate dataset (unknown disciplines fall back to total, as before)
+  const selectedDiscipline = resolveManpowerDiscipline(discipline) ?? 'total';
+  const selectedData: (number | null)[] = sortedData.map(r => getDisciplineValue(r, selectedDiscipline));
 
   // Assess data quality
   const qualityAssessment = assessDataQuality(selectedData);
 
-  const forecastFn = method === 'sma' ? forecastSMA : forecastEMA;
-  const forecast = forecastFn(selectedData, horizon, window);
+  const cleanData = selectedData.filter(x => x !== null) as number[];
+  const methodForecast = forecastSeries(selectedData, params);
 
-  if (forecast.length === 0) {
+  if (!methodForecast || methodForecast.forecast.length === 0) {
     console.error('[Stress Test] Forecast generation failed');
     return null;
   }
 
-  const cleanData = selectedData.filter(x => x !== null) as number[];
+  const { forecast } = methodForecast;
   const result: ForecastResult = {
     historical: cleanData,
     forecast,
@@ -278,7 +450,10 @@ export function forecastManpower(
     trend: detectTrend(cleanData),
     confidence: calculateConfidence(cleanData),
     warnings: qualityAssessment.warnings,
-    qualityScore: qualityAssessment.score
+    qualityScore: qualityAssessment.score,
+    intervals: calculatePredictionIntervals(forecast, methodForecast.residuals, methodForecast.spread, intervalLevel),
+    intervalLevel,
+    ...(method === 'holt-winters' ? { seasonLength } : {}),
   };
 
   const executionTime = Date.now() - startTime;
@@ -289,7 +464,7 @@ export function forecastManpower(
 
 // Stress testing function
 export function stressTestForecast(
-  manpowerData: { dateString: string | null; hvacManpower: number | null; firefightingManpower: number | null; fireAlarmManpower: number | null; totalManpower: number | null }[],
+  manpowerData: ManpowerValues[],
   testCases: { name: string; params: ForecastParams; expectedFailure?: boolean }[]
 ): StressTestResult[] {
   const results: StressTestResult[] = [];
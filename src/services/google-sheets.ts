@@ -1,6 +1,10 @@
 // src/services/google-sheets.ts
 import { parse } from 'date-fns';
 import { fetchWithTimeout, isAbortError, isTimeoutError, CSV_FETCH_TIMEOUT_MS } from '@/lib/http/timeout';
+import { splitCSVRecords, parseCSVLine, normalizeArabicNumerals } from '@/lib/csv';
+import { MANPOWER_DISCIPLINES, normalizeDisciplineCategory, type DisciplineCategory } from '@/lib/manpower-disciplines';
+import { isLocalDataSourceConfigured, type SheetCsvSource } from '@/lib/data-source/types';
+import { HEADER_ALIASES } from '@/lib/sheets/header-aliases';
 
 // --- Type Definitions ---
 
@@ -24,6 +28,7 @@ export interface ManpowerSheetRow {
     hvacManpower: number | null;
     firefightingManpower: number | null;
     fireAlarmManpower: number | null;
+    securityManpower: number | null; // Security Subcontractor column
     totalManpower: number | null;
 }
 
@@ -89,6 +94,7 @@ export interface HistoricalProgressRow {
     hvacManpower?: number | null;
     ffManpower?: number | null; // Assuming ffManpower is firefighting
     faManpower?: number | null; // Assuming faManpower is fire alarm
+    securityManpower?: number | null; // Security subcontractor headcount
     totalManpower?: number | null;
 }
 
@@ -111,10 +117,57 @@ export interface RiskRegisterItem {
     residualRiskLevel: string | null;
     lastUpdatedString: string | null; // Store as string from sheet
     lastUpdatedTimestamp: number | null; // Parsed timestamp
-    // Optional: if the second 'Risk Level' column (P) has a distinct meaning
-    // secondaryRiskLevel?: string | null;
+    // Filled for risks drafted by the news/document scanner (services/risk-scanner.ts)
+    sourceUrl?: string | null;
+    detectionDateString?: string | null;
+    detectionDateTimestamp?: number | null;
 }
 
+// --- RFI Log Type Definitions ---
+// Discipline categories live with the manpower disciplines (src/lib/manpower-disciplines.ts) so client code can use them
+export { normalizeDisciplineCategory, type DisciplineCategory };
+export type RFIStatus = 'Inspected' | 'Awaiting Inspection' | 'Submitted';
+
+export interface RFIRow {
+    serialNo: number | null;
+    description: string | null;
+    rfiNumber: string | null; // As written in the sheet, e.g. "RFI-07 ( REV-01 )"
+    baseRfiNumber: string | null; // Revision suffix removed, e.g. "RFI-07"
+    revision: number | null; // 1 for "( REV-01 )", null when there is no suffix
+    discipline: string | null;
+    disciplineCategory: DisciplineCategory;
+    materialReceivedDateString: string | null;
+    materialReceivedTimestamp: number | null;
+    inspectionDateString: string | null;
+    inspectionTimestamp: number | null;
+    preparedBy: string | null; // Multi-line cell collapsed to one line
+    preparedByCompany: string | null; // Text inside the parentheses, e.g. "M/s MSCL"
+    building: string | null; // Inferred from the description
+    section: string | null; // Banner label of the block the row belongs to, e.g. "EXPANSION PE-301"
+    status: RFIStatus;
+}
+
+// --- Material Inspection Request (MIR) Type Definitions ---
+export type MIRStatus = RFIStatus;
+
+export interface MIRRow {
+    serialNo: number | null;
+    description: string | null;
+    mirNumber: string | null; // As written in the sheet, e.g. "MIR-M-009(Rev-01)"
+    baseMirNumber: string | null; // Revision suffix removed, e.g. "MIR-M-009"
+    revision: number | null;
+    discipline: string | null;
+    disciplineCategory: DisciplineCategory;
+    materialReceivedDateString: string | null;
+    materialReceivedTimestamp: number | null;
+    inspectionDateString: string | null;
+    inspectionTimestamp: number | null;
+    preparedBy: string | null;
+    preparedByCompany: string | null;
+    building: string | null; // Inferred from the description
+    section: string | null; // e.g. "EXPANSION PE-301"
+    status: MIRStatus;
+}
 
 // --- Constants ---
 const GOOGLE_SHEET_ID = "1pEwohK-Lk6-8_xpUDVauEkxOCJ6H75XdFi8AFlxG_OU"; // Your Google Sheet ID
@@ -126,46 +179,75 @@ export const SHEET_NAMES = {
     MATERIAL: "Material Status",
     PLAN: "Mechanical Plan",
     HISTORY: "Full Progress History",
-    RISK_REGISTER: "RiskRegister" // <<<--- اسم الشيت الجديد
+    RISK_REGISTER: "RiskRegister", // <<<--- اسم الشيت الجديد
+    SCAN_KEYWORDS: "ScanKeywords",
+    RFI_LOG: "RFI'S",
+    MIR_LOG: "Material Inspection Request",
+};
+
+// --- Sheet CSV Sources ---
+// Live spreadsheet through the public gviz CSV endpoint (the default).
+const gvizCsvSource: SheetCsvSource = {
+    async getCsv(sheetName: string): Promise<string> {
+        const cacheBuster = `&_cb=${new Date().getTime()}`;
+        const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
+        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
+        const csvText = await response.text();
+        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
+        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html')) { throw new Error(`Empty or invalid CSV response from URL: ${csvUrl}`); }
+        return csvText;
+    },
+};
+
+// Offline mode in the browser: the exported CSV folder is only reachable through the server.
+const localApiCsvSource: SheetCsvSource = {
+    async getCsv(sheetName: string): Promise<string> {
+        const url = `/api/sheets/csv?sheet=${encodeURIComponent(sheetName)}`;
+        const response = await fetchWithTimeout(url, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
+        const csvText = await response.text();
+        if (!response.ok) { throw new Error(`Local data source error! Status: ${response.status}. URL: ${url}`); }
+        return csvText;
+    },
 };
 
+let registeredCsvSource: SheetCsvSource | null = null;
+
+// Server code (src/instrumentation.ts) and tests register a LocalDirectoryDataSource here; pass null to go back to the default.
+export function setSheetCsvSource(source: SheetCsvSource | null): void {
+    registeredCsvSource = source;
+}
+
+function getSheetCsvSource(): SheetCsvSource {
+    if (registeredCsvSource) return registeredCsvSource;
+    if (isLocalDataSourceConfigured() && typeof window !== 'undefined') return localApiCsvSource;
+    return gvizCsvSource;
+}
+
+async function fetchSheetCsv(sheetName: string): Promise<string> {
+    return getSheetCsvSource().getCsv(sheetName);
+}
+
 
 // --- Helper Functions ---
-function parseCSV(csvText: string): { headers: string[], data: string[][] } {
+// isHeaderRow lets sheets with a title banner above the real headers (RFI / MIR logs) pick their header record.
+function parseCSV(csvText: string, isHeaderRow?: (fields: string[]) => boolean): { headers: string[], data: string[][] } {
     if (!csvText || typeof csvText !== 'string') { return { headers: [], data: [] }; }
-    const lines = csvText.trim().replace(/\r\n/g, '\n').split('\n');
+    const lines = splitCSVRecords(csvText.trim());
     if (lines.length === 0 || (lines.length === 1 && lines[0].trim() === '')) { return { headers: [], data: [] }; }
-    
-    const parseLine = (line: string): string[] => {
-        const fields: string[] = []; let currentField = ''; let inQuotes = false;
-        for (let i = 0; i < line.length; i++) {
-            const char = line[i];
-            if (char === '"') {
-                if (inQuotes && line[i + 1] === '"') { currentField += '"'; i++; } 
-                else { inQuotes = !inQuotes; }
-            } else if (char === ',' && !inQuotes) {
-                fields.push(currentField); currentField = '';
-            } else {
-                currentField += char;
-            }
-        }
-        fields.push(currentField); // Push the last field
-        return fields.map(field => {
-            const trimmedField = field.trim();
-            // Handle fields that are entirely enclosed in quotes
-            if (trimmedField.startsWith('"') && trimmedField.endsWith('"')) {
-                return trimmedField.slice(1, -1).replace(/""/g, '"'); // Remove outer quotes and unescape double quotes
-            }
-            return trimmedField;
-        });
-    };
 
-    const rawHeaders = parseLine(lines[0]);
+    let headerLineIdx = 0;
+    if (isHeaderRow) {
+        const foundIdx = lines.findIndex(line => isHeaderRow(parseCSVLine(line)));
+        if (foundIdx === -1) { return { headers: [], data: [] }; }
+        headerLineIdx = foundIdx;
+    }
+
+    const rawHeaders = parseCSVLine(lines[headerLineIdx]);
     const headers = rawHeaders.map(h => h.toLowerCase().trim());
     const data: string[][] = [];
-    for (let i = 1; i < lines.length; i++) {
+    for (let i = headerLineIdx + 1; i < lines.length; i++) {
         if (lines[i].trim()) {
-            const rowData = parseLine(lines[i]);
+            const rowData = parseCSVLine(lines[i]);
             // Ensure rowData has the same number of columns as headers, padding with empty strings if necessary
             while (rowData.length < headers.length) { rowData.push(''); }
             if (rowData.length > headers.length) { rowData.length = headers.length; } // Truncate if too long
@@ -177,7 +259,7 @@ function parseCSV(csvText: string): { headers: string[], data: string[][] } {
 
 function parseNumberOrNull(value: string | undefined | null): number | null {
     if (value === null || value === undefined) return null;
-    const trimmedVal = value.trim();
+    const trimmedVal = normalizeArabicNumerals(value.trim());
     if (trimmedVal === '' || trimmedVal === '-' || ['n/a', 'na', 'tbd'].some(kw => trimmedVal.toLowerCase() === kw)) return null;
     const numStr = trimmedVal.replace('%', '').replace('days', '').replace(/,/g, '').trim();
     if (numStr === '') return null;
@@ -185,6 +267,15 @@ function parseNumberOrNull(value: string | undefined | null): number | null {
     return !isNaN(num) && isFinite(num) ? num : null;
 }
 
+// Percent cells come as "60%", "60" or as a fraction ("0.6" / "0٫6" from percent-formatted cells) — always returns 0-100
+function parsePercentOrNull(value: string | undefined | null): number | null {
+    const num = parseNumberOrNull(value);
+    if (num === null || value === null || value === undefined) return num;
+    const normalized = normalizeArabicNumerals(value.trim());
+    const isFraction = !normalized.includes('%') && normalized.includes('.') && num >= 0 && num <= 1;
+    return isFraction ? Math.round(num * 10000) / 100 : num;
+}
+
 function parseDateToTimestamp(dateString: string | undefined | null, formatStrings: string[] = ['MM/dd/yyyy', 'dd-MMM-yy', 'yyyy-MM-dd', 'M/d/yy', 'dd/MM/yyyy', 'M/dd/yy HH:mm:ss']): number | null {
     if (dateString === null || dateString === undefined) return null;
     let trimmedDateString = dateString.trim();
@@ -227,7 +318,19 @@ function parseDateToTimestamp(dateString: string | undefined | null, formatStrin
 }
 
 
-const getHeaderIndex = (headerMap: { [key: string]: number }, possibleHeaders: string[], sheetName: string, isCritical: boolean = false): number => {
+// "PE-263 Control Building Battery Room" -> { area: "PE-263 Control Building", location: "Battery Room" }.
+// The area ends at the first building-type word (Building [#2] [( ... )], Tunnel, Room, Containers, Transformers);
+// without one the whole value is the area.
+const AREA_LOCATION_PATTERN = /^([\s\S]*?\b(?:building(?:\s*#?\s*\d+)?(?:\s*\([^)]*\))?|tunnel|room|containers?|transformers?))\s+(\S[\s\S]*)$/i;
+
+export function splitAreaAndLocation(value: string | null | undefined): { area: string | null; location: string | null } {
+    const trimmed = value?.trim();
+    if (!trimmed) return { area: null, location: null };
+    const match = trimmed.match(AREA_LOCATION_PATTERN);
+    return match ? { area: match[1].trim(), location: match[2].trim() } : { area: trimmed, location: null };
+}
+
+const getHeaderIndex = (headerMap: { [key: string]: number }, possibleHeaders: readonly string[], sheetName: string, isCritical: boolean = false): number => {
     for (const h of possibleHeaders) {
         const lowerH = h.toLowerCase().trim();
         if (headerMap[lowerH] !== undefined) {
@@ -247,28 +350,23 @@ const getHeaderIndex = (headerMap: { [key: string]: number }, possibleHeaders: s
 // --- Data Fetching Functions ---
 
 export async function getProgressSheetData(sheetName: string): Promise<ProgressSheetRow[]> {
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
-        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html')) { throw new Error(`Empty or invalid CSV response from URL: ${csvUrl}`); }
+        const csvText = await fetchSheetCsv(sheetName);
         let parsedResult; try { parsedResult = parseCSV(csvText); } catch (e: any) { throw new Error(`Failed to parse CSV from sheet "${sheetName}": ${e.message}`); }
         if (!parsedResult?.headers || !parsedResult.data) { throw new Error(`Invalid parsed CSV structure from sheet "${sheetName}".`); }
 
         const { headers, data: rows } = parsedResult;
         const headerMap: { [key: string]: number } = {}; headers.forEach((h, i) => { headerMap[h] = i; });
 
-        const idIdx = getHeaderIndex(headerMap, ['id'], sheetName);
-        const pIdx = getHeaderIndex(headerMap, ['projects', 'project'], sheetName, true);
-        const bIdx = getHeaderIndex(headerMap, ['building name', 'building'], sheetName, true);
-        const fIdx = getHeaderIndex(headerMap, ['floor/room', 'floor', 'room'], sheetName);
-        const hPIdx = getHeaderIndex(headerMap, ['hvac (%)', 'hvac'], sheetName);
-        const ffIdx = getHeaderIndex(headerMap, ['firefighting (%)', 'ff (%)', 'ff'], sheetName);
-        const faIdx = getHeaderIndex(headerMap, ['fire alarm (%)', 'fa (%)', 'fa'], sheetName);
-        const hrIdx = getHeaderIndex(headerMap, ['hvac remarks', 'hvac remark'], sheetName);
-        const frIdx = getHeaderIndex(headerMap, ['fire remarks', 'fire remark', 'ff remarks', 'fa remarks'], sheetName);
+        const idIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.id, sheetName);
+        const pIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.projects, sheetName, true);
+        const bIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.buildingName, sheetName, true);
+        const fIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.floorRoom, sheetName);
+        const hPIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.hvacPercentage, sheetName);
+        const ffIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.firefightingPercentage, sheetName);
+        const faIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.fireAlarmPercentage, sheetName);
+        const hrIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.hvacRemarks, sheetName);
+        const frIdx = getHeaderIndex(headerMap, HEADER_ALIASES.progress.fireRemarks, sheetName);
 
         if (pIdx === -1 || bIdx === -1) {
             console.error(`[getProgressSheetData] Critical headers missing in sheet "${sheetName}". Cannot process.`);
@@ -304,24 +402,18 @@ export async function getProgressSheetData(sheetName: string): Promise<ProgressS
 
 
 export async function getManpowerSheetData(sheetName: string): Promise<ManpowerSheetRow[]> {
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
-        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html')) { throw new Error(`Empty or invalid CSV response from URL: ${csvUrl}`); }
+        const csvText = await fetchSheetCsv(sheetName);
         let parsedResult; try { parsedResult = parseCSV(csvText); } catch (e: any) { throw new Error(`Failed to parse CSV from sheet "${sheetName}": ${e.message}`); }
         if (!parsedResult?.headers || !parsedResult.data) { throw new Error(`Invalid parsed CSV structure from sheet "${sheetName}".`); }
 
         const { headers, data: rows } = parsedResult;
         const headerMap: { [key: string]: number } = {}; headers.forEach((h, i) => { headerMap[h] = i; });
 
-        const dIdx = getHeaderIndex(headerMap, ['date', 'day', 'التاريخ', 'اليوم'], sheetName, true);
-        const hIdx = getHeaderIndex(headerMap, ['hvac manpower', 'hvac'], sheetName);
-        const ffIdx = getHeaderIndex(headerMap, ['firefighting manpower', 'ff', 'firefighting'], sheetName);
-        const faIdx = getHeaderIndex(headerMap, ['fire alarm manpower', 'fa', 'fire alarm'], sheetName);
-        const tIdx = getHeaderIndex(headerMap, ['total manpower', 'total'], sheetName);
+        const dIdx = getHeaderIndex(headerMap, HEADER_ALIASES.manpower.date, sheetName, true);
+        // One column per configured discipline (see src/lib/manpower-disciplines.ts)
+        const disciplineIdx = MANPOWER_DISCIPLINES.map(d => ({ field: d.field, idx: getHeaderIndex(headerMap, HEADER_ALIASES.manpower[d.field], sheetName) }));
+        const tIdx = getHeaderIndex(headerMap, HEADER_ALIASES.manpower.totalManpower, sheetName);
 
         if (dIdx === -1) {
             console.error(`[getManpowerSheetData] Critical header 'Date' not found in sheet "${sheetName}".`);
@@ -331,7 +423,7 @@ export async function getManpowerSheetData(sheetName: string): Promise<ManpowerS
         const manpowerDateFormats = ['MM/dd/yyyy', 'M/d/yyyy', 'dd-MMM-yy', 'yyyy-MM-dd', 'dd/MM/yyyy'];
 
         const pData: ManpowerSheetRow[] = rows.map((v) => {
-            const maxIdxNeeded = Math.max(dIdx, hIdx, ffIdx, faIdx, tIdx);
+            const maxIdxNeeded = Math.max(dIdx, tIdx, ...disciplineIdx.map(d => d.idx));
              if (maxIdxNeeded > -1 && v.length <= maxIdxNeeded && !v.slice(0, maxIdxNeeded + 1).some(cell => cell && cell.trim() !== '')) { return null; }
 
             const dS = v[dIdx] || null;
@@ -342,13 +434,11 @@ export async function getManpowerSheetData(sheetName: string): Promise<ManpowerS
             }
             if (tS === null) return null; // Skip if no valid date
 
-            const rowData: ManpowerSheetRow = {
+            const rowData = {
                 dateString: dS, timestamp: tS,
-                hvacManpower: parseNumberOrNull(hIdx !== -1 ? v[hIdx] : null),
-                firefightingManpower: parseNumberOrNull(ffIdx !== -1 ? v[ffIdx] : null),
-                fireAlarmManpower: parseNumberOrNull(faIdx !== -1 ? v[faIdx] : null),
                 totalManpower: parseNumberOrNull(tIdx !== -1 ? v[tIdx] : null),
-            };
+            } as ManpowerSheetRow;
+            disciplineIdx.forEach(({ field, idx }) => { rowData[field] = parseNumberOrNull(idx !== -1 ? v[idx] : null); });
             return rowData;
         }).filter((r): r is ManpowerSheetRow => r !== null);
         return pData;
@@ -359,33 +449,28 @@ export async function getManpowerSheetData(sheetName: string): Promise<ManpowerS
 }
 
 export async function getMaterialStatusData(sheetName: string): Promise<MaterialStatusRow[]> {
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
+        const csvText = await fetchSheetCsv(sheetName);
         // console.log("RAW CSV DATA --- Material Status --- STARTS BELOW:");
         // console.log(csvText.substring(0, 2000));
         // console.log("RAW CSV DATA --- Material Status --- ENDS ABOVE.");
 
-        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html')) { throw new Error(`Empty or invalid CSV response from URL: ${csvUrl}`); }
         let parsedResult; try { parsedResult = parseCSV(csvText); } catch (e: any) { throw new Error(`Failed to parse CSV from sheet "${sheetName}": ${e.message}`); }
         if (!parsedResult?.headers || !parsedResult.data) { throw new Error(`Invalid parsed CSV structure from sheet "${sheetName}".`); }
 
         const { headers, data: rows } = parsedResult;
         const headerMap: { [key: string]: number } = {}; headers.forEach((h, i) => { headerMap[h] = i; });
 
-        const systemIdx = getHeaderIndex(headerMap, ['system'], sheetName);
-        const itemDescIdx = getHeaderIndex(headerMap, ['item description'], sheetName, true);
-        const locationIdx = getHeaderIndex(headerMap, ['building location', 'location'], sheetName);
-        const approvalIdx = getHeaderIndex(headerMap, ['approval stage', 'approval'], sheetName);
-        const statusIdx = getHeaderIndex(headerMap, ['delivery status', 'status'], sheetName);
-        const quantityIdx = getHeaderIndex(headerMap, ['quantity (approved drawings)', 'quantity', 'qty'], sheetName);
-        const plannedDateIdx = getHeaderIndex(headerMap, ['planned delivery date', 'planned date', 'planned'], sheetName);
-        const actualDateIdx = getHeaderIndex(headerMap, ['actual delivery date', 'actual date', 'actual'], sheetName);
-        const remarksIdx = getHeaderIndex(headerMap, ['remarks'], sheetName);
-        const docLinkIdx = getHeaderIndex(headerMap, ['document link', 'doc link', 'link'], sheetName);
+        const systemIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.system, sheetName);
+        const itemDescIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.itemDescription, sheetName, true);
+        const locationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.buildingLocation, sheetName);
+        const approvalIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.approvalStage, sheetName);
+        const statusIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.deliveryStatus, sheetName);
+        const quantityIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.quantity, sheetName);
+        const plannedDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.plannedDeliveryDate, sheetName);
+        const actualDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.actualDeliveryDate, sheetName);
+        const remarksIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.remarks, sheetName);
+        const docLinkIdx = getHeaderIndex(headerMap, HEADER_ALIASES.material.documentLink, sheetName);
 
         if (itemDescIdx === -1) {
             console.error(`[getMaterialStatusData] Critical header 'Item Description' not found in sheet "${sheetName}".`);
@@ -425,61 +510,71 @@ export async function getMaterialStatusData(sheetName: string): Promise<Material
 }
 
 export async function getHistoricalProgressData(sheetName: string): Promise<HistoricalProgressRow[]> {
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
-        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html')) { throw new Error(`Empty or invalid CSV response from URL: ${csvUrl}`); }
+        const csvText = await fetchSheetCsv(sheetName);
         let parsedResult; try { parsedResult = parseCSV(csvText); } catch (e: any) { throw new Error(`Failed to parse CSV from sheet "${sheetName}": ${e.message}`); }
         if (!parsedResult?.headers || !parsedResult.data) { throw new Error(`Invalid parsed CSV structure from sheet "${sheetName}".`); }
 
         const { headers, data: rows } = parsedResult;
         const headerMap: { [key: string]: number } = {}; headers.forEach((h, i) => { headerMap[h] = i; });
 
-        const dateIdx = getHeaderIndex(headerMap, ['snapshotdate', 'snapshot date', 'date'], sheetName, true);
-        const dataSourceIdx = getHeaderIndex(headerMap, ['datasource', 'data source'], sheetName, false);
-        const pIdx = getHeaderIndex(headerMap, ['projects'], sheetName);
-        const bIdx = getHeaderIndex(headerMap, ['building name', 'building'], sheetName);
-        const fIdx = getHeaderIndex(headerMap, ['floor/room', 'floor', 'room'], sheetName);
-        const ffPIdx = getHeaderIndex(headerMap, ['firefighting (%)', 'ff (%)', 'firefighting'], sheetName);
-        const faPIdx = getHeaderIndex(headerMap, ['fire alarm (%)', 'fa (%)', 'fire alarm'], sheetName);
-        const frIdx = getHeaderIndex(headerMap, ['fire remarks'], sheetName);
-        const hPIdx = getHeaderIndex(headerMap, ['hvac (%)', 'hvac'], sheetName);
-        const hrIdx = getHeaderIndex(headerMap, ['hvac remarks'], sheetName);
-        const areaBuildingIdx = getHeaderIndex(headerMap, ['area/building', 'areabuilding'], sheetName);
-        const locationRoomLevelIdx = getHeaderIndex(headerMap, ['location (room/level)'], sheetName);
-        const activityIdx = getHeaderIndex(headerMap, ['mechanical activity (system)', 'activity'], sheetName);
-        const durationIdx = getHeaderIndex(headerMap, ['original duration (days)', 'duration (days)', 'duration'], sheetName);
-        const progressIdx = getHeaderIndex(headerMap, ['current progress %', '% progress', 'progress %'], sheetName);
-        const predecessorIdx = getHeaderIndex(headerMap, ['key predecessor activity', 'predecessor'], sheetName);
-        const predFinishDateIdx = getHeaderIndex(headerMap, ['predecessor finish date', 'pred. finish'], sheetName);
-        const calcStartDateIdx = getHeaderIndex(headerMap, ['calculated mech. start date', 'calc. start', 'start date'], sheetName);
-        const calcFinishDateIdx = getHeaderIndex(headerMap, ['calculated mech. finish date', 'calc. finish', 'finish date'], sheetName);
-        const remarksJustificationIdx = getHeaderIndex(headerMap, ['remarks / justification', 'remarks'], sheetName);
-        const hMIdx = getHeaderIndex(headerMap, ['hvac manpower'], sheetName);
-        const ffMIdx = getHeaderIndex(headerMap, ['firefighting manpower', 'ff manpower'], sheetName);
-        const faMIdx = getHeaderIndex(headerMap, ['fire alarm manpower', 'fa manpower'], sheetName);
-        const tMIdx = getHeaderIndex(headerMap, ['total manpower'], sheetName);
-
-        if (dateIdx === -1) { console.error(`[getHistoricalProgressData] Critical header 'SnapshotDate' not found in sheet "${sheetName}".`); return []; }
+        const dateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.snapshotDate, sheetName);
+        const dataSourceIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.dataSource, sheetName, false);
+        const pIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.projects, sheetName);
+        const bIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.buildingName, sheetName);
+        const fIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.floorRoom, sheetName);
+        const ffPIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.firefightingPercentage, sheetName);
+        const faPIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.fireAlarmPercentage, sheetName);
+        const frIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.fireRemarks, sheetName);
+        const hPIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.hvacPercentage, sheetName);
+        const hrIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.hvacRemarks, sheetName);
+        const areaBuildingIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.areaBuilding, sheetName);
+        const locationRoomLevelIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.locationRoomLevel, sheetName);
+        const areaLocationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.areaBuildingLocation, sheetName);
+        const activityIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.mechanicalActivitySystem, sheetName);
+        const durationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.originalDurationDays, sheetName);
+        const progressIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.currentProgressPercentage, sheetName);
+        const predecessorIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.keyPredecessorActivity, sheetName);
+        const predFinishDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.predecessorFinishDate, sheetName);
+        const calcStartDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.calculatedStartDate, sheetName);
+        const calcFinishDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.calculatedFinishDate, sheetName);
+        const remarksJustificationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.remarksJustification, sheetName);
+        const hMIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.hvacManpower, sheetName);
+        const ffMIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.ffManpower, sheetName);
+        const faMIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.faManpower, sheetName);
+        const secMIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.securityManpower, sheetName);
+        const tMIdx = getHeaderIndex(headerMap, HEADER_ALIASES.history.totalManpower, sheetName);
+
+        // Older monthly exports (2025-07, 2025-08) have no SnapshotDate column: the date sits in DataSource
+        if (dateIdx === -1 && dataSourceIdx === -1) { console.error(`[getHistoricalProgressData] Critical header 'SnapshotDate' not found in sheet "${sheetName}".`); return []; }
         if (bIdx === -1 && areaBuildingIdx === -1) { /* console.warn(`[getHistoricalProgressData] Warning: Neither 'Building Name' nor 'Area/Building' found in sheet "${sheetName}".`); */ }
         if (fIdx === -1 && locationRoomLevelIdx === -1) { /* console.warn(`[getHistoricalProgressData] Warning: Neither 'Floor/Room' nor 'Location (Room/Level)' found in sheet "${sheetName}". Specific locations might be missing.`); */ }
 
-        const historyDateFormats = ['yyyy-MM-dd', 'MM/dd/yyyy', 'M/d/yyyy'];
-        const planDateFormats = ['MM/dd/yyyy', 'M/d/yyyy', 'yyyy-MM-dd', 'dd-MMM-yy', 'dd/MM/yyyy'];
-
-        const pData: HistoricalProgressRow[] = rows.map((v) => {
-            const allIndices = [dateIdx, dataSourceIdx, pIdx, bIdx, fIdx, ffPIdx, faPIdx, frIdx, hPIdx, hrIdx, areaBuildingIdx, locationRoomLevelIdx, activityIdx, durationIdx, progressIdx, predecessorIdx, predFinishDateIdx, calcStartDateIdx, calcFinishDateIdx, remarksJustificationIdx, hMIdx, ffMIdx, faMIdx, tMIdx];
+        const historyDateFormats = ['yyyy-MM-dd', 'yyyy/MM/dd', 'MM/dd/yyyy', 'M/d/yyyy'];
+        const planDateFormats = ['MM/dd/yyyy', 'M/d/yyyy', 'yyyy-MM-dd', 'yyyy/MM/dd', 'dd-MMM-yy', 'dd/MM/yyyy'];
+
+        // From 2025-07-28 the July tab switched to the combined layout under the old headers: Area/Building holds area
+        // and location together, the columns after it sit one to the left, and the cell under Remarks is left empty
+        const canShiftLeft = areaBuildingIdx !== -1 && locationRoomLevelIdx === areaBuildingIdx + 1 &&
+            activityIdx === locationRoomLevelIdx + 1 && remarksJustificationIdx > activityIdx;
+
+        const pData: HistoricalProgressRow[] = rows.map((cells) => {
+            const shiftedLeft = canShiftLeft && /^\d+$/.test(cells[activityIdx]?.trim() ?? '') && !cells[remarksJustificationIdx]?.trim();
+            const shiftedArea = shiftedLeft ? splitAreaAndLocation(cells[areaBuildingIdx]) : null;
+            const v = shiftedArea
+                ? [...cells.slice(0, areaBuildingIdx), shiftedArea.area ?? '', shiftedArea.location ?? '', ...cells.slice(locationRoomLevelIdx, remarksJustificationIdx), ...cells.slice(remarksJustificationIdx + 1)]
+                : cells;
+            const allIndices = [dateIdx, dataSourceIdx, pIdx, bIdx, fIdx, ffPIdx, faPIdx, frIdx, hPIdx, hrIdx, areaBuildingIdx, locationRoomLevelIdx, areaLocationIdx, activityIdx, durationIdx, progressIdx, predecessorIdx, predFinishDateIdx, calcStartDateIdx, calcFinishDateIdx, remarksJustificationIdx, hMIdx, ffMIdx, faMIdx, secMIdx, tMIdx];
             const maxIdxNeeded = Math.max(...allIndices.filter(idx => idx !== -1 && idx !== undefined));
             
             // Skip empty rows more reliably
             if (v.every(cell => !cell || cell.trim() === '')) {
                 return null;
             }
+            const dataSourceCell = dataSourceIdx !== -1 ? v[dataSourceIdx]?.trim() || null : null;
+            const dateStr = dateIdx !== -1 ? v[dateIdx] : dataSourceCell;
             // Also check if critical fields are missing or if row is shorter than expected for critical fields
-            if ( (dateIdx !== -1 && (!v[dateIdx] || v[dateIdx].trim() === '')) || 
+            if ( (!dateStr || dateStr.trim() === '') || 
                  (maxIdxNeeded > -1 && v.length <= maxIdxNeeded && !v.slice(0, maxIdxNeeded + 1).some(cell => cell && cell.trim() !== ''))
                ) {
                 // console.warn(`[getHistoricalProgressData] Skipping row due to missing critical data or insufficient columns.`);
@@ -487,15 +582,36 @@ export async function getHistoricalProgressData(sheetName: string): Promise<Hist
             }
 
 
-            const dateStr = dateIdx !== -1 ? v[dateIdx] : null;
             const timestamp = parseDateToTimestamp(dateStr, historyDateFormats);
             if (timestamp === null && dateStr && dateStr.trim() !== '') { return null; }
             if (timestamp === null) return null;
 
 
+            let areaBuildingValue = areaBuildingIdx !== -1 ? v[areaBuildingIdx]?.trim() || null : undefined;
+            let locationValue = locationRoomLevelIdx !== -1 ? v[locationRoomLevelIdx]?.trim() || null : null;
+            // When DataSource carried the snapshot date it isn't a source name
+            let dataSourceValue = dataSourceIdx === -1 ? undefined : dateIdx === -1 ? null : dataSourceCell;
+            if (areaLocationIdx !== -1) {
+                const split = splitAreaAndLocation(v[areaLocationIdx]);
+                areaBuildingValue = areaBuildingValue ?? split.area;
+                locationValue = locationValue ?? split.location;
+            } else if (areaBuildingValue && areaBuildingValue.toLowerCase() === SHEET_NAMES.PLAN.toLowerCase()) {
+                // 2025-08 export: the columns shifted right under the old headers, so Area/Building holds the data
+                // source and Location (Room/Level) holds area and location together
+                const split = splitAreaAndLocation(locationValue);
+                dataSourceValue = areaBuildingValue;
+                areaBuildingValue = split.area;
+                locationValue = split.location;
+            } else if (areaBuildingValue && !locationValue && locationRoomLevelIdx !== -1) {
+                // Some rows fill only Area/Building, with the location appended ("PE-263 Control Building Ground Floor")
+                const split = splitAreaAndLocation(areaBuildingValue);
+                areaBuildingValue = split.area;
+                locationValue = split.location;
+            }
+
             let specificLocationValue: string | null = null;
-            if (locationRoomLevelIdx !== -1 && v[locationRoomLevelIdx]?.trim()) {
-                specificLocationValue = v[locationRoomLevelIdx].trim();
+            if (locationValue) {
+                specificLocationValue = locationValue;
             } else if (fIdx !== -1 && v[fIdx]?.trim()) {
                 specificLocationValue = v[fIdx].trim();
             }
@@ -503,20 +619,20 @@ export async function getHistoricalProgressData(sheetName: string): Promise<Hist
             const rowData: HistoricalProgressRow = {
                 snapshotDateString: dateStr,
                 snapshotTimestamp: timestamp,
-                dataSource: dataSourceIdx !== -1 ? v[dataSourceIdx]?.trim() || null : undefined,
+                dataSource: dataSourceValue,
                 specificLocation: specificLocationValue,
                 projects: pIdx !== -1 ? v[pIdx]?.trim() || null : undefined,
                 buildingName: bIdx !== -1 ? v[bIdx]?.trim() || null : undefined,
                 floorRoom: fIdx !== -1 ? v[fIdx]?.trim() || null : undefined,
-                firefightingPercentage: parseNumberOrNull(ffPIdx !== -1 ? v[ffPIdx] : undefined),
-                fireAlarmPercentage: parseNumberOrNull(faPIdx !== -1 ? v[faPIdx] : undefined),
+                firefightingPercentage: parsePercentOrNull(ffPIdx !== -1 ? v[ffPIdx] : undefined),
+                fireAlarmPercentage: parsePercentOrNull(faPIdx !== -1 ? v[faPIdx] : undefined),
                 fireRemarks: frIdx !== -1 ? v[frIdx]?.trim() || null : undefined,
-                hvacPercentage: parseNumberOrNull(hPIdx !== -1 ? v[hPIdx] : undefined),
+                hvacPercentage: parsePercentOrNull(hPIdx !== -1 ? v[hPIdx] : undefined),
                 hvacRemarks: hrIdx !== -1 ? v[hrIdx]?.trim() || null : undefined,
-                areaBuilding: areaBuildingIdx !== -1 ? v[areaBuildingIdx]?.trim() || null : undefined,
+                areaBuilding: areaBuildingValue,
                 mechanicalActivitySystem: activityIdx !== -1 ? v[activityIdx]?.trim() || null : undefined,
                 originalDurationDays: parseNumberOrNull(durationIdx !== -1 ? v[durationIdx] : undefined),
-                currentProgressPercentage: parseNumberOrNull(progressIdx !== -1 ? v[progressIdx] : undefined),
+                currentProgressPercentage: parsePercentOrNull(progressIdx !== -1 ? v[progressIdx] : undefined),
                 keyPredecessorActivity: predecessorIdx !== -1 ? v[predecessorIdx]?.trim() || null : undefined,
                 predecessorFinishDateString: predFinishDateIdx !== -1 ? v[predFinishDateIdx] : undefined,
                 predecessorFinishTimestamp: parseDateToTimestamp(predFinishDateIdx !== -1 ? v[predFinishDateIdx] : undefined, planDateFormats),
@@ -528,6 +644,7 @@ export async function getHistoricalProgressData(sheetName: string): Promise<Hist
                 hvacManpower: parseNumberOrNull(hMIdx !== -1 ? v[hMIdx] : undefined),
                 ffManpower: parseNumberOrNull(ffMIdx !== -1 ? v[ffMIdx] : undefined),
                 faManpower: parseNumberOrNull(faMIdx !== -1 ? v[faMIdx] : undefined),
+                securityManpower: parseNumberOrNull(secMIdx !== -1 ? v[secMIdx] : undefined),
                 totalManpower: parseNumberOrNull(tMIdx !== -1 ? v[tMIdx] : undefined),
             };
             if (!rowData.projects && !rowData.buildingName && !rowData.areaBuilding && !rowData.mechanicalActivitySystem) {
@@ -549,14 +666,9 @@ export async function getHistoricalProgressData(sheetName: string): Promise<Hist
 
 export async function getMechanicalPlanData(sheetName: string): Promise<MechanicalPlanRow[]> {
     if (!sheetName) { throw new Error("Sheet name for Mechanical Plan is missing."); }
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
-        // console.log("[getMechanicalPlanData DEBUG] For sheet:", sheetName, "URL was:", csvUrl, "RAW CSV TEXT (first 500 chars):", csvText.substring(0, 500));
-        if (!response.ok) { throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`); }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html') || csvText.toLowerCase().includes('error')) { throw new Error(`Google Sheets returned empty or error response for URL: ${csvUrl}. Response: ${csvText.substring(0,300)}`); }
+        const csvText = await fetchSheetCsv(sheetName);
+        // console.log("[getMechanicalPlanData DEBUG] For sheet:", sheetName, "RAW CSV TEXT (first 500 chars):", csvText.substring(0, 500));
 
         let parsedResult;
         try {
@@ -574,16 +686,17 @@ export async function getMechanicalPlanData(sheetName: string): Promise<Mechanic
         const headerMap: { [key: string]: number } = {};
         headers.forEach((h, i) => { headerMap[h] = i; }); // h is already toLowerCase().trim() from parseCSV
 
-        const areaBuildingIdx = getHeaderIndex(headerMap, ['area/building', 'areabuilding'], sheetName, true);
-        const locationIdx = getHeaderIndex(headerMap, ['location (room/level)', 'location', 'room/level'], sheetName);
-        const activityIdx = getHeaderIndex(headerMap, ['mechanical activity (system)', 'activity'], sheetName, true);
-        const durationIdx = getHeaderIndex(headerMap, ['original duration (days)', 'duration (days)', 'duration'], sheetName);
-        const progressIdx = getHeaderIndex(headerMap, ['current progress %', '% progress', 'progress %'], sheetName);
-        const predecessorIdx = getHeaderIndex(headerMap, ['key predecessor activity', 'predecessor'], sheetName);
-        const predFinishDateIdx = getHeaderIndex(headerMap, ['predecessor finish date', 'pred. finish'], sheetName);
-        const calcStartDateIdx = getHeaderIndex(headerMap, ['calculated mech. start date', 'calc. start', 'start date'], sheetName);
-        const calcFinishDateIdx = getHeaderIndex(headerMap, ['calculated mech. finish date', 'calc. finish', 'finish date'], sheetName);
-        const remarksIdx = getHeaderIndex(headerMap, ['remarks / justification', 'remarks'], sheetName);
+        const areaLocationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.areaBuildingLocation, sheetName);
+        const areaBuildingIdx = areaLocationIdx !== -1 ? areaLocationIdx : getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.areaBuilding, sheetName, true);
+        const locationIdx = areaLocationIdx !== -1 ? -1 : getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.locationRoomLevel, sheetName);
+        const activityIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.mechanicalActivitySystem, sheetName, true);
+        const durationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.originalDurationDays, sheetName);
+        const progressIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.currentProgressPercentage, sheetName);
+        const predecessorIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.keyPredecessorActivity, sheetName);
+        const predFinishDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.predecessorFinishDate, sheetName);
+        const calcStartDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.calculatedStartDate, sheetName);
+        const calcFinishDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.calculatedFinishDate, sheetName);
+        const remarksIdx = getHeaderIndex(headerMap, HEADER_ALIASES.mechanicalPlan.remarksJustification, sheetName);
 
         if (areaBuildingIdx === -1 || activityIdx === -1) {
             console.error(`[getMechanicalPlanData] Critical Headers 'Area/Building' or 'Mechanical Activity (System)' not found in sheet "${sheetName}". Please verify sheet headers.`);
@@ -618,10 +731,11 @@ export async function getMechanicalPlanData(sheetName: string): Promise<Mechanic
             const progressStr = progressIdx !== -1 ? values[progressIdx] : null;
             const durationStr = durationIdx !== -1 ? values[durationIdx] : null;
             const locationStr = locationIdx !== -1 ? values[locationIdx] : null;
+            const combined = areaLocationIdx !== -1 ? splitAreaAndLocation(values[areaLocationIdx]) : null;
 
             const rowData: MechanicalPlanRow = {
-                areaBuilding: areaBuildingIdx !== -1 ? values[areaBuildingIdx]?.trim() || null : null,
-                locationRoomLevel: locationStr?.trim() || null,
+                areaBuilding: combined ? combined.area : areaBuildingIdx !== -1 ? values[areaBuildingIdx]?.trim() || null : null,
+                locationRoomLevel: combined ? combined.location : locationStr?.trim() || null,
                 mechanicalActivitySystem: activityIdx !== -1 ? values[activityIdx]?.trim() || null : null,
                 originalDurationDays: parseNumberOrNull(durationStr),
                 currentProgressPercentage: parseNumberOrNull(progressStr),
@@ -651,21 +765,10 @@ export async function getRiskRegisterData(sheetName: string = SHEET_NAMES.RISK_R
         console.error("[getRiskRegisterData] Sheet name for Risk Register is missing.");
         throw new Error("Sheet name for Risk Register is missing.");
     }
-    const cacheBuster = `&_cb=${new Date().getTime()}`;
-    const csvUrl = `${BASE_URL}${encodeURIComponent(sheetName)}${cacheBuster}`;
-
     try {
-        const response = await fetchWithTimeout(csvUrl, { cache: 'no-store' }, CSV_FETCH_TIMEOUT_MS);
-        const csvText = await response.text();
+        const csvText = await fetchSheetCsv(sheetName);
         // console.log(`[getRiskRegisterData] RAW CSV for ${sheetName} (first 500 chars):`, csvText.substring(0, 500));
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! Status: ${response.status}. URL: ${csvUrl}`);
-        }
-        if (!csvText || csvText.trim() === '' || csvText.toLowerCase().includes('<html') || csvText.toLowerCase().includes('error')) {
-            throw new Error(`Google Sheets returned empty or error response for Risk Register URL: ${csvUrl}. Response: ${csvText.substring(0, 300)}`);
-        }
-
         let parsedResult;
         try {
             parsedResult = parseCSV(csvText);
@@ -683,22 +786,23 @@ export async function getRiskRegisterData(sheetName: string = SHEET_NAMES.RISK_R
         headers.forEach((h, i) => { headerMap[h] = i; }); // h is already toLowerCase().trim() from parseCSV
 
         // Define indices based on your provided column names (from the image)
-        const riskIdIdx = getHeaderIndex(headerMap, ['risk id'], sheetName, true);
-        const riskDescIdx = getHeaderIndex(headerMap, ['risk description'], sheetName, true);
-        const systemFocusIdx = getHeaderIndex(headerMap, ['system focus'], sheetName);
-        const likelyCausesIdx = getHeaderIndex(headerMap, ['likely causes'], sheetName);
-        const impactIdx = getHeaderIndex(headerMap, ['potential impact / consequence', 'potential impact'], sheetName);
-        const likelihoodIdx = getHeaderIndex(headerMap, ['likelihood'], sheetName);
-        const severityIdx = getHeaderIndex(headerMap, ['severity / impact level', 'severity'], sheetName);
-        const riskLevelScoreIdx = getHeaderIndex(headerMap, ['risk level / score', 'risk level score', 'risk score'], sheetName, true); // Critical for KPIs
-        const riskCategoryIdx = getHeaderIndex(headerMap, ['risk category'], sheetName);
-        const mitigationIdx = getHeaderIndex(headerMap, ['mitigation strategies / actions', 'mitigation actions'], sheetName);
-        const ownerIdx = getHeaderIndex(headerMap, ['action owner'], sheetName);
-        const dueDateIdx = getHeaderIndex(headerMap, ['due date'], sheetName);
-        const statusIdx = getHeaderIndex(headerMap, ['status'], sheetName);
-        const residualRiskIdx = getHeaderIndex(headerMap, ['residual risk level'], sheetName);
-        const lastUpdatedIdx = getHeaderIndex(headerMap, ['last updated'], sheetName);
-        // const secondaryRiskLevelIdx = getHeaderIndex(headerMap, ['risk level'], sheetName); // For column P if needed
+        const riskIdIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.riskId, sheetName, true);
+        const riskDescIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.riskDescription, sheetName, true);
+        const systemFocusIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.systemFocus, sheetName);
+        const likelyCausesIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.likelyCauses, sheetName);
+        const impactIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.potentialImpactConsequence, sheetName);
+        const likelihoodIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.likelihood, sheetName);
+        const severityIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.severityImpactLevel, sheetName);
+        const riskLevelScoreIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.riskLevelScore, sheetName, true); // Critical for KPIs
+        const riskCategoryIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.riskCategory, sheetName);
+        const mitigationIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.mitigationStrategiesActions, sheetName);
+        const ownerIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.actionOwner, sheetName);
+        const dueDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.dueDate, sheetName);
+        const statusIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.status, sheetName);
+        const residualRiskIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.residualRiskLevel, sheetName);
+        const lastUpdatedIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.lastUpdated, sheetName);
+        const sourceUrlIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.sourceUrl, sheetName);
+        const detectionDateIdx = getHeaderIndex(headerMap, HEADER_ALIASES.riskRegister.detectionDate, sheetName);
 
         if (riskIdIdx === -1 || riskDescIdx === -1 || riskLevelScoreIdx === -1) {
             console.error(`[getRiskRegisterData] Critical headers (Risk ID, Description, or Level/Score) not found in sheet "${sheetName}". Please verify sheet headers.`);
@@ -728,6 +832,7 @@ export async function getRiskRegisterData(sheetName: string = SHEET_NAMES.RISK_R
 
             const dueDateStr = dueDateIdx !== -1 ? v[dueDateIdx] : null;
             const lastUpdatedStr = lastUpdatedIdx !== -1 ? v[lastUpdatedIdx] : null;
+            const detectionDateStr = detectionDateIdx !== -1 ? v[detectionDateIdx]?.trim() || null : null;
 
             const rowData: RiskRegisterItem = {
                 riskId: riskIdIdx !== -1 ? v[riskIdIdx]?.trim() || `RISK-${i + Date.now()}` : `RISK-${i + Date.now()}`, // Fallback ID
@@ -747,7 +852,9 @@ export async function getRiskRegisterData(sheetName: string = SHEET_NAMES.RISK_R
                 residualRiskLevel: residualRiskIdx !== -1 ? v[residualRiskIdx]?.trim() || null : null,
                 lastUpdatedString: lastUpdatedStr,
                 lastUpdatedTimestamp: parseDateToTimestamp(lastUpdatedStr, riskDateFormats),
-                // secondaryRiskLevel: secondaryRiskLevelIdx !== -1 ? v[secondaryRiskLevelIdx]?.trim() || null : undefined,
+                sourceUrl: sourceUrlIdx !== -1 ? v[sourceUrlIdx]?.trim() || null : null,
+                detectionDateString: detectionDateStr,
+                detectionDateTimestamp: parseDateToTimestamp(detectionDateStr, riskDateFormats),
             };
             // Ensure at least riskId and riskDescription are present to consider it a valid row
             if (!rowData.riskId || !rowData.riskDescription) {
@@ -764,4 +871,164 @@ export async function getRiskRegisterData(sheetName: string = SHEET_NAMES.RISK_R
         console.error(`[getRiskRegisterData] Error processing sheet "${sheetName}":`, error);
         throw new Error(`Failed to process Risk Register data from sheet "${sheetName}": ${error instanceof Error ? error.message : String(error)}`);
     }
-}
\ No newline at end of file
+}
+
+// --- Scan Keywords ---
+// One keyword or phrase per row (Arabic or English) for the news/document scanner; duplicates and blanks dropped.
+export async function getScanKeywordsData(sheetName: string = SHEET_NAMES.SCAN_KEYWORDS): Promise<string[]> {
+    try {
+        const csvText = await fetchSheetCsv(sheetName);
+        const { headers, data: rows } = parseCSV(csvText);
+        const headerMap: { [key: string]: number } = {};
+        headers.forEach((h, i) => { headerMap[h] = i; });
+        const keywordIdx = Math.max(getHeaderIndex(headerMap, HEADER_ALIASES.scanKeywords.keyword, sheetName), 0);
+        const keywords = rows.map(v => v[keywordIdx]?.replace(/\s+/g, ' ').trim() ?? '').filter(Boolean);
+        return Array.from(new Set(keywords));
+    } catch (error) {
+        console.error(`[getScanKeywordsData] Error fetching/processing sheet "${sheetName}":`, error);
+        throw new Error(`Failed to process Scan Keywords from sheet "${sheetName}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+
+// --- Inspection Logs (RFI / MIR) ---
+// Collapses multi-line cells like "JAVEED IMAM\n (M/s MSCL)" and splits off the company in parentheses.
+function splitPreparedBy(value: string | null | undefined): { preparedBy: string | null; company: string | null } {
+    const collapsed = value?.replace(/\s+/g, ' ').trim() || null;
+    if (!collapsed) return { preparedBy: null, company: null };
+    const companyMatch = collapsed.match(/\(\s*([^)]+?)\s*\)\s*$/);
+    return { preparedBy: collapsed, company: companyMatch ? companyMatch[1] : null };
+}
+
+// "RFI-07 ( REV-01 )" -> { base: "RFI-07", revision: 1 }; "MIR-M-009(Rev-01)" -> { base: "MIR-M-009", revision: 1 }
+function parseRevisionedNumber(value: string | null | undefined): { raw: string | null; base: string | null; revision: number | null } {
+    const raw = value?.replace(/\s+/g, ' ').trim() || null;
+    if (!raw) return { raw: null, base: null, revision: null };
+    const revMatch = raw.match(/^(.*?)\s*\(\s*rev[\s.-]*(\d+)\s*\)\s*$/i);
+    if (!revMatch) return { raw, base: raw, revision: null };
+    return { raw, base: revMatch[1].trim(), revision: parseInt(revMatch[2], 10) };
+}
+
+// Maps free-text locations ("SMOKE TEST OF 110 KV BUILDING", "...-CONTROL BULDG") to the building names used across the sheets.
+export function inferBuildingFromText(text: string | null | undefined): string | null {
+    const upper = text?.toUpperCase() ?? '';
+    if (!upper) return null;
+    if (/380\s*KV/.test(upper)) return '380kV Building';
+    if (/110\s*KV/.test(upper)) return '110kV Building';
+    if (upper.includes('CUSTOMER')) return 'Customer Building';
+    if (/CONTROL\s+(BUILDING|BULDG|BLDG|ROOM|PANEL)/.test(upper)) return 'Control Building';
+    return null;
+}
+
+const isInspectionLogHeaderRow = (fields: string[]): boolean => fields[0]?.trim().toLowerCase() === 's. no.';
+const isInspectionLogBannerRow = (fields: string[]): boolean => fields[0]?.trim().toLowerCase().startsWith('log sheet') ?? false;
+
+// Shape shared by the RFI and MIR logs; each public reader renames the request number field.
+interface InspectionLogEntry {
+    serialNo: number | null;
+    description: string | null;
+    requestNumber: string | null;
+    baseRequestNumber: string | null;
+    revision: number | null;
+    discipline: string | null;
+    disciplineCategory: DisciplineCategory;
+    materialReceivedDateString: string | null;
+    materialReceivedTimestamp: number | null;
+    inspectionDateString: string | null;
+    inspectionTimestamp: number | null;
+    preparedBy: string | null;
+    preparedByCompany: string | null;
+    building: string | null;
+    section: string | null;
+    status: RFIStatus;
+}
+
+async function getInspectionLogEntries(sheetName: string, callerName: string): Promise<InspectionLogEntry[]> {
+    const csvText = await fetchSheetCsv(sheetName);
+    // The sheet starts with a "LOG SHEET FOR ..." title banner; the real headers are on the "S. No." row.
+    let parsedResult; try { parsedResult = parseCSV(csvText, isInspectionLogHeaderRow); } catch (e: any) { throw new Error(`Failed to parse CSV from sheet "${sheetName}": ${e.message}`); }
+    if (!parsedResult?.headers || !parsedResult.data) { throw new Error(`Invalid parsed CSV structure from sheet "${sheetName}".`); }
+
+    const { headers, data: rows } = parsedResult;
+    const headerMap: { [key: string]: number } = {}; headers.forEach((h, i) => { headerMap[h] = i; });
+
+    const serialIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.serialNo, sheetName);
+    const descIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.description, sheetName, true);
+    const requestNoIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.requestNumber, sheetName, true);
+    const disciplineIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.discipline, sheetName);
+    const receivedIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.materialReceived, sheetName);
+    const inspectionIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.inspectionDate, sheetName);
+    const preparedByIdx = getHeaderIndex(headerMap, HEADER_ALIASES.inspectionLog.preparedBy, sheetName);
+
+    if (descIdx === -1 || requestNoIdx === -1) {
+        console.error(`[${callerName}] Critical headers 'Description' or 'Inspection Request No.' not found in sheet "${sheetName}".`);
+        return [];
+    }
+
+    const logDateFormats = ['d-M-yyyy', 'dd-MM-yyyy', 'd-MMM-yy', 'dd-MMM-yy', 'yyyy-MM-dd', 'dd/MM/yyyy'];
+    let currentSection: string | null = null;
+
+    const entries: InspectionLogEntry[] = [];
+    rows.forEach((v) => {
+        // The log repeats its banner and header row for each block (e.g. the PE-301 expansion); the banner carries the block label.
+        if (isInspectionLogBannerRow(v)) {
+            const label = v.slice(1).map(cell => cell.trim()).find(cell => cell !== '');
+            currentSection = label ? label.replace(/^\(\s*|\s*\)$/g, '').trim() || null : null;
+            return;
+        }
+        if (isInspectionLogHeaderRow(v)) return;
+
+        const description = v[descIdx]?.replace(/\s+/g, ' ').trim() || null;
+        const { raw: requestNumber, base: baseRequestNumber, revision } = parseRevisionedNumber(v[requestNoIdx]);
+        if (!description && !requestNumber) return; // Reserved serial numbers with no content
+
+        const receivedStr = receivedIdx !== -1 ? v[receivedIdx]?.trim() || null : null;
+        const inspectionStr = inspectionIdx !== -1 ? v[inspectionIdx]?.trim() || null : null;
+        const receivedTs = parseDateToTimestamp(receivedStr, logDateFormats);
+        const inspectionTs = parseDateToTimestamp(inspectionStr, logDateFormats);
+        const discipline = disciplineIdx !== -1 ? v[disciplineIdx]?.trim() || null : null;
+        const { preparedBy, company } = splitPreparedBy(preparedByIdx !== -1 ? v[preparedByIdx] : null);
+
+        entries.push({
+            serialNo: parseNumberOrNull(serialIdx !== -1 ? v[serialIdx] : null),
+            description,
+            requestNumber,
+            baseRequestNumber,
+            revision,
+            discipline,
+            disciplineCategory: normalizeDisciplineCategory(discipline),
+            materialReceivedDateString: receivedStr,
+            materialReceivedTimestamp: receivedTs,
+            inspectionDateString: inspectionStr,
+            inspectionTimestamp: inspectionTs,
+            preparedBy,
+            preparedByCompany: company,
+            building: inferBuildingFromText(description),
+            section: currentSection,
+            status: inspectionTs !== null ? 'Inspected' : receivedTs !== null ? 'Awaiting Inspection' : 'Submitted',
+        });
+    });
+    return entries;
+}
+
+export async function getRfiLogData(sheetName: string = SHEET_NAMES.RFI_LOG): Promise<RFIRow[]> {
+    try {
+        const entries = await getInspectionLogEntries(sheetName, 'getRfiLogData');
+        return entries.map(({ requestNumber, baseRequestNumber, ...rest }) => ({ ...rest, rfiNumber: requestNumber, baseRfiNumber: baseRequestNumber }));
+    } catch (error) {
+        console.error(`[getRfiLogData] Error fetching/processing sheet "${sheetName}":`, error);
+        throw new Error(`Failed to process RFI Log data from sheet "${sheetName}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// --- Material Inspection Request Log ---
+// Same layout as the RFI log (banner, "S. No." header, PE-301 block), numbered MIR-M-xxx.
+export async function getMirLogData(sheetName: string = SHEET_NAMES.MIR_LOG): Promise<MIRRow[]> {
+    try {
+        const entries = await getInspectionLogEntries(sheetName, 'getMirLogData');
+        return entries.map(({ requestNumber, baseRequestNumber, ...rest }) => ({ ...rest, mirNumber: requestNumber, baseMirNumber: baseRequestNumber }));
+    } catch (error) {
+        console.error(`[getMirLogData] Error fetching/processing sheet "${sheetName}":`, error);
+        throw new Error(`Failed to process MIR Log data from sheet "${sheetName}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
@@ -1,8 +1,10 @@
 // src/services/grandeur.ts
 // Project Grandeur: Command Router (Complete Implementation)
 
-import { getManpowerSheetData, getProgressSheetData, getMaterialStatusData, getMechanicalPlanData, getRiskRegisterData, SHEET_NAMES } from './google-sheets';
-import { forecastManpower, ForecastParams } from './forecasting';
+import { sheetsRepository } from './sheets-repository';
+import { forecastManpower, ForecastParams, FORECAST_METHODS, type ForecastMethod } from './forecasting';
+import { backtestForecasts } from './forecast-backtest';
+import { FORECAST_DISCIPLINES, MANPOWER_DISCIPLINES, resolveManpowerDiscipline } from '@/lib/manpower-disciplines';
 import { detectRisks, analyzeRisks, RiskAnalysisParams } from './risk-analytics';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
@@ -59,7 +61,7 @@ export function parseSlashCommand(input: string): ParsedCommand {
 // Extract keywords from query
 function extractKeywords(query: string): string[] {
   const words = query.toLowerCase().split(/\s+/);
-  const keywords = ['manpower', 'risk', 'hvac', 'firefighting', 'firealarm', 'progress', 'material', 'plan', 'mechanical'];
+  const keywords = ['manpower', 'risk', ...MANPOWER_DISCIPLINES.map(d => d.id), 'progress', 'material', 'plan', 'mechanical'];
   return keywords.filter(k => words.includes(k));
 }
 
@@ -70,9 +72,9 @@ async function retrieveContextForAsk(query: string): Promise<string> {
 
   if (keywords.includes('manpower')) {
     try {
-      const data = await getManpowerSheetData(SHEET_NAMES.MANPOWER);
+      const data = await sheetsRepository.getManpower();
       if (data && data.length > 0) {
-        const recent = data.slice(-5).map(r => `Date: ${r.dateString}, HVAC: ${r.hvacManpower}, Firefighting: ${r.firefightingManpower}, Total: ${r.totalManpower}`).join('\n');
+        const recent = data.slice(-5).map(r => `Date: ${r.dateString}, ${MANPOWER_DISCIPLINES.map(d => `${d.label}: ${r[d.field]}`).join(', ')}, Total: ${r.totalManpower}`).join('\n');
         context += `Manpower Data (last 5 entries):\n${recent}\n`;
       }
     } catch (e) {
@@ -82,7 +84,7 @@ async function retrieveContextForAsk(query: string): Promise<string> {
 
   if (keywords.includes('risk')) {
     try {
-      const data = await getRiskRegisterData();
+      const data = await sheetsRepository.getRiskRegister();
       if (data && data.length > 0) {
         const recent = data.slice(0,5).map(r => `Risk: ${r.riskDescription}, System: ${r.systemFocus}, Severity: ${r.severityImpactLevel}`).join('\n');
         context += `Risk Data (first 5 entries):\n${recent}\n`;
@@ -94,7 +96,7 @@ async function retrieveContextForAsk(query: string): Promise<string> {
 
   if (keywords.includes('progress')) {
     try {
-      const data = await getProgressSheetData(SHEET_NAMES.PROGRESS);
+      const data = await sheetsRepository.getProgress();
       if (data && data.length > 0) {
         const recent = data.slice(0,5).map(r => `Building: ${r.buildingName}, HVAC: ${r.hvacPercentage}%, Firefighting: ${r.firefightingPercentage}%`).join('\n');
         context += `Progress Data (first 5 entries):\n${recent}\n`;
@@ -106,7 +108,7 @@ async function retrieveContextForAsk(query: string): Promise<string> {
 
   if (keywords.includes('material')) {
     try {
-      const data = await getMaterialStatusData(SHEET_NAMES.MATERIAL);
+      const data = await sheetsRepository.getMaterialStatus();
       if (data && data.length > 0) {
         const recent = data.slice(0,5).map(r => `Item: ${r.itemDescription}, Status: ${r.deliveryStatus}`).join('\n');
         context += `Material Data (first 5 entries):\n${recent}\n`;
@@ -118,7 +120,7 @@ async function retrieveContextForAsk(query: string): Promise<string> {
 
   if (keywords.includes('plan') || keywords.includes('mechanical')) {
     try {
-      const data = await getMechanicalPlanData(SHEET_NAMES.PLAN);
+      const data = await sheetsRepository.getMechanicalPlan();
       if (data && data.length > 0) {
         const recent = data.slice(0,5).map(r => `Activity: ${r.mechanicalActivitySystem}, Start: ${r.calculatedStartDateString}`).join('\n');
         context += `Plan Data (first 5 entries):\n${recent}\n`;
@@ -150,21 +152,33 @@ export async function executeGrandeurCommand(params: {
         return {
           success: true,
           message: locale === 'ar' 
-            ? 'أوامر Project Grandeur:\n/help - عرض هذه المساعدة\n/forecast method=sma window=7 horizon=4 discipline=hvac - توقع القوى العاملة\n/status - حالة النظام\n/version - إصدار النظام'
-            : 'Project Grandeur Commands:\n/help - Show help\n/forecast method=sma window=7 horizon=4 discipline=hvac - Forecast manpower\n/status - System status\n/version - System version'
+            ? `أوامر Project Grandeur:\n/help - عرض هذه المساعدة\n/forecast method=sma window=7 horizon=4 discipline=hvac - توقع القوى العاملة (${FORECAST_DISCIPLINES.join(' | ')})\n  الطرق: ${FORECAST_METHODS.join(' | ')} — season=7 لـ holt-winters\n/backtest discipline=total horizon=1 - دقة طرق التوقع على البيانات السابقة (MAE / MAPE / الانحياز)\n/status - حالة النظام\n/version - إصدار النظام`
+            : `Project Grandeur Commands:\n/help - Show help\n/forecast method=sma window=7 horizon=4 discipline=hvac - Forecast manpower (${FORECAST_DISCIPLINES.join(' | ')})\n  Methods: ${FORECAST_METHODS.join(' | ')} — season=7 for holt-winters\n/backtest discipline=total horizon=1 - Forecast accuracy on past data (MAE / MAPE / bias)\n/status - System status\n/version - System version`
         };
 
       case 'forecast':
       case 'forecastmanpower':
-        const method = args.method || 'sma';
+        // hw / holtwinters / regression are accepted as shorthands
+        const methodArg = (args.method || 'sma').toLowerCase();
+        const method = methodArg === 'hw' || methodArg === 'holtwinters' ? 'holt-winters' : methodArg === 'regression' ? 'linear' : methodArg;
         const window = parseInt(args.window || '7');
         const horizon = parseInt(args.horizon || '4');
+        const seasonLength = parseInt(args.season || '7');
         const discipline = (args.discipline || 'total').toLowerCase();
 
-        if (!['sma', 'ema'].includes(method)) {
+        if (!FORECAST_METHODS.includes(method as ForecastMethod)) {
           return {
             success: false,
-            message: locale === 'ar' ? 'طريقة التوقع غير صحيحة. استخدم sma أو ema' : 'Invalid forecast method. Use sma or ema'
+            message: locale === 'ar'
+              ? `طريقة التوقع غير صحيحة. استخدم: ${FORECAST_METHODS.join(', ')}`
+              : `Invalid forecast method. Use one of: ${FORECAST_METHODS.join(', ')}`
+          };
+        }
+
+        if (method === 'holt-winters' && (isNaN(seasonLength) || seasonLength < 2 || seasonLength > 52)) {
+          return {
+            success: false,
+            message: locale === 'ar' ? 'طول الموسم يجب أن يكون بين 2 و 52' : 'Season length must be between 2 and 52'
           };
         }
 
@@ -182,7 +196,17 @@ export async function executeGrandeurCommand(params: {
           };
         }
 
-        const manpowerData = await getManpowerSheetData(SHEET_NAMES.MANPOWER);
+        const selectedDiscipline = resolveManpowerDiscipline(discipline);
+        if (!selectedDiscipline) {
+          return {
+            success: false,
+            message: locale === 'ar'
+              ? `التخصص غير معروف. استخدم: ${FORECAST_DISCIPLINES.join(', ')}`
+              : `Unknown discipline. Use one of: ${FORECAST_DISCIPLINES.join(', ')}`
+          };
+        }
+
+        const manpowerData = await sheetsRepository.getManpower();
         if (!manpowerData || manpowerData.length === 0) {
           return {
             success: false,
@@ -190,36 +214,113 @@ export async function executeGrandeurCommand(params: {
           };
         }
 
-        const selectedDiscipline = (discipline === 'hvac' ? 'hvac' :
-          discipline === 'firefighting' ? 'firefighting' :
-          discipline === 'firealarm' ? 'firealarm' : 'total') as 'hvac' | 'firefighting' | 'firealarm' | 'total';
-
-        const forecastParams: ForecastParams = { method: method as 'sma' | 'ema', window, horizon, discipline: selectedDiscipline };
+        const forecastParams: ForecastParams = { method: method as ForecastMethod, window, horizon, discipline: selectedDiscipline, seasonLength };
         const forecastResult = forecastManpower(manpowerData, forecastParams);
 
         if (!forecastResult) {
           return {
             success: false,
-            message: locale === 'ar' ? 'فشل في حساب التوقع' : 'Failed to calculate forecast'
+            message: locale === 'ar'
+              ? `فشل في حساب التوقع${method === 'holt-winters' ? ` (holt-winters يحتاج ${2 * seasonLength} نقطة على الأقل)` : ''}`
+              : `Failed to calculate forecast${method === 'holt-winters' ? ` (holt-winters needs at least ${2 * seasonLength} points)` : ''}`
           };
         }
 
         const discData = forecastResult;
+        // Measured accuracy of the chosen method on this discipline's history, shown under the chart
+        const backtest = backtestForecasts(manpowerData, { disciplines: [selectedDiscipline], window, seasonLength }).disciplines[0];
+        const methodAccuracy = backtest.methods.find(m => m.method === method);
         const lastHistorical = discData.historical[discData.historical.length - 1] || 0;
         const nextForecast = discData.forecast[0] || 0;
         const change = nextForecast - lastHistorical;
         const changePercent = lastHistorical !== 0 ? ((change / lastHistorical) * 100).toFixed(1) : '0';
+        const nextInterval = discData.intervals?.[0];
+        const intervalPct = Math.round((discData.intervalLevel ?? 0.95) * 100);
+        const intervalLine = nextInterval
+          ? (locale === 'ar'
+            ? `\nنطاق التوقع ${intervalPct}%: ${nextInterval.lower.toFixed(1)} – ${nextInterval.upper.toFixed(1)}`
+            : `\n${intervalPct}% interval: ${nextInterval.lower.toFixed(1)} – ${nextInterval.upper.toFixed(1)}`)
+          : '';
+        const accuracyLine = methodAccuracy?.mae != null
+          ? (locale === 'ar'
+            ? `\nدقة الطريقة (اختبار رجعي): MAE ${methodAccuracy.mae}${methodAccuracy.mape != null ? ` — MAPE ${methodAccuracy.mape}%` : ''}${backtest.recommended && backtest.recommended !== method ? ` — الأفضل: ${backtest.recommended}` : ''}`
+            : `\nBacktest accuracy: MAE ${methodAccuracy.mae}${methodAccuracy.mape != null ? ` — MAPE ${methodAccuracy.mape}%` : ''}${backtest.recommended && backtest.recommended !== method ? ` — best: ${backtest.recommended}` : ''}`)
+          : '';
 
         const message = locale === 'ar'
-          ? `توقع ${selectedDiscipline.toUpperCase()} (${method.toUpperCase()}):\nآخر قيمة تاريخية: ${lastHistorical}\nالتوقع التالي: ${nextForecast.toFixed(1)}\nالتغيير: ${change >= 0 ? '+' : ''}${change.toFixed(1)} (${change >= 0 ? '+' : ''}${changePercent}%)\nالاتجاه: ${discData.trend === 'increasing' ? 'متزايد' : discData.trend === 'decreasing' ? 'متناقص' : 'مستقر'}\nالثقة: ${(discData.confidence * 100).toFixed(0)}%`
-          : `${selectedDiscipline.toUpperCase()} Forecast (${method.toUpperCase()}):\nLast historical: ${lastHistorical}\nNext forecast: ${nextForecast.toFixed(1)}\nChange: ${change >= 0 ? '+' : ''}${change.toFixed(1)} (${change >= 0 ? '+' : ''}${changePercent}%)\nTrend: ${discData.trend}\nConfidence: ${(discData.confidence * 100).toFixed(0)}%`;
+          ? `توقع ${selectedDiscipline.toUpperCase()} (${method.toUpperCase()}):\nآخر قيمة تاريخية: ${lastHistorical}\nالتوقع التالي: ${nextForecast.toFixed(1)}\nالتغيير: ${change >= 0 ? '+' : ''}${change.toFixed(1)} (${change >= 0 ? '+' : ''}${changePercent}%)\nالاتجاه: ${discData.trend === 'increasing' ? 'متزايد' : discData.trend === 'decreasing' ? 'متناقص' : 'مستقر'}\nالثقة: ${(discData.confidence * 100).toFixed(0)}%${intervalLine}${accuracyLine}`
+          : `${selectedDiscipline.toUpperCase()} Forecast (${method.toUpperCase()}):\nLast historical: ${lastHistorical}\nNext forecast: ${nextForecast.toFixed(1)}\nChange: ${change >= 0 ? '+' : ''}${change.toFixed(1)} (${change >= 0 ? '+' : ''}${changePercent}%)\nTrend: ${discData.trend}\nConfidence: ${(discData.confidence * 100).toFixed(0)}%${intervalLine}${accuracyLine}`;
 
         return {
           success: true,
-          data: { type: 'forecastResult', data: discData, discipline: selectedDiscipline },
+          data: { type: 'forecastResult', data: { ...discData, backtest }, discipline: selectedDiscipline },
           message
         };
 
+      case 'backtest': {
+        const backtestHorizon = parseInt(args.horizon || '1');
+        const backtestWindow = parseInt(args.window || '7');
+        const requested = args.discipline ? resolveManpowerDiscipline(args.discipline.toLowerCase()) : null;
+
+        if (args.discipline && !requested) {
+          return {
+            success: false,
+            message: locale === 'ar'
+              ? `التخصص غير معروف. استخدم: ${FORECAST_DISCIPLINES.join(', ')}`
+              : `Unknown discipline. Use one of: ${FORECAST_DISCIPLINES.join(', ')}`
+          };
+        }
+
+        if (isNaN(backtestHorizon) || backtestHorizon < 1 || backtestHorizon > 12) {
+          return {
+            success: false,
+            message: locale === 'ar' ? 'الأفق يجب أن يكون بين 1 و 12' : 'Horizon must be between 1 and 12'
+          };
+        }
+
+        if (isNaN(backtestWindow) || backtestWindow < 2 || backtestWindow > 50) {
+          return {
+            success: false,
+            message: locale === 'ar' ? 'نافذة التوقع يجب أن تكون بين 2 و 50' : 'Window must be between 2 and 50'
+          };
+        }
+
+        const history = await sheetsRepository.getManpower();
+        if (!history || history.length === 0) {
+          return {
+            success: false,
+            message: locale === 'ar' ? 'لا توجد بيانات قوى عاملة متاحة' : 'No manpower data available'
+          };
+        }
+
+        const report = backtestForecasts(history, {
+          horizon: backtestHorizon,
+          window: backtestWindow,
+          ...(requested ? { disciplines: [requested] } : {}),
+        });
+        const lines = report.disciplines.map(d => {
+          const best = d.methods.find(m => m.method === d.recommended);
+          if (!best || best.mae === null) {
+            return locale === 'ar'
+              ? `${d.discipline.toUpperCase()}: بيانات غير كافية (${d.points} نقطة)`
+              : `${d.discipline.toUpperCase()}: not enough history (${d.points} points)`;
+          }
+          const mape = best.mape !== null ? `, MAPE ${best.mape}%` : '';
+          const bias = `${best.bias !== null && best.bias >= 0 ? '+' : ''}${best.bias}`;
+          return locale === 'ar'
+            ? `${d.discipline.toUpperCase()}: الأفضل ${best.method} — MAE ${best.mae}${mape}، الانحياز ${bias} (${best.samples} اختبار)`
+            : `${d.discipline.toUpperCase()}: best ${best.method} — MAE ${best.mae}${mape}, bias ${bias} (${best.samples} tests)`;
+        });
+
+        return {
+          success: true,
+          data: { type: 'backtestResult', data: report, discipline: requested ?? 'total' },
+          message: (locale === 'ar'
+            ? `اختبار رجعي للتوقع (أفق ${report.horizon}، تدريب أولي ${report.minTrainSize} نقطة):\n`
+            : `Forecast backtest (horizon ${report.horizon}, initial training ${report.minTrainSize} points):\n`) + lines.join('\n')
+        };
+      }
+
       case 'status':
         return {
           success: true,
@@ -241,7 +342,7 @@ export async function executeGrandeurCommand(params: {
           };
         }
         // Add correlations
-        const riskData = await getRiskRegisterData(SHEET_NAMES.RISK_REGISTER);
+        const riskData = await sheetsRepository.getRiskRegister();
         const correlationsResult = riskData ? analyzeRisks(riskData, { analysisType: 'system_correlation' }) : null;
         const correlationsText = correlationsResult && correlationsResult.correlations.length > 0
           ? (locale === 'ar' ? '\nالارتباطات:' : '\nCorrelations:') + correlationsResult.correlations.slice(0,3).map(c => ` ${c.source} -> ${c.target} (${(c.correlationStrength * 100).toFixed(0)}%)`).join('') + (correlationsResult.correlations.length > 3 ? '...' : '')
@@ -0,0 +1,171 @@
+// src/services/manpower-demand.ts
+// Manpower demand from the remaining Mechanical Plan work. Remaining work = (100 - progress)% × original
+// duration, spread evenly over what is left of each activity's calculated window (overdue work is spread over the
+// whole horizon). Duration-days are turned into workers with the crew per scheduled activity observed in the latest
+// stretch of Manpower history, then compared week by week with the forecastManpower supply for the same days.
+
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { forecastManpower } from '@/services/forecasting';
+import { MANPOWER_DISCIPLINES, getActivityDiscipline, getDisciplineLabel, getDisciplineValue, type ManpowerDisciplineId } from '@/lib/manpower-disciplines';
+import type { ManpowerSheetRow, MechanicalPlanRow } from '@/services/google-sheets';
+
+export interface DemandWeek {
+  weekStart: string;      // YYYY-MM-DD
+  demand: number;         // Workers needed to hold the calculated finish dates
+  supply: number | null;  // Forecast headcount (null when the history is too short to forecast)
+  gap: number | null;     // supply - demand; negative = shortage
+}
+
+export interface DisciplineDemand {
+  discipline: ManpowerDisciplineId;
+  label: string;
+  remainingWorkDays: number;    // Σ remaining duration-days
+  activities: number;           // Activities with work left
+  crewPerActivity: number;      // Workers per concurrently scheduled activity
+  calibrated: boolean;          // false = no history overlaps the plan, DEFAULT_CREW_PER_ACTIVITY assumed
+  weeks: DemandWeek[];
+  peakShortage: number;         // Largest weekly shortfall (workers), 0 when supply always covers demand
+  peakShortageWeek: string | null;
+}
+
+export interface ManpowerDemandReport {
+  asOf: string;
+  horizonWeeks: number;
+  disciplines: DisciplineDemand[];
+  unassignedActivities: number; // Remaining work that doesn't map to a manpower discipline
+}
+
+export interface ManpowerDemandOptions {
+  asOf?: number;
+  horizonWeeks?: number;
+  calibrationDays?: number; // Days of the latest history used for crew per activity
+}
+
+export type DemandPlanRow = Pick<MechanicalPlanRow,
+  'mechanicalActivitySystem' | 'originalDurationDays' | 'currentProgressPercentage' | 'calculatedStartTimestamp' | 'calculatedFinishTimestamp'
+>;
+
+export const DEFAULT_CREW_PER_ACTIVITY = 4;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+interface RemainingWork {
+  discipline: ManpowerDisciplineId;
+  work: number;        // Duration-days left
+  windowStart: number; // Day offset from asOf
+  windowEnd: number;   // Exclusive
+}
+
+function remainingWork(plan: DemandPlanRow[], asOf: number, horizonDays: number): { items: RemainingWork[]; unassigned: number } {
+  const items: RemainingWork[] = [];
+  let unassigned = 0;
+  plan.forEach(row => {
+    const duration = row.originalDurationDays;
+    const progress = Math.max(0, Math.min(100, row.currentProgressPercentage ?? 0));
+    if (typeof duration !== 'number' || duration <= 0 || progress >= 100) return;
+    if (row.calculatedStartTimestamp === null || row.calculatedFinishTimestamp === null) return;
+    const discipline = getActivityDiscipline(row.mechanicalActivitySystem);
+    if (!discipline) { unassigned++; return; }
+    const start = Math.max(0, differenceInCalendarDays(row.calculatedStartTimestamp, asOf));
+    const finish = differenceInCalendarDays(row.calculatedFinishTimestamp, asOf);
+    const work = duration * (100 - progress) / 100;
+    if (finish > start) items.push({ discipline, work, windowStart: start, windowEnd: finish });
+    // Overdue (or finishing today): catching up is spread over the horizon rather than stacked into the first week
+    else if (finish <= 0) items.push({ discipline, work, windowStart: 0, windowEnd: Math.max(7, horizonDays) });
+    else items.push({ discipline, work, windowStart: start, windowEnd: start + 1 });
+  });
+  return { items, unassigned };
+}
+
+// Average headcount per activity whose calculated window covers the day, over the last calibrationDays of history
+// that overlap the plan (the Manpower sheet often stops updating before asOf)
+function crewPerActivity(
+  discipline: ManpowerDisciplineId,
+  plan: DemandPlanRow[],
+  manpower: ManpowerSheetRow[],
+  calibrationDays: number
+): number | null {
+  const windows = plan
+    .filter(row => getActivityDiscipline(row.mechanicalActivitySystem) === discipline && row.calculatedStartTimestamp !== null && row.calculatedFinishTimestamp !== null)
+    .map(row => [startOfDay(row.calculatedStartTimestamp as number).getTime(), startOfDay(row.calculatedFinishTimestamp as number).getTime()]);
+  const ratios: { day: number; ratio: number }[] = [];
+  manpower.forEach(row => {
+    const headcount = getDisciplineValue(row, discipline);
+    if (row.timestamp === null || typeof headcount !== 'number' || headcount <= 0) return;
+    const day = startOfDay(row.timestamp).getTime();
+    const active = windows.filter(([start, finish]) => start <= day && day <= finish).length;
+    if (active > 0) ratios.push({ day, ratio: headcount / active });
+  });
+  if (ratios.length === 0) return null;
+  const from = addDays(Math.max(...ratios.map(r => r.day)), -calibrationDays).getTime();
+  const recent = ratios.filter(r => r.day > from);
+  return recent.reduce((sum, r) => sum + r.ratio, 0) / recent.length;
+}
+
+// Weekly mean of the EMA forecast for the weeks starting at asOf; one Manpower entry is one period (a day), so the
+// days between the last entry and asOf are forecast first and skipped
+function weeklySupply(discipline: ManpowerDisciplineId, manpower: ManpowerSheetRow[], asOf: number, weeks: number): (number | null)[] {
+  const last = Math.max(...manpower.map(row => row.timestamp ?? -Infinity));
+  const skip = Number.isFinite(last) ? Math.max(0, differenceInCalendarDays(asOf, last) - 1) : 0;
+  const forecast = manpower.length > 0
+    ? forecastManpower([...manpower], { method: 'ema', window: 7, horizon: skip + weeks * 7, discipline })
+    : null;
+  return Array.from({ length: weeks }, (_, w) => {
+    const days = forecast?.forecast.slice(skip + w * 7, skip + w * 7 + 7) ?? [];
+    return days.length > 0 ? round1(days.reduce((sum, v) => sum + v, 0) / days.length) : null;
+  });
+}
+
+export function calculateManpowerDemand(
+  plan: DemandPlanRow[],
+  manpower: ManpowerSheetRow[],
+  { asOf = Date.now(), horizonWeeks = 8, calibrationDays = 28 }: ManpowerDemandOptions = {}
+): ManpowerDemandReport {
+  const today = startOfDay(asOf).getTime();
+  // Only history known on asOf counts, for calibration as well as supply
+  const history = manpower.filter(row => row.timestamp === null || row.timestamp <= asOf);
+  const { items, unassigned } = remainingWork(plan, today, horizonWeeks * 7);
+
+  const disciplines = MANPOWER_DISCIPLINES.map((config): DisciplineDemand | null => {
+    const discipline: ManpowerDisciplineId = config.id;
+    const work = items.filter(item => item.discipline === discipline);
+    if (work.length === 0) return null;
+
+    const calibrated = crewPerActivity(discipline, plan, history, calibrationDays);
+    const crew = calibrated ?? DEFAULT_CREW_PER_ACTIVITY;
+    const supply = weeklySupply(discipline, history, today, horizonWeeks);
+
+    const weeks: DemandWeek[] = Array.from({ length: horizonWeeks }, (_, w) => {
+      const weekStart = w * 7;
+      const weekEnd = weekStart + 7;
+      // Concurrent activity-equivalents needed this week: work rate × days of the window inside the week / 7
+      const activityLoad = work.reduce((sum, item) => {
+        const overlap = Math.max(0, Math.min(weekEnd, item.windowEnd) - Math.max(weekStart, item.windowStart));
+        return sum + (item.work / (item.windowEnd - item.windowStart)) * overlap / 7;
+      }, 0);
+      const demand = round1(activityLoad * crew);
+      const weekSupply = supply[w];
+      return {
+        weekStart: format(addDays(today, weekStart), 'yyyy-MM-dd'),
+        demand,
+        supply: weekSupply,
+        gap: weekSupply === null ? null : round1(weekSupply - demand),
+      };
+    });
+
+    const worst = weeks.reduce<DemandWeek | null>((acc, week) => (week.gap !== null && week.gap < (acc?.gap ?? 0) ? week : acc), null);
+    return {
+      discipline,
+      label: getDisciplineLabel(discipline),
+      remainingWorkDays: round1(work.reduce((sum, item) => sum + item.work, 0)),
+      activities: work.length,
+      crewPerActivity: round1(crew),
+      calibrated: calibrated !== null,
+      weeks,
+      peakShortage: worst ? round1(-(worst.gap as number)) : 0,
+      peakShortageWeek: worst?.weekStart ?? null,
+    };
+  }).filter((d): d is DisciplineDemand => d !== null);
+
+  return { asOf: format(today, 'yyyy-MM-dd'), horizonWeeks, disciplines, unassignedActivities: unassigned };
+}
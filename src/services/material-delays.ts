@@ -0,0 +1,103 @@
+// src/services/material-delays.ts
+// Material Status items that threaten the Mechanical Plan: overdue, rejected or partial deliveries, linked to the
+// plan activities of the same system in the same building(s).
+
+import { startOfDay } from 'date-fns';
+import { getActivityDiscipline, type ManpowerDisciplineId } from '@/lib/manpower-disciplines';
+import type { MaterialStatusRow, MechanicalPlanRow } from './google-sheets';
+
+export type MaterialIssueKind = 'overdue' | 'rejected' | 'partial';
+
+export interface AffectedActivity {
+  areaBuilding: string | null;
+  mechanicalActivitySystem: string | null;
+  calculatedStartTimestamp: number | null;
+  currentProgressPercentage: number | null;
+  daysToStart: number | null;   // Negative once the planned start has passed
+}
+
+export interface MaterialIssue {
+  kind: MaterialIssueKind;
+  material: MaterialStatusRow;
+  discipline: ManpowerDisciplineId | null;
+  buildings: string[];          // Empty when the location names no known building (matches every building)
+  daysLate: number | null;      // Days past plannedTimestamp, overdue and partial items only
+  affectedActivities: AffectedActivity[];   // Unfinished, soonest start first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same keyword sets as the Material tab filters; "Not Delivered" contains "delivered" so it is checked first
+const REJECTED_KEYWORDS = ['rejected', 'مرفوض'];
+const PARTIAL_KEYWORDS = ['partial', 'جزء', 'تسليم جزئي'];
+const DELIVERED_KEYWORDS = ['delivered', 'on site', 'installed', 'مكتمل التسليم'];
+
+export type MaterialDeliveryState = 'delivered' | 'partial' | 'rejected' | 'pending';
+
+export function classifyDeliveryStatus(status: string | null | undefined): MaterialDeliveryState {
+  const lower = status?.trim().toLowerCase() ?? '';
+  if (!lower) return 'pending';
+  if (REJECTED_KEYWORDS.some(kw => lower.includes(kw))) return 'rejected';
+  if (PARTIAL_KEYWORDS.some(kw => lower.includes(kw))) return 'partial';
+  if (lower.startsWith('not ') || lower.includes('not delivered')) return 'pending';
+  if (DELIVERED_KEYWORDS.some(kw => lower.includes(kw))) return 'delivered';
+  return 'pending';
+}
+
+// Locations list several buildings ("380kV Building, 110kV Building, Control Building & Customer Building")
+const BUILDING_PATTERNS: [string, RegExp][] = [
+  ['380kV Building', /380\s*kv/i],
+  ['110kV Building', /110\s*kv/i],
+  ['Control Building', /control\s+(building|buldg|bldg|room)/i],
+  ['Customer Building', /customer/i],
+];
+
+export function findBuildings(text: string | null | undefined): string[] {
+  return BUILDING_PATTERNS.filter(([, pattern]) => pattern.test(text ?? '')).map(([name]) => name);
+}
+
+function issueKind(material: MaterialStatusRow, today: number): MaterialIssueKind | null {
+  const state = classifyDeliveryStatus(material.deliveryStatus);
+  if (state === 'rejected') return 'rejected';
+  if (state === 'partial') return 'partial';
+  const pastPlanned = material.plannedTimestamp !== null && material.plannedTimestamp < today;
+  return state === 'pending' && pastPlanned && material.actualTimestamp === null ? 'overdue' : null;
+}
+
+export function findMaterialIssues(materials: MaterialStatusRow[], plan: MechanicalPlanRow[], asOf: number = Date.now()): MaterialIssue[] {
+  const today = startOfDay(asOf).getTime();
+
+  return materials
+    .map((material): MaterialIssue | null => {
+      const kind = issueKind(material, today);
+      if (!kind) return null;
+
+      const discipline = getActivityDiscipline(material.system);
+      const buildings = findBuildings(material.buildingLocation);
+      const affectedActivities = discipline === null ? [] : plan
+        .filter(row =>
+          getActivityDiscipline(row.mechanicalActivitySystem) === discipline &&
+          (row.currentProgressPercentage ?? 0) < 100 &&
+          (buildings.length === 0 || findBuildings(row.areaBuilding).some(b => buildings.includes(b))))
+        .map(row => ({
+          areaBuilding: row.areaBuilding,
+          mechanicalActivitySystem: row.mechanicalActivitySystem,
+          calculatedStartTimestamp: row.calculatedStartTimestamp,
+          currentProgressPercentage: row.currentProgressPercentage,
+          daysToStart: row.calculatedStartTimestamp !== null ? Math.round((row.calculatedStartTimestamp - today) / DAY_MS) : null,
+        }))
+        .sort((a, b) => (a.calculatedStartTimestamp ?? Infinity) - (b.calculatedStartTimestamp ?? Infinity));
+
+      return {
+        kind,
+        material,
+        discipline,
+        buildings,
+        daysLate: kind !== 'rejected' && material.plannedTimestamp !== null && material.plannedTimestamp < today
+          ? Math.round((today - material.plannedTimestamp) / DAY_MS)
+          : null,
+        affectedActivities,
+      };
+    })
+    .filter((issue): issue is MaterialIssue => issue !== null);
+}
@@ -0,0 +1,140 @@
+// src/services/material-inspection.ts
+// Links Material Inspection Requests (MIR) to Material Status items and measures the approval cycle
+
+import {
+  normalizeDisciplineCategory,
+  inferBuildingFromText,
+  type MaterialStatusRow,
+  type MIRRow,
+  type DisciplineCategory,
+} from './google-sheets';
+
+export interface MaterialMirLink {
+  material: MaterialStatusRow;
+  mirs: MIRRow[];
+}
+
+export interface DisciplineInspectionLag {
+  discipline: DisciplineCategory;
+  inspectedCount: number;
+  awaitingCount: number; // Received on site, no inspection date yet
+  averageLagDays: number | null;
+  maxLagDays: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_MATCH_SCORE = 0.5;
+
+// Words that describe the location or packaging rather than the item itself
+const STOP_WORDS = new Set([
+  'material', 'materials', 'for', 'of', 'and', 'the', 'all', 'with', 'including', 'complete',
+  'building', 'buildings', 'bldg', 'kv', 'floor', 'ground', 'roof', 'works', 'work',
+]);
+
+// Abbreviations used in the Material Status sheet, spelled out as the MIR log writes them
+const ABBREVIATIONS: Record<string, string> = {
+  msfd: 'motorized smoke fire damper',
+  mfsd: 'motorized smoke fire damper',
+  mvcd: 'motorized volume control damper',
+  mvd: 'motorized volume control damper',
+  pacu: 'packaged unit',
+  package: 'packaged',
+  bdd: 'back draft damper',
+};
+
+// Building names are scored separately, so "Control" in "Control Building" must not match "Control Cables"
+const BUILDING_PHRASES = /\b(380|110)\s*kv\b|\bcontrol\s+(building|buldg|bldg|room)\b|\bcustomer\s+building\b/g;
+
+const stem = (word: string): string => word.replace(/(ing|es|s)$/, '');
+
+function tokenize(text: string | null | undefined): Set<string> {
+  const words = (text ?? '').toLowerCase().replace(BUILDING_PHRASES, ' ').replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+  const tokens = new Set<string>();
+  words.forEach(word => {
+    const expanded = ABBREVIATIONS[word] ?? word;
+    expanded.split(' ').forEach(part => {
+      if (STOP_WORDS.has(part) || /^\d+(kv)?$/.test(part)) return;
+      const stemmed = stem(part);
+      if (stemmed.length > 1) tokens.add(stemmed);
+    });
+  });
+  return tokens;
+}
+
+// Items without a system (e.g. the PE-301 fire extinguishers) can match an MIR of any discipline
+const isSameDiscipline = (material: MaterialStatusRow, mir: MIRRow): boolean =>
+  !material.system?.trim() || normalizeDisciplineCategory(material.system) === mir.disciplineCategory;
+
+// Share of the material's description words that appear in the MIR description, plus a bonus when the MIR names one of the material's buildings.
+function scoreMatch(material: MaterialStatusRow, mir: MIRRow): number {
+  if (!isSameDiscipline(material, mir)) return 0;
+  const materialTokens = tokenize(material.itemDescription);
+  const mirTokens = tokenize(mir.description);
+  if (materialTokens.size === 0 || mirTokens.size === 0) return 0;
+
+  let shared = 0;
+  materialTokens.forEach(token => { if (mirTokens.has(token)) shared++; });
+  const descriptionScore = shared / materialTokens.size;
+  if (descriptionScore === 0) return 0;
+
+  const mirBuilding = inferBuildingFromText(mir.description);
+  const location = material.buildingLocation?.toLowerCase() ?? '';
+  const buildingBonus = mirBuilding && location.includes(mirBuilding.toLowerCase().replace(' building', '')) ? 0.25 : 0;
+  return descriptionScore + buildingBonus;
+}
+
+// Each MIR goes to its best-scoring material; a material can collect several MIRs (e.g. one per building or revision).
+export function linkMirsToMaterials(materials: MaterialStatusRow[], mirs: MIRRow[]): MaterialMirLink[] {
+  const links: MaterialMirLink[] = materials.map(material => ({ material, mirs: [] }));
+  mirs.forEach(mir => {
+    let bestIndex = -1;
+    let bestScore = 0;
+    materials.forEach((material, index) => {
+      const score = scoreMatch(material, mir);
+      if (score >= MIN_MATCH_SCORE && score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+    if (bestIndex !== -1) links[bestIndex].mirs.push(mir);
+  });
+  return links;
+}
+
+export function getInspectionLagDays(mir: MIRRow): number | null {
+  if (mir.materialReceivedTimestamp === null || mir.inspectionTimestamp === null) return null;
+  return Math.max(0, Math.round((mir.inspectionTimestamp - mir.materialReceivedTimestamp) / DAY_MS));
+}
+
+export function calculateInspectionLagByDiscipline(mirs: MIRRow[]): DisciplineInspectionLag[] {
+  const byDiscipline = new Map<DisciplineCategory, { lags: number[]; awaiting: number }>();
+  mirs.forEach(mir => {
+    if (!byDiscipline.has(mir.disciplineCategory)) byDiscipline.set(mir.disciplineCategory, { lags: [], awaiting: 0 });
+    const entry = byDiscipline.get(mir.disciplineCategory)!;
+    const lag = getInspectionLagDays(mir);
+    if (lag !== null) entry.lags.push(lag);
+    else if (mir.status === 'Awaiting Inspection') entry.awaiting++;
+  });
+
+  return Array.from(byDiscipline.entries())
+    .map(([discipline, { lags, awaiting }]) => ({
+      discipline,
+      inspectedCount: lags.length,
+      awaitingCount: awaiting,
+      averageLagDays: lags.length > 0 ? Math.round((lags.reduce((sum, lag) => sum + lag, 0) / lags.length) * 10) / 10 : null,
+      maxLagDays: lags.length > 0 ? Math.max(...lags) : null,
+    }))
+    .filter(entry => entry.inspectedCount > 0 || entry.awaitingCount > 0)
+    .sort((a, b) => (b.averageLagDays ?? -1) - (a.averageLagDays ?? -1));
+}
+
+// Delivered or partially delivered items; "Not Delivered" must not count even though it contains "delivered".
+export function isMaterialOnSite(material: MaterialStatusRow): boolean {
+  const status = material.deliveryStatus?.trim().toLowerCase() ?? '';
+  if (!status || status.startsWith('not ') || status.includes('not delivered')) return false;
+  return status.includes('delivered') || status.includes('partial') || status === 'on site' || status === 'installed';
+}
+
+export function findDeliveredWithoutMir(links: MaterialMirLink[]): MaterialStatusRow[] {
+  return links.filter(link => link.mirs.length === 0 && isMaterialOnSite(link.material)).map(link => link.material);
+}
@@ -0,0 +1,132 @@
+// src/services/monthly-diff.ts
+// Month-over-month comparison of two monthly snapshot tabs (e.g. 2025-08 vs 2025-09).
+
+import type {
+  ActivityStatus,
+  ManpowerChange,
+  ManpowerDiscipline,
+  MechanicalPlanRow,
+  MonthlyActivityDiff,
+  MonthlyActivityRef,
+  MonthlyDiffResponse,
+  YearMonth,
+} from '@/types/monthly';
+import { averageDailyManpower, MONTHLY_MANPOWER_FIELDS } from '@/services/monthly-summary';
+
+const normalizeKeyPart = (value: string | undefined): string =>
+  (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Rows are matched by Area/Building + Mechanical Activity
+export function getActivityKey(row: MechanicalPlanRow): string | null {
+  const area = normalizeKeyPart(row.AreaOrBuilding);
+  const activity = normalizeKeyPart(row.MechanicalActivity);
+  if (!area && !activity) return null;
+  return `${area}|${activity}`;
+}
+
+export function getActivityStatus(progressPct: number | null | undefined): ActivityStatus {
+  if (progressPct === null || progressPct === undefined || progressPct <= 0) return 'not_started';
+  if (progressPct >= 100) return 'completed';
+  return 'ongoing';
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// One entry per activity taken from its latest SnapshotDate in the month; when that snapshot lists the activity on
+// several rows (e.g. per room) their progress is averaged
+function groupActivities(rows: MechanicalPlanRow[]): Map<string, MonthlyActivityRef> {
+  const groups = new Map<string, { area: string; activity: string; date: string; progress: number[] }>();
+  for (const row of rows) {
+    const key = getActivityKey(row);
+    if (!key) continue;
+    const date = row.SnapshotDate ?? '';
+    let group = groups.get(key);
+    if (!group || date > group.date) {
+      group = { area: row.AreaOrBuilding?.trim() ?? '', activity: row.MechanicalActivity?.trim() ?? '', date, progress: [] };
+      groups.set(key, group);
+    } else if (date < group.date) {
+      continue;
+    }
+    if (row.CurrentProgressPct !== null && row.CurrentProgressPct !== undefined) group.progress.push(row.CurrentProgressPct);
+  }
+
+  const result = new Map<string, MonthlyActivityRef>();
+  groups.forEach((group, key) => {
+    const progressPct = average(group.progress);
+    result.set(key, {
+      key,
+      areaOrBuilding: group.area,
+      mechanicalActivity: group.activity,
+      progressPct,
+      status: getActivityStatus(progressPct),
+    });
+  });
+  return result;
+}
+
+function compareManpower(fromRows: MechanicalPlanRow[], toRows: MechanicalPlanRow[]): Record<ManpowerDiscipline, ManpowerChange> {
+  const result = {} as Record<ManpowerDiscipline, ManpowerChange>;
+  (Object.keys(MONTHLY_MANPOWER_FIELDS) as ManpowerDiscipline[]).forEach(discipline => {
+    const from = averageDailyManpower(fromRows, MONTHLY_MANPOWER_FIELDS[discipline]);
+    const to = averageDailyManpower(toRows, MONTHLY_MANPOWER_FIELDS[discipline]);
+    result[discipline] = { from, to, delta: from !== null && to !== null ? Math.round((to - from) * 10) / 10 : null };
+  });
+  return result;
+}
+
+const byLabel = (a: { areaOrBuilding: string; mechanicalActivity: string }, b: { areaOrBuilding: string; mechanicalActivity: string }) =>
+  a.areaOrBuilding.localeCompare(b.areaOrBuilding) || a.mechanicalActivity.localeCompare(b.mechanicalActivity);
+
+export function diffMonthlySnapshots(from: YearMonth, fromRows: MechanicalPlanRow[], to: YearMonth, toRows: MechanicalPlanRow[]): MonthlyDiffResponse {
+  const before = groupActivities(fromRows);
+  const after = groupActivities(toRows);
+
+  const activities: MonthlyActivityDiff[] = [];
+  const added: MonthlyActivityRef[] = [];
+  const removed: MonthlyActivityRef[] = [];
+
+  after.forEach((next, key) => {
+    const prev = before.get(key);
+    if (!prev) {
+      added.push(next);
+      return;
+    }
+    activities.push({
+      key,
+      areaOrBuilding: next.areaOrBuilding,
+      mechanicalActivity: next.mechanicalActivity,
+      fromProgressPct: prev.progressPct,
+      toProgressPct: next.progressPct,
+      progressDelta: prev.progressPct !== null && next.progressPct !== null ? next.progressPct - prev.progressPct : null,
+      fromStatus: prev.status,
+      toStatus: next.status,
+      statusChanged: prev.status !== next.status,
+    });
+  });
+  before.forEach((prev, key) => {
+    if (!after.has(key)) removed.push(prev);
+  });
+
+  activities.sort(byLabel);
+  added.sort(byLabel);
+  removed.sort(byLabel);
+
+  const deltas = activities.map(a => a.progressDelta).filter((d): d is number => d !== null);
+
+  return {
+    from,
+    to,
+    activities,
+    added,
+    removed,
+    manpower: compareManpower(fromRows, toRows),
+    summary: {
+      matched: activities.length,
+      statusChanges: activities.filter(a => a.statusChanged).length,
+      added: added.length,
+      removed: removed.length,
+      avgProgressDelta: average(deltas),
+    },
+  };
+}
@@ -0,0 +1,134 @@
+// src/services/monthly-series.ts
+// Stitches every monthly snapshot tab into continuous progress curves (per activity, per building, overall).
+
+import { getActivityKey } from '@/services/monthly-diff';
+import type {
+  MechanicalPlanRow,
+  MonthlySeries,
+  MonthlySeriesPoint,
+  MonthlySeriesResponse,
+  YearMonth,
+} from '@/types/monthly';
+
+export interface MonthlySnapshotInput {
+  month: YearMonth;
+  rows: MechanicalPlanRow[];
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDayNumber = (date: string): number => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+// Rows without a SnapshotDate are dated to the first of their tab's month
+function snapshotDate(row: MechanicalPlanRow, month: YearMonth): string {
+  const date = row.SnapshotDate?.trim();
+  return date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : `${month}-01`;
+}
+
+// Fill gaps on the shared timeline: linear between two observations, carried forward after the last one,
+// null before the first (the activity wasn't in the schedule yet)
+export function fillSeriesGaps(dates: string[], observed: Map<string, number>): MonthlySeriesPoint[] {
+  const known = dates.filter(d => observed.has(d));
+  return dates.map(date => {
+    const value = observed.get(date);
+    if (value !== undefined) return { date, progressPct: round1(value), interpolated: false };
+
+    const prev = [...known].reverse().find(d => d < date);
+    const next = known.find(d => d > date);
+    if (!prev) return { date, progressPct: null, interpolated: false };
+    const prevValue = observed.get(prev)!;
+    if (!next) return { date, progressPct: round1(prevValue), interpolated: true };
+
+    const nextValue = observed.get(next)!;
+    const ratio = (toDayNumber(date) - toDayNumber(prev)) / (toDayNumber(next) - toDayNumber(prev));
+    return { date, progressPct: round1(prevValue + (nextValue - prevValue) * ratio), interpolated: true };
+  });
+}
+
+// Building / overall curves average the (already gap-filled) activity curves present on each date
+function averageSeries(dates: string[], series: MonthlySeries[]): MonthlySeriesPoint[] {
+  return dates.map((date, i) => {
+    const points = series.map(s => s.points[i]).filter(p => p.progressPct !== null);
+    const value = average(points.map(p => p.progressPct as number));
+    return {
+      date,
+      progressPct: value !== null ? round1(value) : null,
+      interpolated: points.length > 0 && points.every(p => p.interpolated),
+    };
+  });
+}
+
+export function buildMonthlySeries(snapshots: MonthlySnapshotInput[]): MonthlySeriesResponse {
+  const ordered = [...snapshots].sort((a, b) => a.month.localeCompare(b.month));
+
+  const activityGroups = new Map<string, { area: string; activity: string; byDate: Map<string, number[]> }>();
+  const dateSet = new Set<string>();
+
+  for (const { month, rows } of ordered) {
+    for (const row of rows) {
+      const key = getActivityKey(row);
+      if (!key) continue;
+      const date = snapshotDate(row, month);
+      dateSet.add(date);
+
+      let group = activityGroups.get(key);
+      if (!group) {
+        group = { area: row.AreaOrBuilding?.trim() ?? '', activity: row.MechanicalActivity?.trim() ?? '', byDate: new Map() };
+        activityGroups.set(key, group);
+      }
+      if (row.CurrentProgressPct === null || row.CurrentProgressPct === undefined) continue;
+      const values = group.byDate.get(date) ?? [];
+      values.push(row.CurrentProgressPct);
+      group.byDate.set(date, values);
+    }
+  }
+
+  const dates = Array.from(dateSet).sort();
+
+  const activities: MonthlySeries[] = [];
+  activityGroups.forEach((group, key) => {
+    const observed = new Map<string, number>();
+    group.byDate.forEach((values, date) => observed.set(date, average(values) as number));
+    activities.push({
+      key,
+      label: group.activity ? `${group.area} — ${group.activity}` : group.area,
+      areaOrBuilding: group.area,
+      mechanicalActivity: group.activity,
+      points: fillSeriesGaps(dates, observed),
+    });
+  });
+
+  // Grouped before sorting so a building keeps the spelling of its earliest tab
+  const byBuilding = new Map<string, { area: string; series: MonthlySeries[] }>();
+  for (const series of activities) {
+    const key = series.key.split('|')[0];
+    const entry = byBuilding.get(key) ?? { area: series.areaOrBuilding, series: [] };
+    entry.series.push(series);
+    byBuilding.set(key, entry);
+  }
+
+  activities.sort((a, b) => a.label.localeCompare(b.label));
+
+  const buildings: MonthlySeries[] = [];
+  byBuilding.forEach((entry, key) => {
+    buildings.push({
+      key,
+      label: entry.area || 'Unassigned',
+      areaOrBuilding: entry.area,
+      points: averageSeries(dates, entry.series),
+    });
+  });
+  buildings.sort((a, b) => a.label.localeCompare(b.label));
+
+  return {
+    months: ordered.map(s => s.month),
+    dates,
+    overall: averageSeries(dates, activities),
+    buildings,
+    activities,
+  };
+}
@@ -0,0 +1,77 @@
+// src/services/monthly-summary.ts
+// Summary block of a monthly snapshot: average progress, manpower per discipline and progress per building.
+
+import type {
+  ManpowerDiscipline,
+  MechanicalPlanRow,
+  MonthlyBuildingProgress,
+  MonthlySnapshotSummary,
+} from '@/types/monthly';
+
+export const MONTHLY_MANPOWER_FIELDS: Record<ManpowerDiscipline, keyof MechanicalPlanRow> = {
+  hvac: 'ManpowerHVAC',
+  firefighting: 'ManpowerFF',
+  fireAlarm: 'ManpowerFA',
+  security: 'ManpowerSecurity',
+  total: 'ManpowerTotal',
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const numbersOf = (rows: MechanicalPlanRow[], field: keyof MechanicalPlanRow): number[] =>
+  rows.map(r => r[field]).filter((v): v is number => typeof v === 'number');
+
+// Manpower is a headcount, not a quantity: the monthly tabs copy each day's site headcount onto every activity row,
+// so a day counts once (its largest reported value) and the month is the average over its snapshot days, to one
+// decimal. Null when the month has no values.
+export function averageDailyManpower(rows: MechanicalPlanRow[], field: keyof MechanicalPlanRow): number | null {
+  const byDay = new Map<string, number>();
+  for (const row of rows) {
+    const value = row[field];
+    if (typeof value !== 'number') continue;
+    const day = row.SnapshotDate ?? '';
+    byDay.set(day, Math.max(byDay.get(day) ?? value, value));
+  }
+  const daily = average(Array.from(byDay.values()));
+  return daily === null ? null : Math.round(daily * 10) / 10;
+}
+
+export function summarizeManpowerByDiscipline(rows: MechanicalPlanRow[]): Record<ManpowerDiscipline, number | null> {
+  const result = {} as Record<ManpowerDiscipline, number | null>;
+  (Object.keys(MONTHLY_MANPOWER_FIELDS) as ManpowerDiscipline[]).forEach(discipline => {
+    result[discipline] = averageDailyManpower(rows, MONTHLY_MANPOWER_FIELDS[discipline]);
+  });
+  return result;
+}
+
+function summarizeBuildings(rows: MechanicalPlanRow[]): MonthlyBuildingProgress[] {
+  const groups = new Map<string, { label: string; rows: MechanicalPlanRow[] }>();
+  for (const row of rows) {
+    const label = row.AreaOrBuilding?.trim() || 'Unassigned';
+    const key = label.toLowerCase().replace(/\s+/g, ' ');
+    const group = groups.get(key) ?? { label, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({
+      areaOrBuilding: group.label,
+      rows: group.rows.length,
+      avgProgressPct: average(numbersOf(group.rows, 'CurrentProgressPct')),
+      manpowerTotal: averageDailyManpower(group.rows, 'ManpowerTotal'),
+    }))
+    .sort((a, b) => a.areaOrBuilding.localeCompare(b.areaOrBuilding));
+}
+
+export function summarizeMonthlySnapshot(rows: MechanicalPlanRow[]): MonthlySnapshotSummary {
+  const manpowerByDiscipline = summarizeManpowerByDiscipline(rows);
+  return {
+    totalRows: rows.length,
+    avgProgressPct: average(numbersOf(rows, 'CurrentProgressPct')),
+    totalManpower: manpowerByDiscipline.total,
+    manpowerByDiscipline,
+    progressByBuilding: summarizeBuildings(rows),
+  };
+}
@@ -0,0 +1,227 @@
+// src/services/notification-delivery.ts
+// Pushes proactive notifications out of the dashboard: a daily email digest (Arabic or English) and a JSON webhook
+// for new notifications. Which severities go where is set by NOTIFICATION_ROUTING. Server only.
+
+import { format } from 'date-fns';
+import { fetchWithTimeout } from '@/lib/http/timeout';
+import {
+  getDeliveryLog, getNotificationStore, isNotificationActive, sendMail,
+  type DeliveryChannel, type DeliveryLog, type DeliveryRecord, type MailMessage, type NotificationRouting,
+  type NotificationSeverity, type ProactiveNotification, type SmtpConfig,
+} from '@/lib/notifications';
+import enMessages from '../../messages/en.json';
+import arMessages from '../../messages/ar.json';
+
+export type DigestLocale = 'ar' | 'en';
+
+export interface DeliveryConfig {
+  routing: NotificationRouting;
+  smtp: SmtpConfig | null;
+  email: { from: string; to: string[]; locale: DigestLocale } | null;
+  webhookUrl: string | null;
+  retry: { attempts: number; delayMs: number };   // delayMs doubles after each failed attempt
+}
+
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+export const DEFAULT_ROUTING: NotificationRouting = {
+  critical: ['email', 'webhook'],
+  high: ['email', 'webhook'],
+  medium: ['email'],
+  low: [],
+};
+
+const SEVERITIES: NotificationSeverity[] = ['critical', 'high', 'medium', 'low'];
+const CHANNELS: DeliveryChannel[] = ['email', 'webhook'];
+
+// "critical:email,webhook;high:webhook;medium:email;low:" — severities left out keep their default
+export function parseRouting(value: string | undefined): NotificationRouting {
+  const routing: NotificationRouting = { ...DEFAULT_ROUTING };
+  if (!value?.trim()) return routing;
+  for (const rule of value.split(';').map(r => r.trim()).filter(Boolean)) {
+    const [severity, channels = ''] = rule.split(':').map(part => part.trim().toLowerCase());
+    if (!SEVERITIES.includes(severity as NotificationSeverity)) {
+      throw new Error(`Invalid NOTIFICATION_ROUTING severity "${severity}"`);
+    }
+    const list = channels.split(',').map(c => c.trim()).filter(Boolean);
+    const unknown = list.find(c => !CHANNELS.includes(c as DeliveryChannel));
+    if (unknown) throw new Error(`Invalid NOTIFICATION_ROUTING channel "${unknown}"`);
+    routing[severity as NotificationSeverity] = list as DeliveryChannel[];
+  }
+  return routing;
+}
+
+export function getDeliveryConfig(env: NodeJS.ProcessEnv = process.env): DeliveryConfig {
+  const secure = env.SMTP_SECURE === 'true';
+  const smtp: SmtpConfig | null = env.SMTP_HOST
+    ? {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+      }
+    : null;
+  const to = (env.NOTIFY_EMAIL_TO ?? '').split(',').map(a => a.trim()).filter(Boolean);
+  const retryDelay = Number(env.NOTIFY_RETRY_DELAY_MS);
+
+  return {
+    routing: parseRouting(env.NOTIFICATION_ROUTING),
+    smtp,
+    email: smtp && to.length > 0
+      ? { from: env.NOTIFY_EMAIL_FROM || `Project Dashboard <dashboard@${smtp.host}>`, to, locale: env.NOTIFY_EMAIL_LOCALE === 'en' ? 'en' : 'ar' }
+      : null,
+    webhookUrl: env.NOTIFY_WEBHOOK_URL || null,
+    retry: {
+      attempts: Math.max(1, Number(env.NOTIFY_RETRY_ATTEMPTS) || 3),
+      delayMs: env.NOTIFY_RETRY_DELAY_MS && retryDelay >= 0 ? retryDelay : 2000,
+    },
+  };
+}
+
+export const routedTo = (notifications: ProactiveNotification[], channel: DeliveryChannel, routing: NotificationRouting) =>
+  notifications.filter(n => routing[n.severity]?.includes(channel));
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Subject and bodies for the daily digest; notifications from the last 24 hours are listed first
+export function renderDigest(notifications: ProactiveNotification[], locale: DigestLocale, now: number = Date.now()): Pick<MailMessage, 'subject' | 'text' | 'html'> {
+  const t = (locale === 'en' ? enMessages : arMessages).digest;
+  const date = format(now, 'yyyy-MM-dd');
+  const count = (severity: NotificationSeverity) => notifications.filter(n => n.severity === severity).length;
+  const sorted = [...notifications].sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) || b.timestamp - a.timestamp);
+  const dayAgo = now - 24 * 60 * 60 * 1000;
+  const sections = [
+    { title: t.newSection, items: sorted.filter(n => n.timestamp > dayAgo) },
+    { title: t.openSection, items: sorted.filter(n => n.timestamp <= dayAgo) },
+  ].filter(section => section.items.length > 0);
+
+  const text = [
+    fill(t.intro, { total: notifications.length, date }),
+    ...sections.flatMap(section => [
+      '',
+      `== ${section.title} ==`,
+      ...section.items.flatMap(n => [
+        `[${t.severity[n.severity]}] ${n.title}`,
+        `  ${n.message}`,
+        ...(n.recommendations.length > 0 ? [`  ${t.recommendations}:`, ...n.recommendations.slice(0, 3).map(r => `   - ${r}`)] : []),
+      ]),
+    ]),
+    '',
+    t.footer,
+  ].join('\n');
+
+  const dir = locale === 'ar' ? 'rtl' : 'ltr';
+  const html = [
+    `<div dir="${dir}" style="font-family:Arial,sans-serif;font-size:14px">`,
+    `<p>${escapeHtml(fill(t.intro, { total: notifications.length, date }))}</p>`,
+    ...sections.map(section => [
+      `<h3>${escapeHtml(section.title)}</h3>`,
+      ...section.items.map(n => [
+        `<p><strong>[${escapeHtml(t.severity[n.severity])}] ${escapeHtml(n.title)}</strong><br>${escapeHtml(n.message)}</p>`,
+        n.recommendations.length > 0
+          ? `<p>${escapeHtml(t.recommendations)}:</p><ul>${n.recommendations.slice(0, 3).map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ul>`
+          : '',
+      ].join('')),
+    ].join('\n')),
+    `<p style="color:#666">${escapeHtml(t.footer)}</p>`,
+    '</div>',
+  ].join('\n');
+
+  return {
+    subject: fill(t.subject, { date, critical: count('critical'), high: count('high') }),
+    text,
+    html,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs one delivery with retries and writes the outcome to the delivery log
+async function deliver(
+  channel: DeliveryChannel,
+  notifications: ProactiveNotification[],
+  send: () => Promise<void>,
+  config: DeliveryConfig,
+  log: DeliveryLog,
+): Promise<DeliveryRecord> {
+  const startedAt = Date.now();
+  let attempts = 0;
+  let lastError: unknown = null;
+  let delay = config.retry.delayMs;
+
+  while (attempts < config.retry.attempts) {
+    attempts++;
+    try {
+      await send();
+      lastError = null;
+      break;
+    } catch (error) {
+      lastError = error;
+      console.warn(`[Delivery] ${channel} attempt ${attempts}/${config.retry.attempts} failed:`, error);
+      if (attempts < config.retry.attempts) {
+        await sleep(delay);
+        delay *= 2;
+      }
+    }
+  }
+
+  const record: DeliveryRecord = {
+    id: `${channel}-${startedAt}`,
+    channel,
+    notificationIds: notifications.map(n => n.id),
+    status: lastError ? 'failed' : 'sent',
+    attempts,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    ...(lastError ? { error: lastError instanceof Error ? lastError.message : String(lastError) } : {}),
+  };
+  if (lastError) {
+    console.error(`[Delivery] ${channel} gave up after ${attempts} attempts`);
+  } else {
+    console.log(`[Delivery] ${channel} sent ${notifications.length} notifications`);
+  }
+  await log.add(record);
+  return record;
+}
+
+// POSTs new notifications routed to the webhook; null when no webhook is configured or nothing is routed to it
+export async function sendWebhook(
+  notifications: ProactiveNotification[],
+  config: DeliveryConfig = getDeliveryConfig(),
+  log: DeliveryLog = getDeliveryLog(),
+): Promise<DeliveryRecord | null> {
+  const url = config.webhookUrl;
+  const routed = routedTo(notifications, 'webhook', config.routing);
+  if (!url || routed.length === 0) return null;
+
+  const body = JSON.stringify({ type: 'proactive_notifications', sentAt: new Date().toISOString(), notifications: routed });
+  return deliver('webhook', routed, async () => {
+    const response = await fetchWithTimeout(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    }, WEBHOOK_TIMEOUT_MS);
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+  }, config, log);
+}
+
+// Emails the daily digest of open notifications routed to email; null when email isn't configured or nothing is open
+export async function sendEmailDigest(
+  now: number = Date.now(),
+  config: DeliveryConfig = getDeliveryConfig(),
+  log: DeliveryLog = getDeliveryLog(),
+): Promise<DeliveryRecord | null> {
+  const { smtp, email } = config;
+  if (!smtp || !email) return null;
+  const open = (await getNotificationStore().list()).filter(n => isNotificationActive(n, now));
+  const routed = routedTo(open, 'email', config.routing);
+  if (routed.length === 0) return null;
+
+  const message: MailMessage = { from: email.from, to: email.to, ...renderDigest(routed, email.locale, now) };
+  return deliver('email', routed, () => sendMail(smtp, message), config, log);
+}
@@ -1,7 +1,8 @@
 // src/services/risk-analytics.ts
 // Module 3: Risk Analytics Service
 
-import { getRiskRegisterData, RiskRegisterItem } from './google-sheets';
+import { RiskRegisterItem } from './google-sheets';
+import { sheetsRepository } from './sheets-repository';
 
 export interface RiskData {
   riskId: string | null;
@@ -238,6 +239,22 @@ export function analyzeRisks(
   };
 }
 
+export type RiskLevelBand = 'high' | 'medium' | 'low';
+
+// Risk Level / Score is usually a word (High, Critical...) but some rows carry a numeric score (likelihood x severity)
+export function getRiskLevelBand(risk: Pick<RiskRegisterItem, 'riskLevelScore' | 'severityImpactLevel'>): RiskLevelBand {
+  const level = (risk.riskLevelScore || risk.severityImpactLevel || '').trim().toLowerCase();
+  const score = parseFloat(level);
+  if (!isNaN(score)) {
+    if (score >= 15) return 'high';
+    if (score >= 8) return 'medium';
+    return 'low';
+  }
+  if (level.includes('high') || level.includes('critical')) return 'high';
+  if (level.includes('medium') || level.includes('moderate')) return 'medium';
+  return 'low';
+}
+
 // Detect risks function for /detectrisks command
 export async function detectRisks(): Promise<{
   total: number;
@@ -249,7 +266,7 @@ export async function detectRisks(): Promise<{
   recommendation: string;
 } | null> {
   try {
-    const riskData = await getRiskRegisterData();
+    const riskData = await sheetsRepository.getRiskRegister();
     if (!riskData || riskData.length === 0) return null;
 
     let high = 0, medium = 0, low = 0;
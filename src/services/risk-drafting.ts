@@ -0,0 +1,110 @@
+// src/services/risk-drafting.ts
+// Gemini turns a free-text risk description into Risk Register fields. Used by POST /api/risks/analyze (typed by
+// an engineer) and by the news/document scanner (services/risk-scanner.ts); a person confirms either before it is added.
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
+import { withTimeout, AI_INSIGHTS_TIMEOUT_MS } from '@/lib/http/timeout';
+import type { RiskRegisterItem } from './google-sheets';
+
+// Fields the model fills (see expectedJsonFormat)
+export type AnalyzedRisk = Partial<Pick<RiskRegisterItem,
+    'riskDescription' | 'systemFocus' | 'likelyCauses' | 'potentialImpactConsequence' | 'likelihood' |
+    'severityImpactLevel' | 'riskLevelScore' | 'riskCategory' | 'mitigationStrategiesActions'>>;
+
+export class RiskDraftingConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RiskDraftingConfigError';
+    }
+}
+
+// --- Gemini Prompt Engineering ---
+const expectedJsonFormat = `{
+  "riskDescription": "...",
+  "systemFocus": "HVAC | Fire Protection | Plumbing | Electrical Interface | Civil Interface | Safety | Schedule | Cost | Other",
+  "likelyCauses": "...",
+  "potentialImpactConsequence": "...",
+  "likelihood": "Low | Medium | High",
+  "severityImpactLevel": "Low | Medium | High | Critical",
+  "riskLevelScore": "Low | Medium | High | Critical",
+  "riskCategory": "Technical | Safety | Schedule | Cost | Environmental | External | Operational | Other",
+  "mitigationStrategiesActions": "..."
+}`;
+
+function createGeminiPrompt(naturalLanguageDescription: string): string {
+    return `You are an expert Risk Analysis Assistant for large-scale electrical power station construction projects in Saudi Arabia, specifically focusing on the Mowaih PV 380/110 kV BSP project. Your task is to analyze the following risk description provided by a Senior Mechanical Project Engineer and extract structured information suitable for a risk register.
+
+Project Context: Mowaih PV 380/110 kV BSP, focus on Mechanical Systems (HVAC, Firefighting, Plumbing) but consider interfaces.
+
+User Input Risk Description:
+"${naturalLanguageDescription}"
+
+Your Task:
+Analyze the description and generate a JSON object containing the following fields based *only* on the provided description and project context. If information for a field is not clearly present or inferable, use "TBD" or make a reasonable assumption based on typical project risks.
+
+Required JSON Output Fields:
+1.  "riskDescription": A concise summary of the core risk.
+2.  "systemFocus": The primary system affected (e.g., HVAC, Fire Protection, Plumbing, Electrical Interface, Civil Interface, Safety, Schedule, Cost, Other). Choose the most relevant.
+3.  "likelyCauses": Potential reasons for the risk occurring.
+4.  "potentialImpactConsequence": What could happen if the risk materializes (impact on cost, time, quality, safety etc.).
+5.  "likelihood": Estimated probability (Low, Medium, High). Default to "Medium" if unsure.
+6.  "severityImpactLevel": Estimated severity of the impact (Low, Medium, High, Critical). Estimate based on the described consequence.
+7.  "riskLevelScore": Overall risk level based on likelihood and severity (Low, Medium, High, Critical). Use a standard risk matrix logic (e.g., High Severity + Medium Likelihood = High Risk).
+8.  "riskCategory": Classify the risk (e.g., Technical, Safety, Schedule, Cost, Environmental, External, Operational, Other). Choose the most fitting category.
+9.  "mitigationStrategiesActions": Suggest 1-2 potential mitigation actions. Keep it brief and practical. Use "TBD" if no clear action is suggested by the input.
+
+Output Format: Return *only* the JSON object. Make sure it is a valid JSON.
+Example (Ideal Output, no backticks needed if responseMimeType is set):
+{
+  "riskDescription": "Delay in main transformer delivery impacting schedule",
+  "systemFocus": "Schedule",
+  "likelyCauses": "Customs clearance issues",
+  "potentialImpactConsequence": "Project delay, potential penalties",
+  "likelihood": "Medium",
+  "severityImpactLevel": "High",
+  "riskLevelScore": "High",
+  "riskCategory": "Schedule",
+  "mitigationStrategiesActions": "Early procurement planning, engage customs broker proactively."
+}
+
+Now, analyze the user input provided above and generate the JSON output.
+`;
+}
+
+// Pulls the JSON object out of the model's reply (bare, or inside a ```json fence)
+export function parseAnalyzedRisk(responseText: string): AnalyzedRisk {
+    const jsonMatch = responseText.match(/```json\s*([\s\S]*?)\s*```/);
+    const cleanedJsonString = jsonMatch && jsonMatch[1] ? jsonMatch[1].trim() : responseText.trim();
+    try {
+        return JSON.parse(cleanedJsonString);
+    } catch (parseError: any) {
+        console.log("Cleaned JSON String (that failed parsing):", cleanedJsonString);
+        throw new Error(`Failed to parse AI response. Check Gemini output format. Error: ${parseError.message}`);
+    }
+}
+
+export async function draftRiskFromDescription(description: string): Promise<AnalyzedRisk> {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new RiskDraftingConfigError("Server configuration error: Gemini API Key missing.");
+    }
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({
+        model: "gemini-1.5-flash",
+        generationConfig: { temperature: 0.3, topK: 1, topP: 1, maxOutputTokens: 2048, responseMimeType: "application/json" },
+        safetySettings: [
+            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+        ],
+    });
+
+    const result = await withTimeout(model.generateContent(createGeminiPrompt(description)), AI_INSIGHTS_TIMEOUT_MS, 'generateContent');
+    const response = result.response;
+    const responseText = response.text() || response.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!responseText) {
+        if (response.promptFeedback?.blockReason) { throw new Error(`Gemini request blocked: ${response.promptFeedback.blockReason}`); }
+        throw new Error("No valid text found in Gemini response to parse.");
+    }
+    return parseAnalyzedRisk(responseText);
+}
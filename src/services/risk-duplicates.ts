@@ -0,0 +1,127 @@
+// src/services/risk-duplicates.ts
+// Likely duplicates of a new risk among the open register entries, compared on description, causes and system.
+// Token based so word order doesn't matter, fuzzy per token so spelling variants still count ("تأخير"/"تأخر",
+// "delayed"/"delay"); Arabic and English go through the same folding as the search box (lib/search-text).
+
+import type { RiskRegisterItem } from './google-sheets';
+import type { DuplicateRiskField, RiskDraft, RiskDuplicateMatch, RiskPatch } from '@/lib/risks/types';
+import { formatPotentialArray } from '@/lib/risks/sheet-row';
+import { normalizeSearchText } from '@/lib/search-text';
+import { isRiskOpen } from './risk-history';
+
+export const DUPLICATE_THRESHOLD = 0.5;
+export const MAX_DUPLICATE_MATCHES = 3;
+
+const FIELD_WEIGHTS: Record<DuplicateRiskField, number> = { riskDescription: 0.6, likelyCauses: 0.25, systemFocus: 0.15 };
+
+// Tokens closer than this (1 - edits / longer length) count as the same word
+const FUZZY_TOKEN_SIMILARITY = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'and', 'or', 'with', 'from', 'due', 'may', 'might',
+  'could', 'can', 'will', 'be', 'is', 'are', 'was', 'were', 'this', 'that', 'it', 'its', 'as', 'not', 'no',
+  'في', 'من', 'علي', 'الي', 'عن', 'مع', 'قد', 'ان', 'او', 'ما', 'لا', 'هذا', 'هذه', 'ذلك', 'التي', 'الذي', 'بسبب',
+]);
+
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+const LATIN_WORD = /^[a-z]+$/;
+
+// Crude stemming, applied the same way to both sides: Arabic definite article (with a joined و/ب/ك/ف/ل) and the
+// common English suffixes
+function stem(token: string): string {
+  if (LATIN_WORD.test(token)) {
+    if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+    if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+    if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+  }
+  const prefix = ARABIC_PREFIXES.find(p => token.startsWith(p) && token.length - p.length >= 3);
+  return prefix ? token.slice(prefix.length) : token;
+}
+
+export function riskTokens(text: string | null | undefined): string[] {
+  const tokens = normalizeSearchText(text).split(' ').filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  return Array.from(new Set(tokens.map(stem)));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) < 4) return 0; // Short words are one letter apart too easily ("gas"/"gap")
+  const similarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= FUZZY_TOKEN_SIMILARITY ? similarity : 0;
+}
+
+// Soft Dice coefficient: each token's best match on the other side, both ways
+export function tokenSetSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const best = (token: string, others: string[]) => Math.max(...others.map(other => tokenSimilarity(token, other)));
+  const total = a.reduce((sum, token) => sum + best(token, b), 0) + b.reduce((sum, token) => sum + best(token, a), 0);
+  return total / (a.length + b.length);
+}
+
+function scoreRisk(draftTokens: Record<DuplicateRiskField, string[]>, risk: RiskRegisterItem): RiskDuplicateMatch | null {
+  const fields: RiskDuplicateMatch['fields'] = {};
+  let weighted = 0;
+  let weights = 0;
+  for (const field of Object.keys(FIELD_WEIGHTS) as DuplicateRiskField[]) {
+    const existing = riskTokens(risk[field]);
+    if (draftTokens[field].length === 0 || existing.length === 0) continue;
+    const similarity = tokenSetSimilarity(draftTokens[field], existing);
+    fields[field] = Math.round(similarity * 100) / 100;
+    weighted += similarity * FIELD_WEIGHTS[field];
+    weights += FIELD_WEIGHTS[field];
+  }
+  // Without descriptions on both sides there's nothing to call a duplicate
+  if (fields.riskDescription === undefined) return null;
+  return { risk, score: Math.round((weighted / weights) * 100) / 100, fields };
+}
+
+// Open risks scoring at least `threshold`, best first
+export function findDuplicateRisks(
+  draft: RiskDraft, risks: RiskRegisterItem[], threshold: number = DUPLICATE_THRESHOLD, limit: number = MAX_DUPLICATE_MATCHES,
+): RiskDuplicateMatch[] {
+  // Array values (Gemini drafts) are joined the way they will be written to the sheet
+  const draftTokens = {
+    riskDescription: riskTokens(formatPotentialArray(draft.riskDescription, '')),
+    likelyCauses: riskTokens(formatPotentialArray(draft.likelyCauses, '')),
+    systemFocus: riskTokens(formatPotentialArray(draft.systemFocus, '')),
+  };
+  if (draftTokens.riskDescription.length === 0) return [];
+  return risks
+    .filter(risk => risk.riskId && isRiskOpen(risk.status))
+    .map(risk => scoreRisk(draftTokens, risk))
+    .filter((match): match is RiskDuplicateMatch => match !== null && match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Folding a new risk into an existing one: its mitigation is appended unless already there, and an empty owner or
+// due date is filled in (an earlier due date wins). Empty when there's nothing to add.
+export function mergeRiskPatch(existing: RiskRegisterItem, draft: RiskDraft): RiskPatch {
+  const patch: RiskPatch = {};
+  const mitigation = formatPotentialArray(draft.mitigationStrategiesActions, '').trim();
+  if (mitigation && !normalizeSearchText(existing.mitigationStrategiesActions).includes(normalizeSearchText(mitigation))) {
+    patch.mitigationStrategiesActions = existing.mitigationStrategiesActions?.trim()
+      ? `${existing.mitigationStrategiesActions.trim()}\n${mitigation}`
+      : mitigation;
+  }
+  if (!existing.actionOwner?.trim() && draft.actionOwner?.trim()) patch.actionOwner = draft.actionOwner.trim();
+  const due = draft.dueDateString?.trim();
+  const existingDue = existing.dueDateString?.trim();
+  // Only compare ISO dates; a free-text due date in the sheet is left alone
+  if (due && (!existingDue || (/^\d{4}-\d{2}-\d{2}$/.test(existingDue) && due < existingDue))) patch.dueDateString = due;
+  return patch;
+}
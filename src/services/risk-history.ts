@@ -0,0 +1,72 @@
+// Risk register history from the dashboard's audit trail (lib/risks): open risks by level over time.
+// The sheet only holds the current row, so earlier states are rebuilt by undoing audit entries newest first.
+import { addWeeks, format, startOfDay } from 'date-fns';
+import type { RiskRegisterItem } from '@/services/google-sheets';
+import { CLOSED_RISK_STATUS, type RiskAuditEntry } from '@/lib/risks/types';
+import { parseRiskBand, SCORE_BANDS, type RiskScoreBand } from '@/services/risk-matrix';
+
+export type BurndownLevel = RiskScoreBand | 'Unrated';
+
+export const BURNDOWN_LEVELS: BurndownLevel[] = [...[...SCORE_BANDS].reverse(), 'Unrated'];
+
+export interface RiskBurndownPoint {
+  date: string;                              // yyyy-MM-dd
+  open: number;
+  levels: Record<BurndownLevel, number>;     // Open risks by Risk Level / Score
+}
+
+const MAX_WEEKS = 52;
+
+export const isRiskOpen = (status: string | null | undefined) =>
+  (status ?? '').trim().toLowerCase() !== CLOSED_RISK_STATUS.toLowerCase();
+
+interface RiskState {
+  status: string | null;
+  level: string | null;
+}
+
+// Weekly samples ending today, going back `weeks` or to the first audit entry (at most a year)
+export function buildRiskBurndown(risks: RiskRegisterItem[], entries: RiskAuditEntry[], now: number = Date.now(), weeks: number = 12): RiskBurndownPoint[] {
+  const state = new Map<string, RiskState | null>();
+  risks.forEach(risk => {
+    if (risk.riskId) state.set(risk.riskId.toLowerCase(), { status: risk.status, level: risk.riskLevelScore });
+  });
+
+  const newestFirst = [...entries].sort((a, b) => b.timestamp - a.timestamp);
+  const earliest = newestFirst.length > 0 ? newestFirst[newestFirst.length - 1].timestamp : now;
+  const weeksBack = Math.min(MAX_WEEKS - 1, Math.max(weeks - 1, Math.ceil((now - earliest) / (7 * 24 * 60 * 60 * 1000))));
+  const end = startOfDay(now);
+  const samples = Array.from({ length: weeksBack + 1 }, (_, i) => i === 0 ? now : addWeeks(end, -i).getTime());
+
+  const points: RiskBurndownPoint[] = [];
+  let next = 0;
+  samples.forEach(sampleTime => {
+    // Undo everything that happened after this sample
+    while (next < newestFirst.length && newestFirst[next].timestamp > sampleTime) {
+      const entry = newestFirst[next++];
+      const key = entry.riskId.toLowerCase();
+      if (entry.action === 'create') {
+        state.set(key, null);
+        continue;
+      }
+      const current = state.get(key) ?? { status: null, level: null };
+      const reverted = { ...current };
+      entry.changes.forEach(change => {
+        if (change.field === 'status') reverted.status = change.from;
+        if (change.field === 'riskLevelScore') reverted.level = change.from;
+      });
+      state.set(key, reverted);
+    }
+
+    const levels = Object.fromEntries(BURNDOWN_LEVELS.map(level => [level, 0])) as Record<BurndownLevel, number>;
+    let open = 0;
+    state.forEach(risk => {
+      if (!risk || !isRiskOpen(risk.status)) return;
+      levels[parseRiskBand(risk.level) ?? 'Unrated']++;
+      open++;
+    });
+    points.push({ date: format(sampleTime, 'yyyy-MM-dd'), open, levels });
+  });
+
+  return points.reverse();
+}
@@ -0,0 +1,133 @@
+// src/services/risk-matrix.ts
+// 5x5 likelihood x severity matrix for the Risk Register heat map.
+// The sheet holds free text ("Medium to High (depending on ...)", "Major", "Medium-High"); the highest level
+// mentioned wins, so a risk is never drawn lower than its owner wrote it.
+
+import type { RiskRegisterItem } from './google-sheets';
+
+export type MatrixLevel = 1 | 2 | 3 | 4 | 5;
+export type RiskMatrixMode = 'inherent' | 'residual';
+export type RiskScoreBand = 'Low' | 'Medium' | 'Medium-High' | 'High' | 'Critical';
+
+export const MATRIX_LEVELS: MatrixLevel[] = [1, 2, 3, 4, 5];
+export const LIKELIHOOD_LABELS: Record<MatrixLevel, string> = { 1: 'Very Low', 2: 'Low', 3: 'Medium', 4: 'High', 5: 'Very High' };
+export const SEVERITY_LABELS: Record<MatrixLevel, string> = { 1: 'Very Low', 2: 'Low', 3: 'Medium', 4: 'High', 5: 'Critical' };
+export const SCORE_BANDS: RiskScoreBand[] = ['Low', 'Medium', 'Medium-High', 'High', 'Critical'];
+
+// Checked in order, most specific phrase first; a matched phrase is removed so "very low" doesn't also count as
+// "low". The highest level found wins.
+const LIKELIHOOD_WORDS: [RegExp, MatrixLevel][] = [
+  [/very\s*low|\brare\b/g, 1],
+  [/very\s*high|almost\s*certain/g, 5],
+  [/\bhigh\b|\blikely\b/g, 4],
+  [/medium|moderate|\bpossible\b/g, 3],
+  [/\blow\b|\bunlikely\b/g, 2],
+];
+
+const SEVERITY_WORDS: [RegExp, MatrixLevel][] = [
+  [/very\s*low|negligible|insignificant/g, 1],
+  [/critical|catastrophic|severe/g, 5],
+  [/\bhigh\b|\bmajor\b/g, 4],
+  [/medium|moderate/g, 3],
+  [/\blow\b|\bminor\b/g, 2],
+];
+
+function parseLevel(value: string | null | undefined, words: [RegExp, MatrixLevel][]): MatrixLevel | null {
+  const text = (value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  const numeric = Number(text);
+  if (Number.isInteger(numeric) && numeric >= 1 && numeric <= 5) return numeric as MatrixLevel;
+  let rest = text;
+  let best = 0;
+  words.forEach(([pattern, level]) => {
+    const stripped = rest.replace(pattern, ' ');
+    if (stripped !== rest) best = Math.max(best, level);
+    rest = stripped;
+  });
+  return best > 0 ? best as MatrixLevel : null;
+}
+
+export const parseLikelihood = (value: string | null | undefined) => parseLevel(value, LIKELIHOOD_WORDS);
+export const parseSeverity = (value: string | null | undefined) => parseLevel(value, SEVERITY_WORDS);
+
+export function scoreBand(score: number): RiskScoreBand {
+  if (score >= 20) return 'Critical';
+  if (score >= 15) return 'High';
+  if (score >= 10) return 'Medium-High';
+  if (score >= 5) return 'Medium';
+  return 'Low';
+}
+
+// Residual Risk Level as written ("Medium-High", "High", "Critical"...); null when blank or unknown
+export function parseRiskBand(value: string | null | undefined): RiskScoreBand | null {
+  const text = (value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  const numeric = Number(text);
+  if (!isNaN(numeric) && numeric > 0) return scoreBand(numeric);
+  if (text.includes('critical')) return 'Critical';
+  if (/medium\s*(-|to)\s*high/.test(text)) return 'Medium-High';
+  if (text.includes('high')) return 'High';
+  if (text.includes('medium') || text.includes('moderate')) return 'Medium';
+  if (text.includes('low')) return 'Low';
+  return null;
+}
+
+export interface MatrixPosition {
+  likelihood: MatrixLevel;
+  severity: MatrixLevel;
+}
+
+// Inherent = the sheet's likelihood x severity. Residual keeps the severity (mitigation rarely changes the
+// consequence) and moves the likelihood to the level whose score matches the Residual Risk Level, as close to the
+// inherent likelihood as possible.
+export function placeRisk(risk: Pick<RiskRegisterItem, 'likelihood' | 'severityImpactLevel' | 'residualRiskLevel'>, mode: RiskMatrixMode): MatrixPosition | null {
+  const likelihood = parseLikelihood(risk.likelihood);
+  const severity = parseSeverity(risk.severityImpactLevel);
+  if (!likelihood || !severity) return null;
+  if (mode === 'inherent') return { likelihood, severity };
+
+  const residual = parseRiskBand(risk.residualRiskLevel);
+  if (!residual) return { likelihood, severity };
+  const target = SCORE_BANDS.indexOf(residual);
+  const distance = (level: MatrixLevel) => [
+    Math.abs(SCORE_BANDS.indexOf(scoreBand(level * severity)) - target),
+    Math.abs(level - likelihood),
+    level,
+  ];
+  const best = [...MATRIX_LEVELS].sort((a, b) => {
+    const [da, db] = [distance(a), distance(b)];
+    return da[0] - db[0] || da[1] - db[1] || da[2] - db[2];
+  })[0];
+  return { likelihood: best, severity };
+}
+
+export interface RiskMatrixCell extends MatrixPosition {
+  score: number;
+  band: RiskScoreBand;
+  risks: RiskRegisterItem[];
+}
+
+export interface RiskMatrix {
+  mode: RiskMatrixMode;
+  rows: RiskMatrixCell[][];         // Likelihood 5 (top) down to 1, severity 1..5 left to right
+  unplaced: RiskRegisterItem[];     // Likelihood or severity blank/unreadable
+}
+
+export function buildRiskMatrix(risks: RiskRegisterItem[], mode: RiskMatrixMode): RiskMatrix {
+  const rows = [...MATRIX_LEVELS].reverse().map(likelihood => MATRIX_LEVELS.map((severity): RiskMatrixCell => ({
+    likelihood,
+    severity,
+    score: likelihood * severity,
+    band: scoreBand(likelihood * severity),
+    risks: [],
+  })));
+  const unplaced: RiskRegisterItem[] = [];
+
+  risks.forEach(risk => {
+    const position = placeRisk(risk, mode);
+    if (!position) { unplaced.push(risk); return; }
+    rows[5 - position.likelihood][position.severity - 1].risks.push(risk);
+  });
+
+  return { mode, rows, unplaced };
+}
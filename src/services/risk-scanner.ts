@@ -0,0 +1,140 @@
+// src/services/risk-scanner.ts
+// News / document scanner: feed items that mention a ScanKeywords phrase are drafted into candidate risks by the
+// same Gemini prompt as /api/risks/analyze and queued for someone to confirm in the Risk tab. Server only.
+
+import { randomUUID } from 'crypto';
+import { format } from 'date-fns';
+import { feedSourcesFromConfig, type FeedItem, type FeedSource } from '@/lib/feeds';
+import { getRiskDraftQueue, type RiskDraftQueue, type ScannedRiskDraft } from '@/lib/risks';
+import { containsPhrase, normalizeSearchText } from '@/lib/search-text';
+import { sheetsRepository } from './sheets-repository';
+import { draftRiskFromDescription, RiskDraftingConfigError, type AnalyzedRisk } from './risk-drafting';
+
+// Gemini calls per run; the rest wait for the next run (RISK_SCAN_MAX_DRAFTS)
+export const DEFAULT_MAX_DRAFTS_PER_SCAN = 10;
+
+const EXCERPT_LENGTH = 1500;
+
+export interface RiskScanResult {
+  sources: number;
+  items: number;
+  matched: number;
+  queued: ScannedRiskDraft[];
+  deferred: number;             // Matched but over maxDrafts
+  errors: string[];             // Feeds that failed to load, items Gemini couldn't draft
+}
+
+export interface RiskScanOptions {
+  sources: FeedSource[];
+  keywords: string[];
+  queue: RiskDraftQueue;
+  analyze?: (description: string) => Promise<AnalyzedRisk>;
+  knownSources?: string[];      // Source URLs already in the register
+  maxDrafts?: number;
+  now?: number;
+}
+
+export const feedItemKey = (item: FeedItem) => item.url || item.id;
+
+// ScanKeywords phrases found in the item's title or text, in sheet order
+export function matchScanKeywords(item: Pick<FeedItem, 'title' | 'summary'>, keywords: string[]): string[] {
+  const text = normalizeSearchText(`${item.title}\n${item.summary}`);
+  return keywords.filter(keyword => containsPhrase(text, normalizeSearchText(keyword)));
+}
+
+function describeForAnalysis(item: FeedItem, matched: string[]): string {
+  return [
+    `Potential external risk spotted in a news/document feed (matched keywords: ${matched.join(', ')}).`,
+    `Title: ${item.title}`,
+    item.url ? `Source: ${item.url}` : `Source: ${item.feed}`,
+    item.publishedAt ? `Published: ${format(item.publishedAt, 'yyyy-MM-dd')}` : null,
+    '',
+    item.summary.slice(0, EXCERPT_LENGTH),
+  ].filter(line => line !== null).join('\n');
+}
+
+export async function scanForRisks({
+  sources, keywords, queue, analyze = draftRiskFromDescription, knownSources = [], maxDrafts = DEFAULT_MAX_DRAFTS_PER_SCAN, now = Date.now(),
+}: RiskScanOptions): Promise<RiskScanResult> {
+  const result: RiskScanResult = { sources: sources.length, items: 0, matched: 0, queued: [], deferred: 0, errors: [] };
+  if (keywords.length === 0) {
+    result.errors.push('No scan keywords configured');
+    return result;
+  }
+
+  const items: FeedItem[] = [];
+  for (const source of sources) {
+    try {
+      items.push(...await source.fetchItems());
+    } catch (error) {
+      result.errors.push(`${source.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  result.items = items.length;
+
+  const seen = new Set([...(await queue.list()).map(d => d.sourceKey), ...knownSources.filter(Boolean)]);
+  const candidates = items
+    .filter(item => !seen.has(feedItemKey(item)))
+    .map(item => ({ item, matched: matchScanKeywords(item, keywords) }))
+    .filter(candidate => candidate.matched.length > 0)
+    // Newest first, so a backlog doesn't starve today's news
+    .sort((a, b) => (b.item.publishedAt ?? 0) - (a.item.publishedAt ?? 0));
+  result.matched = candidates.length;
+
+  for (const { item, matched } of candidates) {
+    const key = feedItemKey(item);
+    if (seen.has(key)) continue; // Same article in two feeds
+    if (result.queued.length >= maxDrafts) {
+      result.deferred++;
+      continue;
+    }
+    seen.add(key);
+    try {
+      const analyzed = await analyze(describeForAnalysis(item, matched));
+      result.queued.push({
+        id: randomUUID(),
+        status: 'pending',
+        createdAt: now,
+        feed: item.feed,
+        title: item.title,
+        excerpt: item.summary.slice(0, 400),
+        sourceKey: key,
+        matchedKeywords: matched,
+        risk: {
+          ...analyzed,
+          status: 'Open',
+          sourceUrl: item.url ?? item.id,
+          detectionDateString: format(now, 'yyyy-MM-dd'),
+        },
+      });
+    } catch (error) {
+      result.errors.push(`${item.title}: ${error instanceof Error ? error.message : String(error)}`);
+      // Without an API key every item would fail the same way
+      if (error instanceof RiskDraftingConfigError) break;
+    }
+  }
+
+  if (result.queued.length > 0) await queue.add(result.queued);
+  return result;
+}
+
+// The scheduled job: RISK_SCAN_FEEDS sources against the ScanKeywords tab
+export async function runRiskScan(now: number = Date.now()): Promise<RiskScanResult> {
+  const [sources, keywords, register] = await Promise.all([
+    feedSourcesFromConfig(process.env.RISK_SCAN_FEEDS),
+    sheetsRepository.getScanKeywords(),
+    sheetsRepository.getRiskRegister().catch(error => {
+      console.error('[risk-scanner] Could not read the register for known sources:', error);
+      return [];
+    }),
+  ]);
+  const maxDrafts = Number(process.env.RISK_SCAN_MAX_DRAFTS);
+  return scanForRisks({
+    sources,
+    keywords,
+    queue: getRiskDraftQueue(),
+    knownSources: register.map(risk => risk.sourceUrl ?? ''),
+    maxDrafts: Number.isFinite(maxDrafts) && maxDrafts > 0 ? maxDrafts : DEFAULT_MAX_DRAFTS_PER_SCAN,
+    now,
+  });
+}
@@ -0,0 +1,182 @@
+// src/services/schedule-simulator.ts
+// What-if simulation on top of the Mechanical Plan Gantt bars. Changes (delays, new durations, crew changes) are
+// pushed through the predecessor links resolved by critical-path.ts; successors only move when a predecessor now
+// finishes after their planned start (slack absorbs the rest). Crew changes scale the remaining work of a
+// discipline against the manpower forecast from forecasting.ts.
+
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { analyzeCriticalPath } from '@/services/critical-path';
+import { forecastManpower } from '@/services/forecasting';
+import { getActivityDiscipline, getDisciplineLabel, getDisciplineValue, type ManpowerDisciplineId, type ManpowerValues } from '@/lib/manpower-disciplines';
+import type { EnhancedMechanicalPlanRow, GanttTaskData } from '@/types';
+
+export type SimulationChange =
+  | { type: 'delay'; activityId: string; days: number }               // Late start of an activity (and everything after it)
+  | { type: 'duration'; activityId: string; durationDays: number }    // New total duration
+  | { type: 'crew'; discipline: ManpowerDisciplineId; delta: number }; // Add (+) or remove (-) workers
+
+export interface SimulationScenario {
+  id: string;
+  name: string;
+  createdAt: string; // ISO
+  changes: SimulationChange[];
+}
+
+export interface SimulatedActivity {
+  id: string;
+  name: string;
+  building: string;
+  baselineStart: number;
+  baselineFinish: number;
+  simulatedStart: number;
+  simulatedFinish: number;
+  shiftDays: number; // Finish movement, positive = later
+}
+
+export interface SimulatedBuilding {
+  building: string;
+  baselineFinish: number;
+  simulatedFinish: number;
+  shiftDays: number;
+}
+
+export interface CrewAdjustment {
+  discipline: ManpowerDisciplineId;
+  baselineCrew: number;  // Forecast average headcount over the next periods
+  simulatedCrew: number;
+  durationFactor: number; // Multiplier on remaining work
+}
+
+export interface SimulationResult {
+  baselineFinish: number | null;
+  simulatedFinish: number | null;
+  shiftDays: number;
+  activities: SimulatedActivity[];
+  buildings: SimulatedBuilding[];
+  crew: CrewAdjustment[];
+  warnings: string[];
+}
+
+const FORECAST_PARAMS = { method: 'ema', window: 3, horizon: 4 } as const;
+
+// Forecast average crew for the coming periods, falling back to the latest actual when the series is too short
+export function forecastCrew(manpower: ManpowerValues[], discipline: ManpowerDisciplineId): number | null {
+  const forecast = forecastManpower([...manpower], { ...FORECAST_PARAMS, discipline });
+  if (forecast && forecast.forecast.length > 0) {
+    return forecast.forecast.reduce((sum, v) => sum + v, 0) / forecast.forecast.length;
+  }
+  const latest = [...manpower]
+    .sort((a, b) => (a.dateString || '').localeCompare(b.dateString || ''))
+    .map(row => getDisciplineValue(row, discipline))
+    .filter((v): v is number => typeof v === 'number')
+    .pop();
+  return latest ?? null;
+}
+
+function crewAdjustments(changes: SimulationChange[], manpower: ManpowerValues[], warnings: string[]): CrewAdjustment[] {
+  const deltas = new Map<ManpowerDisciplineId, number>();
+  changes.forEach(change => {
+    if (change.type === 'crew') deltas.set(change.discipline, (deltas.get(change.discipline) ?? 0) + change.delta);
+  });
+  const adjustments: CrewAdjustment[] = [];
+  deltas.forEach((delta, discipline) => {
+    const baselineCrew = forecastCrew(manpower, discipline);
+    if (!baselineCrew || baselineCrew <= 0) {
+      warnings.push(`No ${getDisciplineLabel(discipline)} manpower history to scale against; crew change ignored.`);
+      return;
+    }
+    // At least one worker stays on the discipline, otherwise the work never finishes
+    const simulatedCrew = Math.max(1, baselineCrew + delta);
+    if (baselineCrew + delta < 1) warnings.push(`${getDisciplineLabel(discipline)} crew can't drop below 1; capped.`);
+    adjustments.push({ discipline, baselineCrew, simulatedCrew, durationFactor: baselineCrew / simulatedCrew });
+  });
+  return adjustments;
+}
+
+export function simulateSchedule(
+  tasks: GanttTaskData[],
+  plan: EnhancedMechanicalPlanRow[],
+  manpower: ManpowerValues[],
+  changes: SimulationChange[]
+): SimulationResult {
+  const warnings: string[] = [];
+  const rowsById = new Map(plan.map(row => [String(row.id), row]));
+  const taskById = new Map(tasks.map(task => [String(task.id), task]));
+  const crew = crewAdjustments(changes, manpower, warnings);
+  const crewFactor = new Map(crew.map(c => [c.discipline, c.durationFactor]));
+
+  changes.forEach(change => {
+    if (change.type !== 'crew' && !taskById.has(change.activityId)) {
+      warnings.push(`Activity ${change.activityId} has no scheduled dates; change ignored.`);
+    }
+  });
+
+  // Predecessor links between the Gantt activities only
+  const links = new Map<string, string[]>();
+  analyzeCriticalPath(plan.filter(row => taskById.has(String(row.id)))).activities.forEach(a => {
+    links.set(a.id, a.predecessorIds.filter(id => taskById.has(id)));
+  });
+
+  // Baseline order by start keeps predecessors ahead of successors (and terminates on loops)
+  const ordered = [...tasks].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const simulatedFinish = new Map<string, number>();
+  const activities: SimulatedActivity[] = ordered.map(task => {
+    const id = String(task.id);
+    const row = rowsById.get(id);
+    const baselineStart = task.start.getTime();
+    const baselineFinish = task.end.getTime();
+    let duration = Math.max(0, differenceInCalendarDays(baselineFinish, baselineStart));
+
+    let start = baselineStart;
+    (links.get(id) ?? []).forEach(pred => {
+      const predFinish = simulatedFinish.get(pred);
+      if (predFinish !== undefined && predFinish > start) start = predFinish;
+    });
+
+    changes.forEach(change => {
+      if (change.type === 'delay' && change.activityId === id) start = addDays(start, change.days).getTime();
+      if (change.type === 'duration' && change.activityId === id) duration = Math.max(0, change.durationDays);
+    });
+
+    const discipline = getActivityDiscipline(row?.mechanicalActivitySystem ?? task.name);
+    const factor = discipline ? crewFactor.get(discipline) : undefined;
+    if (factor !== undefined) {
+      const done = duration * Math.min(100, Math.max(0, task.progress ?? 0)) / 100;
+      duration = Math.round(done + (duration - done) * factor);
+    }
+
+    const finish = addDays(start, duration).getTime();
+    simulatedFinish.set(id, finish);
+    return {
+      id,
+      name: task.name,
+      building: row?.areaBuilding?.trim() || 'Unassigned',
+      baselineStart,
+      baselineFinish,
+      simulatedStart: start,
+      simulatedFinish: finish,
+      shiftDays: differenceInCalendarDays(finish, baselineFinish),
+    };
+  });
+
+  const byBuilding = new Map<string, SimulatedBuilding>();
+  activities.forEach(a => {
+    const current = byBuilding.get(a.building);
+    const baselineFinish = Math.max(current?.baselineFinish ?? -Infinity, a.baselineFinish);
+    const finish = Math.max(current?.simulatedFinish ?? -Infinity, a.simulatedFinish);
+    byBuilding.set(a.building, { building: a.building, baselineFinish, simulatedFinish: finish, shiftDays: differenceInCalendarDays(finish, baselineFinish) });
+  });
+
+  const baselineFinish = activities.length > 0 ? Math.max(...activities.map(a => a.baselineFinish)) : null;
+  const projectFinish = activities.length > 0 ? Math.max(...activities.map(a => a.simulatedFinish)) : null;
+
+  return {
+    baselineFinish,
+    simulatedFinish: projectFinish,
+    shiftDays: baselineFinish !== null && projectFinish !== null ? differenceInCalendarDays(projectFinish, baselineFinish) : 0,
+    activities,
+    buildings: Array.from(byBuilding.values()).sort((a, b) => b.shiftDays - a.shiftDays || a.building.localeCompare(b.building)),
+    crew,
+    warnings,
+  };
+}
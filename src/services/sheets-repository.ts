@@ -0,0 +1,149 @@
+// src/services/sheets-repository.ts
+// One typed entry point for every tab of the tracking sheet.
+// Routes, Grandeur commands and hooks read through here so they all see the same field names
+// (e.g. `currentProgressPercentage`, never 'Progress %'). Column matching lives in HEADER_ALIASES.
+
+import { format } from 'date-fns';
+import { withTimeout, SHEETS_TIMEOUT_MS, TimeoutError, isTimeoutError } from '@/lib/http/timeout';
+import type { MechanicalPlanRow as MonthlyPlanRow } from '@/types/monthly';
+import {
+  SHEET_NAMES,
+  getProgressSheetData,
+  getManpowerSheetData,
+  getMaterialStatusData,
+  getMechanicalPlanData,
+  getHistoricalProgressData,
+  getRiskRegisterData,
+  getScanKeywordsData,
+  getRfiLogData,
+  getMirLogData,
+  type ProgressSheetRow,
+  type ManpowerSheetRow,
+  type MaterialStatusRow,
+  type MechanicalPlanRow,
+  type HistoricalProgressRow,
+  type RiskRegisterItem,
+  type RFIRow,
+  type MIRRow,
+} from './google-sheets';
+
+// Payload of /api/project-data (also what the overview pages and AI insights consume)
+export interface ProjectData {
+  manpower: ManpowerSheetRow[];
+  mechanicalPlan: MechanicalPlanRow[];
+  riskRegister: RiskRegisterItem[];
+}
+
+const PROJECT_DATA_TTL_MS = 90 * 1000; // 90 seconds
+
+const toIsoDate = (timestamp: number | null | undefined): string | null =>
+  timestamp !== null && timestamp !== undefined ? format(timestamp, 'yyyy-MM-dd') : null;
+
+// Monthly YYYY-MM tabs use the "Full Progress History" layout; the monthly API exposes them in its own shape
+export function toMonthlyPlanRow(row: HistoricalProgressRow): MonthlyPlanRow {
+  return {
+    SnapshotDate: toIsoDate(row.snapshotTimestamp) ?? undefined,
+    DataSource: row.dataSource ?? undefined,
+    Projects: row.projects ?? undefined,
+    BuildingName: row.buildingName ?? undefined,
+    FloorRoom: row.floorRoom ?? undefined,
+    SpecificLocation: row.specificLocation ?? undefined,
+    AreaOrBuilding: row.areaBuilding ?? row.buildingName ?? undefined,
+    MechanicalActivity: row.mechanicalActivitySystem ?? undefined,
+    OriginalDuration: row.originalDurationDays ?? null,
+    CurrentProgressPct: row.currentProgressPercentage ?? null,
+    HVACPct: row.hvacPercentage ?? null,
+    FirefightingPct: row.firefightingPercentage ?? null,
+    FireAlarmPct: row.fireAlarmPercentage ?? null,
+    KeyPredecessorActivity: row.keyPredecessorActivity ?? undefined,
+    PredecessorFinishDate: toIsoDate(row.predecessorFinishTimestamp),
+    CalculatedStartDate: toIsoDate(row.calculatedStartTimestamp),
+    CalculatedFinishDate: toIsoDate(row.calculatedFinishTimestamp),
+    ManpowerTotal: row.totalManpower ?? null,
+    ManpowerHVAC: row.hvacManpower ?? null,
+    ManpowerFF: row.ffManpower ?? null,
+    ManpowerFA: row.faManpower ?? null,
+    ManpowerSecurity: row.securityManpower ?? null,
+    HVACRemarks: row.hvacRemarks ?? undefined,
+    FireRemarks: row.fireRemarks ?? undefined,
+    Remarks: row.remarksJustification ?? undefined,
+  };
+}
+
+export class SheetsRepository {
+  private projectDataCache: { data: ProjectData; ts: number } | null = null;
+
+  getProgress(sheetName: string = SHEET_NAMES.PROGRESS): Promise<ProgressSheetRow[]> {
+    return getProgressSheetData(sheetName);
+  }
+
+  getManpower(sheetName: string = SHEET_NAMES.MANPOWER): Promise<ManpowerSheetRow[]> {
+    return getManpowerSheetData(sheetName);
+  }
+
+  getMaterialStatus(sheetName: string = SHEET_NAMES.MATERIAL): Promise<MaterialStatusRow[]> {
+    return getMaterialStatusData(sheetName);
+  }
+
+  getMechanicalPlan(sheetName: string = SHEET_NAMES.PLAN): Promise<MechanicalPlanRow[]> {
+    return getMechanicalPlanData(sheetName);
+  }
+
+  getHistoricalProgress(sheetName: string = SHEET_NAMES.HISTORY): Promise<HistoricalProgressRow[]> {
+    return getHistoricalProgressData(sheetName);
+  }
+
+  getRiskRegister(sheetName: string = SHEET_NAMES.RISK_REGISTER): Promise<RiskRegisterItem[]> {
+    return getRiskRegisterData(sheetName);
+  }
+
+  getScanKeywords(sheetName: string = SHEET_NAMES.SCAN_KEYWORDS): Promise<string[]> {
+    return getScanKeywordsData(sheetName);
+  }
+
+  getRfiLog(sheetName: string = SHEET_NAMES.RFI_LOG): Promise<RFIRow[]> {
+    return getRfiLogData(sheetName);
+  }
+
+  getMirLog(sheetName: string = SHEET_NAMES.MIR_LOG): Promise<MIRRow[]> {
+    return getMirLogData(sheetName);
+  }
+
+  // Rows of one monthly snapshot tab (title as returned by GoogleSheetsService.listMonthlyTabs)
+  async getMonthlySnapshotRows(sheetTitle: string): Promise<MonthlyPlanRow[]> {
+    const rows = await getHistoricalProgressData(sheetTitle);
+    return rows.map(toMonthlyPlanRow);
+  }
+
+  async getProjectData(): Promise<ProjectData> {
+    // Serve from cache if fresh
+    if (this.projectDataCache && Date.now() - this.projectDataCache.ts < PROJECT_DATA_TTL_MS) {
+      return this.projectDataCache.data;
+    }
+
+    try {
+      const [manpower, mechanicalPlan, riskRegister] = await withTimeout(Promise.all([
+        this.getManpower(),
+        this.getMechanicalPlan(),
+        this.getRiskRegister(),
+      ]), SHEETS_TIMEOUT_MS, 'getProjectData');
+
+      const data: ProjectData = { manpower, mechanicalPlan, riskRegister };
+      this.projectDataCache = { data, ts: Date.now() };
+      return data;
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        console.error('Timeout fetching project data:', error);
+        throw new TimeoutError('Project data fetch timed out', SHEETS_TIMEOUT_MS, 'getProjectData', error);
+      }
+      console.error('Error fetching project data:', error);
+      throw error;
+    }
+  }
+
+  clearCache(): void {
+    this.projectDataCache = null;
+  }
+}
+
+export const sheetsRepository = new SheetsRepository();
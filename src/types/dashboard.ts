@@ -1,3 +1,5 @@
+import type { CompletionForecastReport } from '@/services/completion-forecast';
+
 // Base types for API responses
 export interface ApiResponse<T> {
   data?: T;
@@ -69,6 +71,7 @@ export interface RiskData {
 // AI Insights
 export interface AIInsights {
   predictedCompletionDate?: string;
+  completionForecast?: CompletionForecastReport | null; // Deterministic dates behind predictedCompletionDate
   summaryReport?: string;
   recommendations?: string[];
   riskAnalysis?: string;
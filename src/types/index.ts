@@ -149,9 +149,8 @@ export interface ManpowerSummary {
     totalManDays: number;
     avgTotalManpower: number | null;
     peakTotalManpower: number | null;
-    avgHvac: number | null;
-    avgFf: number | null;
-    avgFa: number | null;
+    // Average per configured discipline (src/lib/manpower-disciplines.ts), keyed by discipline id
+    avgByDiscipline: Record<import('../lib/manpower-disciplines').ManpowerDisciplineId, number | null>;
     numberOfDays: number;
 }
 
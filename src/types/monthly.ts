@@ -11,26 +11,57 @@ export interface MonthlyTabMeta {
   lastUpdated?: string;       // Optional, if available from Sheets metadata
 }
 
+// One row of a monthly snapshot tab, normalized from the "Full Progress History" column layout.
+// Percentages are always 0-100 (fractions such as "0.6" / "0٫6" are scaled), dates are YYYY-MM-DD.
 export interface MechanicalPlanRow {
   SnapshotDate?: string;      // ISO date if present, else omitted
   DataSource?: string;
-  AreaOrBuilding?: string;
+  Projects?: string;
+  BuildingName?: string;
+  FloorRoom?: string;
+  SpecificLocation?: string;  // Location (Room/Level), falling back to Floor/Room
+  AreaOrBuilding?: string;    // Area/Building, falling back to Building Name
   MechanicalActivity?: string;
   OriginalDuration?: number | null;
   CurrentProgressPct?: number | null; // 0-100
+  HVACPct?: number | null;
+  FirefightingPct?: number | null;
+  FireAlarmPct?: number | null;
+  KeyPredecessorActivity?: string;
+  PredecessorFinishDate?: string | null;
+  CalculatedStartDate?: string | null;
+  CalculatedFinishDate?: string | null;
   ManpowerTotal?: number | null;
+  ManpowerHVAC?: number | null;
+  ManpowerFF?: number | null;
+  ManpowerFA?: number | null;
+  ManpowerSecurity?: number | null; // Security subcontractor
+  HVACRemarks?: string;
+  FireRemarks?: string;
   Remarks?: string;
-  // ... include other normalized columns already handled in parsing logic
+}
+
+export type ManpowerDiscipline = 'hvac' | 'firefighting' | 'fireAlarm' | 'security' | 'total';
+
+export interface MonthlyBuildingProgress {
+  areaOrBuilding: string;
+  rows: number;
+  avgProgressPct: number | null;
+  manpowerTotal: number | null;
+}
+
+export interface MonthlySnapshotSummary {
+  totalRows: number;
+  avgProgressPct?: number | null;
+  totalManpower?: number | null;
+  manpowerByDiscipline?: Record<ManpowerDiscipline, number | null>; // Average daily headcount, null when the tab has no values
+  progressByBuilding?: MonthlyBuildingProgress[];
 }
 
 export interface MonthlySnapshot {
   month: YearMonth;
   rows: MechanicalPlanRow[];
-  summary?: {
-    totalRows: number;
-    avgProgressPct?: number | null;
-    totalManpower?: number | null;
-  };
+  summary?: MonthlySnapshotSummary;
 }
 
 export interface MonthlyIndexResponse {
@@ -43,3 +74,71 @@ export interface MonthlySnapshotsResponse {
   month: YearMonth;
   snapshot: MonthlySnapshot;
 }
+
+// --- Month-over-month diff (/api/monthly/diff) ---
+export type ActivityStatus = 'not_started' | 'ongoing' | 'completed';
+
+export interface MonthlyActivityRef {
+  key: string;                // Normalized "area/building|mechanical activity"
+  areaOrBuilding: string;
+  mechanicalActivity: string;
+  progressPct: number | null;
+  status: ActivityStatus;
+}
+
+export interface MonthlyActivityDiff {
+  key: string;
+  areaOrBuilding: string;
+  mechanicalActivity: string;
+  fromProgressPct: number | null;
+  toProgressPct: number | null;
+  progressDelta: number | null; // Percentage points, null when either side has no progress
+  fromStatus: ActivityStatus;
+  toStatus: ActivityStatus;
+  statusChanged: boolean;
+}
+
+export interface ManpowerChange {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface MonthlyDiffResponse {
+  from: YearMonth;
+  to: YearMonth;
+  activities: MonthlyActivityDiff[]; // Activities present in both months
+  added: MonthlyActivityRef[];       // Only in `to`
+  removed: MonthlyActivityRef[];     // Only in `from`
+  manpower: Record<ManpowerDiscipline, ManpowerChange>;
+  summary: {
+    matched: number;
+    statusChanges: number;
+    added: number;
+    removed: number;
+    avgProgressDelta: number | null;
+  };
+}
+
+// --- Multi-month time series (/api/monthly/series) ---
+export interface MonthlySeriesPoint {
+  date: string;               // YYYY-MM-DD snapshot date
+  progressPct: number | null; // null before the series' first observation
+  interpolated: boolean;      // true when the value was filled in rather than read from a tab
+}
+
+export interface MonthlySeries {
+  key: string;
+  label: string;
+  areaOrBuilding: string;
+  mechanicalActivity?: string; // Only on activity series
+  points: MonthlySeriesPoint[];
+}
+
+export interface MonthlySeriesResponse {
+  months: YearMonth[];        // Tabs that were stitched together, ascending
+  dates: string[];            // Shared timeline (every SnapshotDate seen), ascending
+  overall: MonthlySeriesPoint[];
+  buildings: MonthlySeries[];
+  activities: MonthlySeries[];
+}